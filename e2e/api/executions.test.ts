@@ -1,6 +1,11 @@
 import { test, expect } from "@playwright/test";
 import { createApiClient, type ApiClient } from "../utils/api-client";
-import { simpleLinearWorkflow, cloneWorkflow } from "../fixtures/workflows";
+import {
+	approvalWorkflow,
+	flakyWorkflow,
+	simpleLinearWorkflow,
+	cloneWorkflow,
+} from "../fixtures/workflows";
 
 /**
  * Execution API E2E Tests
@@ -8,6 +13,15 @@ import { simpleLinearWorkflow, cloneWorkflow } from "../fixtures/workflows";
  * Tests for execution lifecycle, status tracking, and control operations.
  */
 
+/** Fail the test unless `value` is set, narrowing its type */
+function defined<T>(value: T | null | undefined): T {
+	expect(value).toBeDefined();
+	if (value === undefined || value === null) {
+		throw new Error("Expected a value");
+	}
+	return value;
+}
+
 test.describe("Execution API", () => {
 	let api: ApiClient;
 
@@ -203,6 +217,42 @@ test.describe("Execution API", () => {
 
 			expect(body.data).toBeDefined();
 		});
+
+		test("should record every status change of a finished execution", async () => {
+			const workflow = cloneWorkflow(simpleLinearWorkflow);
+			const createResponse = await api.createWorkflow({
+				name: workflow.name,
+				nodes: workflow.nodes,
+				edges: workflow.edges,
+			});
+			const created = await api.assertSuccess<{ id: string }>(createResponse);
+			const runResponse = await api.runWorkflow(created.data!.id);
+			const runResult = await api.assertSuccess<{ executionId: string }>(
+				runResponse,
+			);
+			const executionId = runResult.data!.executionId;
+			await api.waitForExecution(executionId, { timeout: 10000 });
+
+			type Transition = { scope: string; nodeId?: string; fromState: string; toState: string };
+			const response = await api.getExecutionTransitions(executionId);
+			const body = await api.assertSuccess<Transition[]>(response);
+			expect(
+				body.data!
+					.filter((t) => t.scope === "execution")
+					.map((t) => [t.fromState, t.toState]),
+			).toEqual([
+				["pending", "running"],
+				["running", "completed"],
+			]);
+
+			const nodeId = workflow.nodes[0].id;
+			const nodeResponse = await api.getExecutionTransitions(executionId, nodeId);
+			const nodeBody = await api.assertSuccess<Transition[]>(nodeResponse);
+			expect(nodeBody.data!.map((t) => [t.nodeId, t.fromState, t.toState])).toEqual([
+				[nodeId, "pending", "running"],
+				[nodeId, "running", "completed"],
+			]);
+		});
 	});
 
 	test.describe("Execution Control", () => {
@@ -231,11 +281,6 @@ test.describe("Execution API", () => {
 			expect(body.data?.status).toBe("cancelled");
 		});
 
-		test.skip("should retry a failed execution", async () => {
-			// This test requires a failed workflow
-			// Would need to set up a workflow that fails predictably
-		});
-
 		test("should return error when cancelling non-running execution", async () => {
 			// Create and run a workflow
 			const workflow = cloneWorkflow(simpleLinearWorkflow);
@@ -277,4 +322,178 @@ test.describe("Execution API", () => {
 			await api.assertError(response, "NOT_FOUND", 404);
 		});
 	});
+
+	test.describe("Retry", () => {
+		/** Run the flaky workflow until it fails; returns the execution id */
+		async function runUntilFailed() {
+			const workflow = cloneWorkflow(flakyWorkflow);
+			const createResponse = await api.createWorkflow({
+				name: workflow.name,
+				nodes: workflow.nodes,
+				edges: workflow.edges,
+			});
+			const created = await api.assertSuccess<{ id: string }>(createResponse);
+			const runResponse = await api.runWorkflow(defined(created.data).id);
+			const runResult = await api.assertSuccess<{ executionId: string }>(
+				runResponse,
+			);
+			const executionId = defined(runResult.data).executionId;
+			const failed = await api.waitForExecution(executionId, { timeout: 10000 });
+			expect((failed.data as { status: string }).status).toBe("failed");
+			return executionId;
+		}
+
+		async function nodesOf(executionId: string) {
+			const response = await api.getExecutionNodes(executionId);
+			const body = await api.assertSuccess<
+				Array<{ nodeId: string; status: string; startedAt: number }>
+			>(response);
+			return defined(body.data);
+		}
+
+		test("should retry a failed execution from the failed node", async () => {
+			const executionId = await runUntilFailed();
+			const before = await nodesOf(executionId);
+
+			const response = await api.retryExecution(executionId);
+			const body = await api.assertSuccess<{
+				executionId: string;
+				retryOf: string;
+				resumeFromNodeId: string;
+			}>(response);
+			expect(response.status()).toBe(202);
+			expect(body.data?.executionId).not.toBe(executionId);
+			expect(body.data?.retryOf).toBe(executionId);
+			expect(body.data?.resumeFromNodeId).toBe("check");
+
+			const retryId = defined(body.data).executionId;
+			const finished = await api.waitForExecution(retryId, { timeout: 10000 });
+			expect((finished.data as { status: string }).status).toBe("completed");
+			const after = await nodesOf(retryId);
+			expect(after.map((n) => [n.nodeId, n.status])).toEqual([
+				["trigger", "completed"],
+				["fetch", "completed"],
+				["check", "completed"],
+				["save", "completed"],
+			]);
+			// Nodes before the failed one keep their first run
+			expect(after.find((n) => n.nodeId === "fetch")?.startedAt).toBe(
+				before.find((n) => n.nodeId === "fetch")?.startedAt,
+			);
+			// The failed execution stays failed
+			const original = await api.getExecution(executionId);
+			const originalBody = await api.assertSuccess<{ status: string }>(original);
+			expect(originalBody.data?.status).toBe("failed");
+		});
+
+		test("should rerun from a chosen node with a changed config", async () => {
+			const executionId = await runUntilFailed();
+
+			const response = await api.retryExecution(executionId, {
+				fromNodeId: "fetch",
+				config: { url: "https://example.com/v2" },
+			});
+			const body = await api.assertSuccess<{
+				executionId: string;
+				resumeFromNodeId: string;
+			}>(response);
+			expect(body.data?.resumeFromNodeId).toBe("fetch");
+			const retryId = defined(body.data).executionId;
+			await api.waitForExecution(retryId, { timeout: 10000 });
+
+			const executionResponse = await api.getExecution(retryId);
+			const execution = await api.assertSuccess<{
+				workflowSnapshot: { nodes: Array<{ id: string; config?: unknown }> };
+			}>(executionResponse);
+			expect(
+				execution.data?.workflowSnapshot.nodes.find((n) => n.id === "fetch")?.config,
+			).toEqual({ url: "https://example.com/v2" });
+		});
+
+		test("should refuse to rerun from an unknown node", async () => {
+			const executionId = await runUntilFailed();
+
+			const response = await api.retryExecution(executionId, {
+				fromNodeId: "missing",
+			});
+			await api.assertError(response, "UNKNOWN_NODE", 400);
+		});
+	});
+
+	test.describe("Approval", () => {
+		/** Run the approval workflow until it waits; returns the resume token */
+		async function runUntilWaiting() {
+			const workflow = cloneWorkflow(approvalWorkflow);
+			const createResponse = await api.createWorkflow({
+				name: workflow.name,
+				nodes: workflow.nodes,
+				edges: workflow.edges,
+			});
+			const created = await api.assertSuccess<{ id: string }>(createResponse);
+			const runResponse = await api.runWorkflow(defined(created.data).id);
+			const runResult = await api.assertSuccess<{ executionId: string }>(
+				runResponse,
+			);
+			const executionId = defined(runResult.data).executionId;
+			await api.waitForExecution(executionId, {
+				timeout: 10000,
+				expectedStatus: ["waiting"],
+			});
+
+			const nodesResponse = await api.getExecutionNodes(executionId);
+			const nodes = await api.assertSuccess<
+				Array<{ nodeId: string; status: string; resumeToken?: string }>
+			>(nodesResponse);
+			const approval = nodes.data?.find((n) => n.nodeId === "approve");
+			expect(approval?.status).toBe("waiting");
+			return { executionId, token: defined(approval?.resumeToken) };
+		}
+
+		test("should resume a waiting execution with form data", async () => {
+			const { executionId, token } = await runUntilWaiting();
+
+			const response = await api.resumeExecution(executionId, token, {
+				data: { amount: 42 },
+				respondedBy: "e2e",
+			});
+			const body = await api.assertSuccess<{ status: string }>(response);
+			expect(body.data?.status).toBe("running");
+
+			const finished = await api.waitForExecution(executionId, { timeout: 10000 });
+			expect((finished.data as { status: string }).status).toBe("completed");
+		});
+
+		test("should reject form data that does not match the properties", async () => {
+			const { executionId, token } = await runUntilWaiting();
+
+			const response = await api.resumeExecution(executionId, token, {
+				data: { amount: "lots" },
+			});
+			await api.assertError(response, "INVALID_INPUT", 400);
+		});
+
+		test("should reject a waiting execution", async () => {
+			const { executionId, token } = await runUntilWaiting();
+
+			const response = await api.rejectExecution(executionId, token, {
+				comment: "Not this time",
+			});
+			await api.assertSuccess(response);
+
+			const nodesResponse = await api.getExecutionNodes(executionId);
+			const nodes = await api.assertSuccess<
+				Array<{ nodeId: string; output?: { decision?: string } }>
+			>(nodesResponse);
+			expect(nodes.data?.find((n) => n.nodeId === "approve")?.output?.decision).toBe(
+				"rejected",
+			);
+		});
+
+		test("should refuse an unknown resume token", async () => {
+			const { executionId } = await runUntilWaiting();
+
+			const response = await api.resumeExecution(executionId, "rt_unknown");
+			await api.assertError(response, "INVALID_TOKEN", 400);
+		});
+	});
 });
@@ -121,6 +121,64 @@ test.describe("Workflow API", () => {
 		});
 	});
 
+	test.describe("Graph Validation", () => {
+		test("should report diagnostics without saving", async () => {
+			const workflow = cloneWorkflow(simpleLinearWorkflow);
+			const response = await api.validateWorkflow({
+				nodes: workflow.nodes,
+				edges: [
+					...workflow.edges,
+					{ id: "e-ghost", source: "transform", target: "ghost" },
+				],
+			});
+			const body = await api.assertSuccess<{
+				valid: boolean;
+				diagnostics: Array<{ code: string; edgeId?: string }>;
+			}>(response);
+
+			expect(body.data?.valid).toBe(false);
+			expect(body.data?.diagnostics).toContainEqual(
+				expect.objectContaining({
+					code: "unknown-target-node",
+					edgeId: "e-ghost",
+				}),
+			);
+		});
+
+		test("should reject creating a workflow with an invalid graph", async () => {
+			const workflow = cloneWorkflow(simpleLinearWorkflow);
+			const response = await api.createWorkflow({
+				name: workflow.name,
+				nodes: workflow.nodes.filter((node) => node.type !== "trigger"),
+				edges: [],
+			});
+
+			const body = await api.assertError(response, "VALIDATION_ERROR", 400);
+			expect(body.error?.details).toContainEqual(
+				expect.objectContaining({ code: "missing-trigger" }),
+			);
+		});
+
+		test("should reject updates that introduce a cycle", async () => {
+			const workflow = cloneWorkflow(simpleLinearWorkflow);
+			const createResponse = await api.createWorkflow({
+				name: workflow.name,
+				nodes: workflow.nodes,
+				edges: workflow.edges,
+			});
+			const created = await api.assertSuccess<{ id: string }>(createResponse);
+
+			const response = await api.updateWorkflow(created.data!.id, {
+				edges: [
+					...workflow.edges,
+					{ id: "e-back", source: "output", target: "transform" },
+				],
+			});
+
+			await api.assertError(response, "VALIDATION_ERROR", 400);
+		});
+	});
+
 	test.describe("Workflow Execution", () => {
 		test("should trigger workflow execution", async () => {
 			// Create workflow
@@ -14,6 +14,7 @@ export interface TestNode {
 	config?: Record<string, unknown>;
 	package?: string;
 	action?: string;
+	properties?: Array<Record<string, unknown>>;
 	metadata?: Record<string, unknown>;
 }
 
@@ -260,6 +261,85 @@ export const apiCallWorkflow: TestWorkflow = {
 	],
 };
 
+/**
+ * Workflow that waits for an approval form before shipping
+ */
+export const approvalWorkflow: TestWorkflow = {
+	name: "Approval Workflow",
+	description: "Workflow that pauses for a human decision",
+	nodes: [
+		{
+			id: "trigger",
+			type: "trigger",
+			position: { x: 0, y: 0 },
+			config: { nodeType: "trigger" },
+		},
+		{
+			id: "approve",
+			type: "approval",
+			position: { x: 200, y: 0 },
+			config: { mode: "form", message: "Approve the refund?" },
+			properties: [
+				{ name: "amount", displayName: "Amount", type: "number", required: true, secret: false },
+			],
+		},
+		{
+			id: "ship",
+			type: "action",
+			position: { x: 400, y: 0 },
+			package: "http",
+			action: "post",
+		},
+	],
+	edges: [
+		{ id: "e1", source: "trigger", target: "approve" },
+		{ id: "e2", source: "approve", target: "ship" },
+	],
+};
+
+/**
+ * Workflow whose "check" node fails on the first run of each execution
+ */
+export const flakyWorkflow: TestWorkflow = {
+	name: "Flaky Workflow",
+	description: "Workflow that fails once, then succeeds on retry",
+	nodes: [
+		{
+			id: "trigger",
+			type: "trigger",
+			position: { x: 0, y: 0 },
+			config: { nodeType: "trigger" },
+		},
+		{
+			id: "fetch",
+			type: "action",
+			position: { x: 200, y: 0 },
+			package: "http",
+			action: "get",
+		},
+		{
+			id: "check",
+			type: "action",
+			position: { x: 400, y: 0 },
+			package: "http",
+			action: "get",
+			config: { simulateFailures: 1 },
+		},
+		{
+			id: "save",
+			type: "action",
+			position: { x: 600, y: 0 },
+			package: "http",
+			action: "post",
+		},
+	],
+	edges: [
+		{ id: "e1", source: "trigger", target: "fetch" },
+		{ id: "e2", source: "fetch", target: "check" },
+		{ id: "e3", source: "check", target: "save" },
+	],
+};
+
 /**
  * Generate a unique workflow name
  */
@@ -91,6 +91,16 @@ export class ApiClient {
 		return response;
 	}
 
+	/**
+	 * Check a workflow graph without saving it
+	 */
+	async validateWorkflow(workflow: { nodes?: unknown[]; edges?: unknown[] }) {
+		const response = await this.request.post("/api/workflows/validate", {
+			data: { workflow },
+		});
+		return response;
+	}
+
 	/**
 	 * Trigger workflow execution
 	 */
@@ -180,11 +190,47 @@ export class ApiClient {
 	}
 
 	/**
-	 * Retry a failed execution
+	 * Retry a failed execution from the first node that did not complete, or
+	 * rerun it from `fromNodeId`, optionally with a changed `config`. The retry
+	 * runs as a new execution, whose id the response returns
 	 */
-	async retryExecution(executionId: string) {
+	async retryExecution(
+		executionId: string,
+		body?: { fromNodeId?: string; config?: Record<string, unknown> },
+	) {
 		const response = await this.request.post(
 			`/api/executions/${executionId}/retry`,
+			{ data: body ?? {} },
+		);
+		return response;
+	}
+
+	/**
+	 * Approve the approval node waiting on `token`, submitting form `data`
+	 */
+	async resumeExecution(
+		executionId: string,
+		token: string,
+		body?: { data?: Record<string, unknown>; respondedBy?: string; comment?: string },
+	) {
+		const response = await this.request.post(
+			`/api/executions/${executionId}/resume`,
+			{ data: { token, ...body } },
+		);
+		return response;
+	}
+
+	/**
+	 * Reject the approval node waiting on `token`
+	 */
+	async rejectExecution(
+		executionId: string,
+		token: string,
+		body?: { respondedBy?: string; comment?: string },
+	) {
+		const response = await this.request.post(
+			`/api/executions/${executionId}/reject`,
+			{ data: { token, ...body } },
 		);
 		return response;
 	}
@@ -6,6 +6,11 @@
  */
 
 import type { Page, APIRequestContext, Route } from "@playwright/test";
+import {
+	canTransition,
+	executionStateMachine,
+	transition,
+} from "../../packages/schema/src/execution/state-machine";
 
 /**
  * Mock data storage
@@ -14,6 +19,7 @@ interface MockStore {
 	workflows: Map<string, MockWorkflow>;
 	executions: Map<string, MockExecution>;
 	nodeExecutions: Map<string, MockNodeExecution[]>;
+	transitions: Map<string, MockTransition[]>;
 }
 
 interface MockWorkflow {
@@ -32,6 +38,15 @@ interface MockExecution {
 	startedAt: number;
 	completedAt?: number;
 	duration?: number;
+	retryOf?: string;
+}
+
+interface MockTransition {
+	executionId: string;
+	timestamp: number;
+	scope: "execution";
+	fromState: string;
+	toState: string;
 }
 
 interface MockNodeExecution {
@@ -52,9 +67,54 @@ export function createMockStore(): MockStore {
 		workflows: new Map(),
 		executions: new Map(),
 		nodeExecutions: new Map(),
+		transitions: new Map(),
 	};
 }
 
+/**
+ * Move an execution to `toState` and record the transition; throws for a
+ * move the execution state machine does not allow
+ */
+function moveExecution(store: MockStore, execution: MockExecution, toState: string): void {
+	const fromState = execution.status;
+	execution.status = transition(executionStateMachine, fromState, toState);
+	const recorded = store.transitions.get(execution.executionId) ?? [];
+	store.transitions.set(execution.executionId, recorded);
+	recorded.push({
+		executionId: execution.executionId,
+		timestamp: Date.now(),
+		scope: "execution",
+		fromState,
+		toState,
+	});
+}
+
+/**
+ * Start a pending execution and complete all of `nodes` after a delay,
+ * unless it was cancelled in the meantime
+ */
+function simulateExecution(store: MockStore, execution: MockExecution, nodes: unknown[]): void {
+	setTimeout(() => {
+		if (execution.status !== "pending") return;
+		moveExecution(store, execution, "running");
+		execution.completedAt = Date.now();
+		execution.duration = execution.completedAt - execution.startedAt;
+
+		// Create node executions
+		const nodeExecs: MockNodeExecution[] = nodes.map((node: any, i: number) => ({
+			nodeId: node.id || `node-${i}`,
+			executionId: execution.executionId,
+			status: "completed",
+			startedAt: execution.startedAt + i * 100,
+			completedAt: execution.startedAt + (i + 1) * 100,
+			duration: 100,
+			output: { processed: true },
+		}));
+		store.nodeExecutions.set(execution.executionId, nodeExecs);
+		moveExecution(store, execution, "completed");
+	}, 500);
+}
+
 /**
  * Generate a unique ID
  */
@@ -171,26 +231,7 @@ export function createMockHandlers(store: MockStore) {
 			store.executions.set(executionId, execution);
 
 			// Simulate async execution completion
-			setTimeout(() => {
-				const exec = store.executions.get(executionId);
-				if (exec) {
-					exec.status = "completed";
-					exec.completedAt = Date.now();
-					exec.duration = exec.completedAt - exec.startedAt;
-
-					// Create node executions
-					const nodeExecs: MockNodeExecution[] = workflow.nodes.map((node: any, i: number) => ({
-						nodeId: node.id || `node-${i}`,
-						executionId,
-						status: "completed",
-						startedAt: exec.startedAt + i * 100,
-						completedAt: exec.startedAt + (i + 1) * 100,
-						duration: 100,
-						output: { processed: true },
-					}));
-					store.nodeExecutions.set(executionId, nodeExecs);
-				}
-			}, 500);
+			simulateExecution(store, execution, workflow.nodes);
 
 			return json(
 				{ success: true, data: { executionId, status: "pending", workflowId } },
@@ -256,17 +297,7 @@ export function createMockHandlers(store: MockStore) {
 		const transitionsMatch = path.match(/^\/api\/executions\/([^/]+)\/transitions$/);
 		if (transitionsMatch && method === "GET") {
 			const id = transitionsMatch[1];
-			const execution = store.executions.get(id);
-			if (!execution) {
-				return json({ success: true, data: [] });
-			}
-			return json({
-				success: true,
-				data: [
-					{ fromState: "pending", toState: "running", timestamp: execution.startedAt },
-					{ fromState: "running", toState: execution.status, timestamp: execution.completedAt || Date.now() },
-				],
-			});
+			return json({ success: true, data: store.transitions.get(id) ?? [] });
 		}
 
 		// POST /api/executions/:id/cancel
@@ -280,13 +311,13 @@ export function createMockHandlers(store: MockStore) {
 					404,
 				);
 			}
-			if (execution.status !== "running" && execution.status !== "pending") {
+			if (!canTransition(executionStateMachine, execution.status, "cancelled")) {
 				return json(
 					{ success: false, error: { code: "INVALID_STATE", message: `Cannot cancel execution with status: ${execution.status}` } },
 					400,
 				);
 			}
-			execution.status = "cancelled";
+			moveExecution(store, execution, "cancelled");
 			return json({ success: true, data: { executionId: id, status: "cancelled", workflowId: execution.workflowId } });
 		}
 
@@ -307,8 +338,20 @@ export function createMockHandlers(store: MockStore) {
 					400,
 				);
 			}
-			execution.status = "pending";
-			return json({ success: true, data: { executionId: id, status: "pending", workflowId: execution.workflowId } }, 202);
+			// A retry is a new execution; the failed one keeps its status
+			const retry: MockExecution = {
+				executionId: generateId("ex"),
+				workflowId: execution.workflowId,
+				status: "pending",
+				startedAt: Date.now(),
+				retryOf: id,
+			};
+			store.executions.set(retry.executionId, retry);
+			simulateExecution(store, retry, store.workflows.get(execution.workflowId)?.nodes ?? []);
+			return json(
+				{ success: true, data: { executionId: retry.executionId, status: "pending", workflowId: retry.workflowId, retryOf: id } },
+				202,
+			);
 		}
 
 		// Fallback - not found
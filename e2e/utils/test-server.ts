@@ -6,6 +6,22 @@
  */
 
 import * as http from "node:http";
+import { validateNodeConfig } from "../../packages/schema/src/config";
+import {
+	canTransition,
+	executionStateMachine,
+	isTerminalState,
+	nodeStateMachine,
+	type StateMachine,
+	transition,
+} from "../../packages/schema/src/execution/state-machine";
+import type { Property } from "../../packages/schema/src/property";
+import {
+	hasGraphErrors,
+	validateWorkflowGraph,
+	type WorkflowDiagnostic,
+	type WorkflowGraph,
+} from "../../packages/schema/src/validation";
 
 interface Workflow {
 	id: string;
@@ -26,6 +42,13 @@ interface Execution {
 	completedAt?: number;
 	duration?: number;
 	vars?: Record<string, unknown>;
+	/** Graph the execution runs, copied from the workflow when it started */
+	workflowSnapshot: { nodes: unknown[]; edges: unknown[] };
+	/** Times the execution was retried */
+	retryCount: number;
+	/** Execution this one retries */
+	retryOf?: string;
+	error?: { message: string; nodeId: string };
 }
 
 interface NodeExecution {
@@ -36,17 +59,84 @@ interface NodeExecution {
 	completedAt?: number;
 	duration?: number;
 	output?: unknown;
+	error?: { message: string };
+	resumeToken?: string;
+}
+
+interface Transition {
+	id: number;
+	executionId: string;
+	timestamp: number;
+	scope: "execution" | "node";
+	nodeId?: string;
+	fromState: string;
+	toState: string;
+	reason?: string;
+}
+
+interface SimulatedNode {
+	id?: string;
+	type?: string;
+	config?: Record<string, unknown>;
+	properties?: Property[];
+}
+
+/**
+ * Approval node waiting for a response, by resume token
+ */
+interface PendingApproval {
+	executionId: string;
+	node: SimulatedNode & { id: string };
+	index: number;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+interface ApprovalOutcome {
+	decision: "approved" | "rejected" | "escalated";
+	data?: Record<string, unknown>;
+	respondedBy?: string;
+	comment?: string;
 }
 
 // In-memory storage
 const workflows = new Map<string, Workflow>();
 const executions = new Map<string, Execution>();
 const nodeExecutions = new Map<string, NodeExecution[]>();
+const approvals = new Map<string, PendingApproval>();
+const transitions = new Map<string, Transition[]>();
 
 function generateId(prefix: string): string {
 	return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
 }
 
+/**
+ * Move the execution, or `nodeExec` when given, to `toState` and record the
+ * transition; throws for a move its state machine does not allow
+ */
+function move(
+	execution: Execution,
+	toState: string,
+	nodeExec?: NodeExecution,
+	reason?: string,
+): void {
+	const machine: StateMachine<string> = nodeExec ? nodeStateMachine : executionStateMachine;
+	const subject = nodeExec ?? execution;
+	const fromState = subject.status;
+	subject.status = transition(machine, fromState, toState);
+	const recorded = transitions.get(execution.executionId) ?? [];
+	transitions.set(execution.executionId, recorded);
+	recorded.push({
+		id: recorded.length + 1,
+		executionId: execution.executionId,
+		timestamp: Date.now(),
+		scope: machine.scope,
+		nodeId: nodeExec?.nodeId,
+		fromState,
+		toState,
+		reason,
+	});
+}
+
 function parseBody(req: http.IncomingMessage): Promise<unknown> {
 	return new Promise((resolve, reject) => {
 		let body = "";
@@ -62,6 +152,31 @@ function parseBody(req: http.IncomingMessage): Promise<unknown> {
 	});
 }
 
+function validateGraph(workflow: Pick<Workflow, "nodes" | "edges">): WorkflowDiagnostic[] {
+	return validateWorkflowGraph({
+		nodes: workflow.nodes,
+		edges: workflow.edges,
+	} as WorkflowGraph);
+}
+
+function sendValidationError(
+	res: http.ServerResponse,
+	diagnostics: WorkflowDiagnostic[],
+): void {
+	sendJson(
+		res,
+		{
+			success: false,
+			error: {
+				code: "VALIDATION_ERROR",
+				message: "Workflow graph is invalid",
+				details: diagnostics,
+			},
+		},
+		400,
+	);
+}
+
 function sendJson(
 	res: http.ServerResponse,
 	data: unknown,
@@ -76,6 +191,117 @@ function sendJson(
 	res.end(JSON.stringify(data));
 }
 
+/**
+ * Simulate running the snapshot's nodes in order, starting at `from`. Stops
+ * in the `waiting` state at the first approval node, which escalates (or
+ * rejects, with `onTimeout: "reject"`) once its `respondWithinMs` runs out.
+ * A node with `config.simulateFailures: n` fails the first `n` runs of the
+ * execution.
+ */
+function simulateNodes(execution: Execution, from: number): void {
+	const { executionId } = execution;
+	const nodes = (execution.workflowSnapshot.nodes as SimulatedNode[]) || [];
+	const nodeExecs = nodeExecutions.get(executionId) ?? [];
+	nodeExecutions.set(executionId, nodeExecs);
+	const startedAt = from === 0 ? execution.startedAt : Date.now();
+
+	for (let i = from; i < nodes.length; i++) {
+		const node = { ...nodes[i], id: nodes[i].id || `node-${i}` };
+		const nodeExec: NodeExecution = {
+			nodeId: node.id,
+			executionId,
+			status: "pending",
+			startedAt: startedAt + (i - from) * 50,
+		};
+		nodeExecs.push(nodeExec);
+		move(execution, "running", nodeExec);
+		if (node.type === "approval") {
+			const resumeToken = generateId("rt");
+			const respondWithinMs = node.config?.respondWithinMs;
+			const outcome: ApprovalOutcome = {
+				decision: node.config?.onTimeout === "reject" ? "rejected" : "escalated",
+				comment: `No response within ${respondWithinMs}ms`,
+			};
+			nodeExec.resumeToken = resumeToken;
+			move(execution, "waiting", nodeExec, "Waiting for approval");
+			approvals.set(resumeToken, {
+				executionId,
+				node,
+				index: i,
+				timer:
+					typeof respondWithinMs === "number"
+						? setTimeout(() => respondToApproval(resumeToken, outcome), respondWithinMs)
+						: undefined,
+			});
+			move(execution, "waiting", undefined, `Node ${node.id} is waiting for approval`);
+			return;
+		}
+		nodeExec.completedAt = startedAt + (i - from + 1) * 50;
+		nodeExec.duration = 50;
+		const failures = node.config?.simulateFailures;
+		if (typeof failures === "number" && execution.retryCount < failures) {
+			const message = `Simulated failure ${execution.retryCount + 1} of ${failures}`;
+			nodeExec.error = { message };
+			move(execution, "failed", nodeExec, message);
+			execution.error = { message, nodeId: node.id };
+			execution.completedAt = Date.now();
+			execution.duration = execution.completedAt - execution.startedAt;
+			move(execution, "failed", undefined, message);
+			return;
+		}
+		nodeExec.output = { processed: true, nodeId: node.id };
+		move(execution, "completed", nodeExec);
+	}
+
+	execution.completedAt = Date.now();
+	execution.duration = execution.completedAt - execution.startedAt;
+	move(execution, "completed");
+}
+
+/**
+ * Move a pending execution to running and simulate its nodes from `from`,
+ * unless it was cancelled in the meantime
+ */
+function startExecution(execution: Execution, from: number): void {
+	if (execution.status !== "pending") return;
+	move(execution, "running", undefined, "Execution started");
+	setTimeout(() => {
+		if (execution.status === "running") {
+			simulateNodes(execution, from);
+		}
+	}, 200);
+}
+
+/**
+ * Complete the approval node waiting on `resumeToken` with `outcome` and
+ * carry on with the nodes after it
+ */
+function respondToApproval(resumeToken: string, outcome: ApprovalOutcome): void {
+	const approval = approvals.get(resumeToken);
+	if (!approval) return;
+	clearTimeout(approval.timer);
+	approvals.delete(resumeToken);
+
+	const execution = executions.get(approval.executionId);
+	if (!execution) return;
+	const nodeExec = nodeExecutions
+		.get(execution.executionId)
+		?.find((n) => n.resumeToken === resumeToken);
+	move(execution, "running", undefined, `Approval ${outcome.decision}`);
+	if (nodeExec) {
+		move(execution, "running", nodeExec, `Approval ${outcome.decision}`);
+		nodeExec.completedAt = Date.now();
+		nodeExec.duration = nodeExec.completedAt - (nodeExec.startedAt ?? nodeExec.completedAt);
+		nodeExec.output = { ...outcome, respondedAt: nodeExec.completedAt };
+		move(execution, "completed", nodeExec);
+	}
+	setTimeout(() => {
+		if (execution.status === "running") {
+			simulateNodes(execution, approval.index + 1);
+		}
+	}, 200);
+}
+
 async function handleRequest(
 	req: http.IncomingMessage,
 	res: http.ServerResponse,
@@ -109,6 +335,19 @@ async function handleRequest(
 		});
 	}
 
+	// POST /api/workflows/validate
+	if (path === "/api/workflows/validate" && method === "POST") {
+		const body = (await parseBody(req)) as { workflow?: Partial<Workflow> };
+		const diagnostics = validateGraph({
+			nodes: body.workflow?.nodes || [],
+			edges: body.workflow?.edges || [],
+		});
+		return sendJson(res, {
+			success: true,
+			data: { valid: !hasGraphErrors(diagnostics), diagnostics },
+		});
+	}
+
 	// POST /api/workflows
 	if (path === "/api/workflows" && method === "POST") {
 		const body = (await parseBody(req)) as { workflow?: Partial<Workflow> };
@@ -122,6 +361,10 @@ async function handleRequest(
 			createdAt: Date.now(),
 			updatedAt: Date.now(),
 		};
+		const diagnostics = validateGraph(workflow);
+		if (hasGraphErrors(diagnostics)) {
+			return sendValidationError(res, diagnostics);
+		}
 		workflows.set(workflow.id, workflow);
 		return sendJson(res, { success: true, data: workflow }, 201);
 	}
@@ -160,6 +403,13 @@ async function handleRequest(
 			);
 		}
 		const body = (await parseBody(req)) as { workflow?: Partial<Workflow> };
+		const diagnostics = validateGraph({
+			nodes: body.workflow?.nodes || workflow.nodes,
+			edges: body.workflow?.edges || workflow.edges,
+		});
+		if (hasGraphErrors(diagnostics)) {
+			return sendValidationError(res, diagnostics);
+		}
 		Object.assign(workflow, body.workflow, { updatedAt: Date.now() });
 		return sendJson(res, { success: true, data: workflow });
 	}
@@ -209,34 +459,13 @@ async function handleRequest(
 			status: "pending",
 			startedAt: Date.now(),
 			vars: body.vars,
+			workflowSnapshot: structuredClone({ nodes: workflow.nodes, edges: workflow.edges }),
+			retryCount: 0,
 		};
 		executions.set(executionId, execution);
 
 		// Simulate async execution
-		setTimeout(() => {
-			const exec = executions.get(executionId);
-			if (exec) {
-				exec.status = "running";
-				setTimeout(() => {
-					exec.status = "completed";
-					exec.completedAt = Date.now();
-					exec.duration = exec.completedAt - exec.startedAt;
-
-					// Create node executions
-					const nodes = (workflow.nodes as Array<{ id: string }>) || [];
-					const nodeExecs: NodeExecution[] = nodes.map((node, i) => ({
-						nodeId: node.id || `node-${i}`,
-						executionId,
-						status: "completed",
-						startedAt: exec.startedAt + i * 50,
-						completedAt: exec.startedAt + (i + 1) * 50,
-						duration: 50,
-						output: { processed: true, nodeId: node.id },
-					}));
-					nodeExecutions.set(executionId, nodeExecs);
-				}, 200);
-			}
-		}, 100);
+		setTimeout(() => startExecution(execution, 0), 100);
 
 		return sendJson(
 			res,
@@ -319,27 +548,12 @@ async function handleRequest(
 	);
 	if (transitionsMatch && method === "GET") {
 		const id = transitionsMatch[1];
-		const execution = executions.get(id);
-		if (!execution) {
-			return sendJson(res, { success: true, data: [] });
-		}
-		const transitions = [
-			{
-				fromState: "pending",
-				toState: "running",
-				timestamp: execution.startedAt,
-				scope: "execution",
-			},
-		];
-		if (execution.completedAt) {
-			transitions.push({
-				fromState: "running",
-				toState: execution.status,
-				timestamp: execution.completedAt,
-				scope: "execution",
-			});
-		}
-		return sendJson(res, { success: true, data: transitions });
+		const nodeId = url.searchParams.get("nodeId");
+		const recorded = transitions.get(id) ?? [];
+		return sendJson(res, {
+			success: true,
+			data: nodeId ? recorded.filter((t) => t.nodeId === nodeId) : recorded,
+		});
 	}
 
 	// POST /api/executions/:id/cancel
@@ -357,7 +571,7 @@ async function handleRequest(
 				404,
 			);
 		}
-		if (execution.status !== "running" && execution.status !== "pending") {
+		if (!canTransition(executionStateMachine, execution.status, "cancelled")) {
 			return sendJson(
 				res,
 				{
@@ -370,8 +584,18 @@ async function handleRequest(
 				400,
 			);
 		}
-		execution.status = "cancelled";
+		for (const [resumeToken, approval] of approvals) {
+			if (approval.executionId !== id) continue;
+			clearTimeout(approval.timer);
+			approvals.delete(resumeToken);
+		}
+		for (const nodeExec of nodeExecutions.get(id) ?? []) {
+			if (canTransition(nodeStateMachine, nodeExec.status, "cancelled")) {
+				move(execution, "cancelled", nodeExec, "Execution cancelled");
+			}
+		}
 		execution.completedAt = Date.now();
+		move(execution, "cancelled", undefined, "Execution cancelled");
 		return sendJson(res, {
 			success: true,
 			data: {
@@ -397,7 +621,15 @@ async function handleRequest(
 				404,
 			);
 		}
-		if (execution.status !== "failed") {
+		const body = (await parseBody(req)) as {
+			fromNodeId?: string;
+			config?: Record<string, unknown>;
+		};
+		// Only a finished execution can be retried; one that completed only
+		// when rerun from a chosen node
+		const retryable = isTerminalState(executionStateMachine, execution.status)
+			&& (execution.status !== "completed" || body.fromNodeId !== undefined);
+		if (!retryable) {
 			return sendJson(
 				res,
 				{
@@ -410,16 +642,160 @@ async function handleRequest(
 				400,
 			);
 		}
-		execution.status = "pending";
-		execution.startedAt = Date.now();
-		execution.completedAt = undefined;
+		// Resume from the first node that did not complete, or from the chosen
+		// node when it comes first; the nodes before it keep their outputs
+		const nodes = execution.workflowSnapshot.nodes as SimulatedNode[];
+		const ids = nodes.map((node, i) => node.id || `node-${i}`);
+		const nodeExecs = nodeExecutions.get(id) || [];
+		const chosen = body.fromNodeId ? ids.indexOf(body.fromNodeId) : ids.length;
+		if (chosen === -1) {
+			return sendJson(
+				res,
+				{
+					success: false,
+					error: {
+						code: "UNKNOWN_NODE",
+						message: `Node ${body.fromNodeId} is not in the workflow snapshot`,
+					},
+				},
+				400,
+			);
+		}
+		const incomplete = ids.findIndex(
+			(nodeId) =>
+				!nodeExecs.some(
+					(ne) => ne.nodeId === nodeId && ne.status === "completed",
+				),
+		);
+		const from = Math.min(chosen, incomplete === -1 ? ids.length : incomplete);
+		// The retry is a new execution: it copies the snapshot and the runs of
+		// the nodes before `from`, which it restores from the checkpoint
+		const retry: Execution = {
+			executionId: generateId("ex"),
+			workflowId: execution.workflowId,
+			status: "pending",
+			startedAt: Date.now(),
+			vars: execution.vars,
+			workflowSnapshot: structuredClone(execution.workflowSnapshot),
+			retryCount: execution.retryCount + 1,
+			retryOf: id,
+		};
+		if (body.config && body.fromNodeId) {
+			const snapshotNodes = retry.workflowSnapshot.nodes as SimulatedNode[];
+			snapshotNodes[chosen] = { ...snapshotNodes[chosen], config: body.config };
+		}
+		executions.set(retry.executionId, retry);
+		const kept = new Set(ids.slice(0, from));
+		const restored: NodeExecution[] = [];
+		nodeExecutions.set(retry.executionId, restored);
+		for (const nodeExec of nodeExecs) {
+			if (!kept.has(nodeExec.nodeId) || nodeExec.status !== "completed") continue;
+			const copy = { ...nodeExec, executionId: retry.executionId, status: "pending" };
+			restored.push(copy);
+			move(retry, "completed", copy, `Restored from execution ${id}`);
+		}
+		setTimeout(() => startExecution(retry, from), 100);
 		return sendJson(
 			res,
 			{
 				success: true,
 				data: {
-					executionId: id,
+					executionId: retry.executionId,
 					status: "pending",
+					workflowId: retry.workflowId,
+					retryOf: id,
+					resumeFromNodeId: ids[from],
+				},
+			},
+			202,
+		);
+	}
+
+	// POST /api/executions/:id/resume and /api/executions/:id/reject
+	const respondMatch = path.match(
+		/^\/api\/executions\/([^/]+)\/(resume|reject)$/,
+	);
+	if (respondMatch && method === "POST") {
+		const [, id, action] = respondMatch;
+		const execution = executions.get(id);
+		if (!execution) {
+			return sendJson(
+				res,
+				{
+					success: false,
+					error: { code: "NOT_FOUND", message: `Execution ${id} not found` },
+				},
+				404,
+			);
+		}
+		if (execution.status !== "waiting") {
+			return sendJson(
+				res,
+				{
+					success: false,
+					error: {
+						code: "INVALID_STATE",
+						message: `Cannot ${action} execution with status: ${execution.status}`,
+					},
+				},
+				400,
+			);
+		}
+		const body = (await parseBody(req)) as {
+			token?: string;
+			data?: Record<string, unknown>;
+			respondedBy?: string;
+			comment?: string;
+		};
+		const approval = body.token ? approvals.get(body.token) : undefined;
+		if (!body.token || approval?.executionId !== id) {
+			return sendJson(
+				res,
+				{
+					success: false,
+					error: {
+						code: "INVALID_TOKEN",
+						message: `No node of execution ${id} is waiting on this token`,
+					},
+				},
+				400,
+			);
+		}
+		let data: Record<string, unknown> | undefined;
+		if (action === "resume") {
+			const checked = validateNodeConfig(body.data, approval.node.properties ?? [], {
+				allowExpressions: false,
+				strict: true,
+			});
+			if (!checked.success) {
+				return sendJson(
+					res,
+					{
+						success: false,
+						error: {
+							code: "INVALID_INPUT",
+							message: "Form data does not match the node's properties",
+							details: checked.errors,
+						},
+					},
+					400,
+				);
+			}
+			data = checked.config;
+		}
+		respondToApproval(body.token, {
+			decision: action === "resume" ? "approved" : "rejected",
+			data,
+			respondedBy: body.respondedBy,
+			comment: body.comment,
+		});
+		return sendJson(
+			res,
+			{
+				success: true,
+				data: {
+					executionId: id,
+					status: "running",
 					workflowId: execution.workflowId,
 				},
 			},
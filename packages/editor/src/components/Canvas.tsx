@@ -18,6 +18,7 @@ import {
 import '@xyflow/react/dist/style.css';
 import { ContextMenu, type ContextMenuItem } from './ui/ContextMenu';
 import type { ContextMenuCallbacks, PendingConnection } from '../types';
+import { getSubworkflowRef } from '../utils/subworkflow';
 import '../styles.css';
 
 /**
@@ -102,6 +103,7 @@ const CanvasInner = forwardRef<CanvasHandle, CanvasProps>(({
   onNodeEdit,
   onNodeDuplicate,
   onNodeDelete,
+  onOpenSubworkflow,
   onConnectionDropped,
   onEdgeCreated,
   edgeValidation,
@@ -176,6 +178,14 @@ const CanvasInner = forwardRef<CanvasHandle, CanvasProps>(({
       });
     }
 
+    const subworkflow = getSubworkflowRef(node.data);
+    if (onOpenSubworkflow && subworkflow) {
+      menuItems.push({
+        label: 'Open Workflow',
+        onClick: () => onOpenSubworkflow(node.id, subworkflow),
+      });
+    }
+
     // Always show delete option (either callback or default behavior)
     if (onNodeDelete) {
       menuItems.push({
@@ -206,7 +216,7 @@ const CanvasInner = forwardRef<CanvasHandle, CanvasProps>(({
       y: event.clientY,
       items: menuItems,
     });
-  }, [nodes, edges, setNodes, setEdges, onChange, onNodeEdit, onNodeDuplicate, onNodeDelete]);
+  }, [nodes, edges, setNodes, setEdges, onChange, onNodeEdit, onNodeDuplicate, onNodeDelete, onOpenSubworkflow]);
 
   // Handle context menu on edge
   const onEdgeContextMenu = useCallback((event: any, edge: Edge) => {
@@ -21,15 +21,19 @@ import {
   SelectionMode,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import type { Workflow, ContextMenuCallbacks, PendingConnection } from '../types';
+import type { Workflow, ContextMenuCallbacks, PendingConnection, EdgeKind, EditorNodeFields } from '../types';
 import { WorkflowNode } from './nodes/WorkflowNode';
 import { ContextMenu, type ContextMenuItem } from './ui/ContextMenu';
 import { useWorkflowHistory } from '../hooks/useWorkflowHistory';
+import { useWorkflowValidation, type WorkflowDiagnostic } from '../hooks/useWorkflowValidation';
+import type { ExecutionState, NodeExecutionState } from '../hooks/useExecutionState';
 import {
   schemaWorkflowToReactFlow,
+  reactFlowWorkflowToSchema,
   type ReactFlowNode,
   type ReactFlowEdge,
 } from '../utils/transformWorkflow';
+import { getSubworkflowRef } from '../utils/subworkflow';
 import '../styles.css';
 
 /**
@@ -154,6 +158,22 @@ export interface WorkflowEditorProps extends ContextMenuCallbacks {
    * The callback receives the current workflow state in React Flow format.
    */
   onSave?: (changes: { nodes: ReactFlowNode[]; edges: ReactFlowEdge[] }) => void;
+  /**
+   * Whether to validate the graph (ports, cycles, reachability, triggers)
+   * and show the messages as node warnings
+   * @default true
+   */
+  validateGraph?: boolean;
+  /**
+   * Callback with the graph diagnostics whenever they change, including
+   * workflow-level ones such as a missing trigger
+   */
+  onValidate?: (diagnostics: WorkflowDiagnostic[]) => void;
+  /**
+   * Execution state to show on the nodes, from `useExecutionState` or
+   * `useExecutionReplay`; the editor is in execution mode while it is set
+   */
+  executionState?: ExecutionState;
 }
 
 // Define custom node types outside component to prevent re-renders
@@ -166,6 +186,52 @@ const defaultEdgeOptions: DefaultEdgeOptions = {
   type: 'smoothstep',
 };
 
+/**
+ * Colour and label error and always edges so they stand apart from the
+ * success path
+ */
+function styleEdgeByKind(edge: RFEdge): RFEdge {
+  const kind = (edge.data as ReactFlowEdge['data'])?.kind;
+  if (kind === 'error') {
+    return { ...edge, label: edge.label ?? 'on error', style: { ...edge.style, stroke: '#f44336', strokeDasharray: '6 4' } };
+  }
+  if (kind === 'always') {
+    return { ...edge, label: edge.label ?? 'always', style: { ...edge.style, stroke: '#9e9e9e', strokeDasharray: '2 4' } };
+  }
+  return edge;
+}
+
+const edgeKindLabels: Record<EdgeKind, string> = {
+  success: 'Run on Success',
+  error: 'Run on Error',
+  always: 'Always Run',
+};
+
+/**
+ * Combine host-provided node warnings with graph validation messages
+ */
+function mergeWarnings(existing: unknown, validation: string[] | undefined): string[] | undefined {
+  const host = Array.isArray(existing) ? (existing as string[]) : [];
+  if (!validation || validation.length === 0) {
+    return host.length > 0 ? host : undefined;
+  }
+  return [...host, ...validation];
+}
+
+/**
+ * Node data fields that show a node's execution state
+ */
+function executionFields(state: NodeExecutionState | undefined): Partial<EditorNodeFields> {
+  return {
+    isExecutionMode: true,
+    executionStatus: state?.status,
+    executionDuration: state?.duration,
+    executionError: state?.error,
+    executionAttempt: state?.attempt,
+    executionMaxAttempts: state?.maxAttempts,
+  };
+}
+
 /**
  * Internal WorkflowEditor component that uses React Flow hooks
  */
@@ -182,9 +248,13 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
   onNodeDelete,
   onNodeEdit,
   onNodeDuplicate,
+  onOpenSubworkflow,
   onAddNodeRequest,
   onAddNodeFromHandle,
   onSave,
+  validateGraph = true,
+  onValidate,
+  executionState,
 }, ref) => {
   const isDark = colorMode === 'dark' || (colorMode === 'system' && typeof window !== 'undefined' && window.matchMedia('(prefers-color-scheme: dark)').matches);
 
@@ -244,6 +314,7 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
         target: edge.target,
         sourceHandle: edge.sourceHandle,
         targetHandle: edge.targetHandle,
+        ...(edge.data ? { data: edge.data as ReactFlowEdge['data'] } : {}),
       })),
     };
   }, []);
@@ -311,21 +382,47 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
     onNodeDelete?.(nodeId);
   }, [nodes, edges, updateWorkflow, onChange, onNodeDelete, toWorkflowFormat]);
 
-  // Enrich nodes with callbacks and connection status
+  // Semantic graph validation on the current nodes and edges
+  const graph = useMemo(
+    () => (validateGraph ? reactFlowWorkflowToSchema(toWorkflowFormat(nodes, edges)) : null),
+    [validateGraph, nodes, edges, toWorkflowFormat]
+  );
+  const { diagnostics, messagesByNode } = useWorkflowValidation(graph);
+
+  useEffect(() => {
+    if (validateGraph) {
+      onValidate?.(diagnostics);
+    }
+  }, [validateGraph, diagnostics, onValidate]);
+
+  // Open the workflow a sub-workflow node calls, from its toolbar
+  const handleOpenWorkflow = useCallback((nodeId: string) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    const subworkflow = node && getSubworkflowRef(node.data);
+    if (subworkflow) onOpenSubworkflow?.(nodeId, subworkflow);
+  }, [nodes, onOpenSubworkflow]);
+
+  // Enrich nodes with callbacks, connection status, validation messages and execution state
   const enrichedNodes = useMemo(() => {
     return nodes.map((node: RFNode) => ({
       ...node,
       data: {
         ...node.data,
+        ...(executionState && executionFields(executionState.nodeStates[node.id])),
+        warnings: mergeWarnings(node.data.warnings, messagesByNode[node.id]),
         onDelete: handleInternalDelete,
         onEdit: onNodeEdit,
         onDuplicate: onNodeDuplicate,
+        onOpenWorkflow: onOpenSubworkflow && getSubworkflowRef(node.data) ? handleOpenWorkflow : undefined,
         onAddNode: onAddNodeFromHandle,
         hasInputConnection: nodeConnectionStatus[node.id]?.hasInput ?? false,
         hasOutputConnection: nodeConnectionStatus[node.id]?.hasOutput ?? false,
       },
     }));
-  }, [nodes, nodeConnectionStatus, handleInternalDelete, onNodeEdit, onNodeDuplicate, onAddNodeFromHandle]);
+  }, [nodes, nodeConnectionStatus, messagesByNode, executionState, handleInternalDelete, onNodeEdit, onNodeDuplicate, onOpenSubworkflow, handleOpenWorkflow, onAddNodeFromHandle]);
+
+  const styledEdges = useMemo(() => edges.map(styleEdgeByKind), [edges]);
+
   const { screenToFlowPosition } = useReactFlow();
   const viewport = useViewport();
 
@@ -448,6 +545,17 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
       });
     }
 
+    const subworkflow = getSubworkflowRef(node.data);
+    if (onOpenSubworkflow && subworkflow) {
+      menuItems.push({
+        label: 'Open Workflow',
+        onClick: () => {
+          onOpenSubworkflow(node.id, subworkflow);
+          setContextMenu(null);
+        },
+      });
+    }
+
     if (onNodeDelete) {
       menuItems.push({
         label: 'Delete',
@@ -473,11 +581,28 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
         items: menuItems,
       });
     }
-  }, [nodes, edges, updateWorkflow, onChange, onNodeEdit, onNodeDuplicate, onNodeDelete, toWorkflowFormat]);
+  }, [nodes, edges, updateWorkflow, onChange, onNodeEdit, onNodeDuplicate, onNodeDelete, onOpenSubworkflow, toWorkflowFormat]);
 
   const onEdgeContextMenu = useCallback((event: any, edge: RFEdge) => {
     event.preventDefault();
+    const currentKind = (edge.data as ReactFlowEdge['data'])?.kind ?? 'success';
+    const kindItems: ContextMenuItem[] = (Object.keys(edgeKindLabels) as EdgeKind[])
+      .filter((kind) => kind !== currentKind)
+      .map((kind) => ({
+        label: edgeKindLabels[kind],
+        onClick: () => {
+          const newEdges = edges.map((e) => {
+            if (e.id !== edge.id) return e;
+            const { kind: _previous, ...data } = (e.data ?? {}) as NonNullable<ReactFlowEdge['data']>;
+            return { ...e, data: kind === 'success' ? data : { ...data, kind } };
+          });
+          setEdges(newEdges);
+          onChange?.(toWorkflowFormat(nodes, newEdges));
+          setContextMenu(null);
+        },
+      }));
     const menuItems: ContextMenuItem[] = [
+      ...kindItems,
       {
         label: 'Delete Edge',
         destructive: true,
@@ -581,6 +706,7 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
         target: edge.target,
         sourceHandle: edge.sourceHandle,
         targetHandle: edge.targetHandle,
+        ...(edge.data ? { data: edge.data as ReactFlowEdge['data'] } : {}),
       })),
     };
   }, [nodes, edges]);
@@ -867,7 +993,7 @@ const WorkflowEditorInner = forwardRef<WorkflowEditorHandle, WorkflowEditorProps
     >
       <ReactFlow
         nodes={enrichedNodes}
-        edges={edges}
+        edges={styledEdges}
         nodeTypes={nodeTypes}
         defaultEdgeOptions={defaultEdgeOptions}
         onNodesChange={onNodesChange}
@@ -0,0 +1,96 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import type { StateTransition } from '@w6w/schema';
+import { WorkflowEditor } from '../WorkflowEditor';
+import { ExecutionReplayControls } from '../ui/ExecutionReplayControls';
+import { useExecutionReplay, type ExecutionHistory } from '../../hooks/useExecutionReplay';
+import type { Workflow } from '../../types';
+
+const meta = {
+  title: 'Components/ExecutionReplay',
+  component: WorkflowEditor,
+  parameters: {
+    layout: 'fullscreen',
+  },
+} satisfies Meta<typeof WorkflowEditor>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+const workflow: Workflow = {
+  id: 'wf_refunds',
+  name: 'Refunds',
+  version: '1.0.0',
+  status: 'draft',
+  nodes: [
+    { id: 'nd_trigger', type: 'trigger', position: [100, 150], label: 'Refund requested' },
+    { id: 'nd_fetch', type: 'action', position: [350, 150], label: 'Fetch order' },
+    { id: 'nd_approve', type: 'approval', position: [600, 150], label: 'Approve refund' },
+    { id: 'nd_refund', type: 'action', position: [850, 150], label: 'Issue refund' },
+  ],
+  edges: [
+    { id: 'ed_1', source: 'nd_trigger', target: 'nd_fetch' },
+    { id: 'ed_2', source: 'nd_fetch', target: 'nd_approve' },
+    { id: 'ed_3', source: 'nd_approve:approved', target: 'nd_refund' },
+  ],
+};
+
+const executionId = 'ex_story';
+const moves: Array<[number, string | undefined, string, string]> = [
+  [0, undefined, 'pending', 'running'],
+  [10, 'nd_trigger', 'pending', 'running'],
+  [20, 'nd_trigger', 'running', 'completed'],
+  [20, 'nd_fetch', 'pending', 'running'],
+  [320, 'nd_fetch', 'running', 'queued'],
+  [820, 'nd_fetch', 'queued', 'running'],
+  [1020, 'nd_fetch', 'running', 'completed'],
+  [1020, 'nd_approve', 'pending', 'running'],
+  [1030, 'nd_approve', 'running', 'waiting'],
+  [1030, undefined, 'running', 'waiting'],
+  [61030, undefined, 'waiting', 'running'],
+  [61030, 'nd_approve', 'waiting', 'running'],
+  [61040, 'nd_approve', 'running', 'completed'],
+  [61040, 'nd_refund', 'pending', 'running'],
+  [61400, 'nd_refund', 'running', 'completed'],
+  [61400, undefined, 'running', 'completed'],
+];
+
+const history: ExecutionHistory = {
+  record: { executionId, status: 'completed', startedAt: 0 },
+  transitions: moves.map(([timestamp, nodeId, fromState, toState], i): StateTransition => ({
+    id: i + 1,
+    executionId,
+    timestamp,
+    scope: nodeId ? 'node' : 'execution',
+    nodeId,
+    fromState,
+    toState,
+  })),
+  nodeStates: [
+    { id: 's1', executionId, nodeId: 'nd_trigger', status: 'completed', startedAt: 10, completedAt: 20, duration: 10, attempt: 1 },
+    { id: 's2', executionId, nodeId: 'nd_fetch', status: 'completed', startedAt: 20, completedAt: 1020, duration: 1000, attempt: 2, maxAttempts: 3 },
+    { id: 's3', executionId, nodeId: 'nd_approve', status: 'completed', startedAt: 1020, completedAt: 61040, duration: 60020, attempt: 1, resumeToken: 'rt_story' },
+    { id: 's4', executionId, nodeId: 'nd_refund', status: 'completed', startedAt: 61040, completedAt: 61400, duration: 360, attempt: 1 },
+  ],
+};
+
+/**
+ * Scrub through a finished execution: a retried fetch, then an approval wait
+ */
+export const Scrubbing: Story = {
+  render: () => {
+    const replay = useExecutionReplay(history);
+    return (
+      <div>
+        <WorkflowEditor initialWorkflow={workflow} executionState={replay.state} height="500px" />
+        <ExecutionReplayControls
+          step={replay.step}
+          length={replay.length}
+          frame={replay.frame}
+          startedAt={history.record.startedAt}
+          issues={replay.issues}
+          onStepChange={replay.setStep}
+        />
+      </div>
+    );
+  },
+};
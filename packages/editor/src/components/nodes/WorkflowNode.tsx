@@ -1,8 +1,10 @@
 import { type FC, memo, useMemo } from 'react';
 import { Handle, Position, type NodeProps as XYNodeProps } from '@xyflow/react';
+import { conditionConfigSchema, getConditionBranches } from '@w6w/schema';
 import { AppLabel } from '../ui/AppLabel';
 import { NodeActionToolbar } from '../ui/NodeActionToolbar';
 import { NodeExecutionBadge } from '../ui/NodeExecutionBadge';
+import { SchedulePreview } from '../ui/SchedulePreview';
 import type { WorkflowNodeData, WorkflowNodeType, NodeExecutionStatus } from '../../types/node';
 import { getNodeType } from '../../types/node';
 
@@ -16,6 +18,26 @@ const handleStyle = {
   border: '2px solid #fff',
 };
 
+const branchLabelStyle = {
+  position: 'absolute' as const,
+  right: '10px',
+  transform: 'translateY(-50%)',
+  fontSize: '9px',
+  color: '#8d6e63',
+  whiteSpace: 'nowrap' as const,
+  pointerEvents: 'none' as const,
+};
+
+/**
+ * Branches of a condition node's config, or undefined if it is not a valid
+ * condition config (the node then falls back to `data.output`)
+ */
+function getBranchHandles(config: unknown): { id: string; label: string }[] | undefined {
+  const parsed = conditionConfigSchema.safeParse(config);
+  if (!parsed.success) return undefined;
+  return getConditionBranches(parsed.data).map((branch) => ({ id: branch.port, label: branch.label }));
+}
+
 /**
  * Get border color based on execution status
  */
@@ -33,6 +55,8 @@ function getExecutionBorderColor(status?: NodeExecutionStatus): string | undefin
       return '#ff9800'; // orange
     case 'queued':
       return '#9c27b0'; // purple
+    case 'waiting':
+      return '#ffb300'; // amber
     default:
       return undefined;
   }
@@ -57,14 +81,25 @@ function formatDuration(ms?: number): string | undefined {
  * - Completed: Green border with checkmark badge
  * - Failed: Red border with error badge
  * - Skipped: Gray border
+ *
+ * Condition nodes with a valid config get one labelled output handle per
+ * branch (`true`/`false`, or each switch rule plus the fallback). Scheduled
+ * triggers list their next runs.
  */
 export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data, selected }) => {
-  const inputs = data.input || [];
-  const outputs = data.output || [];
   const isExecutionMode = data.isExecutionMode || false;
   const executionStatus = data.executionStatus;
   const nodeType = getNodeType(data);
   const isTrigger = nodeType === 'trigger';
+  const branches = useMemo(
+    () => (nodeType === 'condition' ? getBranchHandles(data.config) : undefined),
+    [nodeType, data.config]
+  );
+  const inputs = data.input || [];
+  const outputs = useMemo(
+    () => (branches ? branches.map((branch) => branch.id) : data.output || []),
+    [branches, data.output]
+  );
 
   // Calculate handle positions for inputs (left side)
   // Triggers don't have input handles (they are the start of a workflow)
@@ -86,13 +121,14 @@ export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data,
   const outputHandles = useMemo(() => {
     if (outputs.length === 0) {
       // Default single output handle
-      return [{ id: undefined, top: '50%' }];
+      return [{ id: undefined, top: '50%', label: undefined }];
     }
     return outputs.map((id, index) => ({
       id,
       top: `${((index + 1) / (outputs.length + 1)) * 100}%`,
+      label: branches?.[index]?.label,
     }));
-  }, [outputs]);
+  }, [outputs, branches]);
 
   // Get background color based on node type
   const getNodeColor = () => {
@@ -107,6 +143,12 @@ export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data,
         return '#f3e5f5';
       case 'loop':
         return '#fce4ec';
+      case 'merge':
+        return '#e0f7fa';
+      case 'subworkflow':
+        return '#ede7f6';
+      case 'approval':
+        return '#fff8e1';
       default:
         return '#f5f5f5';
     }
@@ -160,16 +202,30 @@ export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data,
           status={executionStatus}
           duration={formatDuration(data.executionDuration)}
           error={data.executionError}
+          attempt={data.executionAttempt}
+          maxAttempts={data.executionMaxAttempts}
         />
       )}
 
+      {/* Validation warnings (hidden in execution mode) */}
+      {!isExecutionMode && data.warnings && data.warnings.length > 0 && (
+        <div
+          className="node-warning-badge"
+          title={data.warnings.join('\n')}
+          aria-label={`${data.warnings.length} warning(s)`}
+        >
+          !
+        </div>
+      )}
+
       {/* Action toolbar (shown when selected AND not in execution mode) */}
-      {selected && !isExecutionMode && (data.onDelete || data.onEdit || data.onDuplicate) && (
+      {selected && !isExecutionMode && (data.onDelete || data.onEdit || data.onDuplicate || data.onOpenWorkflow) && (
         <NodeActionToolbar
           nodeId={id}
           onDelete={data.onDelete}
           onEdit={data.onEdit}
           onDuplicate={data.onDuplicate}
+          onOpenWorkflow={data.onOpenWorkflow}
         />
       )}
 
@@ -216,9 +272,13 @@ export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data,
         >
           {data.label || 'Node'}
         </div>
+        {/* Next runs of a scheduled trigger (hidden in execution mode) */}
+        {isTrigger && !isExecutionMode && data.config?.trigger === 'scheduled' && (
+          <SchedulePreview config={data.config} />
+        )}
       </div>
 
-      {/* Output handles (right side) */}
+      {/* Output handles (right side), labelled for condition branches */}
       {outputHandles.map((handle) => (
         <Handle
           key={handle.id || 'default-output'}
@@ -231,6 +291,14 @@ export const WorkflowNode: FC<XYNodeProps<WorkflowNodeType>> = memo(({ id, data,
           }}
         />
       ))}
+      {outputHandles.map(
+        (handle) =>
+          handle.label && (
+            <span key={`${handle.id}-label`} className="branch-label" style={{ ...branchLabelStyle, top: handle.top }}>
+              {handle.label}
+            </span>
+          )
+      )}
 
       {/* Add node buttons (hidden in execution mode, left button hidden for triggers) */}
       {!isExecutionMode && !isTrigger && data.onAddNode && !data.hasInputConnection && (
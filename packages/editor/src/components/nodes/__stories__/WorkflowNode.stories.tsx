@@ -165,6 +165,25 @@ export const WebhookTrigger: Story = {
   },
 };
 
+/**
+ * Scheduled trigger
+ *
+ * Cron trigger listing its next three runs
+ */
+export const ScheduledTrigger: Story = {
+  args: {
+    data: {
+      label: 'Weekday Report',
+      nodeType: 'trigger',
+      appName: 'Schedule',
+      config: {
+        trigger: 'scheduled',
+        schedule: { kind: 'cron', expression: '0 9 * * MON-FRI', timezone: 'Europe/Paris' },
+      },
+    },
+  },
+};
+
 /**
  * Gmail - New Email (Trigger)
  *
@@ -246,6 +265,102 @@ export const MultipleHandles: Story = {
   },
 };
 
+/**
+ * If/else condition
+ *
+ * Condition node whose config yields labelled `true`/`false` handles
+ */
+export const IfElseCondition: Story = {
+  args: {
+    data: {
+      label: 'Large Order?',
+      nodeType: 'condition',
+      appName: 'Logic',
+      config: { mode: 'if', condition: 'input.total > 100', trueLabel: 'Over 100', falseLabel: 'Otherwise' },
+    },
+  },
+};
+
+/**
+ * Switch condition
+ *
+ * One labelled handle per rule, plus the fallback branch
+ */
+export const SwitchCondition: Story = {
+  args: {
+    data: {
+      label: 'Route by Plan',
+      nodeType: 'condition',
+      appName: 'Logic',
+      config: {
+        mode: 'switch',
+        rules: [
+          { port: 'enterprise', label: 'Enterprise', condition: 'input.seats >= 100' },
+          { port: 'team', label: 'Team', condition: 'input.seats >= 5' },
+        ],
+        fallback: { port: 'solo', label: 'Solo' },
+      },
+    },
+  },
+};
+
+/**
+ * Retrying node
+ *
+ * Running node on its second of five attempts
+ */
+export const RetryingNode: Story = {
+  args: {
+    data: {
+      label: 'Send Message',
+      nodeType: 'action',
+      appName: 'Slack',
+      appIcon: <SlackIcon />,
+      retry: { maxAttempts: 5, backoff: 'exponential', delayMs: 500 },
+      isExecutionMode: true,
+      executionStatus: 'running',
+      executionAttempt: 2,
+      executionMaxAttempts: 5,
+    },
+  },
+};
+
+/**
+ * Sub-workflow node
+ *
+ * Selected sub-workflow node with the toolbar button that opens the called workflow
+ */
+export const SubworkflowNode: Story = {
+  args: {
+    data: {
+      label: 'Enrich Lead',
+      nodeType: 'subworkflow',
+      appName: 'Workflow',
+      config: { workflowId: 'wf_enrich_lead', version: '1.2.0', vars: { email: '{{input.email}}' } },
+      onOpenWorkflow: () => {},
+    },
+    selected: true,
+  },
+};
+
+/**
+ * Waiting approval node
+ *
+ * Approval node paused until someone approves or rejects it
+ */
+export const WaitingApprovalNode: Story = {
+  args: {
+    data: {
+      label: 'Approve Refund',
+      nodeType: 'approval',
+      appName: 'Approval',
+      config: { mode: 'approval', assignee: 'finance', respondWithinMs: 86400000 },
+      isExecutionMode: true,
+      executionStatus: 'waiting',
+    },
+  },
+};
+
 /**
  * All node types gallery
  *
@@ -280,6 +395,18 @@ export const AllNodeTypes: Story = {
         title: 'Loop',
         data: { label: 'For Each Item', nodeType: 'loop', appName: 'Loop' },
       },
+      {
+        title: 'Merge',
+        data: { label: 'Wait for All', nodeType: 'merge', appName: 'Merge' },
+      },
+      {
+        title: 'Sub-workflow',
+        data: { label: 'Enrich Lead', nodeType: 'subworkflow', appName: 'Workflow' },
+      },
+      {
+        title: 'Approval',
+        data: { label: 'Approve Refund', nodeType: 'approval', appName: 'Approval' },
+      },
     ];
 
     return (
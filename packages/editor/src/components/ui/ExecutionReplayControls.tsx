@@ -0,0 +1,87 @@
+import { type FC, memo } from 'react';
+import type { ReplayFrame, ReplayIssue } from '@w6w/utils';
+
+export interface ExecutionReplayControlsProps {
+  /** Current step, from 0 to `length` */
+  step: number;
+  /** Number of transitions in the history */
+  length: number;
+  /** Replayed state at `step`, for the time and the transition shown */
+  frame?: ReplayFrame | null;
+  /** Execution start, to show the time of each step relative to it */
+  startedAt?: number;
+  /** Transitions that break the state machine */
+  issues?: ReplayIssue[];
+  onStepChange: (step: number) => void;
+  className?: string;
+}
+
+/**
+ * Describe the transition that led to a frame
+ */
+function describeTransition(frame?: ReplayFrame | null): string {
+  const transition = frame?.transition;
+  if (!transition) return 'Not started';
+  return `${transition.nodeId ?? 'Execution'}: ${transition.fromState} → ${transition.toState}`;
+}
+
+/**
+ * ExecutionReplayControls - Scrubber for stepping through an execution replay
+ *
+ * Pair with `useExecutionReplay`, which provides the step, length, frame and
+ * issues. Shows the transition the current step applied, its time since the
+ * start, and how many transitions break the state machine.
+ */
+export const ExecutionReplayControls: FC<ExecutionReplayControlsProps> = memo(({
+  step,
+  length,
+  frame,
+  startedAt,
+  issues = [],
+  onStepChange,
+  className = '',
+}) => {
+  const offset = frame && startedAt !== undefined ? frame.timestamp - startedAt : undefined;
+
+  return (
+    <div
+      className={`execution-replay-controls ${className}`}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '8px 12px',
+        background: 'white',
+        borderRadius: '4px',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.2)',
+        fontSize: '12px',
+      }}
+    >
+      <button type="button" aria-label="Previous step" disabled={step <= 0} onClick={() => onStepChange(step - 1)}>
+        ‹
+      </button>
+      <input
+        type="range"
+        aria-label="Replay step"
+        min={0}
+        max={length}
+        value={step}
+        onChange={(event) => onStepChange(Number(event.target.value))}
+        style={{ flex: 1 }}
+      />
+      <button type="button" aria-label="Next step" disabled={step >= length} onClick={() => onStepChange(step + 1)}>
+        ›
+      </button>
+      <span>Step {step}/{length}</span>
+      {offset !== undefined && <span>+{offset}ms</span>}
+      <span className="execution-replay-transition">{describeTransition(frame)}</span>
+      {issues.length > 0 && (
+        <span title={issues.map((issue) => issue.message).join('\n')} style={{ color: '#f44336' }}>
+          {issues.length === 1 ? '1 issue' : `${issues.length} issues`}
+        </span>
+      )}
+    </div>
+  );
+});
+
+ExecutionReplayControls.displayName = 'ExecutionReplayControls';
@@ -5,6 +5,7 @@ interface NodeActionToolbarProps {
   onDelete?: (nodeId: string) => void;
   onEdit?: (nodeId: string) => void;
   onDuplicate?: (nodeId: string) => void;
+  onOpenWorkflow?: (nodeId: string) => void;
 }
 
 // SVG Icons as components
@@ -30,6 +31,14 @@ const CopyIcon: FC = () => (
   </svg>
 );
 
+const ExternalLinkIcon: FC = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+    <path d="M15 3h6v6" />
+    <path d="M10 14 21 3" />
+    <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
+  </svg>
+);
+
 /**
  * NodeActionToolbar - A floating toolbar component that appears above selected nodes
  * Provides quick access to common node actions like delete, edit, and duplicate
@@ -38,7 +47,8 @@ export const NodeActionToolbar: FC<NodeActionToolbarProps> = memo(({
   nodeId,
   onDelete,
   onEdit,
-  onDuplicate
+  onDuplicate,
+  onOpenWorkflow
 }) => {
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -55,6 +65,11 @@ export const NodeActionToolbar: FC<NodeActionToolbarProps> = memo(({
     onDuplicate?.(nodeId);
   };
 
+  const handleOpenWorkflow = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onOpenWorkflow?.(nodeId);
+  };
+
   return (
     <div className="node-action-toolbar">
       {onEdit && (
@@ -77,6 +92,17 @@ export const NodeActionToolbar: FC<NodeActionToolbarProps> = memo(({
           <CopyIcon />
         </button>
       )}
+      {onOpenWorkflow && (
+        <button
+          type="button"
+          className="node-action-toolbar-button"
+          onClick={handleOpenWorkflow}
+          title="Open workflow"
+          aria-label="Open workflow"
+        >
+          <ExternalLinkIcon />
+        </button>
+      )}
       {onDelete && (
         <button
           className="node-action-toolbar-button destructive"
@@ -5,6 +5,8 @@ interface NodeExecutionBadgeProps {
   status: NodeExecutionStatus;
   duration?: string;
   error?: string;
+  attempt?: number;
+  maxAttempts?: number;
 }
 
 /**
@@ -43,6 +45,12 @@ function getStatusIcon(status: NodeExecutionStatus) {
           <path d="M8 12h8" />
         </svg>
       );
+    case 'waiting':
+      return (
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" aria-hidden="true">
+          <path d="M9 6v12M15 6v12" />
+        </svg>
+      );
     case 'queued':
       return (
         <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -77,6 +85,8 @@ function getBadgeColor(status: NodeExecutionStatus): string {
       return '#ff9800';
     case 'queued':
       return '#9c27b0';
+    case 'waiting':
+      return '#ffb300';
     default:
       return '#757575';
   }
@@ -88,11 +98,13 @@ function getBadgeColor(status: NodeExecutionStatus): string {
  * Shows a badge above the node with:
  * - Status icon (spinner for running, checkmark for completed, etc.)
  * - Duration (if completed)
+ * - Attempt count while a retried node is running or waiting to retry
  * - Error tooltip (if failed)
  */
-export const NodeExecutionBadge: FC<NodeExecutionBadgeProps> = memo(({ status, duration, error }) => {
+export const NodeExecutionBadge: FC<NodeExecutionBadgeProps> = memo(({ status, duration, error, attempt, maxAttempts }) => {
   const bgColor = getBadgeColor(status);
   const showDuration = (status === 'completed' || status === 'failed') && duration;
+  const showAttempt = (status === 'running' || status === 'queued') && attempt !== undefined && attempt > 1;
 
   return (
     <div
@@ -119,6 +131,7 @@ export const NodeExecutionBadge: FC<NodeExecutionBadgeProps> = memo(({ status, d
     >
       {getStatusIcon(status)}
       {showDuration && <span>{duration}</span>}
+      {showAttempt && <span>{maxAttempts ? `attempt ${attempt}/${maxAttempts}` : `attempt ${attempt}`}</span>}
       {status === 'failed' && error && (
         <span style={{ maxWidth: '80px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
           Error
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SchedulePreview } from './SchedulePreview';
+
+const now = Date.parse('2026-10-23T10:00:00Z');
+
+describe('SchedulePreview', () => {
+  it('should list the next runs in the schedule time zone', () => {
+    render(
+      <SchedulePreview
+        config={{ trigger: 'scheduled', schedule: { kind: 'cron', expression: '0 9 * * MON-FRI', timezone: 'Europe/Paris' } }}
+        count={2}
+        now={now}
+      />
+    );
+
+    const format = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/Paris' });
+    const items = screen.getAllByRole('listitem').map((item) => item.textContent);
+    expect(items).toEqual([
+      format.format(Date.parse('2026-10-26T08:00:00Z')),
+      format.format(Date.parse('2026-10-27T08:00:00Z')),
+    ]);
+  });
+
+  it('should flag schedules that cannot run', () => {
+    render(
+      <SchedulePreview config={{ trigger: 'scheduled', schedule: { kind: 'cron', expression: '0 25 * * *' } }} now={now} />
+    );
+    expect(screen.getByText('Invalid schedule')).toHaveAttribute('title', expect.stringContaining('Invalid hour "25"'));
+
+    render(<SchedulePreview config={{ trigger: 'scheduled', schedule: { kind: 'once', at: now - 1000 } }} now={now} />);
+    expect(screen.getByText('No upcoming runs')).toBeInTheDocument();
+  });
+});
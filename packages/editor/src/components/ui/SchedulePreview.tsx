@@ -0,0 +1,68 @@
+import { type FC, memo, useMemo } from 'react';
+import { scheduleTriggerConfigSchema } from '@w6w/schema';
+import { nextScheduleTimes } from '@w6w/utils';
+
+export interface SchedulePreviewProps {
+  /** Config of a scheduled trigger node */
+  config: unknown;
+  /** Number of upcoming runs to list (default: 3) */
+  count?: number;
+  /** Time the runs are counted from, in Unix ms (default: now) */
+  now?: number;
+  className?: string;
+}
+
+/**
+ * Upcoming run times of a scheduled trigger config, or why it has none
+ */
+function previewSchedule(config: unknown, count: number, now: number): { runs: { time: number; label: string }[] } | { error: string } {
+  const parsed = scheduleTriggerConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? 'Invalid schedule' };
+  }
+  const { schedule } = parsed.data;
+  // Cron runs are shown on the clock they are read in, others in local time
+  const format = new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: schedule.kind === 'cron' ? schedule.timezone : undefined,
+  });
+  try {
+    return { runs: nextScheduleTimes(schedule, now, count).map((time) => ({ time, label: format.format(time) })) };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+/**
+ * SchedulePreview - Lists the next runs of a scheduled trigger node
+ */
+export const SchedulePreview: FC<SchedulePreviewProps> = memo(({
+  config,
+  count = 3,
+  now,
+  className = '',
+}) => {
+  const preview = useMemo(() => previewSchedule(config, count, now ?? Date.now()), [config, count, now]);
+
+  return (
+    <div className={`schedule-preview ${className}`} style={{ fontSize: '9px', color: '#546e7a' }}>
+      {'error' in preview ? (
+        <span style={{ color: '#f44336' }} title={preview.error}>Invalid schedule</span>
+      ) : preview.runs.length === 0 ? (
+        <span>No upcoming runs</span>
+      ) : (
+        <>
+          <span>Next runs</span>
+          <ul style={{ margin: 0, paddingLeft: '12px' }}>
+            {preview.runs.map((run) => (
+              <li key={run.time}>{run.label}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+});
+
+SchedulePreview.displayName = 'SchedulePreview';
@@ -1,3 +1,5 @@
 export { AppLabel, type AppLabelProps } from './AppLabel';
 export { ContextMenu, type ContextMenuItem, type ContextMenuProps } from './ContextMenu';
 export { NodeActionToolbar } from './NodeActionToolbar';
+export { ExecutionReplayControls, type ExecutionReplayControlsProps } from './ExecutionReplayControls';
+export { SchedulePreview, type SchedulePreviewProps } from './SchedulePreview';
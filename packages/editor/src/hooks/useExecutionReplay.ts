@@ -0,0 +1,124 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ExecutionReplay,
+  type ReplayFrame,
+  type ReplayIssue,
+} from '@w6w/utils';
+import type { ExecutionRecord, NodeExecutionState as SchemaNodeState, StateTransition } from '@w6w/schema';
+import type { ExecutionState, NodeExecutionState } from './useExecutionState';
+
+/**
+ * A finished execution as stored: its record, ordered transitions and node states
+ */
+export interface ExecutionHistory {
+  record: Pick<ExecutionRecord, 'executionId' | 'status' | 'startedAt' | 'error'>;
+  transitions: StateTransition[];
+  nodeStates: SchemaNodeState[];
+}
+
+export interface ExecutionReplayResult {
+  /** Current step, from 0 (nothing applied) to `length` */
+  step: number;
+  /** Number of transitions in the history */
+  length: number;
+  /** Replayed state at `step` */
+  frame: ReplayFrame | null;
+  /** The frame in the shape `useExecutionState` reports, for the canvas */
+  state: ExecutionState;
+  /** Transitions that break the state machine */
+  issues: ReplayIssue[];
+  setStep: (step: number) => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  /** Go to the state as of `timestamp` */
+  seek: (timestamp: number) => void;
+}
+
+const emptyState: ExecutionState = {
+  executionId: null,
+  status: 'idle',
+  nodeStates: {},
+};
+
+/**
+ * Turn a replay frame into the editor's execution state; inside loops the
+ * latest iteration that started stands for the node
+ */
+function toExecutionState(history: ExecutionHistory, frame: ReplayFrame): ExecutionState {
+  const finished = !['pending', 'running', 'waiting'].includes(frame.status);
+  return {
+    executionId: history.record.executionId,
+    status: frame.status === 'pending' ? 'idle' : frame.status,
+    startedAt: history.record.startedAt,
+    completedAt: finished ? frame.timestamp : undefined,
+    duration: finished ? frame.timestamp - history.record.startedAt : undefined,
+    error: finished ? history.record.error?.message : undefined,
+    nodeStates: frame.nodeStates.reduce((acc: Record<string, NodeExecutionState>, node) => {
+      acc[node.nodeId] = {
+        status: node.status,
+        startedAt: node.startedAt,
+        completedAt: node.completedAt,
+        duration: node.duration,
+        error: node.error?.message,
+        output: node.output,
+        attempt: node.attempt,
+        maxAttempts: node.maxAttempts,
+        resumeToken: node.resumeToken,
+      };
+      return acc;
+    }, {}),
+  };
+}
+
+/**
+ * Hook for stepping through a finished execution, transition by transition
+ *
+ * Rebuilds the execution state at each step with `ExecutionReplay` from
+ * @w6w/utils. Pass `state` to `WorkflowEditor`'s `executionState` to show the
+ * canvas as it was, and drive the step with `ExecutionReplayControls`. Starts
+ * at the last step, when the canvas shows the final state.
+ *
+ * @example
+ * ```tsx
+ * const replay = useExecutionReplay(history);
+ *
+ * <WorkflowEditor initialWorkflow={workflow} executionState={replay.state} />
+ * <ExecutionReplayControls {...replay} startedAt={history.record.startedAt} onStepChange={replay.setStep} />
+ * ```
+ */
+export function useExecutionReplay(history: ExecutionHistory | null | undefined): ExecutionReplayResult {
+  const replay = useMemo(
+    () => (history ? new ExecutionReplay(history.record, history.transitions, history.nodeStates) : null),
+    [history]
+  );
+  const length = replay?.length ?? 0;
+  // The step chosen for the current history; a new history starts at its end
+  const [requested, setRequested] = useState<{ replay: ExecutionReplay; step: number } | null>(null);
+  const step = replay && requested?.replay === replay ? requested.step : length;
+
+  const frame = useMemo(() => replay?.frame(step) ?? null, [replay, step]);
+  const state = useMemo(
+    () => (history && frame ? toExecutionState(history, frame) : emptyState),
+    [history, frame]
+  );
+
+  const setStep = useCallback((next: number) => {
+    if (replay) setRequested({ replay, step: Math.max(0, Math.min(Math.round(next), replay.length)) });
+  }, [replay]);
+
+  const seek = useCallback((timestamp: number) => {
+    if (replay) setRequested({ replay, step: replay.at(timestamp).step });
+  }, [replay]);
+
+  return {
+    step,
+    length,
+    frame,
+    state,
+    issues: replay?.issues ?? [],
+    setStep,
+    stepForward: () => setStep(step + 1),
+    stepBack: () => setStep(step - 1),
+    seek,
+  };
+}
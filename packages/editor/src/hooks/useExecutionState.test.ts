@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useExecutionState, type ExecutionEventData } from './useExecutionState';
+
+const event = (type: ExecutionEventData['type'], executionId: string, fields: Partial<ExecutionEventData> = {}): ExecutionEventData => ({
+  type,
+  executionId,
+  timestamp: 1_700_000_000_000,
+  ...fields,
+});
+
+describe('useExecutionState', () => {
+  it('should track back-to-back runs without a reset', () => {
+    const { result } = renderHook(() => useExecutionState());
+    const run = (executionId: string) => {
+      act(() => {
+        result.current.processEvent(event('execution_started', executionId));
+        result.current.processEvent(event('node_started', executionId, { nodeId: 'nd_a' }));
+        result.current.processEvent(event('node_completed', executionId, { nodeId: 'nd_a', output: { executionId } }));
+        result.current.processEvent(event('execution_completed', executionId));
+      });
+    };
+
+    run('ex_1');
+    expect(result.current.state).toMatchObject({ executionId: 'ex_1', status: 'completed' });
+
+    act(() => {
+      result.current.processEvent(event('execution_started', 'ex_2'));
+      result.current.processEvent(event('node_started', 'ex_2', { nodeId: 'nd_a' }));
+    });
+    expect(result.current.state).toMatchObject({
+      executionId: 'ex_2',
+      status: 'running',
+      nodeStates: { nd_a: { status: 'running' } },
+    });
+
+    run('ex_2');
+    expect(result.current.getNodeState('nd_a')).toMatchObject({ status: 'completed', output: { executionId: 'ex_2' } });
+  });
+
+  it('should drop events that make an illegal move within a run', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => useExecutionState());
+
+    act(() => {
+      result.current.processEvent(event('execution_started', 'ex_1'));
+      result.current.processEvent(event('node_started', 'ex_1', { nodeId: 'nd_a' }));
+      result.current.processEvent(event('node_completed', 'ex_1', { nodeId: 'nd_a' }));
+      result.current.processEvent(event('node_started', 'ex_1', { nodeId: 'nd_a' }));
+    });
+
+    expect(result.current.getNodeState('nd_a')?.status).toBe('completed');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring node_started event'));
+    warn.mockRestore();
+  });
+});
@@ -1,10 +1,17 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  IllegalTransitionError,
+  executionStateMachine,
+  nodeStateMachine,
+  transition,
+  type StateMachine,
+} from '@w6w/schema';
 import type { NodeExecutionStatus } from '../types/node';
 
 /**
  * Execution status for the entire workflow
  */
-export type ExecutionStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ExecutionStatus = 'idle' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled' | 'timeout';
 
 /**
  * Node execution state map
@@ -16,6 +23,12 @@ export interface NodeExecutionState {
   duration?: number;
   error?: string;
   output?: unknown;
+  /** Current attempt, 1-based */
+  attempt?: number;
+  /** Attempts allowed by the node's retry policy */
+  maxAttempts?: number;
+  /** Token that resumes or rejects a waiting approval node */
+  resumeToken?: string;
 }
 
 /**
@@ -35,7 +48,16 @@ export interface ExecutionState {
  * Execution event from the API
  */
 export interface ExecutionEventData {
-  type: 'execution_started' | 'node_started' | 'node_completed' | 'node_failed' | 'execution_completed' | 'execution_failed';
+  type:
+    | 'execution_started'
+    | 'node_started'
+    | 'node_retrying'
+    | 'node_waiting'
+    | 'node_resumed'
+    | 'node_completed'
+    | 'node_failed'
+    | 'execution_completed'
+    | 'execution_failed';
   executionId: string;
   workflowId?: string;
   nodeId?: string;
@@ -47,6 +69,11 @@ export interface ExecutionEventData {
     nodeId?: string;
   };
   duration?: number;
+  /** Attempt that started (`node_started`) or comes next (`node_retrying`) */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Token the node waits on (`node_waiting`) */
+  resumeToken?: string;
   timestamp: number;
 }
 
@@ -94,6 +121,15 @@ const initialState: ExecutionState = {
   nodeStates: {},
 };
 
+/**
+ * Status after moving from `from` to `to` through `machine`; repeating the
+ * current status is not a move. Throws `IllegalTransitionError` for a move the
+ * machine does not allow.
+ */
+function advance<S extends string, T extends S>(machine: StateMachine<S>, from: string, to: T): T {
+  return from === to ? to : (transition(machine, from, to) as T);
+}
+
 /**
  * Hook for managing workflow execution state
  *
@@ -141,78 +177,136 @@ export function useExecutionState(options: UseExecutionStateOptions = {}) {
   const abortControllerRef = useRef<AbortController | null>(null);
 
   /**
-   * Process an execution event
+   * Process an execution event; an event of a different execution replaces
+   * the state of the previous one
    */
   const processEvent = useCallback((event: ExecutionEventData) => {
-    setState((prev) => {
+    setState((current) => {
+      // An event of another run starts from a clean state rather than the last run's
+      const prev = current.executionId === event.executionId ? current : { ...initialState, executionId: event.executionId };
       const newState = { ...prev };
-
-      switch (event.type) {
-        case 'execution_started':
-          newState.status = 'running';
-          newState.startedAt = event.timestamp;
-          onExecutionStart?.(event.executionId);
-          break;
-
-        case 'node_started':
-          if (event.nodeId) {
-            newState.nodeStates = {
-              ...prev.nodeStates,
-              [event.nodeId]: {
-                status: 'running',
-                startedAt: event.timestamp,
-              },
-            };
-            onNodeStart?.(event.nodeId);
-          }
-          break;
-
-        case 'node_completed':
-          if (event.nodeId) {
-            newState.nodeStates = {
-              ...prev.nodeStates,
-              [event.nodeId]: {
-                ...prev.nodeStates[event.nodeId],
-                status: 'completed',
-                completedAt: event.timestamp,
-                duration: event.duration,
-                output: event.output,
-              },
-            };
-            onNodeComplete?.(event.nodeId, event.output);
-          }
-          break;
-
-        case 'node_failed':
-          if (event.nodeId) {
-            newState.nodeStates = {
-              ...prev.nodeStates,
-              [event.nodeId]: {
-                ...prev.nodeStates[event.nodeId],
-                status: 'failed',
-                completedAt: event.timestamp,
-                duration: event.duration,
-                error: event.error?.message,
-              },
-            };
-            onNodeFail?.(event.nodeId, event.error?.message || 'Unknown error');
-          }
-          break;
-
-        case 'execution_completed':
-          newState.status = 'completed';
-          newState.completedAt = event.timestamp;
-          newState.duration = event.duration;
-          onExecutionComplete?.(event.output);
-          break;
-
-        case 'execution_failed':
-          newState.status = 'failed';
-          newState.completedAt = event.timestamp;
-          newState.duration = event.duration;
-          newState.error = event.error?.message;
-          onExecutionFail?.(event.error?.message || 'Unknown error');
-          break;
+      // Statuses move through the schema's state machines; an event that would
+      // make an illegal move, such as a node starting after it completed, is dropped
+      const executionStatus = prev.status === 'idle' ? 'pending' : prev.status;
+      const nodeStatus = (nodeId: string) => prev.nodeStates[nodeId]?.status ?? 'pending';
+
+      try {
+        switch (event.type) {
+          case 'execution_started':
+            newState.status = advance(executionStateMachine, executionStatus, 'running');
+            newState.startedAt = event.timestamp;
+            onExecutionStart?.(event.executionId);
+            break;
+
+          case 'node_started':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'running'),
+                  startedAt: event.timestamp,
+                  attempt: event.attempt,
+                  maxAttempts: event.maxAttempts,
+                },
+              };
+              onNodeStart?.(event.nodeId);
+            }
+            break;
+
+          case 'node_retrying':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  ...prev.nodeStates[event.nodeId],
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'queued'),
+                  error: event.error?.message,
+                  attempt: event.attempt,
+                  maxAttempts: event.maxAttempts ?? prev.nodeStates[event.nodeId]?.maxAttempts,
+                },
+              };
+            }
+            break;
+
+          case 'node_waiting':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  ...prev.nodeStates[event.nodeId],
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'waiting'),
+                  resumeToken: event.resumeToken,
+                },
+              };
+              newState.status = advance(executionStateMachine, executionStatus, 'waiting');
+            }
+            break;
+
+          case 'node_resumed':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  ...prev.nodeStates[event.nodeId],
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'running'),
+                },
+              };
+              const stillWaiting = Object.values(newState.nodeStates).some((node) => node.status === 'waiting');
+              newState.status = advance(executionStateMachine, executionStatus, stillWaiting ? 'waiting' : 'running');
+            }
+            break;
+
+          case 'node_completed':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  ...prev.nodeStates[event.nodeId],
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'completed'),
+                  completedAt: event.timestamp,
+                  duration: event.duration,
+                  output: event.output,
+                },
+              };
+              onNodeComplete?.(event.nodeId, event.output);
+            }
+            break;
+
+          case 'node_failed':
+            if (event.nodeId) {
+              newState.nodeStates = {
+                ...prev.nodeStates,
+                [event.nodeId]: {
+                  ...prev.nodeStates[event.nodeId],
+                  status: advance(nodeStateMachine, nodeStatus(event.nodeId), 'failed'),
+                  completedAt: event.timestamp,
+                  duration: event.duration,
+                  error: event.error?.message,
+                },
+              };
+              onNodeFail?.(event.nodeId, event.error?.message || 'Unknown error');
+            }
+            break;
+
+          case 'execution_completed':
+            newState.status = advance(executionStateMachine, executionStatus, 'completed');
+            newState.completedAt = event.timestamp;
+            newState.duration = event.duration;
+            onExecutionComplete?.(event.output);
+            break;
+
+          case 'execution_failed':
+            newState.status = advance(executionStateMachine, executionStatus, 'failed');
+            newState.completedAt = event.timestamp;
+            newState.duration = event.duration;
+            newState.error = event.error?.message;
+            onExecutionFail?.(event.error?.message || 'Unknown error');
+            break;
+        }
+      } catch (error) {
+        if (!(error instanceof IllegalTransitionError)) throw error;
+        console.warn(`Ignoring ${event.type} event: ${error.message}`);
+        return current;
       }
 
       return newState;
@@ -239,9 +333,11 @@ export function useExecutionState(options: UseExecutionStateOptions = {}) {
         ...prev,
         executionId: execution.executionId,
         status: execution.status === 'running' ? 'running' :
+                execution.status === 'waiting' ? 'waiting' :
                 execution.status === 'completed' ? 'completed' :
                 execution.status === 'failed' ? 'failed' :
-                execution.status === 'cancelled' ? 'cancelled' : 'idle',
+                execution.status === 'cancelled' ? 'cancelled' :
+                execution.status === 'timeout' ? 'timeout' : 'idle',
         startedAt: execution.startedAt,
         completedAt: execution.completedAt,
         duration: execution.duration,
@@ -254,13 +350,16 @@ export function useExecutionState(options: UseExecutionStateOptions = {}) {
             duration: node.duration,
             error: node.error?.message,
             output: node.output,
+            attempt: node.attempt,
+            maxAttempts: node.maxAttempts,
+            resumeToken: node.resumeToken,
           };
           return acc;
         }, {}),
       }));
 
       // Stop polling if execution is complete
-      if (execution.status !== 'running' && execution.status !== 'pending') {
+      if (!['running', 'pending', 'waiting'].includes(execution.status)) {
         stopPolling();
       }
     } catch (error) {
@@ -367,9 +466,9 @@ export function useExecutionState(options: UseExecutionStateOptions = {}) {
   }, [state.nodeStates]);
 
   /**
-   * Check if execution is in progress
+   * Check if execution is in progress, including while it waits for input
    */
-  const isExecuting = state.status === 'running';
+  const isExecuting = state.status === 'running' || state.status === 'waiting';
 
   // Cleanup on unmount
   useEffect(() => {
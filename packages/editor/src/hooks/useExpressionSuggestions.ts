@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import {
+  getExpressionSuggestions,
+  type ActionResolver,
+  type ExpressionSuggestion,
+  type TransformRegistry,
+} from '@w6w/utils';
+import type { Workflow } from '../types';
+
+/**
+ * Hook that lists the expression paths available while editing a node's config
+ *
+ * Wraps `getExpressionSuggestions` from @w6w/utils so host apps can feed
+ * autocomplete for `{{ }}` inputs in their property forms. The list is
+ * recomputed when the workflow, node or resolver changes, so pass a stable
+ * resolver (e.g. a memoized registry). Pass `transforms` to suggest a custom
+ * transform registry instead of the default one.
+ *
+ * @example
+ * ```tsx
+ * const suggestions = useExpressionSuggestions(workflow, selectedNodeId, registry);
+ *
+ * <ExpressionInput
+ *   options={suggestions.map((s) => ({ label: s.path, detail: s.type, info: s.description }))}
+ * />
+ * ```
+ */
+export function useExpressionSuggestions(
+  workflow: Workflow | null | undefined,
+  nodeId: string | null | undefined,
+  resolver: ActionResolver,
+  transforms?: TransformRegistry
+): ExpressionSuggestion[] {
+  return useMemo(
+    () => (workflow && nodeId ? getExpressionSuggestions(workflow, nodeId, resolver, transforms) : []),
+    [workflow, nodeId, resolver, transforms]
+  );
+}
+
+export type { ActionResolver, ExpressionSuggestion };
@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import {
+  validateWorkflowGraph,
+  hasGraphErrors,
+  type WorkflowDiagnostic,
+  type WorkflowGraph,
+} from '@w6w/schema';
+
+export interface WorkflowValidationResult {
+  /** All diagnostics, including workflow-level ones without a nodeId */
+  diagnostics: WorkflowDiagnostic[];
+  /** Diagnostic messages grouped by the node they point at */
+  messagesByNode: Record<string, string[]>;
+  /** Whether any diagnostic has `error` severity */
+  hasErrors: boolean;
+}
+
+/**
+ * Hook that runs the semantic graph validator from @w6w/schema
+ *
+ * Checks edge endpoints and ports, cycles outside loop nodes, unreachable
+ * nodes, trigger count and duplicate ids. Accepts schema edges
+ * (`"nodeId:port"`) as well as React Flow edges with separate handles.
+ *
+ * @example
+ * ```tsx
+ * const { diagnostics, hasErrors } = useWorkflowValidation(workflow);
+ *
+ * <button disabled={hasErrors}>Run</button>
+ * ```
+ */
+export function useWorkflowValidation(
+  workflow: WorkflowGraph | null | undefined
+): WorkflowValidationResult {
+  return useMemo(() => {
+    const diagnostics = workflow ? validateWorkflowGraph(workflow) : [];
+    const messagesByNode: Record<string, string[]> = {};
+    for (const diagnostic of diagnostics) {
+      if (!diagnostic.nodeId) continue;
+      (messagesByNode[diagnostic.nodeId] ??= []).push(diagnostic.message);
+    }
+    return { diagnostics, messagesByNode, hasErrors: hasGraphErrors(diagnostics) };
+  }, [workflow]);
+}
+
+export type { WorkflowDiagnostic };
@@ -14,11 +14,14 @@ export { Rectangle, Node as WorkflowNode } from './components/elements';
 export type { RectangleProps, NodeProps as WorkflowNodeProps } from './components/elements';
 
 // Export UI components
-export { ContextMenu } from './components/ui';
-export type { ContextMenuItem, ContextMenuProps } from './components/ui';
+export { ContextMenu, ExecutionReplayControls, SchedulePreview } from './components/ui';
+export type { ContextMenuItem, ContextMenuProps, ExecutionReplayControlsProps, SchedulePreviewProps } from './components/ui';
 
 // Export types
-export type { Workflow, Node, Edge, PendingConnection, ContextMenuCallbacks } from './types';
+export type { Workflow, Node, Edge, PendingConnection, ContextMenuCallbacks, SubworkflowRef } from './types';
+
+// Export sub-workflow helpers
+export { getSubworkflowRef } from './utils/subworkflow';
 
 // Export node types - coupled with schema
 export type {
@@ -40,3 +43,19 @@ export type {
   ExecutionEventData,
   UseExecutionStateOptions,
 } from './hooks/useExecutionState';
+
+// Export execution replay
+export { useExecutionReplay } from './hooks/useExecutionReplay';
+export type { ExecutionHistory, ExecutionReplayResult } from './hooks/useExecutionReplay';
+export type { ReplayFrame, ReplayIssue, ReplayIssueCode } from '@w6w/utils';
+
+// Export expression autocomplete
+export { useExpressionSuggestions } from './hooks/useExpressionSuggestions';
+export { getExpressionSuggestions } from '@w6w/utils';
+export type { ActionResolver, ExpressionSuggestion, SuggestionKind } from '@w6w/utils';
+
+// Export graph validation
+export { useWorkflowValidation } from './hooks/useWorkflowValidation';
+export type { WorkflowValidationResult } from './hooks/useWorkflowValidation';
+export { validateWorkflowGraph } from '@w6w/schema';
+export type { WorkflowDiagnostic, WorkflowDiagnosticCode } from '@w6w/schema';
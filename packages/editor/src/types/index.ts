@@ -12,8 +12,11 @@ export type {
   Workflow,
   Node,
   Edge,
+  EdgeKind,
   Variable,
   NodeType,
+  NodeRetryPolicy,
+  SubworkflowRef,
   Position,
 } from './schema';
 
@@ -94,6 +97,10 @@ export interface ContextMenuCallbacks {
    * Called when user requests to delete a node
    */
   onNodeDelete?: (nodeId: string) => void;
+  /**
+   * Called when user requests to open the workflow a sub-workflow node calls
+   */
+  onOpenSubworkflow?: (nodeId: string, ref: import('./schema').SubworkflowRef) => void;
   /**
    * Called when a connection is dropped without connecting to an existing node
    * This allows the web app to show an "Add Node" modal and then create the node and edge
@@ -15,6 +15,9 @@ describe('Type-level schema compatibility', () => {
       expectTypeOf<'transform'>().toMatchTypeOf<NodeType>();
       expectTypeOf<'condition'>().toMatchTypeOf<NodeType>();
       expectTypeOf<'loop'>().toMatchTypeOf<NodeType>();
+      expectTypeOf<'merge'>().toMatchTypeOf<NodeType>();
+      expectTypeOf<'subworkflow'>().toMatchTypeOf<NodeType>();
+      expectTypeOf<'approval'>().toMatchTypeOf<NodeType>();
     });
   });
 
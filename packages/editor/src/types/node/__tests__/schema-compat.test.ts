@@ -16,12 +16,15 @@ describe('Node Type Compatibility', () => {
         'transform',
         'condition',
         'loop',
+        'merge',
+        'subworkflow',
+        'approval',
       ];
       expect(NODE_TYPES).toEqual(expectedTypes);
     });
 
-    it('should have exactly 5 node types', () => {
-      expect(NODE_TYPES).toHaveLength(5);
+    it('should have exactly 8 node types', () => {
+      expect(NODE_TYPES).toHaveLength(8);
     });
 
     it('should be a readonly array', () => {
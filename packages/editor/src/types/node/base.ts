@@ -6,6 +6,7 @@
  */
 
 import type { ReactNode } from 'react';
+import type { NodeRetryPolicy } from '../schema';
 
 /**
  * Core node types - matches schema's nodeTypeEnum values
@@ -17,6 +18,9 @@ export const NODE_TYPES = [
   'transform',
   'condition',
   'loop',
+  'merge',
+  'subworkflow',
+  'approval',
 ] as const;
 
 /**
@@ -31,7 +35,7 @@ export type NodeType = (typeof NODE_TYPES)[number];
 export interface SchemaNodeFields {
   /**
    * Node type from schema's nodeTypeEnum
-   * e.g., 'trigger', 'action', 'transform', 'condition', 'loop'
+   * e.g., 'trigger', 'action', 'transform', 'condition', 'loop', 'merge', 'subworkflow', 'approval'
    */
   type?: NodeType;
 
@@ -75,6 +79,16 @@ export interface SchemaNodeFields {
    */
   notes?: string;
 
+  /**
+   * Retry policy for failed attempts
+   */
+  retry?: NodeRetryPolicy;
+
+  /**
+   * Milliseconds after which each attempt is aborted
+   */
+  timeoutMs?: number;
+
   /**
    * Input ports/handles for receiving data
    */
@@ -103,6 +117,7 @@ export type NodeExecutionStatus =
   | 'pending'
   | 'queued'
   | 'running'
+  | 'waiting'
   | 'completed'
   | 'failed'
   | 'skipped'
@@ -143,6 +158,11 @@ export interface EditorNodeFields {
    */
   onDuplicate?: (nodeId: string) => void;
 
+  /**
+   * Callback when user requests to open the workflow this sub-workflow node calls
+   */
+  onOpenWorkflow?: (nodeId: string) => void;
+
   /**
    * Callback when user requests to add a node connected to this one
    */
@@ -162,6 +182,12 @@ export interface EditorNodeFields {
    */
   hasOutputConnection?: boolean;
 
+  /**
+   * Validation warnings shown on the node (UI-only)
+   * e.g. messages from `analyzeReferences` in @w6w/utils
+   */
+  warnings?: string[];
+
   // ==================== Execution Mode Fields ====================
 
   /**
@@ -181,6 +207,17 @@ export interface EditorNodeFields {
    */
   executionError?: string;
 
+  /**
+   * Current attempt number, 1-based (UI-only)
+   * Shown on the badge once a node is retried
+   */
+  executionAttempt?: number;
+
+  /**
+   * Attempts allowed by the node's retry policy (UI-only)
+   */
+  executionMaxAttempts?: number;
+
   /**
    * Whether the editor is in execution mode (UI-only)
    * When true, node interactions are disabled
@@ -11,7 +11,7 @@
 /**
  * Node type enum values
  */
-export type NodeType = 'trigger' | 'action' | 'transform' | 'condition' | 'loop';
+export type NodeType = 'trigger' | 'action' | 'transform' | 'condition' | 'loop' | 'merge' | 'subworkflow' | 'approval';
 
 /**
  * Position as an array [x, y] or [x, y, z]
@@ -33,6 +33,8 @@ export interface Node {
   config?: Record<string, unknown>;
   disabled?: boolean;
   notes?: string;
+  retry?: NodeRetryPolicy;
+  timeoutMs?: number;
   input?: string[];
   output?: string[];
   authenticationId?: string;
@@ -40,6 +42,32 @@ export interface Node {
   properties?: unknown[];
 }
 
+/**
+ * Retry policy for failed node attempts
+ */
+export interface NodeRetryPolicy {
+  maxAttempts: number;
+  backoff?: 'fixed' | 'exponential';
+  delayMs?: number;
+  maxDelayMs?: number;
+  jitter?: number;
+  retryOn?: string[];
+}
+
+/**
+ * Workflow a sub-workflow node calls, from its `config`
+ */
+export interface SubworkflowRef {
+  workflowId: string;
+  version: string;
+}
+
+/**
+ * When an edge carries: after the source completes (`success`, the default),
+ * fails (`error`) or either (`always`)
+ */
+export type EdgeKind = 'success' | 'error' | 'always';
+
 /**
  * Edge connecting two nodes
  * source/target can include port handles: "nodeId:portName"
@@ -49,6 +77,7 @@ export interface Edge {
   source: string;
   target: string;
   label?: string;
+  kind?: EdgeKind;
 }
 
 /**
@@ -75,4 +104,6 @@ export interface Workflow {
   nodes: Node[];
   edges: Edge[];
   vars?: Record<string, Variable>;
+  timeoutMs?: number;
+  concurrency?: number;
 }
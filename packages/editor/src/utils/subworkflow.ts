@@ -0,0 +1,16 @@
+import type { SubworkflowRef } from '../types/schema';
+
+/**
+ * Workflow a sub-workflow node calls, read from its data
+ *
+ * Returns undefined for other node types and for sub-workflow nodes whose
+ * config does not name a workflow and version yet.
+ */
+export function getSubworkflowRef(data: Record<string, unknown>): SubworkflowRef | undefined {
+  const type = data.type ?? data.nodeType;
+  const config = data.config as Record<string, unknown> | undefined;
+  if (type !== 'subworkflow' || typeof config?.workflowId !== 'string' || typeof config.version !== 'string') {
+    return undefined;
+  }
+  return { workflowId: config.workflowId, version: config.version };
+}
@@ -17,6 +17,7 @@ import type {
   Workflow as SchemaWorkflow,
   Node as SchemaNode,
   Edge as SchemaEdge,
+  EdgeKind,
 } from '../types/schema';
 
 /**
@@ -38,6 +39,7 @@ export interface ReactFlowEdge {
   target: string;
   sourceHandle?: string | null;
   targetHandle?: string | null;
+  data?: { kind?: EdgeKind };
 }
 
 /**
@@ -136,6 +138,8 @@ export function schemaNodeToReactFlow(schemaNode: SchemaNode): ReactFlowNode {
       config: schemaNode.config,
       disabled: schemaNode.disabled,
       notes: schemaNode.notes,
+      retry: schemaNode.retry,
+      timeoutMs: schemaNode.timeoutMs,
       input: schemaNode.input,
       output: schemaNode.output,
       authenticationId: schemaNode.authenticationId,
@@ -182,6 +186,7 @@ export function schemaEdgeToReactFlow(schemaEdge: SchemaEdge | ReactFlowEdge): R
     target: target.nodeId,
     sourceHandle: source.handle,
     targetHandle: target.handle,
+    ...(edge.kind ? { data: { kind: edge.kind } } : {}),
   };
 }
 
@@ -218,6 +223,8 @@ export function reactFlowNodeToSchema(rfNode: ReactFlowNode): SchemaNode {
     config: data.config as Record<string, unknown> | undefined,
     disabled: data.disabled as boolean | undefined,
     notes: data.notes as string | undefined,
+    retry: data.retry as SchemaNode['retry'],
+    timeoutMs: data.timeoutMs as number | undefined,
     input: data.input as string[] | undefined,
     output: data.output as string[] | undefined,
     authenticationId: data.authenticationId as string | undefined,
@@ -244,6 +251,7 @@ export function reactFlowEdgeToSchema(rfEdge: ReactFlowEdge): SchemaEdge {
     id: rfEdge.id,
     source,
     target,
+    ...(rfEdge.data?.kind ? { kind: rfEdge.data.kind } : {}),
   } as SchemaEdge;
 }
 
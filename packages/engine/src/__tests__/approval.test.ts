@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Action, NodeExecutionState } from '@w6w/schema';
+import type { Node, Workflow } from '@w6w/utils';
+import { ResumeError } from '../index';
+import { engineOf, node, stateOf } from './helpers';
+
+const record: Action = {
+    key: 'record',
+    displayName: 'Record',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ input }) => ({ data: { input } }),
+};
+
+const fail: Action = {
+    key: 'fail',
+    displayName: 'Fail',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async () => {
+        throw new Error('Payment declined');
+    },
+};
+
+/**
+ * nd_trigger -> nd_approve, whose approved, rejected and escalated ports lead
+ * to nd_ship, nd_notify and nd_escalate
+ */
+const approval = (fields: Partial<Node>): Workflow => ({
+    id: 'wf_approval',
+    name: 'Approval',
+    version: '1.0.0',
+    nodes: [
+        node('nd_trigger', 'record', { type: 'trigger' }),
+        node('nd_approve', 'record', { type: 'approval', ...fields }),
+        node('nd_ship', 'record'),
+        node('nd_notify', 'record'),
+        node('nd_escalate', 'record'),
+    ],
+    edges: [
+        { id: 'ed_1', source: 'nd_trigger', target: 'nd_approve' },
+        { id: 'ed_2', source: 'nd_approve:approved', target: 'nd_ship' },
+        { id: 'ed_3', source: 'nd_approve:rejected', target: 'nd_notify' },
+        { id: 'ed_4', source: 'nd_approve:escalated', target: 'nd_escalate' },
+    ],
+});
+
+/** Start `workflow` and let it run up to the approval node */
+const start = async (workflow: Workflow) => {
+    const engine = engineOf({ record, fail });
+    const waiting: NodeExecutionState[] = [];
+    const result = engine.execute(workflow, {
+        onNodeState: (state) => {
+            if (state.status === 'waiting') waiting.push(state);
+        },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    return { engine, waiting, result };
+};
+
+describe('approval nodes', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('waits with a resume token and continues from the approved port', async () => {
+        const { engine, waiting, result } = await start(approval({ config: { assignee: 'ops' } }));
+        const resumeToken = waiting[0]?.resumeToken as string;
+        expect(resumeToken).toMatch(/^rt_/);
+
+        engine.resume(resumeToken, { respondedBy: 'ada', comment: 'Ship it' });
+        const { record, nodeStates, transitions } = await result;
+
+        expect(record.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_approve')).toMatchObject({
+            status: 'completed',
+            resumeToken,
+            output: { decision: 'approved', data: {}, respondedBy: 'ada', comment: 'Ship it' },
+        });
+        expect(stateOf(nodeStates, 'nd_ship')?.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_notify')?.status).toBe('skipped');
+        expect(transitions.filter((t) => t.scope === 'execution').map((t) => t.toState)).toEqual([
+            'running',
+            'waiting',
+            'running',
+            'completed',
+        ]);
+        expect(transitions.find((t) => t.nodeId === 'nd_approve' && t.fromState === 'waiting')?.reason).toBe('Approved by ada');
+        expect(() => engine.resume(resumeToken)).toThrow(ResumeError);
+    });
+
+    it('continues from the rejected port and refuses unknown tokens', async () => {
+        const { engine, waiting, result } = await start(approval({}));
+
+        expect(() => engine.reject('rt_unknown')).toThrow(expect.objectContaining({ code: 'UNKNOWN_TOKEN' }));
+        engine.reject(waiting[0]?.resumeToken as string, { comment: 'Too expensive' });
+        const { record, nodeStates } = await result;
+
+        expect(record.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_approve')?.output).toMatchObject({ decision: 'rejected', comment: 'Too expensive' });
+        expect(stateOf(nodeStates, 'nd_notify')?.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_ship')?.status).toBe('skipped');
+    });
+
+    it('checks form data against the node properties', async () => {
+        const { engine, waiting, result } = await start(approval({
+            config: { mode: 'form' },
+            properties: [
+                { name: 'amount', displayName: 'Amount', type: 'number', required: true, secret: false },
+                { name: 'currency', displayName: 'Currency', type: 'string', required: false, secret: false, defaultValue: 'EUR' },
+            ],
+        }));
+        const resumeToken = waiting[0]?.resumeToken as string;
+
+        expect(() => engine.resume(resumeToken, { data: { amount: 'lots' } })).toThrow(expect.objectContaining({
+            code: 'INVALID_INPUT',
+            errors: [expect.objectContaining({ field: 'amount', message: 'Amount must be a number' })],
+        }));
+        engine.resume(resumeToken, { data: { amount: 120 } });
+        const { nodeStates } = await result;
+
+        expect(stateOf(nodeStates, 'nd_approve')?.output).toMatchObject({ decision: 'approved', data: { amount: 120, currency: 'EUR' } });
+    });
+
+    it('escalates or rejects when no response arrives in time', async () => {
+        const escalated = await start(approval({ config: { respondWithinMs: 60_000 } }));
+        await vi.advanceTimersByTimeAsync(60_000);
+        const { nodeStates, transitions } = await escalated.result;
+
+        expect(stateOf(nodeStates, 'nd_approve')?.output).toMatchObject({ decision: 'escalated', comment: 'No response within 60000ms' });
+        expect(stateOf(nodeStates, 'nd_escalate')?.status).toBe('completed');
+        expect(transitions.find((t) => t.nodeId === 'nd_approve' && t.toState === 'waiting')?.data).toMatchObject({
+            expiresAt: expect.any(Number),
+        });
+        expect(() => escalated.engine.resume(escalated.waiting[0]?.resumeToken as string)).toThrow(ResumeError);
+
+        const rejected = await start(approval({ config: { respondWithinMs: 1000, onTimeout: 'reject' } }));
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(stateOf((await rejected.result).nodeStates, 'nd_notify')?.status).toBe('completed');
+    });
+
+    it('stops waiting when a parallel branch fails', async () => {
+        const workflow = approval({});
+        workflow.nodes.push(node('nd_charge', 'fail'));
+        workflow.edges.push({ id: 'ed_5', source: 'nd_trigger', target: 'nd_charge' });
+        const { engine, waiting, result } = await start(workflow);
+        const { record, nodeStates, transitions } = await result;
+
+        expect(record.status).toBe('failed');
+        expect(record.error).toMatchObject({ nodeId: 'nd_charge', message: 'Payment declined' });
+        expect(stateOf(nodeStates, 'nd_approve')?.status).toBe('cancelled');
+        expect(transitions.find((t) => t.nodeId === 'nd_approve' && t.toState === 'cancelled')?.reason).toBe('Execution failed');
+        expect(transitions.filter((t) => t.scope === 'execution').map((t) => t.toState)).toEqual(['running', 'waiting', 'running', 'failed']);
+        expect(() => engine.resume(waiting[0]?.resumeToken as string)).toThrow(expect.objectContaining({ code: 'UNKNOWN_TOKEN' }));
+    });
+
+    it('stops waiting when the workflow times out', async () => {
+        const { engine, waiting, result } = await start({ ...approval({}), timeoutMs: 5000 });
+        await vi.advanceTimersByTimeAsync(5000);
+        const { record } = await result;
+
+        expect(record.status).toBe('timeout');
+        expect(() => engine.resume(waiting[0]?.resumeToken as string)).toThrow(expect.objectContaining({ code: 'UNKNOWN_TOKEN' }));
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Action } from '@w6w/schema';
+import { ExecutionReplay, type Workflow } from '@w6w/utils';
+import { CheckpointError, NodeExecutionError } from '../index';
+import { engineOf, node, stateOf } from './helpers';
+
+/** Calls per node id */
+const calls = new Map<string, number>();
+/** Node ids whose next call fails */
+const failing = new Set<string>();
+/** Values of `config.token` the actions saw */
+const tokens: unknown[] = [];
+
+const step: Action = {
+    key: 'step',
+    displayName: 'Step',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config, context, input }) => {
+        const nodeId = config.id as string;
+        calls.set(nodeId, (calls.get(nodeId) ?? 0) + 1);
+        if (config.token !== undefined) tokens.push(config.token);
+        if (failing.delete(nodeId)) throw new NodeExecutionError('Service unavailable', 'HTTP_503');
+        context.log(`ran ${nodeId}`);
+        return { data: { note: config.note, input } };
+    },
+};
+
+/**
+ * nd_trigger -> nd_fetch -> nd_check -> nd_save, with a secret `token` var
+ */
+const pipeline = (note = 'v1'): Workflow => ({
+    id: 'wf_pipeline',
+    name: 'Pipeline',
+    version: '1.0.0',
+    vars: { token: { name: 'token', type: 'string', isSecret: true, defaultValue: 'sk_live_42' } },
+    nodes: [
+        node('nd_trigger', 'step', { type: 'trigger', config: { id: 'nd_trigger' } }),
+        node('nd_fetch', 'step', { config: { id: 'nd_fetch', token: '{{vars.token}}' } }),
+        node('nd_check', 'step', { config: { id: 'nd_check', note } }),
+        node('nd_save', 'step', { config: { id: 'nd_save', note } }),
+    ],
+    edges: [
+        { id: 'ed_1', source: 'nd_trigger', target: 'nd_fetch' },
+        { id: 'ed_2', source: 'nd_fetch', target: 'nd_check' },
+        { id: 'ed_3', source: 'nd_check', target: 'nd_save' },
+    ],
+});
+
+const engine = engineOf({ step });
+
+describe('retrying from a checkpoint', () => {
+    beforeEach(() => {
+        calls.clear();
+        failing.clear();
+        tokens.length = 0;
+    });
+
+    it('reuses completed nodes and runs again from the failed one', async () => {
+        failing.add('nd_check');
+        const failed = await engine.execute(pipeline(), { input: { orderId: 7 } });
+        expect(failed.record.status).toBe('failed');
+
+        const { record, nodeStates, transitions } = await engine.retry(pipeline(), failed);
+
+        expect(record).toMatchObject({ status: 'completed', retryOf: failed.record.executionId, triggerContext: { triggerData: { orderId: 7 } } });
+        expect(Object.fromEntries(calls)).toEqual({ nd_fetch: 1, nd_check: 2, nd_save: 1 });
+        expect(tokens).toEqual(['sk_live_42']);
+        expect(stateOf(nodeStates, 'nd_fetch')).toMatchObject({
+            status: 'completed',
+            executionId: record.executionId,
+            restoredFrom: stateOf(failed.nodeStates, 'nd_fetch')?.id,
+            output: stateOf(failed.nodeStates, 'nd_fetch')?.output,
+        });
+        expect(stateOf(nodeStates, 'nd_check')?.restoredFrom).toBeUndefined();
+        expect(transitions.find((t) => t.nodeId === 'nd_fetch')).toMatchObject({
+            fromState: 'pending',
+            toState: 'completed',
+            reason: `Restored from execution ${failed.record.executionId}`,
+        });
+        expect(new ExecutionReplay(record, transitions, nodeStates).issues).toEqual([]);
+    });
+
+    it('replays the graph recorded in the workflow snapshot', async () => {
+        failing.add('nd_save');
+        const failed = await engine.execute(pipeline('v1'));
+
+        const { nodeStates } = await engine.retry(pipeline('v2'), failed);
+
+        expect(stateOf(nodeStates, 'nd_save')?.output).toMatchObject({ note: 'v1' });
+    });
+
+    it('reruns from a chosen node with a changed config', async () => {
+        const completed = await engine.execute(pipeline());
+
+        const { record, nodeStates } = await engine.retry(pipeline(), completed, {
+            rerunFrom: { nodeId: 'nd_check', config: { id: 'nd_check', note: 'v2' } },
+        });
+
+        expect(record).toMatchObject({ status: 'completed', rerunFromNodeId: 'nd_check' });
+        expect(Object.fromEntries(calls)).toEqual({ nd_fetch: 1, nd_check: 2, nd_save: 2 });
+        expect(stateOf(nodeStates, 'nd_check')?.output).toMatchObject({ note: 'v2' });
+        expect(stateOf(nodeStates, 'nd_save')?.output).toMatchObject({ note: 'v1' });
+        expect(record.workflowSnapshot.nodes.find((n) => n.id === 'nd_check')?.config).toEqual({ id: 'nd_check', note: 'v2' });
+    });
+
+    it('keeps the secret vars the run was given', async () => {
+        failing.add('nd_fetch');
+        const failed = await engine.execute(pipeline(), { vars: { token: 'sk_test_7' } });
+        expect(failed.record.suppliedSecretVars).toEqual(['token']);
+
+        const { record } = await engine.retry(pipeline(), failed);
+
+        expect(record.status).toBe('completed');
+        expect(tokens).toEqual(['sk_test_7', 'sk_test_7']);
+        expect(JSON.stringify([failed, record])).not.toContain('sk_test_7');
+
+        // A stored record no longer carries them
+        const stored = JSON.parse(JSON.stringify(failed));
+        await expect(engineOf({ step }).retry(pipeline(), stored)).rejects.toMatchObject({ code: 'MISSING_SECRETS' });
+        const resumed = await engineOf({ step }).retry(pipeline(), stored, { vars: { token: 'sk_test_8' } });
+        expect(resumed.record.status).toBe('completed');
+        expect(tokens.at(-1)).toBe('sk_test_8');
+    });
+
+    it('refuses runs of other workflows and unknown nodes', async () => {
+        const completed = await engine.execute(pipeline());
+
+        await expect(engine.retry({ ...pipeline(), id: 'wf_other' }, completed)).rejects.toThrow(CheckpointError);
+        await expect(engine.retry(pipeline(), completed, { rerunFrom: { nodeId: 'nd_missing' } })).rejects.toMatchObject({
+            code: 'UNKNOWN_NODE',
+        });
+    });
+});
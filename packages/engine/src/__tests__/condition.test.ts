@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import type { Action } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+import { engineOf, node } from './helpers';
+
+const record: Action = {
+    key: 'record',
+    displayName: 'Record',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ input }) => ({ data: { from: Object.keys(input) } }),
+};
+
+const branching = (config: Record<string, any>, branches: string[]): Workflow => ({
+    id: 'wf_branching',
+    name: 'Branching',
+    version: '1.0.0',
+    nodes: [
+        node('nd_trigger', 'record', { type: 'trigger' }),
+        node('nd_check', 'condition', { type: 'condition', config }),
+        ...branches.map((port) => node(`nd_${port}`, 'record')),
+        node('nd_join', 'record'),
+    ],
+    edges: [
+        { id: 'ed_in', source: 'nd_trigger', target: 'nd_check' },
+        ...branches.map((port) => ({ id: `ed_${port}`, source: `nd_check:${port}`, target: `nd_${port}` })),
+        ...branches.map((port) => ({ id: `ed_${port}_join`, source: `nd_${port}`, target: 'nd_join' })),
+    ],
+});
+
+const run = (workflow: Workflow, input: Record<string, unknown>) =>
+    engineOf({ record }).execute(workflow, { input });
+
+const statuses = (states: Array<{ nodeId: string; status: string }>) =>
+    Object.fromEntries(states.map((state) => [state.nodeId, state.status]));
+
+describe('condition nodes', () => {
+    const ifElse = branching({ mode: 'if', condition: 'input.total > 100' }, ['true', 'false']);
+
+    it('fires the true or false port of an if/else', async () => {
+        const high = await run(ifElse, { total: 250 });
+        expect(statuses(high.nodeStates)).toEqual({
+            nd_trigger: 'completed',
+            nd_check: 'completed',
+            nd_true: 'completed',
+            nd_false: 'skipped',
+            nd_join: 'completed',
+        });
+        expect(high.nodeStates[1]?.output).toEqual({ branch: 'true' });
+        expect(high.nodeStates.find((s) => s.nodeId === 'nd_join')?.output).toEqual({ from: ['nd_true'] });
+        expect(high.transitions.find((t) => t.nodeId === 'nd_false')?.reason).toBe('Condition branch not taken');
+
+        const low = await run(ifElse, { total: 20 });
+        expect(statuses(low.nodeStates)).toMatchObject({ nd_true: 'skipped', nd_false: 'completed' });
+    });
+
+    it('fires the first matching switch rule, then the fallback', async () => {
+        const plans = branching(
+            {
+                mode: 'switch',
+                rules: [
+                    { port: 'enterprise', label: 'Enterprise', condition: 'input.seats >= 100' },
+                    { port: 'team', condition: 'input.seats >= 5' },
+                ],
+                fallback: { port: 'solo', label: 'Everyone else' },
+            },
+            ['enterprise', 'team', 'solo'],
+        );
+
+        const results = await Promise.all([500, 10, 1].map((seats) => run(plans, { seats })));
+        expect(results.map((result) => result.nodeStates[1]?.output)).toEqual([
+            { branch: 'enterprise' },
+            { branch: 'team' },
+            { branch: 'solo' },
+        ]);
+        expect(statuses(results[1]?.nodeStates ?? [])).toMatchObject({
+            nd_enterprise: 'skipped',
+            nd_team: 'completed',
+            nd_solo: 'skipped',
+        });
+    });
+
+    it('skips every branch when no rule matches and there is no fallback', async () => {
+        const result = await run(branching({ mode: 'switch', rules: [{ port: 'vip', condition: 'input.vip' }] }, ['vip']), {});
+
+        expect(result.record.status).toBe('completed');
+        expect(result.nodeStates[1]?.output).toEqual({ branch: null });
+        expect(statuses(result.nodeStates)).toMatchObject({ nd_vip: 'skipped', nd_join: 'skipped' });
+    });
+
+    it('fails on invalid condition config', async () => {
+        const result = await run(branching({ mode: 'if' }, ['true']), {});
+
+        expect(result.record.status).toBe('failed');
+        expect(result.nodeStates[1]?.error).toMatchObject({ code: 'INVALID_CONFIG' });
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    executionLogEntrySchema,
+    executionRecordSchema,
+    nodeExecutionStateSchema,
+    stateTransitionSchema,
+    type Action,
+    type Connection,
+} from '@w6w/schema';
+import { REDACTED, type Node, type Workflow } from '@w6w/utils';
+import { WorkflowEngine, NodeExecutionError, WorkflowValidationError, type ExecutionResult } from '../index';
+import { engineOf, node, registryOf } from './helpers';
+
+const action = (key: string, overrides: Partial<Action> = {}): Action => ({
+    key,
+    displayName: key,
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    ...overrides,
+});
+
+const fetchUser = action('fetch-user', {
+    category: 'read',
+    requiresAuth: true,
+    properties: [
+        { name: 'email', displayName: 'Email', type: 'string', required: true, secret: false },
+        { name: 'limit', displayName: 'Limit', type: 'number', required: false, secret: false, defaultValue: 10 },
+    ],
+    execute: async ({ config, context }) => {
+        context.log(`Fetching ${config.email}`);
+        return { data: { id: 'u_1', email: config.email, token: context.credentials.token, limit: config.limit } };
+    },
+});
+
+const sendEmail = action('send-email', {
+    properties: [{ name: 'to', displayName: 'To', type: 'string', required: true, secret: false }],
+    preProcess: async ({ config, input }) => ({ config: { ...config, to: config.to.toLowerCase() }, input }),
+    execute: async ({ config, input }) => ({ data: { sent: true, to: config.to, upstream: Object.keys(input) } }),
+    postProcess: async (result) => ({ ...result, data: { ...result.data, postProcessed: true } }),
+});
+
+const failing = action('explode', {
+    execute: async () => {
+        throw new NodeExecutionError('Upstream API is down', 'UPSTREAM_DOWN', { retryable: true });
+    },
+});
+
+const registry = registryOf({ 'fetch-user': fetchUser, 'send-email': sendEmail, explode: failing });
+
+const connections: Connection[] = [{ type: 'bearer', id: 'cn_api', name: 'API', token: 'tok_secret_123' }];
+
+const workflow = (nodes: Node[], edges: Workflow['edges']): Workflow => ({
+    id: 'wf_onboarding',
+    name: 'Onboarding',
+    version: '1.0.0',
+    nodes,
+    edges,
+    vars: {
+        apiKey: { name: 'apiKey', type: 'string', isSecret: true, defaultValue: 'var_secret_456' },
+        domain: { name: 'domain', type: 'string', defaultValue: 'example.com' },
+    },
+});
+
+/** Workflow running `nodes` one after another behind a trigger */
+const triggered = (nodes: Node[]): Workflow => {
+    const ids = ['nd_trigger', ...nodes.map((n) => n.id)];
+    return workflow(
+        [node('nd_trigger', 'webhook', { type: 'trigger' }), ...nodes],
+        ids.slice(1).map((id, index) => ({ id: `ed_${index + 1}`, source: ids[index] as string, target: id })),
+    );
+};
+
+const onboarding = workflow(
+    [
+        node('nd_send', 'send-email', { config: { to: '{{nodes.nd_fetch.email}}' } }),
+        node('nd_fetch', 'fetch-user', {
+            authenticationId: 'cn_api',
+            config: { email: '{{input.email}}@{{vars.domain}}', key: '{{vars.apiKey}}' },
+        }),
+        node('nd_trigger', 'webhook', { type: 'trigger' }),
+    ],
+    [
+        { id: 'ed_1', source: 'nd_trigger:out', target: 'nd_fetch:in' },
+        { id: 'ed_2', source: 'nd_fetch:out', target: 'nd_send:in' },
+    ],
+);
+
+const createEngine = () => {
+    let clock = 1_700_000_000_000;
+    return new WorkflowEngine({
+        actions: registry,
+        connections,
+        now: () => {
+            clock += 5;
+            return clock;
+        },
+        createExecutionId: () => 'ex_test_1',
+    });
+};
+
+const expectSchemaValid = (result: ExecutionResult) => {
+    executionRecordSchema.parse(result.record);
+    for (const state of result.nodeStates) nodeExecutionStateSchema.parse(state);
+    for (const transition of result.transitions) stateTransitionSchema.parse(transition);
+    for (const entry of result.logs) executionLogEntrySchema.parse(entry);
+};
+
+const nodeTransitions = (result: ExecutionResult, nodeId: string) =>
+    result.transitions.filter((t) => t.nodeId === nodeId).map((t) => `${t.fromState}->${t.toState}`);
+
+describe('WorkflowEngine', () => {
+    it('runs nodes in topological order and resolves their config', async () => {
+        const result = await createEngine().execute(onboarding, { input: { email: 'ADA' } });
+
+        expectSchemaValid(result);
+        expect(result.record).toMatchObject({ executionId: 'ex_test_1', workflowId: 'wf_onboarding', status: 'completed' });
+        expect(result.nodeStates.map((s) => [s.nodeId, s.status])).toEqual([
+            ['nd_trigger', 'completed'],
+            ['nd_fetch', 'completed'],
+            ['nd_send', 'completed'],
+        ]);
+        expect(result.nodeStates[1]?.output).toMatchObject({ email: 'ADA@example.com', limit: 10 });
+        expect(result.nodeStates[2]?.output).toEqual({
+            sent: true,
+            to: 'ada@example.com',
+            upstream: ['nd_fetch'],
+            postProcessed: true,
+        });
+        expect(result.record.outputData).toEqual({ nd_send: result.nodeStates[2]?.output });
+    });
+
+    it('emits execution and node transitions in order', async () => {
+        const seen: string[] = [];
+        const result = await createEngine().execute(onboarding, {
+            input: { email: 'ada' },
+            onTransition: (t) => seen.push(`${t.nodeId ?? 'execution'}:${t.toState}`),
+        });
+
+        expect(seen).toEqual([
+            'execution:running',
+            'nd_trigger:running',
+            'nd_trigger:completed',
+            'nd_fetch:running',
+            'nd_fetch:completed',
+            'nd_send:running',
+            'nd_send:completed',
+            'execution:completed',
+        ]);
+        expect(result.transitions.map((t) => t.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+        expect(nodeTransitions(result, 'nd_fetch')).toEqual(['pending->running', 'running->completed']);
+    });
+
+    it('redacts connection and secret variable values', async () => {
+        const result = await createEngine().execute(onboarding, { input: { email: 'ada' } });
+        const serialized = JSON.stringify(result);
+
+        expect(serialized).not.toContain('tok_secret_123');
+        expect(serialized).not.toContain('var_secret_456');
+        expect(result.nodeStates[1]?.output).toMatchObject({ token: REDACTED });
+        expect(result.record.inputVars).toEqual({ apiKey: REDACTED, domain: 'example.com' });
+        expect(result.logs.map((e) => e.message)).toContain('Fetching ada@example.com');
+    });
+
+    it('fails the execution on the first failing node and cancels the rest', async () => {
+        const broken = workflow(
+            [
+                node('nd_trigger', 'webhook', { type: 'trigger' }),
+                node('nd_boom', 'explode'),
+                node('nd_send', 'send-email', { config: { to: 'x@example.com' } }),
+            ],
+            [
+                { id: 'ed_1', source: 'nd_trigger', target: 'nd_boom' },
+                { id: 'ed_2', source: 'nd_boom', target: 'nd_send' },
+            ],
+        );
+        const result = await createEngine().execute(broken);
+
+        expectSchemaValid(result);
+        expect(result.record.status).toBe('failed');
+        expect(result.record.error).toMatchObject({ message: 'Upstream API is down', code: 'UPSTREAM_DOWN', nodeId: 'nd_boom' });
+        expect(result.nodeStates[1]?.error).toMatchObject({ code: 'UPSTREAM_DOWN', retryable: true });
+        expect(nodeTransitions(result, 'nd_send')).toEqual(['pending->cancelled']);
+        expect(result.transitions.at(-1)).toMatchObject({ scope: 'execution', fromState: 'running', toState: 'failed' });
+    });
+
+    it('rejects configs that do not match the action properties', async () => {
+        const invalid = triggered([node('nd_fetch', 'fetch-user', { authenticationId: 'cn_api', config: { limit: 'ten' } })]);
+        const result = await createEngine().execute(invalid);
+
+        expect(result.nodeStates[1]?.error).toMatchObject({
+            code: 'INVALID_CONFIG',
+            message: 'Invalid config: Email is required; Limit must be a number',
+        });
+    });
+
+    it('reports missing actions and connections', async () => {
+        const result = await createEngine().execute(triggered([node('nd_a', 'missing', { version: '^1.0.0' })]));
+        expect(result.nodeStates[1]?.error).toMatchObject({ code: 'ACTION_NOT_FOUND', message: 'No action found for core/flow@^1.0.0#missing' });
+
+        const second = await createEngine().execute(triggered([node('nd_b', 'fetch-user', { config: { email: 'a' } })]));
+        expect(second.nodeStates[1]?.error).toMatchObject({ code: 'MISSING_CONNECTION' });
+    });
+
+    it('skips disabled nodes and nodes without a completed upstream', async () => {
+        const execute = vi.fn(sendEmail.execute);
+        const local = new WorkflowEngine({
+            actions: { resolveAction: (n) => (n.action === 'send-email' ? { ...sendEmail, execute } : registry.resolveAction(n)) },
+            createExecutionId: () => 'ex_test_2',
+        });
+        const result = await local.execute(
+            workflow(
+                [
+                    node('nd_trigger', 'webhook', { type: 'trigger' }),
+                    node('nd_off', 'send-email', { disabled: true, config: { to: 'a@b.c' } }),
+                    node('nd_after', 'send-email', { config: { to: 'a@b.c' } }),
+                ],
+                [
+                    { id: 'ed_1', source: 'nd_trigger', target: 'nd_off' },
+                    { id: 'ed_2', source: 'nd_off', target: 'nd_after' },
+                ],
+            ),
+        );
+
+        expect(result.record.status).toBe('completed');
+        expect(result.nodeStates.map((s) => s.status)).toEqual(['completed', 'skipped', 'skipped']);
+        expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('refuses to run workflows with graph errors', async () => {
+        const cyclic = workflow(
+            [node('nd_a', 'send-email'), node('nd_b', 'send-email')],
+            [
+                { id: 'ed_1', source: 'nd_a', target: 'nd_b' },
+                { id: 'ed_2', source: 'nd_b', target: 'nd_a' },
+            ],
+        );
+        const error = await createEngine().execute(cyclic).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(WorkflowValidationError);
+        expect((error as WorkflowValidationError).diagnostics.map((d) => d.code)).toContain('cycle');
+    });
+
+    it('refuses to run workflows that do not match the schema', async () => {
+        const execute = vi.fn(async () => ({ data: {} }));
+        const engine = engineOf({ 'send-email': { ...sendEmail, execute } });
+        const malformed = workflow(
+            [node('nd_trigger', 'webhook', { type: 'trigger' }), node('nd_send', 'send-email', { config: { to: 'ada@example.com' } })],
+            [{ id: 'edge-1', source: 'nd_trigger', target: 'nd_send' }],
+        );
+
+        const error = await engine.execute(malformed).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(WorkflowValidationError);
+        expect((error as WorkflowValidationError).diagnostics).toEqual([
+            expect.objectContaining({ code: 'invalid-schema', severity: 'error', edgeId: 'edge-1', message: expect.stringMatching(/^edges\.0\.id: /) }),
+        ]);
+        expect(execute).not.toHaveBeenCalled();
+    });
+});
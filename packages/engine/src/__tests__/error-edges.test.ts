@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { Action, EdgeKind } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+import { NodeExecutionError } from '../index';
+import { engineOf, node, stateOf } from './helpers';
+
+const call: Action = {
+    key: 'call',
+    displayName: 'Call',
+    category: 'read',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config }) => {
+        if (config.fail) throw new NodeExecutionError('Upstream API is down', 'HTTP_503', { retryable: true });
+        return { data: { ok: true } };
+    },
+};
+
+const record: Action = {
+    key: 'record',
+    displayName: 'Record',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config, input }) => ({ data: { input, note: config.note } }),
+};
+
+/**
+ * nd_trigger -> nd_call, then nd_call -> nd_next (success) and nd_call -> nd_handler (`handlerKind`)
+ */
+const guarded = (fail: boolean, handlerKind: EdgeKind): Workflow => ({
+    id: 'wf_guarded',
+    name: 'Guarded',
+    version: '1.0.0',
+    nodes: [
+        node('nd_trigger', 'trigger', { type: 'trigger' }),
+        node('nd_call', 'call', { config: { fail } }),
+        node('nd_next', 'record'),
+        node('nd_handler', 'record', { config: { note: '{{nodes.nd_call.error.code}}' } }),
+    ],
+    edges: [
+        { id: 'ed_in', source: 'nd_trigger', target: 'nd_call' },
+        { id: 'ed_ok', source: 'nd_call', target: 'nd_next' },
+        { id: 'ed_handler', source: 'nd_call', target: 'nd_handler', kind: handlerKind },
+    ],
+});
+
+const run = (workflow: Workflow) => engineOf({ call, record }).execute(workflow);
+
+describe('error edges', () => {
+    it('routes a failure to the error edge instead of failing the run', async () => {
+        const { record, nodeStates, transitions } = await run(guarded(true, 'error'));
+
+        expect(record.status).toBe('completed');
+        expect(record.error).toBeUndefined();
+        expect(stateOf(nodeStates, 'nd_call')).toMatchObject({ status: 'failed', error: { code: 'HTTP_503' } });
+        expect(stateOf(nodeStates, 'nd_handler')).toMatchObject({
+            status: 'completed',
+            output: {
+                note: 'HTTP_503',
+                input: { nd_call: { error: { message: 'Upstream API is down', code: 'HTTP_503', retryable: true } } },
+            },
+        });
+        expect(stateOf(nodeStates, 'nd_next')?.status).toBe('skipped');
+        expect(transitions.find((t) => t.nodeId === 'nd_next' && t.toState === 'skipped')?.reason).toBe('Upstream node failed');
+    });
+
+    it('skips the error edge when the node succeeds', async () => {
+        const { record, nodeStates, transitions } = await run(guarded(false, 'error'));
+
+        expect(record.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_next')?.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_handler')?.status).toBe('skipped');
+        expect(transitions.find((t) => t.nodeId === 'nd_handler' && t.toState === 'skipped')?.reason).toBe('No upstream error to handle');
+    });
+
+    it('follows always edges after success and failure', async () => {
+        const failed = await run(guarded(true, 'always'));
+        expect(failed.record.status).toBe('completed');
+        expect(stateOf(failed.nodeStates, 'nd_handler')).toMatchObject({ status: 'completed', output: { note: 'HTTP_503' } });
+
+        const succeeded = await run(guarded(false, 'always'));
+        expect(stateOf(succeeded.nodeStates, 'nd_handler')).toMatchObject({
+            status: 'completed',
+            output: { input: { nd_call: { ok: true } } },
+        });
+    });
+
+    it('still fails the run when a failure has no error edge', async () => {
+        const workflow = guarded(true, 'success');
+        const { record, nodeStates } = await run(workflow);
+
+        expect(record.status).toBe('failed');
+        expect(record.error).toMatchObject({ nodeId: 'nd_call', code: 'HTTP_503' });
+        expect(stateOf(nodeStates, 'nd_handler')?.status).toBe('cancelled');
+    });
+});
@@ -0,0 +1,29 @@
+// helpers.ts
+import type { Action, NodeExecutionState } from '@w6w/schema';
+import { AppRegistry, type Node } from '@w6w/utils';
+import { WorkflowEngine, type WorkflowEngineOptions } from '../index';
+
+/**
+ * Registry with `actions` in the `flow` app of the `core` package
+ */
+export const registryOf = (actions: Record<string, Action>): AppRegistry =>
+    new AppRegistry([{ name: 'core', version: '1.0.0', apps: [{ key: 'flow', displayName: 'Flow', actions }] }]);
+
+/**
+ * Engine running `actions`, with any other `options`
+ */
+export const engineOf = (actions: Record<string, Action>, options: Omit<WorkflowEngineOptions, 'actions'> = {}): WorkflowEngine =>
+    new WorkflowEngine({ actions: registryOf(actions), ...options });
+
+/**
+ * Action node of the `flow` app running `action`; `fields` override the rest,
+ * e.g. `{ type: 'trigger' }`
+ */
+export const node = (id: string, action: string, fields: Partial<Node> = {}): Node =>
+    ({ id, type: 'action', package: 'core', app: 'flow', version: '1.0.0', action, position: [0, 0], ...fields }) as Node;
+
+/**
+ * First state of `nodeId` in `states`
+ */
+export const stateOf = (states: NodeExecutionState[], nodeId: string): NodeExecutionState | undefined =>
+    states.find((state) => state.nodeId === nodeId);
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import type { Action } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+import { engineOf, node } from './helpers';
+
+let active = 0;
+let peak = 0;
+
+const echo: Action = {
+    key: 'echo',
+    displayName: 'Echo',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config }) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, config.delay ?? 0));
+        active--;
+        if (config.fail) throw new Error(`Cannot echo ${config.value}`);
+        return { data: { value: config.value } };
+    },
+};
+
+/**
+ * trigger -> loop -(body)-> nd_step -> loop:next, loop -(done)-> nd_after
+ */
+const looping = (loopConfig: Record<string, any>, stepConfig: Record<string, any>): Workflow => ({
+    id: 'wf_loop',
+    name: 'Loop',
+    version: '1.0.0',
+    nodes: [
+        node('nd_trigger', 'echo', { type: 'trigger' }),
+        node('nd_loop', 'echo', { type: 'loop', config: loopConfig }),
+        node('nd_step', 'echo', { config: stepConfig }),
+        node('nd_after', 'echo', { config: { value: '{{nodes.nd_loop.iterations}}' } }),
+    ],
+    edges: [
+        { id: 'ed_in', source: 'nd_trigger', target: 'nd_loop' },
+        { id: 'ed_body', source: 'nd_loop:body', target: 'nd_step' },
+        { id: 'ed_next', source: 'nd_step', target: 'nd_loop:next' },
+        { id: 'ed_done', source: 'nd_loop:done', target: 'nd_after' },
+    ],
+});
+
+const run = (workflow: Workflow, input: Record<string, unknown> = {}) => {
+    active = 0;
+    peak = 0;
+    return engineOf({ echo }).execute(workflow, { input });
+};
+
+describe('loop nodes', () => {
+    it('runs the body once per item with loop.item and loop.index', async () => {
+        const workflow = looping(
+            { items: '{{input.users}}', itemKey: 'id' },
+            { value: '{{loop.index}}:{{loop.item.name}}' },
+        );
+        const { record, nodeStates } = await run(workflow, { users: [{ id: 'u1', name: 'Ada' }, { id: 'u2', name: 'Grace' }] });
+
+        expect(record.status).toBe('completed');
+        const steps = nodeStates.filter((state) => state.nodeId === 'nd_step');
+        expect(steps.map((state) => state.output)).toEqual([{ value: '0:Ada' }, { value: '1:Grace' }]);
+        expect(steps.map((state) => state.id)).toEqual([`${record.executionId}_nd_step_0`, `${record.executionId}_nd_step_1`]);
+        expect(steps[1]?.loopContext).toEqual({ loopNodeId: 'nd_loop', iterationIndex: 1, iterationKey: 'u2', totalIterations: 2 });
+
+        const loop = nodeStates.find((state) => state.nodeId === 'nd_loop');
+        expect(loop?.output).toEqual({
+            results: [{ nd_step: { value: '0:Ada' } }, { nd_step: { value: '1:Grace' } }],
+            iterations: 2,
+            broke: false,
+        });
+        expect(nodeStates.find((state) => state.nodeId === 'nd_after')?.output).toEqual({ value: 2 });
+    });
+
+    it('runs up to `concurrency` iterations at once', async () => {
+        const { record, nodeStates } = await run(looping({ count: 5, concurrency: 2 }, { value: '{{loop.item}}', delay: 5 }));
+
+        expect(record.status).toBe('completed');
+        expect(peak).toBe(2);
+        const values = nodeStates.filter((state) => state.nodeId === 'nd_step').map((state) => state.output);
+        expect(values).toHaveLength(5);
+        expect(values).toEqual(expect.arrayContaining([0, 1, 2, 3, 4].map((value) => ({ value }))));
+    });
+
+    it('stops starting iterations once `break` matches', async () => {
+        const workflow = looping({ items: ['a', 'b', 'c', 'd'], break: 'nodes.nd_step.value == "b"' }, { value: '{{loop.item}}' });
+        const { nodeStates } = await run(workflow);
+
+        expect(nodeStates.filter((state) => state.nodeId === 'nd_step').map((state) => state.output)).toEqual([
+            { value: 'a' },
+            { value: 'b' },
+        ]);
+        expect(nodeStates.find((state) => state.nodeId === 'nd_loop')?.output).toMatchObject({ iterations: 2, broke: true });
+    });
+
+    it('keeps the results of finished iterations in item order after a concurrent `break`', async () => {
+        const items = [{ name: 'a', delay: 20 }, { name: 'b', delay: 0 }, { name: 'c', delay: 0 }, { name: 'd', delay: 0 }];
+        const workflow = looping(
+            { items, concurrency: 2, break: 'nodes.nd_step.value == "b"' },
+            { value: '{{loop.item.name}}', delay: '{{loop.item.delay}}' },
+        );
+        const { nodeStates } = await run(workflow);
+
+        expect(nodeStates.find((state) => state.nodeId === 'nd_loop')?.output).toEqual({
+            results: [{ nd_step: { value: 'a' } }, { nd_step: { value: 'b' } }],
+            iterations: 2,
+            broke: true,
+        });
+    });
+
+    it('fails the loop when an iteration fails', async () => {
+        const workflow = looping({ items: [1, 2, 3] }, { value: '{{loop.item}}', fail: '{{loop.index == 1}}' });
+        const { record, nodeStates } = await run(workflow);
+
+        expect(record.status).toBe('failed');
+        expect(record.error).toMatchObject({ nodeId: 'nd_loop', code: 'LOOP_ITERATION_FAILED' });
+        expect(record.error?.message).toBe('Iteration 1 failed at node nd_step: Cannot echo 2');
+        expect(nodeStates.filter((state) => state.nodeId === 'nd_step').map((state) => state.status)).toEqual([
+            'completed',
+            'failed',
+        ]);
+        expect(nodeStates.find((state) => state.nodeId === 'nd_after')?.status).toBe('cancelled');
+    });
+
+    it('skips the body when there is nothing to iterate', async () => {
+        const { record, nodeStates, transitions } = await run(looping({ items: [] }, { value: 'x' }));
+
+        expect(record.status).toBe('completed');
+        const step = nodeStates.find((state) => state.nodeId === 'nd_step');
+        expect(step).toMatchObject({ id: `${record.executionId}_nd_step`, status: 'skipped' });
+        expect(step?.loopContext).toBeUndefined();
+        expect(transitions.find((t) => t.nodeId === 'nd_step')?.reason).toBe('Loop had no iterations');
+        expect(nodeStates.find((state) => state.nodeId === 'nd_after')?.output).toEqual({ value: 0 });
+    });
+
+    it('rejects a config with neither items nor count', async () => {
+        const { record } = await run(looping({ concurrency: 2 }, { value: 'x' }));
+
+        expect(record.error).toMatchObject({ nodeId: 'nd_loop', code: 'INVALID_CONFIG' });
+        expect(record.error?.message).toContain('Set either items or count');
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Action, Edge } from '@w6w/schema';
+import type { Node, Workflow } from '@w6w/utils';
+import { engineOf, node, stateOf } from './helpers';
+
+let active = 0;
+let peak = 0;
+
+/** Finishes after `config.ms`, tracking how many run at once */
+const wait: Action = {
+    key: 'wait',
+    displayName: 'Wait',
+    category: 'read',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config }) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, config.ms));
+        active--;
+        return { data: { waited: config.ms } };
+    },
+};
+
+/**
+ * nd_trigger fans out to one branch per entry of `branches` (node id -> ms),
+ * all of which lead into nd_join, optionally on a target port each
+ */
+const fanOut = (branches: Record<string, number>, join: Partial<Node>, options: { ports?: string[]; concurrency?: number } = {}): Workflow => {
+    const ids = Object.keys(branches);
+    const edges: Edge[] = ids.flatMap((id, index) => [
+        { id: `ed_out_${id}`, source: 'nd_trigger', target: id },
+        { id: `ed_in_${id}`, source: id, target: options.ports ? `nd_join:${options.ports[index]}` : 'nd_join' },
+    ]);
+    return {
+        id: 'wf_parallel',
+        name: 'Parallel',
+        version: '1.0.0',
+        concurrency: options.concurrency,
+        nodes: [
+            node('nd_trigger', 'wait', { type: 'trigger' }),
+            ...ids.map((id) => node(id, 'wait', { config: { ms: branches[id] } })),
+            node('nd_join', 'wait', join),
+        ],
+        edges,
+    };
+};
+
+/** Run `workflow` until it finishes, letting fake time pass */
+const run = async (workflow: Workflow) => {
+    const pending = engineOf({ wait }).execute(workflow);
+    await vi.runAllTimersAsync();
+    return pending;
+};
+
+describe('parallel branches', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        active = 0;
+        peak = 0;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('runs independent branches at the same time', async () => {
+        const { record, nodeStates } = await run(fanOut({ nd_a: 100, nd_b: 100, nd_c: 100 }, { type: 'merge' }));
+
+        expect(record.status).toBe('completed');
+        expect(peak).toBe(3);
+        expect(record.duration).toBe(100);
+        expect(stateOf(nodeStates, 'nd_join')?.output).toEqual({
+            nd_a: { waited: 100 },
+            nd_b: { waited: 100 },
+            nd_c: { waited: 100 },
+        });
+    });
+
+    it('keeps at most `concurrency` nodes running', async () => {
+        const { record } = await run(fanOut({ nd_a: 100, nd_b: 100, nd_c: 100 }, { type: 'merge' }, { concurrency: 2 }));
+
+        expect(record.status).toBe('completed');
+        expect(peak).toBe(2);
+        expect(record.duration).toBe(200);
+    });
+
+    it('starts an `any` merge with the first delivery and drops later ones', async () => {
+        const { record, nodeStates, transitions } = await run(
+            fanOut({ nd_slow: 300, nd_fast: 100 }, { type: 'merge', config: { mode: 'any' } }),
+        );
+
+        expect(record.status).toBe('completed');
+        expect(stateOf(nodeStates, 'nd_join')?.output).toEqual({ nd_fast: { waited: 100 } });
+        const completed = transitions.filter((t) => t.toState === 'completed' && t.scope === 'node').map((t) => t.nodeId);
+        expect(completed).toEqual(['nd_trigger', 'nd_fast', 'nd_join', 'nd_slow']);
+    });
+
+    it('keys a `first` merge by target port, in arrival order', async () => {
+        const { nodeStates } = await run(fanOut(
+            { nd_a: 300, nd_b: 100, nd_c: 200 },
+            { type: 'merge', config: { mode: 'first', count: 2 } },
+            { ports: ['x', 'y', 'z'] },
+        ));
+
+        const join = stateOf(nodeStates, 'nd_join');
+        expect(join?.output).toEqual({ y: { waited: 100 }, z: { waited: 200 } });
+        expect(Object.keys(join?.output ?? {})).toEqual(['y', 'z']);
+        expect(join?.completedAt).toBeLessThan(stateOf(nodeStates, 'nd_a')?.completedAt ?? 0);
+    });
+
+    it('fails a merge node with an invalid config', async () => {
+        const { record } = await run(fanOut({ nd_a: 10 }, { type: 'merge', config: { mode: 'first' } }));
+
+        expect(record.error).toMatchObject({ nodeId: 'nd_join', code: 'INVALID_CONFIG' });
+    });
+});
@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Action, Connection, ExecuteParams, RestConfig } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+import { executeRestAction, NodeExecutionError } from '../index';
+import { engineOf, node } from './helpers';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+const requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+        });
+        req.on('end', () => {
+            requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+            if (req.url?.startsWith('/fail')) {
+                res.writeHead(503, { 'content-type': 'application/json' });
+                res.end(JSON.stringify({ error: 'unavailable' }));
+            } else if (req.url?.startsWith('/text')) {
+                res.writeHead(200, { 'content-type': 'text/plain' });
+                res.end('pong');
+            } else {
+                res.writeHead(200, { 'content-type': 'application/json' });
+                res.end(JSON.stringify({ data: { items: [{ id: 'ev_1' }, { id: 'ev_2' }], total: 2 } }));
+            }
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+const lastRequest = () => requests.at(-1) as RecordedRequest;
+
+const params = (config: Record<string, any>, credentials: Record<string, any> = {}): ExecuteParams => ({
+    config,
+    input: { nd_trigger: { ref: 'abc' } },
+    context: {
+        credentials,
+        variables: { region: 'eu' },
+        execution: { id: 'ex_rest', workflow_id: 'wf_rest' },
+        log: () => {},
+        fetch,
+        signal: new AbortController().signal,
+    },
+});
+
+describe('executeRestAction', () => {
+    it('resolves templates and maps the response', async () => {
+        const rest: RestConfig = {
+            method: 'POST',
+            url: `${baseUrl}/orgs/{{config.org_id}}/events?region={{vars.region}}`,
+            headers: { 'X-Request': '{{input.nd_trigger.ref}}' },
+            body: { title: '{{config.title | uppercase}}', count: '{{config.count}}' },
+            responseMapping: { events: 'data.items', first: 'data.items[0].id', total: '$.data.total' },
+        };
+        const result = await executeRestAction(rest, params({ org_id: 'acme', title: 'launch', count: 3 }));
+
+        expect(result.data).toEqual({ events: [{ id: 'ev_1' }, { id: 'ev_2' }], first: 'ev_1', total: 2 });
+        expect(lastRequest()).toMatchObject({
+            method: 'POST',
+            url: '/orgs/acme/events?region=eu',
+            headers: { 'x-request': 'abc', 'content-type': 'application/json' },
+        });
+        expect(JSON.parse(lastRequest().body)).toEqual({ title: 'LAUNCH', count: 3 });
+    });
+
+    it('returns JSON objects as-is and other bodies wrapped', async () => {
+        const json = await executeRestAction({ method: 'GET', url: `${baseUrl}/events`, body: { ignored: true } }, params({}));
+        expect(json.data).toEqual({ data: { items: [{ id: 'ev_1' }, { id: 'ev_2' }], total: 2 } });
+        expect(lastRequest().body).toBe('');
+
+        const text = await executeRestAction({ method: 'GET', url: `${baseUrl}/text` }, params({}));
+        expect(text.data).toEqual({ body: 'pong' });
+    });
+
+    it.each<[Connection, Record<string, string>]>([
+        [{ type: 'bearer', id: 'cn_bearer', name: 'Bearer', token: 'tok_1' }, { authorization: 'Bearer tok_1' }],
+        [{ type: 'oauth', id: 'cn_oauth', name: 'OAuth', provider: 'acme', accessToken: 'at_1' }, { authorization: 'Bearer at_1' }],
+        [{ type: 'custom_header', id: 'cn_custom', name: 'Custom', headers: { 'X-Api-Key': 'key_1' } }, { 'x-api-key': 'key_1' }],
+    ])('adds %s auth', async (connection, expected) => {
+        await executeRestAction({ method: 'GET', url: `${baseUrl}/events` }, params({}, connection), { connection });
+        expect(lastRequest().headers).toMatchObject(expected);
+    });
+
+    it('adds custom query and body fields without overriding explicit values', async () => {
+        const connection: Connection = {
+            type: 'custom_header',
+            id: 'cn_custom',
+            name: 'Custom',
+            headers: { Authorization: 'Key from-connection' },
+            query: { api_key: 'q_1' },
+            body: { account: 'acc_1', name: 'connection' },
+        };
+        await executeRestAction(
+            {
+                method: 'PUT',
+                url: `${baseUrl}/events`,
+                headers: { Authorization: 'Key explicit' },
+                body: { name: 'explicit' },
+            },
+            params({}, connection),
+            { connection },
+        );
+
+        expect(lastRequest().url).toBe('/events?api_key=q_1');
+        expect(lastRequest().headers.authorization).toBe('Key explicit');
+        expect(JSON.parse(lastRequest().body)).toEqual({ account: 'acc_1', name: 'explicit' });
+    });
+
+    it('raises retryable errors for 5xx responses and network failures', async () => {
+        const failed = await executeRestAction({ method: 'GET', url: `${baseUrl}/fail` }, params({})).catch((e: unknown) => e);
+        expect(failed).toBeInstanceOf(NodeExecutionError);
+        expect(failed).toMatchObject({ code: 'HTTP_503', retryable: true });
+
+        const unreachable = await executeRestAction({ method: 'GET', url: 'http://127.0.0.1:1/events' }, params({})).catch(
+            (e: unknown) => e,
+        );
+        expect(unreachable).toMatchObject({ code: 'NETWORK_ERROR', retryable: true });
+    });
+});
+
+describe('WorkflowEngine with rest actions', () => {
+    it('runs actions that only declare a rest config', async () => {
+        const listEvents: Action = {
+            key: 'list-events',
+            displayName: 'List Events',
+            category: 'read',
+            requiresAuth: true,
+            properties: [{ name: 'org_id', displayName: 'Organization', type: 'string', required: true, secret: false }],
+            rest: {
+                method: 'GET',
+                url: `${baseUrl}/orgs/{{config.org_id}}/events`,
+                responseMapping: { events: 'data.items', total: 'data.total' },
+            },
+        };
+        const workflow: Workflow = {
+            id: 'wf_calendar',
+            name: 'Calendar',
+            version: '1.0.0',
+            nodes: [
+                node('nd_trigger', 'manual', { type: 'trigger' }),
+                node('nd_list', 'list-events', { authenticationId: 'cn_cal', config: { org_id: '{{input.org}}' } }),
+            ],
+            edges: [{ id: 'ed_1', source: 'nd_trigger', target: 'nd_list' }],
+        };
+        const engine = engineOf({ 'list-events': listEvents }, {
+            connections: [{ type: 'bearer', id: 'cn_cal', name: 'Calendar', token: 'cal_token_secret' }],
+        });
+
+        const result = await engine.execute(workflow, { input: { org: 'acme' } });
+
+        expect(result.record.status).toBe('completed');
+        expect(result.nodeStates[1]?.output).toEqual({ events: [{ id: 'ev_1' }, { id: 'ev_2' }], total: 2 });
+        expect(lastRequest()).toMatchObject({ url: '/orgs/acme/events', headers: { authorization: 'Bearer cal_token_secret' } });
+        expect(JSON.stringify(result)).not.toContain('cal_token_secret');
+        expect(result.nodeStates[1]?.input).toMatchObject({ config: { org_id: 'acme' } });
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { Action, RetryPolicy } from '@w6w/schema';
+import type { NodeRetryPolicy, Workflow } from '@w6w/utils';
+import { NodeExecutionError, isRetryable, retryDelay } from '../index';
+import { engineOf, node } from './helpers';
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({
+    maxAttempts: 5,
+    backoff: 'fixed',
+    delayMs: 100,
+    jitter: 0,
+    ...overrides,
+});
+
+describe('retryDelay', () => {
+    it('waits the same time between fixed attempts', () => {
+        expect([1, 2, 3].map((attempt) => retryDelay(policy(), attempt))).toEqual([100, 100, 100]);
+    });
+
+    it('doubles exponential waits up to maxDelayMs', () => {
+        const exponential = policy({ backoff: 'exponential', maxDelayMs: 500 });
+        expect([1, 2, 3, 4].map((attempt) => retryDelay(exponential, attempt))).toEqual([100, 200, 400, 500]);
+    });
+
+    it('shortens the wait by up to the jitter fraction', () => {
+        expect(retryDelay(policy({ jitter: 0.5 }), 1, () => 0)).toBe(100);
+        expect(retryDelay(policy({ jitter: 0.5 }), 1, () => 0.5)).toBe(75);
+    });
+});
+
+describe('isRetryable', () => {
+    it('follows the error flag unless retryOn lists codes', () => {
+        const error = { message: 'Unavailable', code: 'HTTP_503', retryable: true };
+        expect(isRetryable(policy(), error)).toBe(true);
+        expect(isRetryable(policy(), { ...error, retryable: false })).toBe(false);
+        expect(isRetryable(policy({ retryOn: ['HTTP_429'] }), error)).toBe(false);
+        expect(isRetryable(policy({ retryOn: ['EXECUTION_ERROR'] }), { message: 'x', code: 'EXECUTION_ERROR', retryable: false })).toBe(true);
+    });
+});
+
+describe('node retries', () => {
+    const flaky = (failures: number, error: () => Error): Action => {
+        let calls = 0;
+        return {
+            key: 'flaky',
+            displayName: 'Flaky',
+            category: 'read',
+            properties: [],
+            requiresAuth: false,
+            execute: async () => {
+                calls++;
+                if (calls <= failures) throw error();
+                return { data: { calls } };
+            },
+        };
+    };
+
+    const setup = (action: Action, retry?: NodeRetryPolicy) => {
+        const workflow: Workflow = {
+            id: 'wf_retry',
+            name: 'Retry',
+            version: '1.0.0',
+            nodes: [node('nd_trigger', 'flaky', { type: 'trigger' }), node('nd_call', 'flaky', { retry })],
+            edges: [{ id: 'ed_1', source: 'nd_trigger', target: 'nd_call' }],
+        };
+        const delays: number[] = [];
+        const engine = engineOf({ flaky: action }, {
+            sleep: async (ms) => {
+                delays.push(ms);
+            },
+        });
+        return { run: () => engine.execute(workflow), delays };
+    };
+
+    const unavailable = () => new NodeExecutionError('Service unavailable', 'HTTP_503', { retryable: true });
+
+    it('retries retryable failures with backoff and records each attempt', async () => {
+        const { run, delays } = setup(flaky(2, unavailable), { maxAttempts: 5, backoff: 'exponential', delayMs: 100 });
+        const { record, nodeStates, transitions } = await run();
+
+        expect(record.status).toBe('completed');
+        expect(delays).toEqual([100, 200]);
+        expect(nodeStates[1]).toMatchObject({ status: 'completed', attempt: 3, maxAttempts: 5, output: { calls: 3 } });
+        expect(nodeStates[1]?.error).toBeUndefined();
+
+        const steps = transitions.filter((t) => t.nodeId === 'nd_call');
+        expect(steps.map((t) => `${t.fromState}->${t.toState}`)).toEqual([
+            'pending->running',
+            'running->queued',
+            'queued->running',
+            'running->queued',
+            'queued->running',
+            'running->completed',
+        ]);
+        expect(steps[1]).toMatchObject({
+            reason: 'Attempt 1 of 5 failed: Service unavailable',
+            data: { attempt: 1, maxAttempts: 5, delay: 100, error: { code: 'HTTP_503' } },
+        });
+        expect(steps[4]?.data).toEqual({ attempt: 3, maxAttempts: 5 });
+    });
+
+    it('fails with the last error once attempts run out', async () => {
+        const { run, delays } = setup(flaky(10, unavailable), { maxAttempts: 3, delayMs: 0 });
+        const { record, nodeStates } = await run();
+
+        expect(record.status).toBe('failed');
+        expect(delays).toHaveLength(2);
+        expect(nodeStates[1]).toMatchObject({ status: 'failed', attempt: 3, error: { code: 'HTTP_503' } });
+    });
+
+    it('does not retry errors that are not retryable', async () => {
+        const { run, delays } = setup(flaky(1, () => new Error('Bad input')), { maxAttempts: 3 });
+        const { nodeStates } = await run();
+
+        expect(delays).toEqual([]);
+        expect(nodeStates[1]).toMatchObject({ status: 'failed', attempt: 1, error: { code: 'EXECUTION_ERROR' } });
+    });
+
+    it('retries the codes listed in retryOn', async () => {
+        const { run } = setup(flaky(1, () => new Error('Timed out')), { maxAttempts: 2, delayMs: 0, retryOn: ['EXECUTION_ERROR'] });
+        const { record } = await run();
+
+        expect(record.status).toBe('completed');
+    });
+});
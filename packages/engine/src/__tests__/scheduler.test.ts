@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Action } from '@w6w/schema';
+import type { Node, Workflow } from '@w6w/utils';
+import { ScheduleError, Scheduler, type ExecutionResult } from '../index';
+import { engineOf, node } from './helpers';
+
+const record: Action = {
+    key: 'record',
+    displayName: 'Record',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ input }) => ({ data: { input } }),
+};
+
+/**
+ * nd_trigger, with `config`, -> nd_record
+ */
+const scheduled = (config: Record<string, unknown>, fields: Partial<Node> = {}): Workflow => ({
+    id: 'wf_scheduled',
+    name: 'Scheduled',
+    version: '1.0.0',
+    nodes: [node('nd_trigger', 'record', { type: 'trigger', config, ...fields }), node('nd_record', 'record')],
+    edges: [{ id: 'ed_1', source: 'nd_trigger', target: 'nd_record' }],
+});
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('Scheduler', () => {
+    let results: ExecutionResult[];
+    let scheduler: Scheduler;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(at('2026-10-19T10:07:00Z'));
+        results = [];
+        scheduler = new Scheduler(engineOf({ record }), {
+            onExecution: (result) => results.push(result),
+        });
+    });
+
+    afterEach(() => {
+        scheduler.stop();
+        vi.useRealTimers();
+    });
+
+    it('runs a cron schedule with a scheduled trigger context', async () => {
+        const upcoming = scheduler.schedule(scheduled({
+            trigger: 'scheduled',
+            schedule: { kind: 'cron', expression: '*/15 * * * *' },
+            input: { report: 'daily' },
+        }));
+        expect(upcoming).toEqual([{ workflowId: 'wf_scheduled', nodeId: 'nd_trigger', scheduledTime: at('2026-10-19T10:15:00Z') }]);
+
+        await vi.advanceTimersByTimeAsync(8 * 60_000);
+        expect(results).toHaveLength(1);
+        const { record: execution, nodeStates } = results[0]!;
+        expect(execution.status).toBe('completed');
+        expect(execution.triggerContext).toMatchObject({
+            type: 'scheduled',
+            triggeredBy: 'nd_trigger',
+            scheduledTime: at('2026-10-19T10:15:00Z'),
+        });
+        expect(nodeStates.find((state) => state.nodeId === 'nd_record')?.output).toEqual({
+            input: { nd_trigger: { report: 'daily', scheduledTime: at('2026-10-19T10:15:00Z') } },
+        });
+
+        await vi.advanceTimersByTimeAsync(30 * 60_000);
+        expect(results.map((result) => result.record.triggerContext.scheduledTime)).toEqual([
+            at('2026-10-19T10:15:00Z'),
+            at('2026-10-19T10:30:00Z'),
+            at('2026-10-19T10:45:00Z'),
+        ]);
+        expect(scheduler.upcoming()[0]?.scheduledTime).toBe(at('2026-10-19T11:00:00Z'));
+    });
+
+    it('runs a one-off schedule once and intervals until unscheduled', async () => {
+        scheduler.schedule(scheduled({ trigger: 'scheduled', schedule: { kind: 'once', at: Date.now() + 1000 } }));
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(results).toHaveLength(1);
+        expect(scheduler.upcoming()).toEqual([]);
+
+        scheduler.schedule(scheduled({ trigger: 'scheduled', schedule: { kind: 'interval', everyMs: 5000 } }));
+        await vi.advanceTimersByTimeAsync(12_000);
+        expect(results).toHaveLength(3);
+        scheduler.unschedule('wf_scheduled');
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(results).toHaveLength(3);
+    });
+
+    it('rejects invalid schedules and ignores other triggers', () => {
+        const invalid = (config: Record<string, unknown>) => {
+            try {
+                scheduler.schedule(scheduled(config));
+            } catch (error) {
+                return error;
+            }
+        };
+        expect(invalid({ trigger: 'scheduled', schedule: { kind: 'cron', expression: '61 * * * *' } })).toMatchObject({
+            name: 'ScheduleError',
+            nodeId: 'nd_trigger',
+            message: 'Trigger nd_trigger has an invalid schedule: Invalid minute "61", expected 0-59 in cron expression "61 * * * *"',
+        });
+        expect(invalid({ trigger: 'scheduled', schedule: { kind: 'interval', everyMs: 10 } })).toBeInstanceOf(ScheduleError);
+
+        expect(scheduler.schedule(scheduled({}))).toEqual([]);
+        expect(scheduler.schedule(scheduled(
+            { trigger: 'scheduled', schedule: { kind: 'interval', everyMs: 5000 } },
+            { disabled: true },
+        ))).toEqual([]);
+    });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import type { Action, NodeExecutionState } from '@w6w/schema';
+import { REDACTED, type Workflow } from '@w6w/utils';
+import { NodeExecutionError, type WorkflowResolver } from '../index';
+import { engineOf, node, stateOf } from './helpers';
+
+const greet: Action = {
+    key: 'greet',
+    displayName: 'Greet',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async ({ config }) => {
+        if (config.name === 'nobody') throw new NodeExecutionError('No one to greet', 'NO_NAME');
+        return { data: { greeting: `Hello, ${config.name}` } };
+    },
+};
+
+const decline: Action = {
+    key: 'decline',
+    displayName: 'Decline',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        throw new Error('Card declined');
+    },
+};
+
+/**
+ * wf_greeter: nd_start -> nd_greet, greeting `vars.name`
+ */
+const greeter: Workflow = {
+    id: 'wf_greeter',
+    name: 'Greeter',
+    version: '2.0.0',
+    vars: { name: { name: 'name', type: 'string', defaultValue: 'world' } },
+    nodes: [node('nd_start', 'greet', { type: 'trigger' }), node('nd_greet', 'greet', { config: { name: '{{vars.name}}' } })],
+    edges: [{ id: 'ed_1', source: 'nd_start', target: 'nd_greet' }],
+};
+
+/**
+ * wf_approver: nd_start -> nd_approve, approved -> nd_greet
+ */
+const approver: Workflow = {
+    id: 'wf_approver',
+    name: 'Approver',
+    version: '2.0.0',
+    nodes: [
+        node('nd_start', 'greet', { type: 'trigger' }),
+        node('nd_approve', 'greet', { type: 'approval' }),
+        node('nd_greet', 'greet', { config: { name: 'Ada' } }),
+    ],
+    edges: [
+        { id: 'ed_1', source: 'nd_start', target: 'nd_approve' },
+        { id: 'ed_2', source: 'nd_approve:approved', target: 'nd_greet' },
+    ],
+};
+
+/**
+ * nd_trigger -> nd_call, which runs `workflowId` with `vars`
+ */
+const caller = (workflowId: string, vars: Record<string, unknown>, id = 'wf_caller'): Workflow => ({
+    id,
+    name: 'Caller',
+    version: '1.0.0',
+    vars: { token: { name: 'token', type: 'string', isSecret: true, defaultValue: 'sk_live_42' } },
+    nodes: [
+        node('nd_trigger', 'greet', { type: 'trigger' }),
+        node('nd_call', 'greet', { type: 'subworkflow', config: { workflowId, version: '2.0.0', vars } }),
+    ],
+    edges: [{ id: 'ed_1', source: 'nd_trigger', target: 'nd_call' }],
+});
+
+const workflows: WorkflowResolver = {
+    resolveWorkflow: async (workflowId, version) => {
+        if (workflowId === greeter.id && version === greeter.version) return greeter;
+        if (workflowId === approver.id) return approver;
+        if (workflowId === 'wf_loop') return caller('wf_loop', {}, 'wf_loop');
+        return undefined;
+    },
+};
+
+const run = (workflow: Workflow, input?: Record<string, unknown>) =>
+    engineOf({ greet, decline }, { workflows }).execute(workflow, { input });
+
+/** Start `workflow`, resolving `waiting` once nd_call waits */
+const start = (workflow: Workflow) => {
+    const engine = engineOf({ greet, decline }, { workflows });
+    let parked: (state: NodeExecutionState) => void = () => {};
+    const waiting = new Promise<NodeExecutionState>((resolve) => {
+        parked = resolve;
+    });
+    const result = engine.execute(workflow, {
+        onNodeState: (state) => {
+            if (state.nodeId === 'nd_call' && state.status === 'waiting') parked(state);
+        },
+    });
+    return { engine, waiting, result };
+};
+
+describe('sub-workflow nodes', () => {
+    it('runs the child with mapped vars and outputs its outputData', async () => {
+        const { record, nodeStates, children } = await run(caller('wf_greeter', { name: '{{input.who}}' }), { who: 'Ada' });
+
+        expect(record.status).toBe('completed');
+        expect(children).toHaveLength(1);
+        const child = children[0]?.record;
+        expect(child).toMatchObject({
+            workflowId: 'wf_greeter',
+            status: 'completed',
+            parentExecutionId: record.executionId,
+            parentNodeId: 'nd_call',
+            triggerContext: { type: 'workflow', triggeredBy: record.executionId },
+            inputVars: { name: 'Ada' },
+        });
+        expect(stateOf(nodeStates, 'nd_call')).toMatchObject({
+            status: 'completed',
+            childExecutionId: child?.executionId,
+            output: { nd_greet: { greeting: 'Hello, Ada' } },
+        });
+    });
+
+    it('fails the node when the child does not complete', async () => {
+        const { record, children } = await run(caller('wf_greeter', { name: 'nobody' }));
+
+        expect(children[0]?.record.status).toBe('failed');
+        expect(record.error).toMatchObject({
+            nodeId: 'nd_call',
+            code: 'SUBWORKFLOW_FAILED',
+            message: 'Workflow wf_greeter failed: No one to greet',
+        });
+    });
+
+    it('waits while the child waits for approval', async () => {
+        const { engine, waiting, result } = start(caller('wf_approver', {}));
+        const { resumeToken } = await waiting;
+        expect(resumeToken).toMatch(/^rt_/);
+
+        engine.resume(resumeToken as string);
+        const { record, nodeStates, transitions, children } = await result;
+
+        expect(record.status).toBe('completed');
+        expect(stateOf(children[0]?.nodeStates ?? [], 'nd_approve')).toMatchObject({ status: 'completed', resumeToken });
+        expect(stateOf(nodeStates, 'nd_call')).toMatchObject({ status: 'completed', resumeToken });
+        expect(transitions.filter((t) => t.nodeId === 'nd_call').map((t) => t.toState)).toEqual(['running', 'waiting', 'running', 'completed']);
+        expect(transitions.find((t) => t.nodeId === 'nd_call' && t.toState === 'waiting')?.data).toEqual({
+            resumeToken,
+            childExecutionId: children[0]?.record.executionId,
+        });
+        expect(transitions.filter((t) => t.scope === 'execution').map((t) => t.toState)).toEqual([
+            'running',
+            'waiting',
+            'running',
+            'completed',
+        ]);
+    });
+
+    it('cancels the waiting child when the parent fails', async () => {
+        const workflow = caller('wf_approver', {});
+        workflow.nodes.push(node('nd_charge', 'decline'));
+        workflow.edges.push({ id: 'ed_2', source: 'nd_trigger', target: 'nd_charge' });
+        const { engine, waiting, result } = start(workflow);
+        const { resumeToken } = await waiting;
+        const { record, nodeStates, transitions, children } = await result;
+
+        expect(record.status).toBe('failed');
+        expect(record.error).toMatchObject({ nodeId: 'nd_charge', message: 'Card declined' });
+        expect(stateOf(nodeStates, 'nd_call')?.status).toBe('cancelled');
+        expect(children[0]?.record.status).toBe('cancelled');
+        expect(stateOf(children[0]?.nodeStates ?? [], 'nd_approve')?.status).toBe('cancelled');
+        expect(transitions.filter((t) => t.scope === 'execution').map((t) => t.toState)).toEqual(['running', 'waiting', 'running', 'failed']);
+        expect(() => engine.resume(resumeToken as string)).toThrow(expect.objectContaining({ code: 'UNKNOWN_TOKEN' }));
+    });
+
+    it('keeps the parent secrets redacted in the child', async () => {
+        const { children } = await run(caller('wf_greeter', { name: '{{vars.token}}' }));
+
+        expect(children[0]?.record.inputVars).toEqual({ name: REDACTED });
+        expect(JSON.stringify(children[0]?.nodeStates)).not.toContain('sk_live_42');
+    });
+
+    it('rejects missing and recursive workflows', async () => {
+        const missing = await run(caller('wf_unknown', {}));
+        expect(missing.record.error).toMatchObject({ code: 'WORKFLOW_NOT_FOUND', message: 'No workflow found for wf_unknown@2.0.0' });
+
+        const recursive = await run(caller('wf_loop', {}));
+        expect(recursive.children[0]?.record.error).toMatchObject({ code: 'RECURSIVE_WORKFLOW' });
+        expect(recursive.record.error).toMatchObject({ code: 'SUBWORKFLOW_FAILED' });
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Action } from '@w6w/schema';
+import type { Node, Workflow } from '@w6w/utils';
+import { engineOf, node, stateOf } from './helpers';
+
+const signals: AbortSignal[] = [];
+
+/** Finishes after `config.ms`, or never when unset; ignores its signal unless `config.cooperative` */
+const wait: Action = {
+    key: 'wait',
+    displayName: 'Wait',
+    category: 'read',
+    properties: [],
+    requiresAuth: false,
+    execute: ({ config, context }) => {
+        signals.push(context.signal);
+        return new Promise((resolve, reject) => {
+            if (config.ms !== undefined) setTimeout(() => resolve({ data: { waited: config.ms } }), config.ms);
+            if (config.cooperative) context.signal.addEventListener('abort', () => reject(new Error('Aborted by signal')));
+        });
+    },
+};
+
+const done: Action = {
+    key: 'done',
+    displayName: 'Done',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async () => ({ data: { done: true } }),
+};
+
+/**
+ * nd_trigger -> nd_slow -> nd_next
+ */
+const chain = (slow: Partial<Node>, timeoutMs?: number): Workflow => ({
+    id: 'wf_timeout',
+    name: 'Timeout',
+    version: '1.0.0',
+    timeoutMs,
+    nodes: [node('nd_trigger', 'wait', { type: 'trigger' }), node('nd_slow', 'wait', slow), node('nd_next', 'done')],
+    edges: [
+        { id: 'ed_1', source: 'nd_trigger', target: 'nd_slow' },
+        { id: 'ed_2', source: 'nd_slow', target: 'nd_next' },
+    ],
+});
+
+/** Run `workflow`, letting `ms` of fake time pass */
+const runFor = async (workflow: Workflow, ms: number) => {
+    const pending = engineOf({ wait, done }).execute(workflow);
+    await vi.advanceTimersByTimeAsync(ms);
+    return pending;
+};
+
+describe('timeouts', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        signals.length = 0;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('fails a node that runs past its timeoutMs and aborts its signal', async () => {
+        const { record, nodeStates } = await runFor(chain({ timeoutMs: 1000, config: { cooperative: true } }), 1000);
+
+        expect(signals[0]?.aborted).toBe(true);
+        expect(record.status).toBe('failed');
+        expect(record.error).toMatchObject({ nodeId: 'nd_slow', code: 'NODE_TIMEOUT', message: 'Node timed out after 1000ms' });
+        expect(stateOf(nodeStates, 'nd_slow')).toMatchObject({ status: 'failed', duration: 1000, error: { code: 'NODE_TIMEOUT' } });
+        expect(stateOf(nodeStates, 'nd_next')?.status).toBe('cancelled');
+    });
+
+    it('leaves nodes that finish in time alone', async () => {
+        const { record } = await runFor(chain({ timeoutMs: 1000, config: { ms: 400 } }, 5000), 400);
+
+        expect(record.status).toBe('completed');
+        expect(signals[0]?.aborted).toBe(false);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('times the execution out without waiting for actions that ignore the signal', async () => {
+        const { record, nodeStates, transitions } = await runFor(chain({ config: {} }, 500), 500);
+
+        expect(record.status).toBe('timeout');
+        expect(record.error).toMatchObject({ nodeId: 'nd_slow', code: 'EXECUTION_TIMEOUT' });
+        expect(record.outputData).toBeUndefined();
+        expect(stateOf(nodeStates, 'nd_slow')).toMatchObject({ status: 'failed', error: { code: 'EXECUTION_TIMEOUT' } });
+        expect(transitions.find((t) => t.nodeId === 'nd_next')).toMatchObject({
+            toState: 'cancelled',
+            reason: 'Execution timed out after 500ms',
+        });
+        expect(transitions.at(-1)).toMatchObject({ scope: 'execution', fromState: 'running', toState: 'timeout' });
+    });
+
+    it('stops loop iterations when the execution times out', async () => {
+        const workflow: Workflow = {
+            id: 'wf_loop_timeout',
+            name: 'Loop timeout',
+            version: '1.0.0',
+            timeoutMs: 250,
+            nodes: [
+                node('nd_trigger', 'wait', { type: 'trigger' }),
+                node('nd_loop', 'wait', { type: 'loop', config: { count: 3 } }),
+                node('nd_step', 'wait', { config: { ms: 100 } }),
+            ],
+            edges: [
+                { id: 'ed_1', source: 'nd_trigger', target: 'nd_loop' },
+                { id: 'ed_2', source: 'nd_loop:body', target: 'nd_step' },
+                { id: 'ed_3', source: 'nd_step', target: 'nd_loop:next' },
+            ],
+        };
+        const { record, nodeStates } = await runFor(workflow, 250);
+
+        expect(record.status).toBe('timeout');
+        expect(stateOf(nodeStates, 'nd_loop')).toMatchObject({ status: 'failed', error: { code: 'EXECUTION_TIMEOUT' } });
+        expect(nodeStates.filter((state) => state.nodeId === 'nd_step').map((state) => state.status)).toEqual([
+            'completed',
+            'completed',
+            'failed',
+        ]);
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getDownstreamNodeIds, getSourceNodeIds, topologicalOrder } from '../topology';
+
+describe('topologicalOrder', () => {
+    it('puts every node after its upstream nodes, keeping input order for ties', () => {
+        const edges = [
+            { id: 'ed_1', source: 'nd_trigger:out', target: 'nd_b' },
+            { id: 'ed_2', source: 'nd_trigger', target: 'nd_a' },
+            { id: 'ed_3', source: 'nd_a', target: 'nd_join:in1' },
+            { id: 'ed_4', source: 'nd_b', target: 'nd_join:in2' },
+        ];
+        expect(topologicalOrder(['nd_join', 'nd_b', 'nd_a', 'nd_trigger'], edges)).toEqual([
+            'nd_trigger',
+            'nd_b',
+            'nd_a',
+            'nd_join',
+        ]);
+    });
+
+    it('throws on cycles', () => {
+        const edges = [
+            { id: 'ed_1', source: 'nd_a', target: 'nd_b' },
+            { id: 'ed_2', source: 'nd_b', target: 'nd_a' },
+        ];
+        expect(() => topologicalOrder(['nd_a', 'nd_b', 'nd_c'], edges)).toThrow('Workflow contains a cycle through: nd_a, nd_b');
+    });
+});
+
+describe('getSourceNodeIds', () => {
+    it('lists distinct source nodes of incoming edges', () => {
+        const edges = [
+            { id: 'ed_1', source: 'nd_a:true', target: 'nd_c' },
+            { id: 'ed_2', source: 'nd_a:false', target: 'nd_c:in' },
+            { id: 'ed_3', source: 'nd_b', target: 'nd_c' },
+        ];
+        expect(getSourceNodeIds(edges, 'nd_c')).toEqual(['nd_a', 'nd_b']);
+    });
+});
+
+describe('getDownstreamNodeIds', () => {
+    it('collects the given nodes and everything reachable from them', () => {
+        const edges = [
+            { id: 'ed_1', source: 'nd_a', target: 'nd_b' },
+            { id: 'ed_2', source: 'nd_b:true', target: 'nd_c' },
+            { id: 'ed_3', source: 'nd_c', target: 'nd_b:in' },
+            { id: 'ed_4', source: 'nd_d', target: 'nd_c' },
+        ];
+        expect(getDownstreamNodeIds(edges, ['nd_b'])).toEqual(new Set(['nd_b', 'nd_c']));
+    });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'node:crypto';
+import type { Action } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+import { WebhookError, WebhookListener, type WorkflowEngine, type ExecutionResult } from '../index';
+import { engineOf, node } from './helpers';
+
+const record: Action = {
+    key: 'record',
+    displayName: 'Record',
+    category: 'write',
+    properties: [{ name: 'order', displayName: 'Order', type: 'string', required: false, secret: false }],
+    requiresAuth: false,
+    execute: async ({ config, input }) => ({ data: { config, input } }),
+};
+
+const fail: Action = {
+    key: 'fail',
+    displayName: 'Fail',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async () => {
+        throw new Error('Out of stock');
+    },
+};
+
+const slow: Action = {
+    key: 'slow',
+    displayName: 'Slow',
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    execute: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return { data: {} };
+    },
+};
+
+/**
+ * nd_trigger, with `config`, -> nd_record
+ */
+const webhook = (config: Record<string, unknown>, fields: Partial<Workflow> = {}): Workflow => ({
+    id: 'wf_webhook',
+    name: 'Webhook',
+    version: '1.0.0',
+    nodes: [node('nd_trigger', 'record', { type: 'trigger', config }), node('nd_record', 'record', { config: { order: '{{input.body.order.id}}' } })],
+    edges: [{ id: 'ed_1', source: 'nd_trigger', target: 'nd_record' }],
+    ...fields,
+});
+
+const sign = (body: string | Uint8Array, secret: string) => createHmac('sha256', secret).update(body).digest('hex');
+
+describe('WebhookListener', () => {
+    let results: ExecutionResult[];
+    let engine: WorkflowEngine;
+    let listener: WebhookListener;
+
+    beforeEach(() => {
+        results = [];
+        engine = engineOf({ record, fail, slow });
+        listener = new WebhookListener(engine, {
+            onExecution: (result) => results.push(result),
+        });
+    });
+
+    afterEach(async () => {
+        await listener.close();
+    });
+
+    it('runs the workflow with the request as trigger data', async () => {
+        const routes = listener.register(webhook({ trigger: 'webhook', path: '/orders', responseMode: 'wait' }));
+        expect(routes).toEqual([{ workflowId: 'wf_webhook', nodeId: 'nd_trigger', path: '/orders', methods: ['POST'] }]);
+
+        const response = await listener.handle({
+            method: 'post',
+            path: '/orders',
+            headers: { 'Content-Type': 'application/json', 'X-Source': ['shop', 'eu'] },
+            query: { retry: '1' },
+            body: '{"order":{"id":"or_1"}}',
+        });
+        expect(response.status).toBe(200);
+
+        const { record: execution, nodeStates } = results[0]!;
+        const request = {
+            method: 'POST',
+            path: '/orders',
+            headers: { 'content-type': 'application/json', 'x-source': 'shop, eu' },
+            query: { retry: '1' },
+            body: { order: { id: 'or_1' } },
+        };
+        expect(execution.triggerContext).toEqual({ type: 'webhook', triggeredBy: 'nd_trigger', triggerData: request });
+        expect(nodeStates.find((state) => state.nodeId === 'nd_record')?.output).toEqual({
+            config: { order: 'or_1' },
+            input: { nd_trigger: request },
+        });
+        expect(response.body).toEqual({ executionId: execution.executionId, status: 'completed', output: execution.outputData });
+    });
+
+    it('answers immediately with the execution id, or with the failed run when waiting', async () => {
+        listener.register(webhook({ trigger: 'webhook', path: '/orders' }));
+        const accepted = await listener.handle({ method: 'POST', path: '/orders', headers: {}, body: 'plain text' });
+        expect(accepted).toEqual({ status: 202, body: { executionId: expect.stringMatching(/^ex_/) } });
+
+        listener.register(webhook(
+            { trigger: 'webhook', path: '/orders', responseMode: 'wait' },
+            { nodes: [node('nd_trigger', 'record', { type: 'trigger', config: { trigger: 'webhook', path: '/orders', responseMode: 'wait' } }), node('nd_record', 'fail')] },
+        ));
+        const failed = await listener.handle({ method: 'POST', path: '/orders', headers: {} });
+        expect(failed.status).toBe(500);
+        expect(failed.body).toMatchObject({ status: 'failed', error: { message: expect.stringContaining('Out of stock') } });
+    });
+
+    it('answers 202 when a waited-for run pauses or takes too long', async () => {
+        listener = new WebhookListener(engine, { maxWaitMs: 10 });
+        const config = { trigger: 'webhook', path: '/orders', responseMode: 'wait' };
+        listener.register(webhook(config, {
+            nodes: [node('nd_trigger', 'record', { type: 'trigger', config }), node('nd_record', 'record', { type: 'approval' })],
+        }));
+        expect(await listener.handle({ method: 'POST', path: '/orders', headers: {} })).toEqual({
+            status: 202,
+            body: { executionId: expect.stringMatching(/^ex_/), status: 'waiting' },
+        });
+
+        listener.register(webhook(config, {
+            nodes: [node('nd_trigger', 'record', { type: 'trigger', config }), node('nd_record', 'slow')],
+        }));
+        expect(await listener.handle({ method: 'POST', path: '/orders', headers: {} })).toEqual({
+            status: 202,
+            body: { executionId: expect.stringMatching(/^ex_/), status: 'running' },
+        });
+    });
+
+    it('rejects unknown paths, other methods and bad bodies', async () => {
+        listener.register(webhook({ trigger: 'webhook', path: '/orders', methods: ['POST', 'PUT'] }));
+
+        expect((await listener.handle({ method: 'POST', path: '/refunds', headers: {} })).status).toBe(404);
+        expect(await listener.handle({ method: 'GET', path: '/orders', headers: {} })).toMatchObject({
+            status: 405,
+            headers: { allow: 'POST, PUT' },
+            body: { error: { code: 'METHOD_NOT_ALLOWED' } },
+        });
+        expect(await listener.handle({ method: 'PUT', path: '/orders', headers: { 'content-type': 'application/json' }, body: '{' })).toMatchObject({
+            status: 400,
+            body: { error: { code: 'INVALID_BODY' } },
+        });
+        expect(results).toHaveLength(0);
+    });
+
+    it('checks shared secrets and HMAC signatures', async () => {
+        listener.register(webhook(
+            { trigger: 'webhook', path: '/orders', responseMode: 'wait', auth: { mode: 'hmac', secret: '{{vars.signingKey}}' } },
+            { vars: { signingKey: { name: 'signingKey', type: 'string', defaultValue: 'k3y', isSecret: true } } },
+        ));
+        const body = '{"order":{"id":"or_1"}}';
+        const headers = { 'content-type': 'application/json' };
+
+        const unsigned = await listener.handle({ method: 'POST', path: '/orders', headers, body });
+        expect(unsigned).toMatchObject({ status: 401, body: { error: { code: 'UNAUTHORIZED' } } });
+        const forged = await listener.handle({ method: 'POST', path: '/orders', headers: { ...headers, 'x-webhook-signature': sign(body, 'other') }, body });
+        expect(forged.status).toBe(401);
+        const signed = await listener.handle({ method: 'POST', path: '/orders', headers: { ...headers, 'x-webhook-signature': `sha256=${sign(body, 'k3y')}` }, body });
+        expect(signed.status).toBe(200);
+        // The signature is not kept in the trigger data
+        expect((results[0]?.record.triggerContext.triggerData as { headers: unknown }).headers).toEqual(headers);
+
+        // Signed bytes need not be UTF-8
+        const binary = Uint8Array.from([0xff, 0xfe, 0x00, 0x80]);
+        const octets = { 'content-type': 'application/octet-stream', 'x-webhook-signature': sign(binary, 'k3y') };
+        expect((await listener.handle({ method: 'POST', path: '/orders', headers: octets, body: binary })).status).toBe(200);
+
+        listener.register(webhook({ trigger: 'webhook', path: '/orders', auth: { mode: 'secret', header: 'X-Token', secret: 's3cret' } }));
+        expect((await listener.handle({ method: 'POST', path: '/orders', headers: { 'x-token': 'wrong' } })).status).toBe(401);
+        expect((await listener.handle({ method: 'POST', path: '/orders', headers: { 'x-token': 's3cret' } })).status).toBe(202);
+    });
+
+    it('refuses invalid configs and paths taken by other workflows', () => {
+        listener.register(webhook({ trigger: 'webhook', path: '/orders' }));
+
+        expect(() => listener.register(webhook({ trigger: 'webhook', path: 'orders' }, { id: 'wf_other' }))).toThrow(WebhookError);
+        try {
+            listener.register(webhook({ trigger: 'webhook', path: '/orders' }, { id: 'wf_other' }));
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toMatchObject({ code: 'DUPLICATE_PATH', nodeId: 'nd_trigger' });
+        }
+
+        listener.unregister('wf_webhook');
+        expect(listener.register(webhook({ trigger: 'webhook', path: '/orders' }, { id: 'wf_other' }))).toHaveLength(1);
+    });
+
+    it('serves registered webhooks over HTTP', async () => {
+        listener.register(webhook({ trigger: 'webhook', path: '/orders', responseMode: 'wait' }));
+        await listener.listen(0, '127.0.0.1');
+
+        const response = await fetch(`http://127.0.0.1:${listener.port()}/orders?source=shop&tag=a&tag=b`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body: 'order=or_1',
+        });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ status: 'completed' });
+        expect(results[0]?.record.triggerContext.triggerData).toMatchObject({
+            query: { source: 'shop', tag: ['a', 'b'] },
+            body: { order: 'or_1' },
+        });
+    });
+
+    it('refuses bodies over maxBodyBytes', async () => {
+        listener = new WebhookListener(engine, { maxBodyBytes: 16, onExecution: (result) => results.push(result) });
+        listener.register(webhook({ trigger: 'webhook', path: '/orders' }));
+        expect(await listener.handle({ method: 'POST', path: '/orders', headers: {}, body: 'x'.repeat(17) })).toMatchObject({
+            status: 413,
+            body: { error: { code: 'PAYLOAD_TOO_LARGE' } },
+        });
+
+        await listener.listen(0, '127.0.0.1');
+        const response = await fetch(`http://127.0.0.1:${listener.port()}/orders`, { method: 'POST', body: 'x'.repeat(4096) });
+        expect(response.status).toBe(413);
+        expect(await response.json()).toMatchObject({ error: { code: 'PAYLOAD_TOO_LARGE' } });
+        expect(results).toHaveLength(0);
+    });
+});
@@ -0,0 +1,1447 @@
+// engine.ts
+import {
+    APPROVAL_PORTS,
+    LOOP_PORTS,
+    approvalConfigSchema,
+    conditionConfigSchema,
+    executionRecordSchema,
+    executionStateMachine,
+    loopConfigSchema,
+    mergeConfigSchema,
+    nodeStateMachine,
+    propertySchema,
+    retryPolicySchema,
+    stateTransitionSchema,
+    subworkflowConfigSchema,
+    transition as guardTransition,
+    validateNodeConfig,
+    type Action,
+    type Connection,
+    type ExecuteParams,
+    type ExecuteResult,
+    type ExecutionContext,
+    type ExecutionError,
+    type ExecutionRecord,
+    type ExecutionStatus,
+    type LoopContext,
+    type NodeError,
+    type NodeExecutionState,
+    type Property,
+    type RetryPolicy,
+    type StateMachine,
+    type StateTransition,
+} from '@w6w/schema';
+import {
+    ExecutionLogWriter,
+    SecretTracker,
+    evaluateExpression,
+    getLoopBodyNodeIds,
+    parseEndpoint,
+    redactNodeExecutionState,
+    resolveConfig,
+    type Node,
+    type ResolutionContext,
+    type ResolveOptions,
+    type Workflow,
+} from '@w6w/utils';
+import { CheckpointError, NodeExecutionError, ResumeError, WorkflowValidationError, toNodeError } from './errors';
+import { executeRestAction } from './rest';
+import { isRetryable, retryDelay } from './retry';
+import { getDownstreamNodeIds, getIncomingEdges, topologicalOrder, type IncomingEdge } from './topology';
+import { workflowErrors } from './validation';
+import type {
+    ApprovalResponse,
+    ExecuteOptions,
+    ExecutionCheckpoint,
+    ExecutionResult,
+    RetryOptions,
+    WorkflowEngineOptions,
+} from './types';
+
+/**
+ * Runs workflows in-process.
+ *
+ * A node starts once the sources of all its incoming edges have finished, so
+ * independent branches run at the same time, at most the workflow's
+ * `concurrency` at once. For each node the engine resolves `{{ }}`
+ * expressions in its `config`, checks the result against the action's
+ * properties and calls the action's `validate`, `preProcess`, `execute` and
+ * `postProcess` hooks. Actions without `execute` run their declarative
+ * `rest` config. Trigger nodes output the trigger payload.
+ *
+ * Condition nodes evaluate their `conditionConfigSchema` config and fire one
+ * output port; edges leaving from other ports carry nothing. Edges without a
+ * port always carry.
+ *
+ * Loop nodes run their body (the nodes reachable from their `body` port) once
+ * per item of `loopConfigSchema`'s `items` or `count`, with `{{loop.item}}`
+ * and `{{loop.index}}` bound to the iteration. Up to `concurrency` iterations
+ * run at once and no new ones start after `break` matches or an iteration
+ * fails. Each body node gets a state per iteration; edges from the `done`
+ * port carry once all iterations have finished.
+ *
+ * A node with a `retry` policy is attempted again after a retryable failure,
+ * waiting out the backoff in the `queued` state; every attempt shows up in
+ * the transitions.
+ *
+ * Sub-workflow nodes run the workflow their `subworkflowConfigSchema` config
+ * points to, looked up through the `workflows` option, with the config's
+ * `vars`. The child run is returned in `children` and its `outputData`
+ * becomes the node's output; a child that does not complete fails the node.
+ * While the child waits for an approval, the node is `waiting` too, with the
+ * child's `resumeToken`, and so is the execution.
+ *
+ * Merge nodes output what their incoming edges delivered, keyed by target
+ * port or source node id. Their `mergeConfigSchema` config may start them
+ * once one (`any`) or `count` (`first`) of the edges have delivered, rather
+ * than waiting for all sources.
+ *
+ * Approval nodes wait in the `waiting` state, with a `resumeToken` on their
+ * state, until `resume` or `reject` is called with that token; the execution
+ * is `waiting` while any of them are. They then fire their `approved` or
+ * `rejected` port. When `respondWithinMs` of their `approvalConfigSchema`
+ * config runs out first, they fire `escalated` (or `rejected`, with
+ * `onTimeout: 'reject'`) instead.
+ *
+ * Edges carry according to their `kind`: `success` edges (the default) leave
+ * completed nodes, `error` edges leave failed nodes and pass on `{ error }`,
+ * `always` edges do both. A failure is handled when the failed node has an
+ * `error` or `always` edge; the run goes on and the node's `success` edges
+ * carry nothing.
+ *
+ * A node's `timeoutMs` bounds each of its attempts and the workflow's
+ * `timeoutMs` the whole run. Actions see both through `context.signal`. A
+ * node that runs out of time fails with `NODE_TIMEOUT`; when the workflow
+ * does, the running node fails with `EXECUTION_TIMEOUT`, the rest are
+ * cancelled and the execution ends as `timeout`.
+ *
+ * `retry` resumes a finished run on the graph in its `workflowSnapshot`: nodes
+ * that completed keep their recorded state and output (shown as `completed`
+ * with `restoredFrom`) and the rest run again.
+ *
+ * A node is skipped when it is disabled or none of its incoming edges carry.
+ * The first unhandled failure fails the execution and cancels the nodes that
+ * have not started yet and approval nodes still waiting, whose resume tokens
+ * stop working; other nodes already running finish.
+ *
+ * Values read from connections and secret `vars` are redacted from node
+ * states, logs, transitions and the execution record.
+ *
+ * @example
+ * const engine = new WorkflowEngine({ actions: registry, connections });
+ * const { record, nodeStates, transitions } = await engine.execute(workflow, {
+ *     input: { email: 'ada@example.com' },
+ *     onTransition: (t) => stream.send(t),
+ * });
+ */
+export class WorkflowEngine {
+    private readonly connections: Map<string, Connection>;
+    /** Approval nodes waiting for a response, by resume token */
+    private readonly waits = new Map<string, PendingResponse>();
+    /** Secret vars each run was given, by the record it returned */
+    private readonly secretVars = new WeakMap<ExecutionRecord, Record<string, unknown>>();
+
+    constructor(private readonly options: WorkflowEngineOptions) {
+        this.connections = new Map((options.connections ?? []).map((connection) => [connection.id, connection]));
+    }
+
+    /**
+     * Run `workflow` to completion. Node failures do not reject; they are
+     * reported through the returned record.
+     *
+     * @throws {WorkflowValidationError} if the workflow does not match `workflowSchema` or its graph has errors
+     */
+    async execute(workflow: Workflow, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+        const errors = workflowErrors(workflow);
+        if (errors.length > 0) {
+            throw new WorkflowValidationError(errors);
+        }
+        return this.start(new ExecutionRun(workflow, this.options, this.connections, this.waits, options));
+    }
+
+    /**
+     * Run `previous` again from where it stopped, replaying the graph in its
+     * `workflowSnapshot`. Nodes that completed are restored from
+     * `previous.nodeStates` rather than run; with `rerunFrom`, only those
+     * upstream of that node are. Secret vars redacted from the record keep
+     * the values `previous` was given when it is a result of this engine,
+     * and otherwise fall back to their defaults in `workflow`.
+     *
+     * @throws {CheckpointError} if `previous` cannot be resumed, e.g. when it
+     * was given secret vars this engine no longer knows and `options.vars`
+     * does not supply
+     * @throws {WorkflowValidationError} if the replayed graph has errors
+     */
+    async retry(workflow: Workflow, previous: ExecutionCheckpoint, options: RetryOptions = {}): Promise<ExecutionResult> {
+        const { record } = previous;
+        if (record.workflowId !== workflow.id) {
+            throw new CheckpointError(`Execution ${record.executionId} ran workflow ${record.workflowId}, not ${workflow.id}`, 'WORKFLOW_MISMATCH');
+        }
+        if (record.status === 'pending' || record.status === 'running' || record.status === 'waiting') {
+            throw new CheckpointError(`Execution ${record.executionId} is still ${record.status}`, 'NOT_FINISHED');
+        }
+        const { workflowSnapshot: snapshot } = record;
+        const { rerunFrom } = options;
+        if (rerunFrom && !snapshot.nodes.some((node) => node.id === rerunFrom.nodeId)) {
+            throw new CheckpointError(`Execution ${record.executionId} has no node ${rerunFrom.nodeId}`, 'UNKNOWN_NODE');
+        }
+
+        // Recorded from this engine's `Node`s; `nodeSchema` leaves them untyped
+        const nodes = snapshot.nodes as unknown as Node[];
+        const replayed: Workflow = {
+            ...workflow,
+            nodes: nodes.map((node) => (
+                rerunFrom?.config && node.id === rerunFrom.nodeId ? { ...node, config: rerunFrom.config } : node
+            )),
+            edges: snapshot.edges,
+            timeoutMs: snapshot.timeoutMs,
+            concurrency: snapshot.concurrency,
+        };
+        const errors = workflowErrors(replayed);
+        if (errors.length > 0) {
+            throw new WorkflowValidationError(errors);
+        }
+
+        // Secret values were redacted from the record; those `previous` was
+        // given come from this engine, the rest from `workflow`
+        const secret = new Set([
+            ...(snapshot.variables ?? []).filter((variable) => variable.isSecret).map((variable) => variable.name),
+            ...Object.entries(workflow.vars ?? {}).filter(([, variable]) => variable.isSecret).map(([name]) => name),
+        ]);
+        const supplied = this.secretVars.get(record) ?? {};
+        const missing = (record.suppliedSecretVars ?? []).filter((name) => !(name in supplied) && !(options.vars && name in options.vars));
+        if (missing.length > 0) {
+            throw new CheckpointError(
+                `Execution ${record.executionId} was given secret vars ${missing.join(', ')}, whose values are not known; pass them in vars`,
+                'MISSING_SECRETS',
+            );
+        }
+        const vars = Object.fromEntries(Object.entries(record.inputVars).filter(([name]) => !secret.has(name)));
+        const { type, triggeredBy } = record.triggerContext;
+        return this.start(new ExecutionRun(replayed, this.options, this.connections, this.waits, {
+            ...options,
+            input: options.input ?? (record.triggerContext.triggerData as Record<string, unknown> | undefined),
+            vars: { ...vars, ...supplied, ...options.vars },
+            trigger: options.trigger ?? { type, triggeredBy },
+        }, undefined, { previous, rerunFrom: rerunFrom?.nodeId }));
+    }
+
+    /**
+     * Approve the approval node waiting on `token`, submitting `data` in
+     * `form` mode, and continue from its `approved` port
+     *
+     * @throws {ResumeError} if no node waits on `token` or `data` does not
+     * match the node's properties
+     */
+    resume(token: string, response: ApprovalResponse = {}): void {
+        const pending = this.pendingResponse(token);
+        const checked = validateNodeConfig(response.data, pending.properties, { allowExpressions: false, strict: true });
+        if (!checked.success) {
+            const details = checked.errors.map((e) => e.message).join('; ');
+            throw new ResumeError(`Invalid input: ${details}`, 'INVALID_INPUT', checked.errors);
+        }
+        pending.respond({
+            decision: 'approved',
+            data: checked.config,
+            respondedBy: response.respondedBy,
+            comment: response.comment,
+        });
+    }
+
+    /**
+     * Reject the approval node waiting on `token` and continue from its
+     * `rejected` port
+     *
+     * @throws {ResumeError} if no node waits on `token`
+     */
+    reject(token: string, response: Omit<ApprovalResponse, 'data'> = {}): void {
+        this.pendingResponse(token).respond({
+            decision: 'rejected',
+            respondedBy: response.respondedBy,
+            comment: response.comment,
+        });
+    }
+
+    private pendingResponse(token: string): PendingResponse {
+        const pending = this.waits.get(token);
+        if (!pending) {
+            throw new ResumeError(`No node is waiting on resume token ${token}`, 'UNKNOWN_TOKEN');
+        }
+        return pending;
+    }
+
+    /**
+     * Run `run`, remembering its secret vars for `retry`
+     */
+    private async start(run: ExecutionRun): Promise<ExecutionResult> {
+        const result = await run.run();
+        if (Object.keys(run.suppliedSecrets).length > 0) this.secretVars.set(result.record, run.suppliedSecrets);
+        return result;
+    }
+}
+
+/**
+ * Output of an approval node; `decision` is also the port it fires
+ */
+interface ApprovalOutcome {
+    decision: keyof typeof APPROVAL_PORTS;
+    data?: Record<string, unknown>;
+    respondedBy?: string;
+    comment?: string;
+    respondedAt: number;
+}
+
+/**
+ * An approval node waiting on its resume token
+ */
+interface PendingResponse {
+    properties: Property[];
+    respond: (outcome: Omit<ApprovalOutcome, 'respondedAt'>) => void;
+}
+
+/**
+ * Rejects a waiting approval node, or aborts a waiting sub-workflow, whose
+ * run failed elsewhere; the node ends `cancelled` rather than `failed`
+ */
+class ApprovalCancelledError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ApprovalCancelledError';
+    }
+}
+
+/**
+ * Where a sub-workflow run was started from
+ */
+interface RunParent {
+    executionId: string;
+    nodeId: string;
+    /** Ids of the workflows running above this one, outermost first */
+    workflowIds: string[];
+    secrets: SecretTracker;
+    signal: AbortSignal;
+}
+
+/**
+ * Run that a retry resumes
+ */
+interface RunCheckpoint {
+    previous: ExecutionCheckpoint;
+    rerunFrom?: string;
+}
+
+/**
+ * Outputs and fired ports of one pass over a set of nodes: the whole
+ * workflow, or one loop iteration nested in its enclosing scope
+ */
+interface Scope {
+    outputs: Map<string, Record<string, any>>;
+    /** Errors of failed nodes, passed on by `error` and `always` edges */
+    errors: Map<string, RoutedError>;
+    /** Port fired by each completed condition or loop node; `null` when none fired */
+    firedPorts: Map<string, string | null>;
+    /** Nodes of this scope that completed, failed, were skipped or cancelled, in that order */
+    settled: Set<string>;
+    /** Appended to state ids: `_<index>` for every enclosing iteration */
+    suffix: string;
+    loop?: { context: LoopContext; item: unknown };
+    /** Aborted when the execution or the enclosing loop node times out */
+    signal: AbortSignal;
+    parent?: Scope;
+}
+
+/**
+ * Error of a failed node as its `error`/`always` edges pass it on
+ */
+type RoutedError = Omit<NodeError, 'stack'>;
+
+/**
+ * State of a single `execute` call
+ */
+class ExecutionRun {
+    private readonly executionId: string;
+    private readonly now: () => number;
+    private readonly secrets: SecretTracker;
+    private readonly log: ExecutionLogWriter;
+    private readonly vars: Record<string, unknown>;
+    /** Values of secret vars given in `options.vars`, kept out of the record */
+    readonly suppliedSecrets: Record<string, unknown> = {};
+    private readonly input: Record<string, unknown>;
+    private readonly nodes: Map<string, Node>;
+    /** Body node ids of every loop node */
+    private readonly bodies = new Map<string, Set<string>>();
+    /** Node states by state id, in the order they were created */
+    private readonly states = new Map<string, NodeExecutionState>();
+    /** State ids of loop nodes that started at least one iteration */
+    private readonly iterated = new Set<string>();
+    /** Nodes with an `error` or `always` edge, whose failures are handled */
+    private readonly handlers = new Set<string>();
+    /** Aborted when the workflow's `timeoutMs` runs out */
+    private readonly deadline = new AbortController();
+    private readonly transitions: StateTransition[] = [];
+    private readonly children: ExecutionResult[] = [];
+    private readonly startedAt: number;
+    /** Approval nodes currently waiting; the execution is `waiting` while there are any */
+    private waiting = 0;
+    /**
+     * Cancels each waiting approval node, by resume token, and each
+     * sub-workflow waiting on one, by child execution id
+     */
+    private readonly pendingApprovals = new Map<string, { scope: Scope; cancel: (reason: string) => void }>();
+    /** Earlier states of the top-level nodes a retry reuses, by node id */
+    private readonly restored: Map<string, NodeExecutionState>;
+
+    constructor(
+        private readonly workflow: Workflow,
+        private readonly engine: WorkflowEngineOptions,
+        private readonly connections: Map<string, Connection>,
+        private readonly waits: Map<string, PendingResponse>,
+        private readonly options: ExecuteOptions,
+        private readonly parent?: RunParent,
+        private readonly checkpoint?: RunCheckpoint,
+    ) {
+        this.now = engine.now ?? Date.now;
+        this.startedAt = this.now();
+        this.executionId = engine.createExecutionId?.() ?? `ex_${crypto.randomUUID().replace(/-/g, '')}`;
+        this.secrets = SecretTracker.forWorkflow(workflow);
+        if (parent) this.secrets.trackAll(parent.secrets);
+        this.log = new ExecutionLogWriter(this.secrets, this.now);
+        this.nodes = new Map(workflow.nodes.map((node) => [node.id, node]));
+        for (const node of workflow.nodes) {
+            if (node.type === 'loop') this.bodies.set(node.id, getLoopBodyNodeIds(workflow.edges, node.id));
+        }
+        for (const edge of workflow.edges) {
+            if (edge.kind === 'error' || edge.kind === 'always') this.handlers.add(parseEndpoint(edge.source).nodeId);
+        }
+        this.input = options.input ?? {};
+        this.vars = {};
+        for (const [key, variable] of Object.entries(workflow.vars ?? {})) {
+            const value = options.vars && key in options.vars ? options.vars[key] : variable.defaultValue;
+            this.vars[key] = value;
+            if (!variable.isSecret) continue;
+            this.secrets.track(value);
+            if (options.vars && key in options.vars) this.suppliedSecrets[key] = value;
+        }
+        this.restored = checkpoint ? this.restorable(checkpoint) : new Map();
+    }
+
+    async run(): Promise<ExecutionResult> {
+        const scope: Scope = {
+            outputs: new Map(),
+            errors: new Map(),
+            firedPorts: new Map(),
+            settled: new Set(),
+            suffix: '',
+            signal: this.deadline.signal,
+        };
+        const nested = new Set([...this.bodies.values()].flatMap((body) => [...body]));
+        const order = this.scopeOrder((id) => !nested.has(id));
+        for (const nodeId of order) {
+            this.initState(nodeId, scope);
+        }
+
+        this.transition('pending', 'running', { reason: 'Execution started' });
+        this.log.write('info', `Execution started for workflow ${this.workflow.id}`);
+        for (const nodeId of order) {
+            const earlier = this.restored.get(nodeId);
+            if (earlier) this.restoreNode(this.nodes.get(nodeId) as Node, scope, earlier);
+        }
+
+        const { timeoutMs } = this.workflow;
+        const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+            this.deadline.abort(new NodeExecutionError(`Execution timed out after ${timeoutMs}ms`, 'EXECUTION_TIMEOUT'));
+        }, timeoutMs);
+        // A sub-workflow stops when the node that started it is aborted
+        const abort = () => this.deadline.abort(this.parent?.signal.reason);
+        this.parent?.signal.addEventListener('abort', abort, { once: true });
+        const error = await this.runNodes(order, scope);
+        clearTimeout(timer);
+        this.parent?.signal.removeEventListener('abort', abort);
+
+        const cancelled = this.deadline.signal.reason instanceof ApprovalCancelledError;
+        const timedOut = this.deadline.signal.aborted && !cancelled;
+        let status: ExecutionStatus = timedOut ? 'timeout' : error ? 'failed' : 'completed';
+        if (cancelled) status = 'cancelled';
+        const completedAt = this.now();
+        let reason = 'All nodes finished';
+        if (timedOut || cancelled) {
+            reason = (this.deadline.signal.reason as Error).message;
+        } else if (error) {
+            reason = `Node ${error.nodeId} failed`;
+        }
+        this.transition('running', status, { reason, data: error ? { error } : undefined });
+        this.log.write(status === 'completed' ? 'info' : 'error', `Execution ${status}`, error ? { error } : {});
+
+        const record: ExecutionRecord = executionRecordSchema.parse({
+            executionId: this.executionId,
+            workflowId: this.workflow.id,
+            workflowSnapshot: {
+                nodes: this.workflow.nodes,
+                edges: this.workflow.edges,
+                variables: Object.entries(this.workflow.vars ?? {}).map(([name, variable]) => ({
+                    name,
+                    type: variable.type,
+                    isSecret: variable.isSecret,
+                })),
+                timeoutMs: this.workflow.timeoutMs,
+                concurrency: this.workflow.concurrency,
+            },
+            status,
+            startedAt: this.startedAt,
+            completedAt,
+            duration: completedAt - this.startedAt,
+            error: this.secrets.redact(error),
+            triggerContext: { type: 'manual', ...this.options.trigger, triggerData: this.secrets.redact(this.options.input) },
+            inputVars: this.secrets.redact(this.vars),
+            suppliedSecretVars: Object.keys(this.suppliedSecrets).length > 0 ? Object.keys(this.suppliedSecrets) : undefined,
+            outputData: status === 'completed' ? this.secrets.redact(this.leafOutputs(scope)) : undefined,
+            parentExecutionId: this.parent?.executionId,
+            parentNodeId: this.parent?.nodeId,
+            retryOf: this.checkpoint?.previous.record.executionId,
+            rerunFromNodeId: this.checkpoint?.rerunFrom,
+        });
+
+        return {
+            record,
+            nodeStates: [...this.states.values()],
+            transitions: [...this.transitions],
+            logs: this.log.entries,
+            children: [...this.children],
+        };
+    }
+
+    /**
+     * Run `order` within `scope`, starting each node once it is ready and
+     * keeping at most the workflow's `concurrency` running. Returns the first
+     * unhandled node error; nodes that have not started by then, or by the
+     * time `scope` is aborted, are cancelled, as are approval nodes waiting.
+     */
+    private async runNodes(order: string[], scope: Scope): Promise<ExecutionError | undefined> {
+        const members = new Set(order);
+        // Nodes restored by a retry have already settled
+        const waiting = new Set(order.filter((nodeId) => !scope.settled.has(nodeId)));
+        const running = new Map<string, Promise<void>>();
+        const limit = this.workflow.concurrency ?? Infinity;
+        let error: ExecutionError | undefined;
+
+        const settle = (node: Node) => {
+            scope.settled.add(node.id);
+            if (node.type === 'loop' && !this.iterated.has(this.stateId(node.id, scope))) {
+                this.settleBody(node, scope);
+            }
+        };
+        const start = (node: Node) => {
+            running.set(node.id, this.runNode(node, scope).then((failure) => {
+                running.delete(node.id);
+                if (failure && this.handlers.has(node.id) && !scope.signal.aborted) {
+                    this.log.write('info', `Error in node ${node.id} routed to its error edges`, { nodeId: node.id });
+                } else if (failure) {
+                    error ??= { ...failure, nodeId: node.id, timestamp: this.now() };
+                    // Nothing will use their response, and the run cannot finish while they wait
+                    this.cancelApprovals(scope, 'Execution failed');
+                }
+                settle(node);
+            }));
+        };
+
+        while (waiting.size > 0 || running.size > 0) {
+            for (const nodeId of order) {
+                if (!waiting.has(nodeId)) continue;
+                const node = this.nodes.get(nodeId) as Node;
+                if (scope.signal.aborted) {
+                    this.finishNode(node, scope, 'cancelled', { reason: (scope.signal.reason as Error).message });
+                } else if (error) {
+                    this.finishNode(node, scope, 'cancelled', { reason: 'Execution failed' });
+                } else if (!this.isReady(node, scope, members)) {
+                    continue;
+                } else if (running.size >= limit) {
+                    break;
+                } else {
+                    const skipReason = this.skipReason(node, scope);
+                    if (!skipReason) {
+                        waiting.delete(nodeId);
+                        start(node);
+                        continue;
+                    }
+                    this.finishNode(node, scope, 'skipped', { reason: skipReason });
+                }
+                waiting.delete(nodeId);
+                settle(node);
+            }
+            if (running.size > 0) await Promise.race(running.values());
+        }
+        return error;
+    }
+
+    /**
+     * Top-level nodes a retry reuses: those that completed in the earlier run,
+     * unless downstream of a node that did not (or of `rerunFrom`, or the
+     * loop around it). Skipped nodes are not reused but skip again.
+     */
+    private restorable({ previous, rerunFrom }: RunCheckpoint): Map<string, NodeExecutionState> {
+        const nested = new Set([...this.bodies.values()].flatMap((body) => [...body]));
+        const earlier = new Map(previous.nodeStates.filter((state) => !state.loopContext).map((state) => [state.nodeId, state]));
+        const topLevel = this.workflow.nodes.map((node) => node.id).filter((id) => !nested.has(id));
+        let starts: string[];
+        if (rerunFrom) {
+            const loop = topLevel.find((id) => this.bodies.get(id)?.has(rerunFrom));
+            starts = [loop ?? rerunFrom];
+        } else {
+            starts = topLevel.filter((id) => earlier.get(id)?.status !== 'completed' && earlier.get(id)?.status !== 'skipped');
+        }
+        const rerun = getDownstreamNodeIds(this.workflow.edges, starts);
+        const restored = new Map<string, NodeExecutionState>();
+        for (const id of topLevel) {
+            const state = earlier.get(id);
+            if (state?.status === 'completed' && !rerun.has(id)) restored.set(id, state);
+        }
+        return restored;
+    }
+
+    /**
+     * Complete a node with its state from the run being retried; a loop also
+     * gets its body's states back
+     */
+    private restoreNode(node: Node, scope: Scope, earlier: NodeExecutionState): void {
+        const previous = this.checkpoint?.previous as ExecutionCheckpoint;
+        const output = (earlier.output ?? {}) as Record<string, any>;
+        scope.outputs.set(node.id, output);
+        const port = firedPort(node, output);
+        if (port !== undefined) scope.firedPorts.set(node.id, port);
+        scope.settled.add(node.id);
+        const stateId = this.stateId(node.id, scope);
+        const reason = `Restored from execution ${previous.record.executionId}`;
+        this.updateNode(node.id, scope, 'completed', {
+            ...earlier,
+            id: stateId,
+            executionId: this.executionId,
+            restoredFrom: earlier.id,
+        }, { reason });
+
+        if (node.type !== 'loop') return;
+        this.iterated.add(stateId);
+        const body = this.bodies.get(node.id) ?? new Set<string>();
+        for (const state of previous.nodeStates) {
+            if (!state.loopContext || !body.has(state.nodeId)) continue;
+            this.setNodeState({
+                ...state,
+                id: state.id.replace(previous.record.executionId, this.executionId),
+                executionId: this.executionId,
+                restoredFrom: state.id,
+            });
+            this.transition('pending', state.status, { nodeId: state.nodeId, reason, data: { loopContext: state.loopContext } });
+        }
+    }
+
+    /**
+     * Whether `node` may start: the sources of its incoming edges (among
+     * `members`, the nodes run with it) have all settled, or enough of them
+     * have delivered for an `any` or `first` merge
+     */
+    private isReady(node: Node, scope: Scope, members: Set<string>): boolean {
+        const incoming = this.incomingEdges(node);
+        const settled = incoming.filter(({ sourceId }) => !members.has(sourceId) || scope.settled.has(sourceId));
+        if (settled.length === incoming.length) return true;
+        const needed = node.type === 'merge' ? deliveriesNeeded(node) : undefined;
+        return needed !== undefined && settled.filter((edge) => this.carries(scope, edge)).length >= needed;
+    }
+
+    /**
+     * Run one node, retrying as its policy allows; returns the error if it failed
+     */
+    private async runNode(node: Node, scope: Scope): Promise<Omit<ExecutionError, 'nodeId' | 'timestamp'> | undefined> {
+        const startedAt = this.now();
+        const policy = node.retry && retryPolicySchema.parse(node.retry);
+        this.updateNode(node.id, scope, 'running', { startedAt, maxAttempts: policy?.maxAttempts }, { reason: 'Node started' });
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const { input, output } = await this.withTimeout(node, scope, (signal) => this.invoke(node, scope, signal));
+                scope.outputs.set(node.id, output);
+                const completedAt = this.now();
+                this.updateNode(node.id, scope, 'completed', { completedAt, duration: completedAt - startedAt, input, output });
+                return undefined;
+            } catch (thrown) {
+                if (thrown instanceof ApprovalCancelledError) {
+                    this.finishNode(node, scope, 'cancelled', { reason: thrown.message });
+                    return undefined;
+                }
+                const error = toNodeError(thrown);
+                if (policy && attempt < policy.maxAttempts && isRetryable(policy, error) && !scope.signal.aborted) {
+                    await this.retryAfter(node, scope, policy, attempt, error);
+                    continue;
+                }
+                return this.failNode(node, scope, startedAt, error);
+            }
+        }
+    }
+
+    /**
+     * Run one attempt with a signal that aborts when the node's `timeoutMs`
+     * runs out or `scope` is aborted. Rejects with the abort reason right
+     * away, whether or not the action stops; loop nodes are awaited instead,
+     * as their body nodes stop on the same signal.
+     */
+    private async withTimeout<T>(node: Node, scope: Scope, work: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        if (scope.signal.aborted) throw scope.signal.reason;
+        const controller = new AbortController();
+        const abort = () => controller.abort(scope.signal.reason);
+        scope.signal.addEventListener('abort', abort, { once: true });
+        const { timeoutMs } = node;
+        const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+            controller.abort(new NodeExecutionError(`Node timed out after ${timeoutMs}ms`, 'NODE_TIMEOUT'));
+        }, timeoutMs);
+        try {
+            const attempt = work(controller.signal);
+            return await (node.type === 'loop' ? attempt : Promise.race([attempt, rejectOnAbort(controller.signal)]));
+        } finally {
+            clearTimeout(timer);
+            scope.signal.removeEventListener('abort', abort);
+        }
+    }
+
+    /**
+     * Record a failed attempt and wait out the backoff before the next one
+     */
+    private async retryAfter(node: Node, scope: Scope, policy: RetryPolicy, attempt: number, error: NodeError): Promise<void> {
+        const delay = retryDelay(policy, attempt, this.engine.random);
+        const summary = { message: error.message, code: error.code };
+        this.updateNode(node.id, scope, 'queued', { error }, {
+            reason: `Attempt ${attempt} of ${policy.maxAttempts} failed: ${error.message}`,
+            data: { attempt, maxAttempts: policy.maxAttempts, delay, error: summary },
+        });
+        this.log.write('warn', `Node ${node.id} attempt ${attempt} failed, retrying in ${delay}ms: ${error.message}`, {
+            nodeId: node.id,
+            error: summary,
+        });
+        await (this.engine.sleep ?? sleep)(delay);
+        this.updateNode(node.id, scope, 'running', { attempt: attempt + 1, error: undefined }, {
+            reason: `Attempt ${attempt + 1} of ${policy.maxAttempts} started`,
+            data: { attempt: attempt + 1, maxAttempts: policy.maxAttempts },
+        });
+    }
+
+    /**
+     * Record a node's final failure
+     */
+    private failNode(node: Node, scope: Scope, startedAt: number, error: NodeError): Omit<ExecutionError, 'nodeId' | 'timestamp'> {
+        scope.errors.set(node.id, { message: error.message, code: error.code, retryable: error.retryable });
+        const completedAt = this.now();
+        this.updateNode(node.id, scope, 'failed', { completedAt, duration: completedAt - startedAt, error }, {
+            reason: error.message,
+            data: { error: { message: error.message, code: error.code } },
+        });
+        this.log.write('error', `Node ${node.id} failed: ${error.message}`, {
+            nodeId: node.id,
+            error: { message: error.message, code: error.code, stack: error.stack },
+        });
+        return { message: error.message, code: error.code, stack: error.stack };
+    }
+
+    private async invoke(node: Node, scope: Scope, signal: AbortSignal): Promise<{ input: unknown; output: Record<string, any> }> {
+        if (node.type === 'trigger') {
+            return { input: undefined, output: this.input };
+        }
+        if (node.type === 'condition') {
+            return this.evaluateCondition(node, scope);
+        }
+        if (node.type === 'loop') {
+            return this.runLoop(node, scope, signal);
+        }
+        if (node.type === 'merge') {
+            return this.merge(node, scope);
+        }
+        if (node.type === 'subworkflow') {
+            return this.runSubworkflow(node, scope, signal);
+        }
+        if (node.type === 'approval') {
+            return this.awaitResponse(node, scope, signal);
+        }
+
+        const action = this.engine.actions.resolveAction(node);
+        if (!action) {
+            const ref = `${node.package}/${node.app}@${node.version ?? '*'}#${node.action}`;
+            throw new NodeExecutionError(`No action found for ${ref}`, 'ACTION_NOT_FOUND');
+        }
+
+        const connection = this.connectionFor(node, action);
+        const credentials: Record<string, any> = connection ? { ...connection } : {};
+        const config = this.resolveNodeConfig(node, credentials, scope);
+
+        const checked = validateNodeConfig(config, action.properties, { allowExpressions: false });
+        if (!checked.success) {
+            const details = checked.errors.map((e) => e.message).join('; ');
+            throw new NodeExecutionError(`Invalid config: ${details}`, 'INVALID_CONFIG');
+        }
+        const invalid = action.validate?.(checked.config);
+        if (invalid) {
+            throw new NodeExecutionError(invalid, 'INVALID_CONFIG');
+        }
+
+        const context = this.executionContext(node, credentials, signal);
+        let params: ExecuteParams = { config: checked.config, input: this.upstreamOutputs(node, scope), context };
+        if (action.preProcess) {
+            params = { ...params, ...(await action.preProcess(params)) };
+        }
+        let result: ExecuteResult;
+        if (action.execute) {
+            result = await action.execute(params);
+        } else if (action.rest) {
+            result = await executeRestAction(action.rest, params, {
+                connection,
+                system: this.system(),
+                resolve: this.resolveOptions(),
+            });
+        } else {
+            throw new NodeExecutionError(`Action '${action.key}' has neither an execute function nor a rest config`, 'NOT_EXECUTABLE');
+        }
+        if (action.postProcess) {
+            result = await action.postProcess(result, context);
+        }
+        return { input: { config: params.config, input: params.input }, output: result.data };
+    }
+
+    /**
+     * Pick the branch a condition node fires
+     */
+    private evaluateCondition(node: Node, scope: Scope): { input: unknown; output: Record<string, any> } {
+        const parsed = conditionConfigSchema.safeParse(node.config);
+        if (!parsed.success) {
+            throw new NodeExecutionError(`Invalid condition config: ${describeIssues(parsed.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const config = parsed.data;
+        const matches = (expression: string) => this.matches(expression, node, scope);
+
+        let port: string | null;
+        if (config.mode === 'if') {
+            port = matches(config.condition) ? 'true' : 'false';
+        } else {
+            port = config.rules.find((rule) => matches(rule.condition))?.port ?? config.fallback?.port ?? null;
+        }
+        scope.firedPorts.set(node.id, port);
+        this.log.write('info', port ? `Condition fired branch ${port}` : 'Condition matched no branch', { nodeId: node.id });
+        return { input: { config }, output: { branch: port } };
+    }
+
+    /**
+     * Run a loop node's body once per iteration, `concurrency` at a time
+     */
+    private async runLoop(node: Node, scope: Scope, signal: AbortSignal): Promise<{ input: unknown; output: Record<string, any> }> {
+        const parsed = loopConfigSchema.safeParse(this.resolveNodeConfig(node, {}, scope));
+        if (!parsed.success) {
+            throw new NodeExecutionError(`Invalid loop config: ${describeIssues(parsed.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const config = parsed.data;
+        const items = config.items ?? Array.from({ length: config.count ?? 0 }, (_, index) => index);
+        let total = items.length;
+        if (config.maxIterations !== undefined && total > config.maxIterations) {
+            this.log.write('warn', `Loop has ${total} items; only the first ${config.maxIterations} run`, { nodeId: node.id });
+            total = config.maxIterations;
+        }
+
+        const body = this.bodies.get(node.id) ?? new Set<string>();
+        const order = this.scopeOrder((id) => body.has(id));
+        // Body nodes that lead back into the loop make up each iteration's result
+        const returning = new Set(getIncomingEdges(this.workflow.edges, node.id)
+            .map(({ sourceId }) => sourceId)
+            .filter((id) => body.has(id)));
+
+        const results: Record<string, any>[] = [];
+        let next = 0;
+        let stopped = false;
+        let broke = false;
+        let failure: { index: number; error: ExecutionError } | undefined;
+        const worker = async () => {
+            while (!stopped && !signal.aborted && next < total) {
+                const index = next++;
+                const iteration = this.iterationScope(node, scope, signal, items[index], index, total, config.itemKey);
+                this.iterated.add(this.stateId(node.id, scope));
+                for (const nodeId of order) {
+                    this.initState(nodeId, iteration);
+                }
+                const error = await this.runNodes(order, iteration);
+                if (error) {
+                    failure ??= { index, error };
+                    stopped = true;
+                    continue;
+                }
+                const result: Record<string, any> = {};
+                for (const [nodeId, output] of iteration.outputs) {
+                    if (returning.has(nodeId)) result[nodeId] = output;
+                }
+                results[index] = result;
+                if (config.break && this.matches(config.break, node, iteration)) {
+                    this.log.write('info', `Loop break matched in iteration ${index}`, { nodeId: node.id });
+                    broke = true;
+                    stopped = true;
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(config.concurrency, total) }, worker));
+
+        signal.throwIfAborted();
+        if (failure) {
+            const { index, error } = failure;
+            throw new NodeExecutionError(
+                `Iteration ${index} failed at node ${error.nodeId}: ${error.message}`,
+                'LOOP_ITERATION_FAILED',
+                { cause: error },
+            );
+        }
+        scope.firedPorts.set(node.id, LOOP_PORTS.done);
+        // Iterations finish out of order; keep those that ran, in item order
+        const finished = results.filter((result) => result !== undefined);
+        return { input: { config }, output: { results: finished, iterations: finished.length, broke } };
+    }
+
+    /**
+     * Collect what a merge node's incoming edges delivered, earliest first;
+     * `any` and `first` joins keep only as many as they waited for
+     */
+    private merge(node: Node, scope: Scope): { input: unknown; output: Record<string, any> } {
+        const parsed = mergeConfigSchema.safeParse(node.config ?? {});
+        if (!parsed.success) {
+            throw new NodeExecutionError(`Invalid merge config: ${describeIssues(parsed.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const config = parsed.data;
+        const arrival = (sourceId: string) => [...scope.settled].indexOf(sourceId);
+        const delivered = this.incomingEdges(node)
+            .filter((incoming) => this.carries(scope, incoming))
+            .sort((a, b) => arrival(a.sourceId) - arrival(b.sourceId))
+            .slice(0, deliveriesNeeded(node));
+        const input: Record<string, any> = {};
+        for (const incoming of delivered) {
+            input[parseEndpoint(incoming.edge.target).port ?? incoming.sourceId] = this.carried(scope, incoming.sourceId);
+        }
+        return { input: { config, input }, output: input };
+    }
+
+    /**
+     * Run the workflow a sub-workflow node calls as a linked child execution
+     */
+    private async runSubworkflow(node: Node, scope: Scope, signal: AbortSignal): Promise<{ input: unknown; output: Record<string, any> }> {
+        const parsed = subworkflowConfigSchema.safeParse(this.resolveNodeConfig(node, {}, scope));
+        if (!parsed.success) {
+            throw new NodeExecutionError(`Invalid sub-workflow config: ${describeIssues(parsed.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const config = parsed.data;
+        const ancestors = [...(this.parent?.workflowIds ?? []), this.workflow.id];
+        if (ancestors.includes(config.workflowId)) {
+            throw new NodeExecutionError(`Workflow ${config.workflowId} is already running above this node`, 'RECURSIVE_WORKFLOW');
+        }
+        const workflow = await this.engine.workflows?.resolveWorkflow(config.workflowId, config.version);
+        if (!workflow) {
+            throw new NodeExecutionError(`No workflow found for ${config.workflowId}@${config.version}`, 'WORKFLOW_NOT_FOUND');
+        }
+        const errors = workflowErrors(workflow);
+        if (errors.length > 0) {
+            const details = errors.map((d) => d.message).join('; ');
+            throw new NodeExecutionError(`Workflow ${config.workflowId} is not executable: ${details}`, 'INVALID_WORKFLOW');
+        }
+
+        // Aborted with the node, or when this run fails while the child waits
+        const controller = new AbortController();
+        const abort = () => controller.abort(signal.reason);
+        signal.addEventListener('abort', abort, { once: true });
+        const stateId = this.stateId(node.id, scope);
+        // Resume tokens of the child's waiting nodes, by state id
+        const tokens = new Map<string, string>();
+        const child: ExecutionRun = new ExecutionRun(workflow, this.engine, this.connections, this.waits, {
+            vars: config.vars,
+            trigger: { type: 'workflow', triggeredBy: this.executionId },
+            onTransition: this.options.onTransition,
+            onNodeState: (state) => {
+                this.options.onNodeState?.(state);
+                if (state.executionId !== child.executionId) return;
+                const waited = tokens.size > 0;
+                if (state.status === 'waiting' && state.resumeToken) tokens.set(state.id, state.resumeToken);
+                else tokens.delete(state.id);
+                const resumeToken = [...tokens.values()].at(-1);
+                if (!waited && resumeToken) {
+                    const reason = `Execution ${child.executionId} is waiting`;
+                    this.updateNode(node.id, scope, 'waiting', { resumeToken }, { reason, data: { resumeToken, childExecutionId: child.executionId } });
+                    this.startWaiting(`Node ${node.id}: ${reason}`);
+                    this.pendingApprovals.set(child.executionId, {
+                        scope,
+                        cancel: (why) => controller.abort(new ApprovalCancelledError(why)),
+                    });
+                } else if (waited && !resumeToken) {
+                    const reason = `Execution ${child.executionId} resumed`;
+                    this.pendingApprovals.delete(child.executionId);
+                    this.updateNode(node.id, scope, 'running', {}, { reason });
+                    this.stopWaiting(`Node ${node.id}: ${reason}`);
+                } else if (resumeToken) {
+                    this.setNodeState({ ...(this.states.get(stateId) as NodeExecutionState), resumeToken });
+                }
+            },
+        }, {
+            executionId: this.executionId,
+            nodeId: node.id,
+            workflowIds: ancestors,
+            secrets: this.secrets,
+            signal: controller.signal,
+        });
+        this.setNodeState({ ...(this.states.get(stateId) as NodeExecutionState), childExecutionId: child.executionId });
+        this.log.write('info', `Started execution ${child.executionId} of workflow ${workflow.id}`, { nodeId: node.id });
+
+        const result = await child.run();
+        signal.removeEventListener('abort', abort);
+        this.children.push(result);
+        if (controller.signal.reason instanceof ApprovalCancelledError) {
+            throw controller.signal.reason;
+        }
+        const { record } = result;
+        if (record.status !== 'completed') {
+            const reason = record.error ? `: ${record.error.message}` : '';
+            throw new NodeExecutionError(`Workflow ${workflow.id} ${record.status}${reason}`, 'SUBWORKFLOW_FAILED', { cause: record.error });
+        }
+        return { input: { config }, output: (record.outputData ?? {}) as Record<string, any> };
+    }
+
+    /**
+     * Wait in the `waiting` state until the approval node's resume token is
+     * used or its `respondWithinMs` runs out, then fire the matching port
+     */
+    private async awaitResponse(node: Node, scope: Scope, signal: AbortSignal): Promise<{ input: unknown; output: Record<string, any> }> {
+        const parsed = approvalConfigSchema.safeParse(this.resolveNodeConfig(node, {}, scope));
+        if (!parsed.success) {
+            throw new NodeExecutionError(`Invalid approval config: ${describeIssues(parsed.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const config = parsed.data;
+        const properties = propertySchema.array().safeParse(node.properties ?? []);
+        if (!properties.success) {
+            throw new NodeExecutionError(`Invalid approval properties: ${describeIssues(properties.error.issues)}`, 'INVALID_CONFIG');
+        }
+        const resumeToken = this.engine.createResumeToken?.() ?? `rt_${crypto.randomUUID().replace(/-/g, '')}`;
+        const { respondWithinMs } = config;
+        const expiresAt = respondWithinMs === undefined ? undefined : this.now() + respondWithinMs;
+        const waitingFor = config.mode === 'form' ? 'form input' : 'approval';
+        this.updateNode(node.id, scope, 'waiting', { resumeToken }, {
+            reason: `Waiting for ${waitingFor}`,
+            data: { resumeToken, expiresAt, assignee: config.assignee },
+        });
+        this.log.write('info', `Node ${node.id} is waiting for ${waitingFor}`, { nodeId: node.id });
+        this.startWaiting(`Node ${node.id} is waiting for ${waitingFor}`);
+
+        let reason = '';
+        const outcome = await new Promise<ApprovalOutcome>((resolve, reject) => {
+            const stop = (why: string) => {
+                clearTimeout(timer);
+                signal.removeEventListener('abort', abort);
+                this.waits.delete(resumeToken);
+                this.pendingApprovals.delete(resumeToken);
+                this.stopWaiting(`Node ${node.id}: ${why}`);
+            };
+            const respond = (response: Omit<ApprovalOutcome, 'respondedAt'>, why: string) => {
+                stop(why);
+                reason = why;
+                resolve({ ...response, respondedAt: this.now() });
+            };
+            const abort = () => {
+                stop((signal.reason as Error).message);
+                reject(signal.reason);
+            };
+            const timer = respondWithinMs === undefined ? undefined : setTimeout(() => {
+                const why = `No response within ${respondWithinMs}ms`;
+                respond({ decision: config.onTimeout === 'reject' ? 'rejected' : 'escalated', comment: why }, why);
+            }, respondWithinMs);
+            signal.addEventListener('abort', abort, { once: true });
+            this.pendingApprovals.set(resumeToken, {
+                scope,
+                cancel: (why) => {
+                    stop(why);
+                    reject(new ApprovalCancelledError(why));
+                },
+            });
+            this.waits.set(resumeToken, {
+                properties: properties.data,
+                respond: (response) => {
+                    const label = response.decision === 'approved' ? 'Approved' : 'Rejected';
+                    respond(response, response.respondedBy ? `${label} by ${response.respondedBy}` : label);
+                },
+            });
+        });
+
+        this.updateNode(node.id, scope, 'running', {}, { reason, data: { decision: outcome.decision } });
+        this.log.write('info', `Node ${node.id} ${outcome.decision}: ${reason}`, { nodeId: node.id });
+        scope.firedPorts.set(node.id, APPROVAL_PORTS[outcome.decision]);
+        return { input: { config }, output: outcome };
+    }
+
+    /**
+     * Count a node as waiting; the execution is `waiting` while any are
+     */
+    private startWaiting(reason: string): void {
+        if (this.waiting++ === 0) this.transition('running', 'waiting', { reason });
+    }
+
+    private stopWaiting(reason: string): void {
+        if (--this.waiting === 0) this.transition('waiting', 'running', { reason });
+    }
+
+    /**
+     * Stop the approval nodes waiting within `scope` or a scope nested in it;
+     * their resume tokens no longer work
+     */
+    private cancelApprovals(scope: Scope, reason: string): void {
+        for (const pending of [...this.pendingApprovals.values()]) {
+            let within: Scope | undefined = pending.scope;
+            while (within && within !== scope) within = within.parent;
+            if (within) pending.cancel(reason);
+        }
+    }
+
+    private iterationScope(
+        node: Node,
+        parent: Scope,
+        signal: AbortSignal,
+        item: unknown,
+        index: number,
+        total: number,
+        itemKey?: string,
+    ): Scope {
+        const key = itemKey && typeof item === 'object' && item !== null
+            ? (item as Record<string, unknown>)[itemKey]
+            : undefined;
+        const context: LoopContext = {
+            loopNodeId: node.id,
+            iterationIndex: index,
+            iterationKey: key === undefined ? undefined : String(key),
+            totalIterations: total,
+        };
+        return {
+            // Body nodes attached to the `body` port read the iteration as the loop's output
+            outputs: new Map([[node.id, { item, index, key: context.iterationKey }]]),
+            errors: new Map(),
+            firedPorts: new Map([[node.id, LOOP_PORTS.body]]),
+            settled: new Set(),
+            suffix: `${parent.suffix}_${index}`,
+            loop: { context, item },
+            signal,
+            parent,
+        };
+    }
+
+    /**
+     * Give the body nodes of a loop that never iterated a single final state
+     */
+    private settleBody(node: Node, scope: Scope): void {
+        const loopStatus = this.states.get(this.stateId(node.id, scope))?.status;
+        const status = loopStatus === 'completed' || loopStatus === 'skipped' ? 'skipped' : 'cancelled';
+        const reason = loopStatus === 'completed' ? 'Loop had no iterations' : `Loop ${loopStatus}`;
+        const body = this.bodies.get(node.id) ?? new Set<string>();
+        for (const { id } of this.workflow.nodes) {
+            if (!body.has(id)) continue;
+            this.initState(id, scope);
+            this.updateNode(id, scope, status, {}, { reason });
+        }
+    }
+
+    /**
+     * Resolve `{{ }}` expressions in a node's config, logging unresolved references
+     */
+    private resolveNodeConfig(node: Node, credentials: Record<string, any>, scope: Scope): Record<string, any> {
+        const { config, unresolved } = resolveConfig(
+            node.config ?? {},
+            this.resolutionContext(node, credentials, scope),
+            this.resolveOptions(),
+        );
+        for (const { path, reference } of unresolved) {
+            this.log.write('warn', `Unresolved reference ${reference} in ${path}`, { nodeId: node.id });
+        }
+        return config;
+    }
+
+    /**
+     * Whether a bare expression is truthy for `node` within `scope`
+     */
+    private matches(expression: string, node: Node, scope: Scope): boolean {
+        return Boolean(evaluateExpression(expression, this.resolutionContext(node, {}, scope), this.resolveOptions()));
+    }
+
+    private resolveOptions(): ResolveOptions {
+        return { transforms: this.engine.transforms, secrets: this.secrets };
+    }
+
+    /**
+     * Connection for a node; its secret fields are tracked for redaction
+     */
+    private connectionFor(node: Node, action: Action): Connection | undefined {
+        if (!node.authenticationId) {
+            if (action.requiresAuth) {
+                throw new NodeExecutionError(`Action '${action.key}' requires a connection`, 'MISSING_CONNECTION');
+            }
+            return undefined;
+        }
+        const connection = this.connections.get(node.authenticationId);
+        if (!connection) {
+            throw new NodeExecutionError(`Connection '${node.authenticationId}' does not exist`, 'MISSING_CONNECTION');
+        }
+        switch (connection.type) {
+            case 'oauth':
+                this.secrets.track([connection.accessToken, connection.refreshToken]);
+                break;
+            case 'bearer':
+                this.secrets.track(connection.token);
+                break;
+            case 'custom_header':
+                this.secrets.track([connection.headers, connection.body, connection.query]);
+                break;
+        }
+        return connection;
+    }
+
+    private resolutionContext(node: Node, credentials: Record<string, any>, scope: Scope): ResolutionContext {
+        const nodes: ResolutionContext['nodes'] = {};
+        const chain: Scope[] = [];
+        for (let current: Scope | undefined = scope; current; current = current.parent) {
+            chain.unshift(current);
+        }
+        for (const { outputs, errors } of chain) {
+            for (const [nodeId, output] of outputs) {
+                nodes[nodeId] = { output, status: 'completed' };
+            }
+            for (const [nodeId, error] of errors) {
+                nodes[nodeId] = { output: { error }, status: 'failed' };
+            }
+        }
+        const loop = scope.loop && {
+            item: scope.loop.item,
+            index: scope.loop.context.iterationIndex,
+            key: scope.loop.context.iterationKey,
+            total: scope.loop.context.totalIterations ?? 0,
+        };
+        return {
+            nodes,
+            vars: this.vars,
+            config: node.config ?? {},
+            input: this.input,
+            credentials,
+            system: this.system(),
+            loop,
+        };
+    }
+
+    private system(): ResolutionContext['system'] {
+        return {
+            execution_id: this.executionId,
+            workflow_id: this.workflow.id,
+            timestamp: this.startedAt,
+            environment: this.engine.environment ?? 'production',
+        };
+    }
+
+    private executionContext(node: Node, credentials: Record<string, any>, signal: AbortSignal): ExecutionContext {
+        return {
+            credentials,
+            variables: this.vars,
+            execution: { id: this.executionId, workflow_id: this.workflow.id },
+            log: (message) => {
+                this.log.write('info', message, { nodeId: node.id });
+            },
+            fetch: this.engine.fetch ?? globalThis.fetch,
+            signal,
+        };
+    }
+
+    /**
+     * Outputs carried into `node` by its incoming edges, keyed by node id
+     */
+    private upstreamOutputs(node: Node, scope: Scope): Record<string, any> {
+        const input: Record<string, any> = {};
+        for (const incoming of this.incomingEdges(node)) {
+            if (this.carries(scope, incoming)) input[incoming.sourceId] = this.carried(scope, incoming.sourceId);
+        }
+        return input;
+    }
+
+    /**
+     * What a finished node passes along its edges: its output, or `{ error }`
+     */
+    private carried(scope: Scope, nodeId: string): Record<string, any> | undefined {
+        const owner = this.finishedIn(scope, nodeId);
+        const error = owner?.errors.get(nodeId);
+        return error ? { error } : owner?.outputs.get(nodeId);
+    }
+
+    /**
+     * Incoming edges of `node`, without the edges that close a loop body
+     */
+    private incomingEdges(node: Node): IncomingEdge[] {
+        const incoming = getIncomingEdges(this.workflow.edges, node.id);
+        if (node.type !== 'loop') return incoming;
+        return incoming.filter(({ edge }) => parseEndpoint(edge.target).port !== LOOP_PORTS.next);
+    }
+
+    /**
+     * Whether an incoming edge carries its source's output or error
+     */
+    private carries(scope: Scope, { edge, sourceId, sourcePort }: IncomingEdge): boolean {
+        const owner = this.finishedIn(scope, sourceId);
+        if (!owner) return false;
+        const kind = edge.kind ?? 'success';
+        if (owner.errors.has(sourceId)) return kind !== 'success';
+        if (kind === 'error') return false;
+        const fired = owner.firedPorts.get(sourceId);
+        return fired === undefined || sourcePort === undefined || sourcePort === fired;
+    }
+
+    /**
+     * Innermost scope in which `nodeId` has completed or failed
+     */
+    private finishedIn(scope: Scope, nodeId: string): Scope | undefined {
+        for (let current: Scope | undefined = scope; current; current = current.parent) {
+            if (current.outputs.has(nodeId) || current.errors.has(nodeId)) return current;
+        }
+        return undefined;
+    }
+
+    /**
+     * Outputs of completed nodes without outgoing edges (other than into a
+     * loop body), keyed by node id
+     */
+    private leafOutputs(scope: Scope): Record<string, unknown> {
+        const sources = new Set<string>();
+        for (const edge of this.workflow.edges) {
+            const source = parseEndpoint(edge.source);
+            if (this.nodes.get(source.nodeId)?.type === 'loop' && source.port === LOOP_PORTS.body) continue;
+            sources.add(source.nodeId);
+        }
+        const outputs: Record<string, unknown> = {};
+        for (const [nodeId, output] of scope.outputs) {
+            if (!sources.has(nodeId)) outputs[nodeId] = output;
+        }
+        return outputs;
+    }
+
+    private skipReason(node: Node, scope: Scope): string | undefined {
+        if (node.disabled) return 'Node is disabled';
+        const incoming = this.incomingEdges(node);
+        if (incoming.length === 0 || incoming.some((edge) => this.carries(scope, edge))) {
+            return undefined;
+        }
+        const finished = incoming.find(({ sourceId }) => this.finishedIn(scope, sourceId));
+        if (!finished) return 'No upstream node completed';
+        if (this.finishedIn(scope, finished.sourceId)?.errors.has(finished.sourceId)) return 'Upstream node failed';
+        return finished.edge.kind === 'error' ? 'No upstream error to handle' : 'Condition branch not taken';
+    }
+
+    /**
+     * Order the nodes accepted by `include`, leaving out the bodies of loops
+     * among them (those run inside the loop)
+     */
+    private scopeOrder(include: (nodeId: string) => boolean): string[] {
+        const ids = this.workflow.nodes.map((node) => node.id).filter(include);
+        const nested = new Set(ids.flatMap((id) => [...(this.bodies.get(id) ?? [])]));
+        return topologicalOrder(ids.filter((id) => !nested.has(id)), this.workflow.edges);
+    }
+
+    private stateId(nodeId: string, scope: Scope): string {
+        return `${this.executionId}_${nodeId}${scope.suffix}`;
+    }
+
+    private initState(nodeId: string, scope: Scope): void {
+        this.setNodeState({
+            id: this.stateId(nodeId, scope),
+            executionId: this.executionId,
+            nodeId,
+            status: 'pending',
+            attempt: 1,
+            loopContext: scope.loop?.context,
+        });
+    }
+
+    private finishNode(node: Node, scope: Scope, status: 'skipped' | 'cancelled', details: { reason: string }): void {
+        this.updateNode(node.id, scope, status, {}, details);
+        this.log.write('info', `Node ${node.id} ${status}: ${details.reason}`, { nodeId: node.id });
+    }
+
+    private updateNode(
+        nodeId: string,
+        scope: Scope,
+        status: NodeExecutionState['status'],
+        fields: Partial<NodeExecutionState>,
+        details: { reason?: string; data?: unknown } = {},
+    ): void {
+        const previous = this.states.get(this.stateId(nodeId, scope)) as NodeExecutionState;
+        this.setNodeState({ ...previous, ...fields, status });
+        const data = scope.loop
+            ? { ...(details.data as Record<string, unknown> | undefined), loopContext: scope.loop.context }
+            : details.data;
+        this.transition(previous.status, status, { ...details, data, nodeId });
+    }
+
+    private setNodeState(state: NodeExecutionState): void {
+        const redacted = redactNodeExecutionState(state, this.secrets);
+        this.states.set(state.id, redacted);
+        this.options.onNodeState?.(redacted);
+    }
+
+    /**
+     * Record a move of the execution, or of the node `details.nodeId`; throws
+     * `IllegalTransitionError` for a move its state machine does not allow
+     */
+    private transition(fromState: string, toState: string, details: { nodeId?: string; reason?: string; data?: unknown }): void {
+        const machine: StateMachine<string> = details.nodeId ? nodeStateMachine : executionStateMachine;
+        const transition = stateTransitionSchema.parse({
+            id: this.transitions.length + 1,
+            executionId: this.executionId,
+            timestamp: this.now(),
+            scope: machine.scope,
+            nodeId: details.nodeId,
+            fromState,
+            toState: guardTransition(machine, fromState, toState),
+            reason: this.secrets.redact(details.reason),
+            data: this.secrets.redact(details.data),
+        });
+        this.transitions.push(transition);
+        this.options.onTransition?.(transition);
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rejects with `signal`'s reason once it aborts
+ */
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+    return new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+}
+
+/**
+ * Port a restored condition, loop or approval node fired, read back from its
+ * output; undefined for nodes without ports
+ */
+function firedPort(node: Node, output: Record<string, any>): string | null | undefined {
+    switch (node.type) {
+        case 'condition':
+            return output.branch ?? null;
+        case 'loop':
+            return LOOP_PORTS.done;
+        case 'approval':
+            return APPROVAL_PORTS[output.decision as keyof typeof APPROVAL_PORTS] ?? null;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Deliveries an `any` or `first` merge node waits for; undefined when it waits
+ * for all its sources (or its config is invalid, which fails it once it runs)
+ */
+function deliveriesNeeded(node: Node): number | undefined {
+    const parsed = mergeConfigSchema.safeParse(node.config ?? {});
+    if (!parsed.success || parsed.data.mode === 'all') return undefined;
+    return parsed.data.mode === 'any' ? 1 : parsed.data.count;
+}
+
+/**
+ * `path: message` pairs of schema issues, for error messages
+ */
+function describeIssues(issues: { path: PropertyKey[]; message: string }[]): string {
+    return issues.map((issue) => `${issue.path.join('.') || 'config'}: ${issue.message}`).join('; ');
+}
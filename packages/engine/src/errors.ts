@@ -0,0 +1,116 @@
+// errors.ts
+import type { ConfigFieldError, NodeError, WorkflowDiagnostic } from '@w6w/schema';
+
+/**
+ * Error raised while running a single node.
+ *
+ * Actions may throw it from `execute` to set the `code` and `retryable` flag
+ * recorded on the node's execution state; any other error is recorded with
+ * code `EXECUTION_ERROR`.
+ */
+export class NodeExecutionError extends Error {
+    readonly code: string;
+    readonly retryable: boolean;
+
+    constructor(message: string, code: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'NodeExecutionError';
+        this.code = code;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+/**
+ * Thrown by `WorkflowEngine.execute` when the workflow does not match
+ * `workflowSchema` (`invalid-schema` diagnostics) or its graph has errors,
+ * before anything runs.
+ */
+export class WorkflowValidationError extends Error {
+    readonly diagnostics: WorkflowDiagnostic[];
+
+    constructor(diagnostics: WorkflowDiagnostic[]) {
+        super(`Workflow is not executable: ${diagnostics.map((d) => d.message).join('; ')}`);
+        this.name = 'WorkflowValidationError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * Thrown by `WorkflowEngine.resume` and `reject` when no approval node waits
+ * on the token (`UNKNOWN_TOKEN`) or the submitted data does not match the
+ * node's properties (`INVALID_INPUT`, with the field `errors`). The node keeps
+ * waiting either way.
+ */
+export class ResumeError extends Error {
+    readonly code: 'UNKNOWN_TOKEN' | 'INVALID_INPUT';
+    readonly errors: ConfigFieldError[];
+
+    constructor(message: string, code: ResumeError['code'], errors: ConfigFieldError[] = []) {
+        super(message);
+        this.name = 'ResumeError';
+        this.code = code;
+        this.errors = errors;
+    }
+}
+
+/**
+ * Thrown by `WorkflowEngine.retry` when the earlier run cannot be resumed:
+ * it ran another workflow (`WORKFLOW_MISMATCH`), has not finished
+ * (`NOT_FINISHED`), does not contain the node to rerun from (`UNKNOWN_NODE`)
+ * or was given secret vars whose values are no longer known
+ * (`MISSING_SECRETS`)
+ */
+export class CheckpointError extends Error {
+    readonly code: 'WORKFLOW_MISMATCH' | 'NOT_FINISHED' | 'UNKNOWN_NODE' | 'MISSING_SECRETS';
+
+    constructor(message: string, code: CheckpointError['code']) {
+        super(message);
+        this.name = 'CheckpointError';
+        this.code = code;
+    }
+}
+
+/**
+ * Thrown by `Scheduler.schedule` when a scheduled trigger's config does not
+ * match `scheduleTriggerConfigSchema` or its cron expression cannot be parsed
+ */
+export class ScheduleError extends Error {
+    readonly nodeId: string;
+
+    constructor(message: string, nodeId: string) {
+        super(message);
+        this.name = 'ScheduleError';
+        this.nodeId = nodeId;
+    }
+}
+
+/**
+ * Thrown by `WebhookListener.register` when a webhook trigger's config does
+ * not match `webhookTriggerConfigSchema` (`INVALID_CONFIG`) or its path is
+ * taken by another trigger (`DUPLICATE_PATH`)
+ */
+export class WebhookError extends Error {
+    readonly code: 'INVALID_CONFIG' | 'DUPLICATE_PATH';
+    readonly nodeId: string;
+
+    constructor(message: string, code: WebhookError['code'], nodeId: string) {
+        super(message);
+        this.name = 'WebhookError';
+        this.code = code;
+        this.nodeId = nodeId;
+    }
+}
+
+/**
+ * Schema-shaped error for a node execution state
+ */
+export function toNodeError(error: unknown): NodeError {
+    if (error instanceof NodeExecutionError) {
+        return { message: error.message, code: error.code, stack: error.stack, retryable: error.retryable };
+    }
+    if (error instanceof Error) {
+        const code = error.name === 'ExpressionError' ? 'EXPRESSION_ERROR' : 'EXECUTION_ERROR';
+        return { message: error.message, code, stack: error.stack, retryable: false };
+    }
+    return { message: String(error), code: 'EXECUTION_ERROR', retryable: false };
+}
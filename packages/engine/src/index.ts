@@ -0,0 +1,34 @@
+// Engine
+export { WorkflowEngine } from './engine';
+export type {
+    WorkflowEngineOptions,
+    ExecuteOptions,
+    RetryOptions,
+    ExecutionCheckpoint,
+    ExecutionResult,
+    ApprovalResponse,
+    RuntimeActionResolver,
+    WorkflowResolver,
+} from './types';
+
+// Scheduled triggers
+export { Scheduler } from './scheduler';
+export type { SchedulerOptions, ScheduledRun } from './types';
+
+// Webhook triggers
+export { WebhookListener } from './webhook';
+export type { WebhookListenerOptions, WebhookRequest, WebhookResponse, WebhookRoute } from './types';
+
+// Declarative REST actions
+export { executeRestAction } from './rest';
+export type { RestRunOptions } from './rest';
+
+// Retry policies
+export { isRetryable, retryDelay } from './retry';
+
+// Errors
+export { CheckpointError, NodeExecutionError, ResumeError, ScheduleError, WebhookError, WorkflowValidationError } from './errors';
+
+// Graph helpers
+export { topologicalOrder, getSourceNodeIds, getIncomingEdges, getDownstreamNodeIds } from './topology';
+export type { IncomingEdge } from './topology';
@@ -0,0 +1,174 @@
+// rest.ts
+import type { Connection, ExecuteParams, ExecuteResult, RestConfig } from '@w6w/schema';
+import { resolveConfig, type ResolutionContext, type ResolveOptions } from '@w6w/utils';
+import { NodeExecutionError } from './errors';
+
+export interface RestRunOptions {
+    /** Connection whose credentials are added to the request */
+    connection?: Connection;
+    /** `{{system.*}}` values; derived from `context.execution` when omitted */
+    system?: ResolutionContext['system'];
+    /** Transforms and secret tracking for template resolution */
+    resolve?: ResolveOptions;
+}
+
+/**
+ * Run an action's declarative `rest` config.
+ *
+ * `url`, `headers` and `body` are resolved as templates against the node's
+ * `config`, `input`, `vars` (`context.variables`) and `credentials`. Auth from
+ * `connection` is added unless the config sets the same header itself:
+ * - `bearer`: `Authorization: Bearer <token>`
+ * - `oauth`: `Authorization: Bearer <accessToken>`
+ * - `custom_header`: its `headers`, `query` parameters and `body` fields
+ *
+ * Object bodies are sent as JSON; `GET` requests carry no body. The request
+ * goes through `context.fetch`.
+ *
+ * Without `responseMapping`, a JSON object response becomes `data` as-is and
+ * anything else is returned as `{ body }`. With it, each key of `data` is read
+ * from the response body by path, e.g. `{ events: 'data.items', first: 'data.items[0].id' }`.
+ *
+ * @throws {NodeExecutionError} `NETWORK_ERROR` when the request fails,
+ * `HTTP_<status>` for non-2xx responses (retryable for 429 and 5xx)
+ *
+ * @example
+ * const result = await executeRestAction(action.rest, params, { connection });
+ */
+export async function executeRestAction(
+    rest: RestConfig,
+    params: ExecuteParams,
+    options: RestRunOptions = {},
+): Promise<ExecuteResult> {
+    const { context } = params;
+    const templates = resolveConfig({ url: rest.url, headers: rest.headers ?? {}, body: rest.body }, {
+        nodes: {},
+        vars: context.variables,
+        config: params.config,
+        input: params.input,
+        credentials: context.credentials,
+        system: options.system ?? {
+            execution_id: context.execution.id,
+            workflow_id: context.execution.workflow_id,
+            timestamp: Date.now(),
+            environment: 'production',
+        },
+    }, options.resolve).config;
+
+    const url = new URL(templates.url);
+    const headers = new Headers(templates.headers);
+    let body: unknown = templates.body;
+    if (options.connection) {
+        body = applyAuth(options.connection, url, headers, body);
+    }
+
+    const init: RequestInit = { method: rest.method, headers, signal: context.signal };
+    if (body !== undefined && rest.method !== 'GET') {
+        if (typeof body === 'string') {
+            init.body = body;
+        } else {
+            init.body = JSON.stringify(body);
+            if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+        }
+    }
+
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+        response = await context.fetch(url, init);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new NodeExecutionError(`${rest.method} ${url.origin}${url.pathname} failed: ${message}`, 'NETWORK_ERROR', {
+            retryable: true,
+            cause: error,
+        });
+    }
+
+    const payload = await readBody(response);
+    if (!response.ok) {
+        throw new NodeExecutionError(
+            `${rest.method} ${url.origin}${url.pathname} responded with ${response.status}`,
+            `HTTP_${response.status}`,
+            { retryable: response.status === 429 || response.status >= 500, cause: payload },
+        );
+    }
+
+    return {
+        data: mapResponse(payload, rest.responseMapping),
+        metadata: { duration: Date.now() - startedAt },
+    };
+}
+
+/**
+ * Add the connection's credentials to the request; returns the new body
+ */
+function applyAuth(connection: Connection, url: URL, headers: Headers, body: unknown): unknown {
+    const setDefault = (name: string, value: string) => {
+        if (!headers.has(name)) headers.set(name, value);
+    };
+    switch (connection.type) {
+        case 'bearer':
+            setDefault('authorization', `Bearer ${connection.token}`);
+            return body;
+        case 'oauth':
+            setDefault('authorization', `Bearer ${connection.accessToken}`);
+            return body;
+        case 'custom_header':
+            for (const [name, value] of Object.entries(connection.headers ?? {})) {
+                setDefault(name, value);
+            }
+            for (const [name, value] of Object.entries(connection.query ?? {})) {
+                if (!url.searchParams.has(name)) url.searchParams.set(name, value);
+            }
+            if (connection.body && (body === undefined || isPlainObject(body))) {
+                return { ...connection.body, ...(body as Record<string, unknown> | undefined) };
+            }
+            return body;
+    }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (text === '') return null;
+    if (response.headers.get('content-type')?.includes('json')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return text;
+        }
+    }
+    return text;
+}
+
+function mapResponse(payload: unknown, mapping: Record<string, string> | undefined): Record<string, any> {
+    if (!mapping) {
+        return isPlainObject(payload) ? payload : { body: payload };
+    }
+    const data: Record<string, any> = {};
+    for (const [key, path] of Object.entries(mapping)) {
+        data[key] = readPath(payload, path);
+    }
+    return data;
+}
+
+/**
+ * Read `a.b[0].c` (or `$` for the whole value) from `value`
+ */
+function readPath(value: unknown, path: string): unknown {
+    const segments = path.replace(/^\$\.?/, '').match(/[^.[\]]+/g) ?? [];
+    let current: unknown = value;
+    for (const segment of segments) {
+        if (Array.isArray(current)) {
+            current = current[Number(segment)];
+        } else if (typeof current === 'object' && current !== null) {
+            current = (current as Record<string, unknown>)[segment];
+        } else {
+            return undefined;
+        }
+    }
+    return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
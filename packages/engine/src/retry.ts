@@ -0,0 +1,27 @@
+// retry.ts
+import type { NodeError, RetryPolicy } from '@w6w/schema';
+
+/**
+ * Whether a failed attempt may be retried under `policy`, ignoring how many
+ * attempts are left
+ */
+export function isRetryable(policy: RetryPolicy, error: NodeError): boolean {
+    if (policy.retryOn) {
+        return error.code !== undefined && policy.retryOn.includes(error.code);
+    }
+    return error.retryable;
+}
+
+/**
+ * Milliseconds to wait after failed attempt `attempt` (1-based)
+ *
+ * @example
+ * retryDelay({ maxAttempts: 5, backoff: 'exponential', delayMs: 100, jitter: 0 }, 3); // 400
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+    let delay = policy.backoff === 'exponential' ? policy.delayMs * 2 ** (attempt - 1) : policy.delayMs;
+    if (policy.maxDelayMs !== undefined) {
+        delay = Math.min(delay, policy.maxDelayMs);
+    }
+    return Math.round(delay * (1 - policy.jitter * random()));
+}
@@ -0,0 +1,156 @@
+// scheduler.ts
+import { scheduleTriggerConfigSchema, type Schedule } from '@w6w/schema';
+import { CronError, nextScheduleTime, parseCron, type Workflow } from '@w6w/utils';
+import type { WorkflowEngine } from './engine';
+import { ScheduleError, WorkflowValidationError } from './errors';
+import type { ScheduledRun, SchedulerOptions } from './types';
+import { workflowErrors } from './validation';
+
+/** Longest delay `setTimeout` accepts; runs further out wait in steps */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface ScheduledTrigger {
+    workflow: Workflow;
+    nodeId: string;
+    schedule: Schedule;
+    input?: Record<string, unknown>;
+    /** Next run, or `undefined` once the schedule has no more */
+    next?: number;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs workflows on the schedules of their trigger nodes, in this process
+ *
+ * A trigger node is scheduled when its config has `trigger: 'scheduled'`
+ * (see `scheduleTriggerConfigSchema`). Each run is an `engine.execute` with
+ * `triggerContext` `{ type: 'scheduled', triggeredBy: <trigger node id>,
+ * scheduledTime }`, and the trigger outputs the config's `input` plus
+ * `scheduledTime`. Runs do not wait for earlier ones to finish. Runs missed
+ * while the process was busy are skipped, not made up.
+ *
+ * @example
+ * const scheduler = new Scheduler(engine, { onExecution: (result) => store.save(result) });
+ * scheduler.schedule(workflow);
+ * // ...
+ * scheduler.stop();
+ */
+export class Scheduler {
+    /** Scheduled triggers, by workflow id */
+    private readonly triggers = new Map<string, ScheduledTrigger[]>();
+
+    constructor(
+        private readonly engine: WorkflowEngine,
+        private readonly options: SchedulerOptions = {},
+    ) {}
+
+    /**
+     * Start running `workflow` on the schedules of its enabled trigger nodes,
+     * replacing any schedules it had. Returns the first upcoming runs.
+     *
+     * @throws {WorkflowValidationError} if the workflow does not match `workflowSchema` or its graph has errors
+     * @throws {ScheduleError} if a scheduled trigger's config is invalid
+     */
+    schedule(workflow: Workflow): ScheduledRun[] {
+        const errors = workflowErrors(workflow);
+        if (errors.length > 0) {
+            throw new WorkflowValidationError(errors);
+        }
+        const triggers = workflow.nodes
+            .filter((node) => node.type === 'trigger' && !node.disabled && node.config?.trigger === 'scheduled')
+            .map((node): ScheduledTrigger => {
+                const parsed = scheduleTriggerConfigSchema.safeParse(node.config);
+                if (!parsed.success) {
+                    const details = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+                    throw new ScheduleError(`Trigger ${node.id} has an invalid schedule: ${details}`, node.id);
+                }
+                const { schedule, input } = parsed.data;
+                if (schedule.kind === 'cron') {
+                    try {
+                        parseCron(schedule.expression);
+                    } catch (error) {
+                        if (!(error instanceof CronError)) throw error;
+                        throw new ScheduleError(`Trigger ${node.id} has an invalid schedule: ${error.message}`, node.id);
+                    }
+                }
+                return { workflow, nodeId: node.id, schedule, input };
+            });
+
+        this.unschedule(workflow.id);
+        this.triggers.set(workflow.id, triggers);
+        const now = this.now();
+        for (const trigger of triggers) {
+            // Anchor intervals without `startAt` here, so late timers do not shift them
+            if (trigger.schedule.kind === 'interval' && trigger.schedule.startAt === undefined) {
+                trigger.schedule = { ...trigger.schedule, startAt: now + trigger.schedule.everyMs };
+            }
+            this.arm(trigger, now);
+        }
+        return this.upcoming().filter((run) => run.workflowId === workflow.id);
+    }
+
+    /**
+     * Stop running `workflowId` on a schedule; runs already started go on
+     */
+    unschedule(workflowId: string): void {
+        for (const trigger of this.triggers.get(workflowId) ?? []) {
+            clearTimeout(trigger.timer);
+        }
+        this.triggers.delete(workflowId);
+    }
+
+    /**
+     * Next run of every scheduled trigger that has one, soonest first
+     */
+    upcoming(): ScheduledRun[] {
+        return [...this.triggers.values()]
+            .flat()
+            .flatMap(({ workflow, nodeId, next }) => (next === undefined ? [] : [{ workflowId: workflow.id, nodeId, scheduledTime: next }]))
+            .sort((a, b) => a.scheduledTime - b.scheduledTime);
+    }
+
+    /**
+     * Unschedule every workflow
+     */
+    stop(): void {
+        for (const workflowId of [...this.triggers.keys()]) {
+            this.unschedule(workflowId);
+        }
+    }
+
+    private now(): number {
+        return (this.options.now ?? Date.now)();
+    }
+
+    /**
+     * Set a timer for the first run of `trigger` after `after`
+     */
+    private arm(trigger: ScheduledTrigger, after: number): void {
+        const next = nextScheduleTime(trigger.schedule, after);
+        trigger.next = next;
+        if (next === undefined) return;
+        const wait = () => {
+            const delay = next - this.now();
+            trigger.timer = delay > MAX_TIMER_MS
+                ? setTimeout(wait, MAX_TIMER_MS)
+                : setTimeout(() => this.fire(trigger, next), Math.max(0, delay));
+        };
+        wait();
+    }
+
+    private fire(trigger: ScheduledTrigger, scheduledTime: number): void {
+        // Counting from now rather than `scheduledTime` skips runs missed meanwhile
+        this.arm(trigger, Math.max(scheduledTime, this.now()));
+
+        const run: ScheduledRun = { workflowId: trigger.workflow.id, nodeId: trigger.nodeId, scheduledTime };
+        this.engine
+            .execute(trigger.workflow, {
+                input: { ...trigger.input, scheduledTime },
+                trigger: { type: 'scheduled', triggeredBy: trigger.nodeId, scheduledTime },
+            })
+            .then(
+                (result) => this.options.onExecution?.(result, run),
+                (error: unknown) => this.options.onError?.(error, run),
+            );
+    }
+}
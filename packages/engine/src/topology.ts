@@ -0,0 +1,103 @@
+// topology.ts
+import type { Edge } from '@w6w/schema';
+import { parseEndpoint } from '@w6w/utils';
+
+/**
+ * Order node ids so every node comes after all of its upstream nodes. Ties
+ * keep the order of `nodeIds`. Edges to unknown nodes are ignored.
+ *
+ * @throws {Error} if the edges contain a cycle
+ */
+export function topologicalOrder(nodeIds: string[], edges: Edge[]): string[] {
+    const known = new Set(nodeIds);
+    const indegree = new Map(nodeIds.map((id) => [id, 0]));
+    const outgoing = new Map<string, string[]>();
+
+    for (const edge of edges) {
+        const source = parseEndpoint(edge.source).nodeId;
+        const target = parseEndpoint(edge.target).nodeId;
+        if (!known.has(source) || !known.has(target)) continue;
+        outgoing.set(source, [...(outgoing.get(source) ?? []), target]);
+        indegree.set(target, (indegree.get(target) ?? 0) + 1);
+    }
+
+    const order: string[] = [];
+    const ready = nodeIds.filter((id) => indegree.get(id) === 0);
+    while (ready.length > 0) {
+        const id = ready.shift() as string;
+        order.push(id);
+        for (const target of outgoing.get(id) ?? []) {
+            const remaining = (indegree.get(target) ?? 0) - 1;
+            indegree.set(target, remaining);
+            if (remaining === 0) insertInOrder(ready, target, nodeIds);
+        }
+    }
+
+    if (order.length < nodeIds.length) {
+        const stuck = nodeIds.filter((id) => !order.includes(id));
+        throw new Error(`Workflow contains a cycle through: ${stuck.join(', ')}`);
+    }
+    return order;
+}
+
+/**
+ * Node ids with an edge into `nodeId`, in edge order
+ */
+export function getSourceNodeIds(edges: Edge[], nodeId: string): string[] {
+    const sources: string[] = [];
+    for (const edge of edges) {
+        if (parseEndpoint(edge.target).nodeId !== nodeId) continue;
+        const source = parseEndpoint(edge.source).nodeId;
+        if (!sources.includes(source)) sources.push(source);
+    }
+    return sources;
+}
+
+/**
+ * `nodeIds` and every node reachable from them along edges
+ */
+export function getDownstreamNodeIds(edges: Edge[], nodeIds: string[]): Set<string> {
+    const reached = new Set(nodeIds);
+    const queue = [...nodeIds];
+    while (queue.length > 0) {
+        const id = queue.shift() as string;
+        for (const edge of edges) {
+            if (parseEndpoint(edge.source).nodeId !== id) continue;
+            const target = parseEndpoint(edge.target).nodeId;
+            if (reached.has(target)) continue;
+            reached.add(target);
+            queue.push(target);
+        }
+    }
+    return reached;
+}
+
+export interface IncomingEdge {
+    edge: Edge;
+    sourceId: string;
+    /** Output port on the source node, if the endpoint names one */
+    sourcePort?: string;
+}
+
+/**
+ * Edges into `nodeId`, in edge order
+ */
+export function getIncomingEdges(edges: Edge[], nodeId: string): IncomingEdge[] {
+    const incoming: IncomingEdge[] = [];
+    for (const edge of edges) {
+        if (parseEndpoint(edge.target).nodeId !== nodeId) continue;
+        const source = parseEndpoint(edge.source);
+        incoming.push({ edge, sourceId: source.nodeId, sourcePort: source.port });
+    }
+    return incoming;
+}
+
+function insertInOrder(queue: string[], id: string, nodeIds: string[]): void {
+    const rank = nodeIds.indexOf(id);
+    const index = queue.findIndex((queued) => nodeIds.indexOf(queued) > rank);
+    if (index === -1) {
+        queue.push(id);
+    } else {
+        queue.splice(index, 0, id);
+    }
+}
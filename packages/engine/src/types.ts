@@ -0,0 +1,177 @@
+// types.ts
+import type {
+    Action,
+    Connection,
+    ExecutionLogEntry,
+    ExecutionRecord,
+    NodeExecutionState,
+    StateTransition,
+    TriggerContext,
+    WebhookMethod,
+} from '@w6w/schema';
+import type { Node, TransformRegistry, Workflow } from '@w6w/utils';
+
+/**
+ * Looks up the runtime action (with its `execute` hook) a node points to.
+ * `AppRegistry` from @w6w/utils implements it.
+ */
+export interface RuntimeActionResolver {
+    resolveAction(node: Node): Action | undefined;
+}
+
+/**
+ * Looks up the workflows that sub-workflow nodes call
+ */
+export interface WorkflowResolver {
+    resolveWorkflow(workflowId: string, version: string): Workflow | undefined | Promise<Workflow | undefined>;
+}
+
+export interface WorkflowEngineOptions {
+    actions: RuntimeActionResolver;
+    /** Workflows available to sub-workflow nodes */
+    workflows?: WorkflowResolver;
+    /** Connections available to nodes through their `authenticationId` */
+    connections?: Connection[];
+    /** Passed to actions as `context.fetch` @default globalThis.fetch */
+    fetch?: typeof fetch;
+    /** Transforms for `{{ }}` pipes @default defaultTransformRegistry */
+    transforms?: TransformRegistry;
+    /** Reported as `{{system.environment}}` @default 'production' */
+    environment?: 'development' | 'production';
+    /** Clock used for timestamps and durations @default Date.now */
+    now?: () => number;
+    /** Waits between retry attempts @default setTimeout */
+    sleep?: (ms: number) => Promise<void>;
+    /** Source of retry jitter, in [0, 1) @default Math.random */
+    random?: () => number;
+    /** Creates execution ids; must match `ex_{identifier}` */
+    createExecutionId?: () => string;
+    /** Creates the tokens approval nodes wait on @default `rt_{uuid}` */
+    createResumeToken?: () => string;
+}
+
+export interface ExecuteOptions {
+    /** Values for workflow `vars`, overriding their `defaultValue` */
+    vars?: Record<string, unknown>;
+    /** Trigger payload: the trigger node's output and `{{input.*}}` */
+    input?: Record<string, unknown>;
+    /** @default { type: 'manual' } */
+    trigger?: Omit<TriggerContext, 'triggerData'>;
+    /** Called with every state transition as it happens */
+    onTransition?: (transition: StateTransition) => void;
+    /** Called whenever a node's execution state changes */
+    onNodeState?: (state: NodeExecutionState) => void;
+}
+
+/**
+ * Earlier run that `WorkflowEngine.retry` resumes; an `ExecutionResult` will do
+ */
+export type ExecutionCheckpoint = Pick<ExecutionResult, 'record' | 'nodeStates'>;
+
+/**
+ * `input`, `vars` and `trigger` default to those of the run being retried
+ */
+export interface RetryOptions extends ExecuteOptions {
+    /**
+     * Rerun this node and everything downstream of it, with `config` in place
+     * of its recorded one when set, instead of resuming at the nodes that did
+     * not complete
+     */
+    rerunFrom?: { nodeId: string; config?: Record<string, any> };
+}
+
+/**
+ * Answer to an approval node, passed to `WorkflowEngine.resume` or `reject`
+ */
+export interface ApprovalResponse {
+    /** Form data, checked against the node's `properties`; ignored by `reject` */
+    data?: Record<string, unknown>;
+    respondedBy?: string;
+    comment?: string;
+}
+
+/**
+ * Everything a run produced. Every part validates against its schema in
+ * @w6w/schema and has secrets redacted.
+ */
+export interface ExecutionResult {
+    record: ExecutionRecord;
+    /**
+     * Final state of every node, in execution order. Nodes in a loop body
+     * have one state per iteration, with `loopContext` set.
+     */
+    nodeStates: NodeExecutionState[];
+    transitions: StateTransition[];
+    logs: ExecutionLogEntry[];
+    /**
+     * Runs started by sub-workflow nodes, in the order they finished. Their
+     * records point back through `parentExecutionId` and `parentNodeId`.
+     */
+    children: ExecutionResult[];
+}
+
+export interface SchedulerOptions {
+    /** Clock the schedules are read against @default Date.now */
+    now?: () => number;
+    /** Called with the result of every scheduled run once it finishes */
+    onExecution?: (result: ExecutionResult, run: ScheduledRun) => void;
+    /** Called when a scheduled run could not start, e.g. its workflow no longer validates */
+    onError?: (error: unknown, run: ScheduledRun) => void;
+}
+
+/**
+ * Run of a scheduled trigger, upcoming or started
+ */
+export interface ScheduledRun {
+    workflowId: string;
+    /** Trigger node whose schedule it is */
+    nodeId: string;
+    /** When the run is due (Unix ms) */
+    scheduledTime: number;
+}
+
+export interface WebhookListenerOptions {
+    /** Values for workflow `vars` in every run, and in `{{vars.*}}` auth secrets */
+    vars?: Record<string, unknown>;
+    /** Largest request body accepted, in bytes @default 1048576 */
+    maxBodyBytes?: number;
+    /** Longest a `responseMode: 'wait'` request is held before it gets `202` @default 30000 */
+    maxWaitMs?: number;
+    /** Longest `listen`'s server waits for a whole request to arrive @default 30000 */
+    requestTimeoutMs?: number;
+    /** Called with the result of every webhook run once it finishes */
+    onExecution?: (result: ExecutionResult, request: WebhookRequest) => void;
+    /** Called when a webhook run could not start, e.g. its workflow no longer validates */
+    onError?: (error: unknown, request: WebhookRequest) => void;
+}
+
+/**
+ * HTTP request to a webhook, as passed to `WebhookListener.handle`
+ */
+export interface WebhookRequest {
+    method: string;
+    /** URL path, without the query string */
+    path: string;
+    headers: Record<string, string | string[] | undefined>;
+    query?: Record<string, string | string[]>;
+    /** Raw body; signatures are checked against its bytes, strings as UTF-8 */
+    body?: string | Uint8Array;
+}
+
+export interface WebhookResponse {
+    status: number;
+    headers?: Record<string, string>;
+    /** Sent as JSON */
+    body: unknown;
+}
+
+/**
+ * Path a webhook trigger listens on
+ */
+export interface WebhookRoute {
+    workflowId: string;
+    /** Trigger node the path belongs to */
+    nodeId: string;
+    path: string;
+    methods: WebhookMethod[];
+}
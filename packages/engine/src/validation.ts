@@ -0,0 +1,25 @@
+// validation.ts
+import { validateWorkflowGraph, workflowSchema, type WorkflowDiagnostic } from '@w6w/schema';
+import type { Workflow } from '@w6w/utils';
+
+/**
+ * Problems that keep `workflow` from running: fields `workflowSchema` rejects
+ * or, once the shape is right, errors in its graph
+ */
+export function workflowErrors(workflow: Workflow): WorkflowDiagnostic[] {
+    const parsed = workflowSchema.safeParse(workflow);
+    if (!parsed.success) {
+        return parsed.error.issues.map(({ path, message }): WorkflowDiagnostic => {
+            const [collection, index] = path;
+            const item = typeof index === 'number' ? { nodes: workflow.nodes, edges: workflow.edges }[String(collection)]?.[index] : undefined;
+            return {
+                code: 'invalid-schema',
+                severity: 'error',
+                nodeId: collection === 'nodes' ? item?.id : undefined,
+                edgeId: collection === 'edges' ? item?.id : undefined,
+                message: `${path.join('.') || 'workflow'}: ${message}`,
+            };
+        });
+    }
+    return validateWorkflowGraph(workflow).filter((d) => d.severity === 'error');
+}
@@ -0,0 +1,402 @@
+// webhook.ts
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import { webhookTriggerConfigSchema, type WebhookAuth, type WebhookTriggerConfig } from '@w6w/schema';
+import { resolveValue, type Workflow } from '@w6w/utils';
+import type { WorkflowEngine } from './engine';
+import { WebhookError, WorkflowValidationError } from './errors';
+import type { ExecutionResult, WebhookListenerOptions, WebhookRequest, WebhookResponse, WebhookRoute } from './types';
+import { workflowErrors } from './validation';
+
+/** Default `maxBodyBytes`: 1 MiB */
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Default `maxWaitMs` and `requestTimeoutMs` */
+const MAX_WAIT_MS = 30_000;
+
+interface WebhookTrigger {
+    workflow: Workflow;
+    nodeId: string;
+    config: WebhookTriggerConfig;
+    /** `auth.secret` with `{{vars.*}}` resolved */
+    secret?: string;
+}
+
+/**
+ * Runs workflows on HTTP requests to the paths of their webhook triggers
+ *
+ * A trigger node is a webhook when its config has `trigger: 'webhook'` (see
+ * `webhookTriggerConfigSchema`). Each accepted request is an `engine.execute`
+ * with `triggerContext` `{ type: 'webhook', triggeredBy: <trigger node id> }`
+ * and the request as input: `{ method, path, headers, query, body }`. JSON
+ * and form bodies are parsed, others passed on as text.
+ *
+ * `handle` answers a request without any server, for use behind one you
+ * already run; `listen` starts a plain `node:http` server around it, which
+ * stops reading bodies over `maxBodyBytes` and requests slower than
+ * `requestTimeoutMs`.
+ *
+ * @example
+ * const webhooks = new WebhookListener(engine, { onExecution: (result) => store.save(result) });
+ * webhooks.register(workflow);
+ * await webhooks.listen(8080);
+ * // ...
+ * await webhooks.close();
+ */
+export class WebhookListener {
+    /** Registered triggers, by path */
+    private readonly triggers = new Map<string, WebhookTrigger>();
+    private server?: Server;
+
+    constructor(
+        private readonly engine: WorkflowEngine,
+        private readonly options: WebhookListenerOptions = {},
+    ) {}
+
+    /**
+     * Start running `workflow` on requests to the paths of its enabled webhook
+     * triggers, replacing any routes it had. Returns its routes.
+     *
+     * @throws {WorkflowValidationError} if the workflow does not match `workflowSchema` or its graph has errors
+     * @throws {WebhookError} if a webhook trigger's config is invalid
+     * (`INVALID_CONFIG`) or its path is taken by another workflow (`DUPLICATE_PATH`)
+     */
+    register(workflow: Workflow): WebhookRoute[] {
+        const errors = workflowErrors(workflow);
+        if (errors.length > 0) {
+            throw new WorkflowValidationError(errors);
+        }
+        const triggers = workflow.nodes
+            .filter((node) => node.type === 'trigger' && !node.disabled && node.config?.trigger === 'webhook')
+            .map((node): WebhookTrigger => {
+                const parsed = webhookTriggerConfigSchema.safeParse(node.config);
+                if (!parsed.success) {
+                    const details = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+                    throw new WebhookError(`Trigger ${node.id} has an invalid webhook config: ${details}`, 'INVALID_CONFIG', node.id);
+                }
+                return { workflow, nodeId: node.id, config: parsed.data, secret: this.resolveSecret(workflow, parsed.data.auth) };
+            });
+
+        const paths = new Set<string>();
+        for (const { nodeId, config } of triggers) {
+            const taken = this.triggers.get(config.path);
+            if (paths.has(config.path) || (taken && taken.workflow.id !== workflow.id)) {
+                throw new WebhookError(`Trigger ${nodeId} listens on ${config.path}, which is already taken`, 'DUPLICATE_PATH', nodeId);
+            }
+            paths.add(config.path);
+        }
+
+        this.unregister(workflow.id);
+        for (const trigger of triggers) {
+            this.triggers.set(trigger.config.path, trigger);
+        }
+        return this.routes().filter((route) => route.workflowId === workflow.id);
+    }
+
+    /**
+     * Stop running `workflowId` on requests; runs already started go on
+     */
+    unregister(workflowId: string): void {
+        for (const [path, trigger] of this.triggers) {
+            if (trigger.workflow.id === workflowId) this.triggers.delete(path);
+        }
+    }
+
+    /**
+     * Every registered route, by path
+     */
+    routes(): WebhookRoute[] {
+        return [...this.triggers.values()]
+            .map(({ workflow, nodeId, config }) => ({ workflowId: workflow.id, nodeId, path: config.path, methods: config.methods }))
+            .sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Answer a request to a webhook path
+     *
+     * Unknown paths get `404`, other methods `405`, bodies over
+     * `maxBodyBytes` `413`, failed auth `401` and unparseable bodies `400`,
+     * each with `{ error: { code, message } }`. Accepted requests get `202`
+     * with `{ executionId }` once the run starts, or with `responseMode:
+     * 'wait'`, once it finishes: `200` with `{ executionId, status, output }`
+     * if it completed, `500` with `{ executionId, status, error }` if not.
+     * Runs that wait for an approval, or are still going after `maxWaitMs`,
+     * get `202` with `{ executionId, status }` instead.
+     */
+    async handle(request: WebhookRequest): Promise<WebhookResponse> {
+        const trigger = this.triggers.get(request.path);
+        if (!trigger) {
+            return errorResponse(404, 'NOT_FOUND', `No webhook listens on ${request.path}`);
+        }
+        const { config } = trigger;
+        const method = request.method.toUpperCase();
+        if (!(config.methods as string[]).includes(method)) {
+            return { ...errorResponse(405, 'METHOD_NOT_ALLOWED', `${method} is not allowed on ${request.path}`), headers: { allow: config.methods.join(', ') } };
+        }
+        const rawBody = toBuffer(request.body);
+        const maxBodyBytes = this.options.maxBodyBytes ?? MAX_BODY_BYTES;
+        if (rawBody.length > maxBodyBytes) {
+            return errorResponse(413, 'PAYLOAD_TOO_LARGE', `Request body is larger than ${maxBodyBytes} bytes`);
+        }
+        const headers = normalizeHeaders(request.headers);
+        if (!authenticate(config.auth, trigger.secret, headers, rawBody)) {
+            return errorResponse(401, 'UNAUTHORIZED', 'Request could not be authenticated');
+        }
+        let body: unknown;
+        try {
+            body = parseBody(rawBody, headers['content-type']);
+        } catch (error) {
+            return errorResponse(400, 'INVALID_BODY', `Request body could not be parsed: ${(error as Error).message}`);
+        }
+        // Keep the secret or signature out of the recorded trigger data
+        if (config.auth.mode !== 'none') {
+            delete headers[config.auth.header.toLowerCase()];
+        }
+
+        const input = { method, path: request.path, headers, query: request.query ?? {}, body };
+        let id: string | undefined;
+        let started!: (executionId: string) => void;
+        let paused!: () => void;
+        const starting = new Promise<string>((resolve) => {
+            started = resolve;
+        });
+        const waiting = new Promise<void>((resolve) => {
+            paused = resolve;
+        });
+        const run = this.engine.execute(trigger.workflow, {
+            vars: this.options.vars,
+            input,
+            trigger: { type: 'webhook', triggeredBy: trigger.nodeId },
+            onTransition: (transition) => {
+                // Sub-workflow runs report their transitions here too
+                id ??= transition.executionId;
+                started(id);
+                if (transition.scope === 'execution' && transition.executionId === id && transition.toState === 'waiting') paused();
+            },
+        });
+        run.then(
+            (result) => this.options.onExecution?.(result, request),
+            (error: unknown) => this.options.onError?.(error, request),
+        );
+
+        if (config.responseMode === 'wait') {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const accepted = new Promise<WebhookResponse>((resolve) => {
+                const accept = (status: string) => {
+                    starting.then((executionId) => resolve({ status: 202, body: { executionId, status } }));
+                };
+                waiting.then(() => accept('waiting'));
+                timer = setTimeout(() => accept('running'), this.options.maxWaitMs ?? MAX_WAIT_MS);
+            });
+            const finished = run.then(resultResponse, (error: unknown) => errorResponse(500, 'EXECUTION_ERROR', (error as Error).message ?? String(error)));
+            return Promise.race([finished, accepted]).finally(() => clearTimeout(timer));
+        }
+        return Promise.race([
+            starting,
+            // A run that cannot start rejects before any transition
+            run.then((result) => result.record.executionId),
+        ]).then(
+            (executionId) => ({ status: 202, body: { executionId } }),
+            (error: unknown) => errorResponse(500, 'EXECUTION_ERROR', (error as Error).message ?? String(error)),
+        );
+    }
+
+    /**
+     * Serve the registered webhooks over HTTP on `port`; resolves once listening
+     */
+    listen(port: number, host?: string): Promise<void> {
+        if (this.server) {
+            return Promise.reject(new Error('WebhookListener is already listening'));
+        }
+        const maxBodyBytes = this.options.maxBodyBytes ?? MAX_BODY_BYTES;
+        const server = createServer((req, res) => {
+            readRequest(req, maxBodyBytes)
+                .then((request) => this.handle(request))
+                .catch((error: unknown) => {
+                    if (!(error instanceof BodyTooLargeError)) {
+                        return errorResponse(500, 'INTERNAL_ERROR', (error as Error).message ?? String(error));
+                    }
+                    // Stop the upload rather than read the rest of it
+                    res.once('finish', () => req.destroy());
+                    return { ...errorResponse(413, 'PAYLOAD_TOO_LARGE', error.message), headers: { connection: 'close' } };
+                })
+                .then((response) => {
+                    res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+                    res.end(JSON.stringify(response.body));
+                });
+        });
+        server.requestTimeout = this.options.requestTimeoutMs ?? MAX_WAIT_MS;
+        this.server = server;
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Port the server listens on, e.g. after `listen(0)`
+     */
+    port(): number | undefined {
+        const address = this.server?.address();
+        return address && typeof address === 'object' ? address.port : undefined;
+    }
+
+    /**
+     * Stop the server; routes stay registered
+     */
+    close(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) return Promise.resolve();
+        return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    }
+
+    /**
+     * `auth.secret`, with `{{vars.*}}` read from the listener's `vars` or the
+     * workflow's defaults
+     */
+    private resolveSecret(workflow: Workflow, auth: WebhookAuth): string | undefined {
+        if (auth.mode === 'none') return undefined;
+        if (!auth.secret.includes('{{')) return auth.secret;
+        const vars: Record<string, unknown> = {};
+        for (const [key, variable] of Object.entries(workflow.vars ?? {})) {
+            vars[key] = this.options.vars && key in this.options.vars ? this.options.vars[key] : variable.defaultValue;
+        }
+        const secret = resolveValue(auth.secret, {
+            nodes: {},
+            vars,
+            config: {},
+            input: {},
+            credentials: {},
+            system: { execution_id: '', workflow_id: workflow.id, timestamp: Date.now(), environment: 'production' },
+        });
+        return typeof secret === 'string' && secret !== '' ? secret : undefined;
+    }
+}
+
+function errorResponse(status: number, code: string, message: string): WebhookResponse {
+    return { status, body: { error: { code, message } } };
+}
+
+function resultResponse({ record }: ExecutionResult): WebhookResponse {
+    const { executionId, status } = record;
+    return status === 'completed'
+        ? { status: 200, body: { executionId, status, output: record.outputData } }
+        : { status: 500, body: { executionId, status, error: record.error } };
+}
+
+/**
+ * Header map with lower case names and repeated headers joined
+ */
+function normalizeHeaders(headers: WebhookRequest['headers']): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined) continue;
+        normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return normalized;
+}
+
+/**
+ * Whether the request carries the secret, or a valid signature of its body
+ */
+function authenticate(auth: WebhookAuth, secret: string | undefined, headers: Record<string, string>, rawBody: Buffer): boolean {
+    if (auth.mode === 'none') return true;
+    const provided = headers[auth.header.toLowerCase()];
+    // An unresolved secret must not let requests through
+    if (provided === undefined || secret === undefined) return false;
+    if (auth.mode === 'secret') {
+        return safeEqual(provided, secret);
+    }
+    const signature = provided.startsWith(`${auth.algorithm}=`) ? provided.slice(auth.algorithm.length + 1) : provided;
+    const expected = createHmac(auth.algorithm, secret).update(rawBody).digest('hex');
+    return safeEqual(signature.toLowerCase(), expected);
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * JSON and form bodies as values, others as UTF-8 text; `undefined` when empty
+ */
+function parseBody(raw: Buffer, contentType = ''): unknown {
+    if (raw.length === 0) return undefined;
+    const rawBody = raw.toString('utf8');
+    const type = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+    if (type === 'application/json' || type.endsWith('+json')) {
+        return JSON.parse(rawBody);
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+        return parseParams(new URLSearchParams(rawBody));
+    }
+    return rawBody;
+}
+
+/**
+ * Query or form params, with repeated names as arrays
+ */
+function parseParams(params: URLSearchParams): Record<string, string | string[]> {
+    const parsed: Record<string, string | string[]> = {};
+    for (const name of new Set(params.keys())) {
+        const values = params.getAll(name);
+        parsed[name] = values.length === 1 ? (values[0] ?? '') : values;
+    }
+    return parsed;
+}
+
+function toBuffer(body: WebhookRequest['body']): Buffer {
+    if (body === undefined) return Buffer.alloc(0);
+    return typeof body === 'string' ? Buffer.from(body, 'utf8') : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+}
+
+/**
+ * Rejects reading a request whose body is over `maxBodyBytes`
+ */
+class BodyTooLargeError extends Error {
+    constructor(maxBodyBytes: number) {
+        super(`Request body is larger than ${maxBodyBytes} bytes`);
+        this.name = 'BodyTooLargeError';
+    }
+}
+
+/**
+ * Read a request and its raw body, giving up once the body is over
+ * `maxBodyBytes`; the rest is left unread
+ */
+function readRequest(req: IncomingMessage, maxBodyBytes: number): Promise<WebhookRequest> {
+    return new Promise((resolve, reject) => {
+        if (Number(req.headers['content-length'] ?? 0) > maxBodyBytes) {
+            reject(new BodyTooLargeError(maxBodyBytes));
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBodyBytes) {
+                req.off('data', onData);
+                req.pause();
+                reject(new BodyTooLargeError(maxBodyBytes));
+                return;
+            }
+            chunks.push(chunk);
+        };
+        req.on('data', onData);
+        req.once('error', reject);
+        req.once('end', () => {
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            resolve({
+                method: req.method ?? 'GET',
+                path: url.pathname,
+                headers: req.headers,
+                query: parseParams(url.searchParams),
+                body: Buffer.concat(chunks),
+            });
+        });
+    });
+}
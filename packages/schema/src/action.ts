@@ -72,6 +72,12 @@ export const actionDefinitionSchema = z.object({
      * If provided, worker handles HTTP call
      */
     rest: restConfigSchema.optional(),
+
+    /**
+     * Marks the action as deprecated; a string explains what to use instead
+     * @example true, "Use send-message-v2"
+     */
+    deprecated: z.union([z.boolean(), z.string()]).optional(),
 });
 
 export type ActionDefinition = z.infer<typeof actionDefinitionSchema>;
@@ -88,6 +94,8 @@ export interface ExecutionContext {
     };
     log: (message: string) => void;
     fetch: typeof fetch;
+    /** Aborted when the node or the execution times out; pass it on to I/O */
+    signal: AbortSignal;
 }
 
 export interface ExecuteParams {
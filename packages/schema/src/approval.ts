@@ -0,0 +1,35 @@
+// approval.ts
+import { z } from 'zod';
+
+/**
+ * Ports of an approval node; it fires the one matching its response
+ *
+ * - `approved`: approved, or the form was submitted
+ * - `rejected`: rejected, or no response in time with `onTimeout: 'reject'`
+ * - `escalated`: no response in time with `onTimeout: 'escalate'`
+ */
+export const APPROVAL_PORTS = {
+    approved: 'approved',
+    rejected: 'rejected',
+    escalated: 'escalated',
+} as const;
+
+/**
+ * Approval node config, read after `{{ }}` resolution
+ *
+ * The node waits, with a resume token, until it is approved or rejected. In
+ * `form` mode approving submits data, which must match the node's `properties`.
+ */
+export const approvalConfigSchema = z.object({
+    mode: z.enum(['approval', 'form']).default('approval').describe('Ask for a decision, or for form data'),
+
+    message: z.string().optional().describe('Shown to whoever responds'),
+
+    assignee: z.string().optional().describe('Who is expected to respond'),
+
+    respondWithinMs: z.number().int().min(1).optional().describe('Time allowed for a response before `onTimeout` applies'),
+
+    onTimeout: z.enum(['escalate', 'reject']).default('escalate').describe('What happens when no response arrives in time'),
+});
+
+export type ApprovalConfig = z.infer<typeof approvalConfigSchema>;
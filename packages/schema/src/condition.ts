@@ -0,0 +1,72 @@
+// condition.ts
+import { z } from 'zod';
+
+/**
+ * Output port and display label of one branch
+ */
+export const conditionBranchSchema = z.object({
+    port: z.string().min(1).regex(/^[A-Za-z0-9_-]+$/).describe('Output port that fires when the rule matches'),
+
+    label: z.string().optional().describe('Label shown next to the handle; defaults to the port'),
+});
+
+export const conditionRuleSchema = conditionBranchSchema.extend({
+    /**
+     * Bare expression (no braces), truthy to match
+     * @example 'nodes.nd_fetch.total > 100', 'input.plan == "pro"'
+     */
+    condition: z.string().min(1).describe('Expression evaluated against the run; the rule matches when it is truthy'),
+});
+
+/**
+ * Condition node config
+ *
+ * - `if`: fires port `true` when `condition` is truthy, otherwise `false`
+ * - `switch`: rules are evaluated in order and the first match fires its
+ *   port; when none match, `fallback` fires (or no branch at all)
+ *
+ * Nodes reachable only through branches that did not fire are skipped.
+ */
+export const conditionConfigSchema = z.discriminatedUnion('mode', [
+    z.object({
+        mode: z.literal('if'),
+
+        condition: z.string().min(1).describe('Expression evaluated against the run'),
+
+        trueLabel: z.string().optional().describe('Label of the `true` handle'),
+
+        falseLabel: z.string().optional().describe('Label of the `false` handle'),
+    }),
+    z.object({
+        mode: z.literal('switch'),
+
+        rules: z.array(conditionRuleSchema).min(1).describe('Ordered rules; the first match wins'),
+
+        fallback: conditionBranchSchema.optional().describe('Branch that fires when no rule matches'),
+    }),
+]);
+
+export type ConditionBranch = z.infer<typeof conditionBranchSchema>;
+export type ConditionRule = z.infer<typeof conditionRuleSchema>;
+export type ConditionConfig = z.infer<typeof conditionConfigSchema>;
+
+/**
+ * Branches of a condition config in handle order, with labels filled in
+ *
+ * @example
+ * getConditionBranches({ mode: 'if', condition: 'vars.enabled' });
+ * // [{ port: 'true', label: 'True' }, { port: 'false', label: 'False' }]
+ */
+export function getConditionBranches(config: ConditionConfig): Required<ConditionBranch>[] {
+    if (config.mode === 'if') {
+        return [
+            { port: 'true', label: config.trueLabel ?? 'True' },
+            { port: 'false', label: config.falseLabel ?? 'False' },
+        ];
+    }
+    const branches = config.rules.map((rule) => ({ port: rule.port, label: rule.label ?? rule.port }));
+    if (config.fallback) {
+        branches.push({ port: config.fallback.port, label: config.fallback.label ?? config.fallback.port });
+    }
+    return branches;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { buildConfigSchema, validateNodeConfig, type Property } from "../../index";
+
+const property = (overrides: Partial<Property> & Pick<Property, "name" | "type">): Property => ({
+    displayName: overrides.name,
+    required: false,
+    secret: false,
+    ...overrides,
+});
+
+const properties: Property[] = [
+    property({ name: "channel", displayName: "Channel", type: "string", required: true, metadata: { pattern: "^#" } }),
+    property({ name: "text", displayName: "Text", type: "string", metadata: { min: 2, max: 10 } }),
+    property({ name: "retries", displayName: "Retries", type: "number", defaultValue: 3, metadata: { min: 0, max: 5 } }),
+    property({ name: "notify", displayName: "Notify", type: "boolean" }),
+    property({ name: "tags", displayName: "Tags", type: "array", metadata: { max: 2 } }),
+    property({ name: "headers", displayName: "Headers", type: "object" }),
+    property({
+        name: "priority",
+        displayName: "Priority",
+        type: "string",
+        editorOptions: { options: ["low", { label: "High", value: "high" }] },
+    }),
+    property({
+        name: "until",
+        displayName: "Until",
+        type: "string",
+        validate: (value, config) =>
+            config?.since && value < config.since ? "Until must be after Since" : null,
+    }),
+    property({ name: "since", displayName: "Since", type: "string" }),
+];
+
+describe("buildConfigSchema", () => {
+    it("applies defaults and keeps valid values", () => {
+        const config = buildConfigSchema(properties).parse({ channel: "#ops", notify: true, priority: "high" });
+        expect(config).toEqual({ channel: "#ops", notify: true, priority: "high", retries: 3 });
+    });
+
+    it("keeps undeclared keys unless strict", () => {
+        expect(buildConfigSchema(properties).parse({ channel: "#ops", extra: 1 })).toMatchObject({ extra: 1 });
+        expect(validateNodeConfig({ channel: "#ops", extra: 1 }, properties, { strict: true }).errors).toEqual([
+            { field: "extra", message: "Unknown field: extra", code: "unrecognized_keys" },
+        ]);
+    });
+});
+
+describe("validateNodeConfig", () => {
+    const errors = (config: Record<string, unknown> | undefined) =>
+        validateNodeConfig(config, properties).errors.map(({ field, message }) => [field, message]);
+
+    it("returns the parsed config on success", () => {
+        expect(validateNodeConfig({ channel: "#ops" }, properties)).toEqual({
+            success: true,
+            config: { channel: "#ops", retries: 3 },
+            errors: [],
+        });
+    });
+
+    it("reports missing required fields", () => {
+        expect(errors(undefined)).toEqual([["channel", "Channel is required"]]);
+        expect(errors({ channel: "" })).toEqual([["channel", "Channel is required"]]);
+    });
+
+    it("reports type mismatches per field", () => {
+        expect(errors({ channel: "#ops", retries: "3", notify: "yes", tags: "a", headers: [] })).toEqual([
+            ["retries", "Retries must be a number"],
+            ["notify", "Notify must be true or false"],
+            ["tags", "Tags must be a list"],
+            ["headers", "Headers must be an object"],
+        ]);
+        expect(errors({ channel: ["#ops"], text: 12 })).toEqual([
+            ["channel", "Channel must be a string"],
+            ["text", "Text must be a string"],
+        ]);
+    });
+
+    it("applies metadata min, max and pattern", () => {
+        expect(errors({ channel: "ops", text: "x", retries: 9, tags: [1, 2, 3] })).toEqual([
+            ["channel", "Channel must match ^#"],
+            ["text", "Text must be at least 2 characters"],
+            ["retries", "Retries must be at most 5"],
+            ["tags", "Tags must have at most 2 items"],
+        ]);
+        expect(errors({ channel: "#ops", text: "far too long", retries: -1 })).toEqual([
+            ["text", "Text must be at most 10 characters"],
+            ["retries", "Retries must be at least 0"],
+        ]);
+    });
+
+    it("restricts values to editor options", () => {
+        expect(errors({ channel: "#ops", priority: "urgent" })).toEqual([
+            ["priority", "Priority must be one of: low, high"],
+        ]);
+    });
+
+    it("runs custom validate with the whole config as context", () => {
+        expect(errors({ channel: "#ops", since: "2024-02-01", until: "2024-01-01" })).toEqual([
+            ["until", "Until must be after Since"],
+        ]);
+        expect(errors({ channel: "#ops", since: "2024-01-01", until: "2024-02-01" })).toEqual([]);
+    });
+
+    it("accepts expressions for any type unless disabled", () => {
+        const config = {
+            channel: "{{vars.channel}}",
+            retries: "{{nodes.nd_settings.retries}}",
+            tags: "{{nodes.nd_fetch.tags}}",
+            until: "{{system.timestamp}}",
+            since: "2030-01-01",
+        };
+        expect(validateNodeConfig(config, properties).success).toBe(true);
+        expect(
+            validateNodeConfig(config, properties, { allowExpressions: false }).errors.map((e) => e.field),
+        ).toEqual(["channel", "retries", "tags"]);
+    });
+});
@@ -0,0 +1,202 @@
+import z from "zod";
+import type { Property } from "../property";
+
+/**
+ * A problem with a single config field
+ */
+export interface ConfigFieldError {
+    /** Property name, or a dotted path for nested values, e.g. `headers.Authorization` */
+    field: string;
+    message: string;
+    /** Zod issue code, or `custom` for errors from a property's `validate` */
+    code: string;
+}
+
+export type ConfigValidationResult =
+    | { success: true; config: Record<string, unknown>; errors: [] }
+    | { success: false; errors: ConfigFieldError[] };
+
+export interface ConfigSchemaOptions {
+    /**
+     * Accept `{{ }}` expression strings for any property type; they are
+     * checked after resolution instead
+     * @default true
+     */
+    allowExpressions?: boolean;
+
+    /**
+     * Reject keys that are not declared as properties
+     * @default false
+     */
+    strict?: boolean;
+}
+
+const EXPRESSION = /\{\{[\s\S]*\}\}/;
+
+const isExpression = (value: unknown): value is string =>
+    typeof value === "string" && EXPRESSION.test(value);
+
+/**
+ * Build a Zod schema for a node's `config` from its action's properties.
+ *
+ * Per property this applies:
+ * - `type` (`string`, `number`, `boolean`, `object`, `array`)
+ * - `required` (missing values and empty strings fail) and `defaultValue`
+ * - `metadata.min`/`metadata.max`: value bounds for numbers, length for
+ *   strings and item count for arrays
+ * - `metadata.pattern`: regular expression for strings
+ * - `editorOptions.options`: the value must be one of the listed options
+ * - the property's own `validate(value, config)`
+ *
+ * @example
+ * const schema = buildConfigSchema(action.properties);
+ * const config = schema.parse(node.config ?? {});
+ */
+export function buildConfigSchema(
+    properties: Property[],
+    options: ConfigSchemaOptions = {},
+): z.ZodType<Record<string, unknown>> {
+    const allowExpressions = options.allowExpressions ?? true;
+    const shape: Record<string, z.ZodType> = {};
+
+    for (const property of properties) {
+        let field: z.ZodType = propertyValueSchema(property);
+        if (allowExpressions) {
+            // Aborting keeps the expression branch out of the reported issues
+            // when a value of the right type fails the property's own checks
+            field = z.union([field, z.string().regex(EXPRESSION, { abort: true })]);
+        }
+        if (property.defaultValue !== undefined) {
+            field = field.default(property.defaultValue);
+        } else if (!property.required) {
+            field = field.optional();
+        }
+        shape[property.name] = field;
+    }
+
+    const object = options.strict ? z.strictObject(shape) : z.looseObject(shape);
+
+    return object.superRefine((config, ctx) => {
+        for (const property of properties) {
+            const value = config[property.name];
+            if (!property.validate || value === undefined) continue;
+            if (allowExpressions && isExpression(value)) continue;
+            const message = property.validate(value, config);
+            if (message) {
+                ctx.addIssue({ code: "custom", message, path: [property.name] });
+            }
+        }
+    });
+}
+
+/**
+ * Check a node's `config` against its action's properties.
+ *
+ * On success `config` has defaults applied. On failure `errors` lists one
+ * entry per problem, keyed by field.
+ *
+ * @example
+ * const result = validateNodeConfig(node.config, action.properties);
+ * if (!result.success) {
+ *     result.errors.forEach((e) => form.setError(e.field, e.message));
+ * }
+ */
+export function validateNodeConfig(
+    config: Record<string, unknown> | undefined,
+    properties: Property[],
+    options: ConfigSchemaOptions = {},
+): ConfigValidationResult {
+    const result = buildConfigSchema(properties, options).safeParse(config ?? {});
+    if (result.success) {
+        return { success: true, config: result.data, errors: [] };
+    }
+    return { success: false, errors: result.error.issues.flatMap(toFieldErrors) };
+}
+
+function propertyValueSchema(property: Property): z.ZodType {
+    const label = property.displayName;
+    const metadata = property.metadata ?? {};
+    const min = typeof metadata.min === "number" ? metadata.min : undefined;
+    const max = typeof metadata.max === "number" ? metadata.max : undefined;
+    const error = (expected: string) => (issue: { input: unknown }) =>
+        issue.input === undefined ? `${label} is required` : `${label} must be ${expected}`;
+
+    let schema: z.ZodType;
+    switch (property.type) {
+        case "string": {
+            // Zod's own length checks also run on values that failed the type
+            // check (any value with a length), so lengths are refinements
+            let string = z.string({ error: error("a string") });
+            if (property.required) {
+                string = string.refine((text) => text.length > 0, { message: `${label} is required`, abort: true });
+            }
+            if (min !== undefined) {
+                string = string.refine((text) => text.length >= min, `${label} must be at least ${min} characters`);
+            }
+            if (max !== undefined) {
+                string = string.refine((text) => text.length <= max, `${label} must be at most ${max} characters`);
+            }
+            if (typeof metadata.pattern === "string") {
+                string = string.regex(new RegExp(metadata.pattern), `${label} must match ${metadata.pattern}`);
+            }
+            schema = string;
+            break;
+        }
+        case "number": {
+            let number = z.number({ error: error("a number") });
+            if (min !== undefined) number = number.min(min, `${label} must be at least ${min}`);
+            if (max !== undefined) number = number.max(max, `${label} must be at most ${max}`);
+            schema = number;
+            break;
+        }
+        case "boolean":
+            schema = z.boolean({ error: error("true or false") });
+            break;
+        case "array": {
+            let array = z.array(z.any(), { error: error("a list") });
+            if (min !== undefined) {
+                array = array.refine((items) => items.length >= min, `${label} must have at least ${min} items`);
+            }
+            if (max !== undefined) {
+                array = array.refine((items) => items.length <= max, `${label} must have at most ${max} items`);
+            }
+            schema = array;
+            break;
+        }
+        case "object":
+            schema = z.record(z.string(), z.any(), { error: error("an object") });
+            break;
+    }
+
+    const choices = property.editorOptions?.options?.map((option) =>
+        typeof option === "string" ? option : option.value,
+    );
+    if (choices && choices.length > 0) {
+        schema = schema.refine((value) => choices.includes(value), {
+            message: `${label} must be one of: ${choices.map(String).join(", ")}`,
+        });
+    }
+    return schema;
+}
+
+/**
+ * Flatten a Zod issue into field errors. Expression-aware fields are unions;
+ * when both branches fail, report the typed branch.
+ */
+function toFieldErrors(issue: z.core.$ZodIssue): ConfigFieldError[] {
+    const path = issue.path.map(String);
+    if (issue.code === "invalid_union") {
+        const [typed] = issue.errors;
+        if (typed && typed.length > 0) {
+            return typed.flatMap((inner) => toFieldErrors({ ...inner, path: [...issue.path, ...inner.path] }));
+        }
+    }
+    if (issue.code === "unrecognized_keys") {
+        return issue.keys.map((key) => ({
+            field: [...path, key].join("."),
+            message: `Unknown field: ${key}`,
+            code: issue.code,
+        }));
+    }
+    return [{ field: path.join("."), message: issue.message, code: issue.code }];
+}
@@ -0,0 +1,6 @@
+export { buildConfigSchema, validateNodeConfig } from "./config-schema";
+export type {
+    ConfigFieldError,
+    ConfigValidationResult,
+    ConfigSchemaOptions,
+} from "./config-schema";
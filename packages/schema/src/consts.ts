@@ -5,6 +5,12 @@ export const CONSTS = {
         workflow: 'wf',
         connection: 'cn',
         execution: 'ex'
-    }
+    },
+
+    /**
+     * Schema version written to new workflow documents. Bump it together with
+     * a migration in `src/migrations`.
+     */
+    schemaVersion: 2,
 
 }
\ No newline at end of file
@@ -2,6 +2,18 @@ import { z } from 'zod';
 import { idSchema } from './id';
 import { CONSTS } from './consts';
 
+/**
+ * When an edge carries data to its target
+ *
+ * - `success`: the source node completed (default)
+ * - `error`: the source node failed; the target receives its `NodeError`
+ * - `always`: the source node completed or failed
+ *
+ * A failed node with an `error` or `always` edge has its error handled and
+ * does not fail the execution.
+ */
+export const edgeKindSchema = z.enum(['success', 'error', 'always']);
+
 export const edgeSchema = z.object({
     id: idSchema(CONSTS.idPrefix.edge),
 
@@ -28,6 +40,9 @@ export const edgeSchema = z.object({
 
     label: z.string().describe('Optional label displayed on the edge').optional(),
 
+    kind: edgeKindSchema.describe('When the edge carries; defaults to `success`').optional(),
+
 });
 
-export type Edge = z.infer<typeof edgeSchema>;
\ No newline at end of file
+export type Edge = z.infer<typeof edgeSchema>;
+export type EdgeKind = z.infer<typeof edgeKindSchema>;
\ No newline at end of file
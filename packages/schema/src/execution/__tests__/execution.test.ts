@@ -11,6 +11,12 @@ import {
   loopContextSchema,
   triggerContextSchema,
   workflowSnapshotSchema,
+  executionStateMachine,
+  nodeStateMachine,
+  IllegalTransitionError,
+  canTransition,
+  isTerminalState,
+  transition,
 } from "../index";
 
 describe("Status Schemas", () => {
@@ -18,6 +24,7 @@ describe("Status Schemas", () => {
     it("accepts valid execution statuses", () => {
       expect(() => executionStatusSchema.parse("pending")).not.toThrow();
       expect(() => executionStatusSchema.parse("running")).not.toThrow();
+      expect(() => executionStatusSchema.parse("waiting")).not.toThrow();
       expect(() => executionStatusSchema.parse("completed")).not.toThrow();
       expect(() => executionStatusSchema.parse("failed")).not.toThrow();
       expect(() => executionStatusSchema.parse("cancelled")).not.toThrow();
@@ -36,6 +43,7 @@ describe("Status Schemas", () => {
       expect(() => nodeExecutionStatusSchema.parse("pending")).not.toThrow();
       expect(() => nodeExecutionStatusSchema.parse("queued")).not.toThrow();
       expect(() => nodeExecutionStatusSchema.parse("running")).not.toThrow();
+      expect(() => nodeExecutionStatusSchema.parse("waiting")).not.toThrow();
       expect(() => nodeExecutionStatusSchema.parse("completed")).not.toThrow();
       expect(() => nodeExecutionStatusSchema.parse("failed")).not.toThrow();
       expect(() => nodeExecutionStatusSchema.parse("skipped")).not.toThrow();
@@ -305,3 +313,45 @@ describe("WorkflowSnapshot Schema", () => {
     expect(() => workflowSnapshotSchema.parse(snapshot)).not.toThrow();
   });
 });
+
+describe("State Machines", () => {
+  it("covers every status of both scopes", () => {
+    expect(Object.keys(executionStateMachine.transitions).sort()).toEqual(
+      [...executionStatusSchema.options].sort()
+    );
+    expect(Object.keys(nodeStateMachine.transitions).sort()).toEqual(
+      [...nodeExecutionStatusSchema.options].sort()
+    );
+  });
+
+  it("treats exactly the statuses without moves as terminal", () => {
+    for (const machine of [executionStateMachine, nodeStateMachine]) {
+      const dead = Object.entries(machine.transitions)
+        .filter(([, next]) => next.length === 0)
+        .map(([status]) => status);
+      expect([...machine.terminal].sort()).toEqual(dead.sort());
+    }
+    expect(isTerminalState(executionStateMachine, "timeout")).toBe(true);
+    expect(isTerminalState(nodeStateMachine, "waiting")).toBe(false);
+  });
+
+  it("allows the moves of a run with a retry and a wait", () => {
+    let status: string = nodeStateMachine.initial;
+    for (const next of ["running", "queued", "running", "waiting", "running", "completed"]) {
+      status = transition(nodeStateMachine, status, next);
+    }
+    expect(status).toBe("completed");
+    expect(transition(executionStateMachine, "waiting", "running")).toBe("running");
+  });
+
+  it("rejects illegal moves and unknown statuses", () => {
+    expect(() => transition(executionStateMachine, "completed", "running")).toThrow(
+      new IllegalTransitionError("execution", "completed", "running")
+    );
+    expect(() => transition(nodeStateMachine, "running", "skipped")).toThrow(
+      "Illegal node transition from running to skipped"
+    );
+    expect(canTransition(nodeStateMachine, "toString", "running")).toBe(false);
+    expect(canTransition(executionStateMachine, "running", "paused")).toBe(false);
+  });
+});
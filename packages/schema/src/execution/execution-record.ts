@@ -28,10 +28,21 @@ export const workflowSnapshotSchema = z.object({
       z.object({
         name: z.string(),
         type: z.string().optional(),
+        isSecret: z.boolean().optional(),
       })
     )
     .optional()
     .describe("Variable definitions (not values)"),
+
+  timeoutMs: z
+    .number()
+    .optional()
+    .describe("Workflow timeout the execution ran with"),
+
+  concurrency: z
+    .number()
+    .optional()
+    .describe("Node concurrency limit the execution ran with"),
 });
 export type WorkflowSnapshot = z.infer<typeof workflowSnapshotSchema>;
 
@@ -106,8 +117,31 @@ export const executionRecordSchema = z.object({
     .default({})
     .describe("Resolved input variables at execution start"),
 
+  suppliedSecretVars: z
+    .array(z.string())
+    .optional()
+    .describe("Secret variables given a value at start rather than their default; their values are not recorded"),
+
   outputData: z.unknown().optional().describe("Final workflow output data"),
 
+  parentExecutionId: idSchema(CONSTS.idPrefix.execution)
+    .optional()
+    .describe("Execution whose sub-workflow node started this one"),
+
+  parentNodeId: z
+    .string()
+    .optional()
+    .describe("Sub-workflow node in the parent execution that started this one"),
+
+  retryOf: idSchema(CONSTS.idPrefix.execution)
+    .optional()
+    .describe("Execution whose checkpoint this one resumed from"),
+
+  rerunFromNodeId: z
+    .string()
+    .optional()
+    .describe("Node a retry was asked to rerun from, when not the failed one"),
+
   createdAt: z
     .string()
     .datetime()
@@ -35,3 +35,14 @@ export type { LoopContext, NodeExecutionState } from "./node-execution";
 // State transition schemas
 export { stateTransitionSchema } from "./state-transition";
 export type { StateTransition } from "./state-transition";
+
+// State machines
+export {
+  executionStateMachine,
+  nodeStateMachine,
+  IllegalTransitionError,
+  canTransition,
+  isTerminalState,
+  transition,
+} from "./state-machine";
+export type { StateMachine } from "./state-machine";
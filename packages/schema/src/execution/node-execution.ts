@@ -86,5 +86,20 @@ export const nodeExecutionStateSchema = z.object({
   loopContext: loopContextSchema
     .optional()
     .describe("Loop iteration context if node is inside a loop"),
+
+  childExecutionId: z
+    .string()
+    .optional()
+    .describe("Execution started by this node, for sub-workflow nodes"),
+
+  resumeToken: z
+    .string()
+    .optional()
+    .describe("Token that resumes or rejects this node, for approval nodes"),
+
+  restoredFrom: z
+    .string()
+    .optional()
+    .describe("State in the retried execution whose result this node reused"),
 });
 export type NodeExecutionState = z.infer<typeof nodeExecutionStateSchema>;
@@ -0,0 +1,112 @@
+import type { ExecutionStatus, NodeExecutionStatus, TransitionScope } from "./status";
+
+/**
+ * Allowed moves between the statuses of one transition scope
+ */
+export interface StateMachine<S extends string> {
+  scope: TransitionScope;
+  /** Status every execution or node starts in */
+  initial: S;
+  /** Statuses each status may move to */
+  transitions: Readonly<Record<S, readonly S[]>>;
+  /** Statuses with no way out */
+  terminal: readonly S[];
+}
+
+/**
+ * Execution status machine
+ *
+ * An execution runs, may wait for input and go back to running, and ends
+ * completed, failed, cancelled or timed out. A retry starts a new execution
+ * instead of leaving a terminal status.
+ */
+export const executionStateMachine: StateMachine<ExecutionStatus> = {
+  scope: "execution",
+  initial: "pending",
+  transitions: {
+    pending: ["running", "cancelled"],
+    running: ["waiting", "completed", "failed", "cancelled", "timeout"],
+    waiting: ["running", "failed", "cancelled", "timeout"],
+    completed: [],
+    failed: [],
+    cancelled: [],
+    timeout: [],
+  },
+  terminal: ["completed", "failed", "cancelled", "timeout"],
+};
+
+/**
+ * Node execution status machine
+ *
+ * A node runs, may be queued for a retry or wait for input, and ends
+ * completed or failed; one that never runs ends skipped or cancelled.
+ * `pending → completed` and `pending → failed` restore a node from a retried
+ * execution's checkpoint.
+ */
+export const nodeStateMachine: StateMachine<NodeExecutionStatus> = {
+  scope: "node",
+  initial: "pending",
+  transitions: {
+    pending: ["queued", "running", "completed", "failed", "skipped", "cancelled"],
+    queued: ["running", "failed", "cancelled"],
+    running: ["queued", "waiting", "completed", "failed", "cancelled"],
+    waiting: ["running", "failed", "cancelled"],
+    completed: [],
+    failed: [],
+    skipped: [],
+    cancelled: [],
+  },
+  terminal: ["completed", "failed", "skipped", "cancelled"],
+};
+
+/**
+ * Thrown by `transition` for a move the state machine does not allow
+ */
+export class IllegalTransitionError extends Error {
+  readonly code = "ILLEGAL_TRANSITION";
+
+  constructor(
+    public readonly scope: TransitionScope,
+    public readonly fromState: string,
+    public readonly toState: string,
+  ) {
+    super(`Illegal ${scope} transition from ${fromState} to ${toState}`);
+    this.name = "IllegalTransitionError";
+  }
+}
+
+/**
+ * Whether `machine` allows moving from `fromState` to `toState`; unknown
+ * statuses allow nothing
+ */
+export function canTransition<S extends string>(
+  machine: StateMachine<S>,
+  fromState: string,
+  toState: string,
+): toState is S {
+  return Object.hasOwn(machine.transitions, fromState)
+    && machine.transitions[fromState as S].includes(toState as S);
+}
+
+/**
+ * Whether `state` is a terminal status of `machine`
+ */
+export function isTerminalState<S extends string>(machine: StateMachine<S>, state: string): state is S {
+  return machine.terminal.includes(state as S);
+}
+
+/**
+ * Move from `fromState` to `toState`, returning the new status
+ *
+ * @throws IllegalTransitionError when `machine` does not allow the move
+ *
+ * @example
+ * execution.status = transition(executionStateMachine, execution.status, "running");
+ * transition(executionStateMachine, "completed", "running"); // throws
+ */
+export function transition<S extends string>(machine: StateMachine<S>, fromState: string, toState: string): S {
+  if (!canTransition(machine, fromState, toState)) {
+    throw new IllegalTransitionError(machine.scope, fromState, toState);
+  }
+  return toState;
+}
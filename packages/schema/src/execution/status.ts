@@ -6,6 +6,7 @@ import { z } from "zod";
 export const executionStatusSchema = z.enum([
   "pending",
   "running",
+  "waiting",
   "completed",
   "failed",
   "cancelled",
@@ -20,6 +21,7 @@ export const nodeExecutionStatusSchema = z.enum([
   "pending",
   "queued",
   "running",
+  "waiting",
   "completed",
   "failed",
   "skipped",
@@ -36,6 +38,7 @@ export const triggerTypeSchema = z.enum([
   "webhook",
   "api",
   "event",
+  "workflow",
 ]);
 export type TriggerType = z.infer<typeof triggerTypeSchema>;
 
@@ -8,8 +8,8 @@ export type { Connection } from "./connection";
 export { workflowSchema } from "./workflow";
 export type { Workflow } from "./workflow";
 
-export { edgeSchema } from "./edge";
-export type { Edge } from "./edge";
+export { edgeSchema, edgeKindSchema } from "./edge";
+export type { Edge, EdgeKind } from "./edge";
 
 export { variableSchema } from "./variable";
 export type { Variable } from "./variable";
@@ -62,6 +62,13 @@ export {
   nodeExecutionStateSchema,
   // State transition schemas
   stateTransitionSchema,
+  // State machines
+  executionStateMachine,
+  nodeStateMachine,
+  IllegalTransitionError,
+  canTransition,
+  isTerminalState,
+  transition,
 } from "./execution";
 export type {
   // Status types
@@ -81,8 +88,45 @@ export type {
   NodeExecutionState,
   // State transition types
   StateTransition,
+  // State machine types
+  StateMachine,
 } from "./execution";
 
+// Semantic workflow validation
+export {
+  diagnosticSeveritySchema,
+  workflowDiagnosticCodeSchema,
+  workflowDiagnosticSchema,
+  validateWorkflowGraph,
+  hasGraphErrors,
+} from "./validation";
+export type {
+  DiagnosticSeverity,
+  WorkflowDiagnosticCode,
+  WorkflowDiagnostic,
+  WorkflowGraph,
+  WorkflowGraphNode,
+  WorkflowGraphEdge,
+} from "./validation";
+
+// Node config validation against action properties
+export { buildConfigSchema, validateNodeConfig } from "./config";
+export type {
+  ConfigFieldError,
+  ConfigValidationResult,
+  ConfigSchemaOptions,
+} from "./config";
+
+// Schema versioning and migrations
+export {
+  migrateWorkflow,
+  workflowMigrations,
+  MigrationRegistry,
+  WorkflowMigrationError,
+  getSchemaVersion,
+} from "./migrations";
+export type { WorkflowDocument, WorkflowMigration } from "./migrations";
+
 // Action and App schemas
 export {
   actionDefinitionSchema,
@@ -103,6 +147,43 @@ export type { AppDefinition } from "./app";
 
 export { packageDefinitionSchema } from "./package";
 
+// Condition node config
+export {
+  conditionBranchSchema,
+  conditionRuleSchema,
+  conditionConfigSchema,
+  getConditionBranches,
+} from "./condition";
+export type { ConditionBranch, ConditionRule, ConditionConfig } from "./condition";
+
+// Loop node config
+export { LOOP_PORTS, loopConfigSchema } from "./loop";
+export type { LoopConfig } from "./loop";
+
+// Merge node config
+export { joinModeSchema, mergeConfigSchema } from "./merge";
+export type { JoinMode, MergeConfig } from "./merge";
+
+// Sub-workflow node config
+export { subworkflowConfigSchema } from "./subworkflow";
+export type { SubworkflowConfig } from "./subworkflow";
+
+// Approval node config
+export { APPROVAL_PORTS, approvalConfigSchema } from "./approval";
+export type { ApprovalConfig } from "./approval";
+
+// Scheduled trigger config
+export { scheduleSchema, scheduleTriggerConfigSchema } from "./schedule";
+export type { Schedule, ScheduleTriggerConfig } from "./schedule";
+
+// Webhook trigger config
+export { webhookAuthSchema, webhookMethodSchema, webhookTriggerConfigSchema } from "./webhook";
+export type { WebhookAuth, WebhookMethod, WebhookTriggerConfig } from "./webhook";
+
+// Node retry policy
+export { retryPolicySchema } from "./retry";
+export type { RetryPolicy } from "./retry";
+
 // Utility schemas
 export { idSchema } from "./id";
 export { positionSchema } from "./position";
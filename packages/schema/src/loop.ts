@@ -0,0 +1,47 @@
+// loop.ts
+import { z } from 'zod';
+
+/**
+ * Ports of a loop node
+ *
+ * - `body`: edges from this port lead into the loop body, which runs once
+ *   per iteration
+ * - `done`: edges from this port (or without a port) run after the last
+ *   iteration
+ * - `next`: input port for the edge that closes the body back into the loop
+ */
+export const LOOP_PORTS = {
+    body: 'body',
+    done: 'done',
+    next: 'next',
+} as const;
+
+/**
+ * Loop node config, read after `{{ }}` resolution
+ *
+ * Set either `items` (usually a single expression such as
+ * `{{nodes.nd_fetch.items}}`) or `count`. Inside the body `{{loop.item}}` and
+ * `{{loop.index}}` refer to the current iteration.
+ */
+export const loopConfigSchema = z.object({
+    items: z.array(z.unknown()).optional().describe('Array to iterate over'),
+
+    count: z.number().int().min(0).optional().describe('Number of iterations when there is no `items` array'),
+
+    concurrency: z.number().int().min(1).default(1).describe('Iterations that may run at the same time'),
+
+    /**
+     * Bare expression (no braces) evaluated after each iteration with the
+     * iteration's outputs and `loop.*`; no new iterations start once it is truthy
+     * @example 'nodes.nd_lookup.found', 'loop.index >= 9'
+     */
+    break: z.string().min(1).optional().describe('Stop starting iterations once this expression is truthy'),
+
+    maxIterations: z.number().int().min(1).optional().describe('Upper bound on the number of iterations'),
+
+    itemKey: z.string().min(1).optional().describe('Field of each item used as its iteration key, e.g. `id`'),
+}).refine((config) => (config.items === undefined) !== (config.count === undefined), {
+    message: 'Set either items or count',
+});
+
+export type LoopConfig = z.infer<typeof loopConfigSchema>;
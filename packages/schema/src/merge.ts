@@ -0,0 +1,33 @@
+// merge.ts
+import { z } from 'zod';
+
+/**
+ * When a merge node runs
+ *
+ * - `all`: once every incoming edge's source has finished (the default)
+ * - `any`: as soon as one incoming edge delivers; later arrivals are dropped
+ * - `first`: as soon as `count` incoming edges have delivered
+ *
+ * `any` and `first` still run with what arrived once every source has
+ * finished without reaching the count.
+ */
+export const joinModeSchema = z.enum(['all', 'any', 'first']);
+
+export type JoinMode = z.infer<typeof joinModeSchema>;
+
+/**
+ * Merge node config
+ *
+ * A merge node outputs the values its incoming edges delivered, keyed by the
+ * edge's target port (`nd_merge:left`) or, without one, by source node id.
+ */
+export const mergeConfigSchema = z.object({
+    mode: joinModeSchema.default('all').describe('When the merge node runs'),
+
+    count: z.number().int().min(1).optional().describe('Deliveries to wait for in `first` mode'),
+}).refine((config) => config.mode !== 'first' || config.count !== undefined, {
+    message: 'Set count for first mode',
+    path: ['count'],
+});
+
+export type MergeConfig = z.infer<typeof mergeConfigSchema>;
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  migrateWorkflow,
+  workflowMigrations,
+  MigrationRegistry,
+  WorkflowMigrationError,
+  CONSTS,
+  workflowSchema,
+  validateWorkflowGraph,
+  type WorkflowGraph,
+} from "../../index";
+import editorFormatInput from "./fixtures/v1-editor-format.input.json";
+import editorFormatExpected from "./fixtures/v1-editor-format.expected.json";
+import simpleHttpWebhook from "../../../../../__mocks__/simple_http_webhook.json";
+import conditionalUserRouting from "../../../../../__mocks__/conditional_user_routing.json";
+import dataEtlPipeline from "../../../../../__mocks__/data_etl_pipeline.json";
+
+describe("migrateWorkflow", () => {
+  it("ends at CONSTS.schemaVersion", () => {
+    expect(workflowMigrations.latestVersion).toBe(CONSTS.schemaVersion);
+  });
+
+  it("does not modify the input document", () => {
+    const input = structuredClone(editorFormatInput);
+    migrateWorkflow(input);
+    expect(input).toEqual(editorFormatInput);
+  });
+
+  it("leaves current documents unchanged", () => {
+    const current = { ...simpleHttpWebhook, schemaVersion: CONSTS.schemaVersion };
+    expect(migrateWorkflow(current)).toEqual(current);
+  });
+
+  it("rejects non-objects and unknown versions", () => {
+    expect(() => migrateWorkflow(null)).toThrow(WorkflowMigrationError);
+    expect(() => migrateWorkflow([])).toThrow("Workflow document must be an object");
+    expect(() => migrateWorkflow({ schemaVersion: 0 })).toThrow("Unsupported schemaVersion: 0");
+    expect(() => migrateWorkflow({ schemaVersion: CONSTS.schemaVersion + 1 })).toThrow(
+      `Workflow schemaVersion ${CONSTS.schemaVersion + 1} is newer than the latest supported version ${CONSTS.schemaVersion}`,
+    );
+  });
+});
+
+describe("v1 → v2: edge handles and positions", () => {
+  it("migrates an editor-format document", () => {
+    expect(migrateWorkflow(editorFormatInput)).toEqual(editorFormatExpected);
+  });
+
+  it("keeps ports that workflowSchema used to strip", () => {
+    const migrated = workflowSchema.parse(migrateWorkflow(editorFormatInput));
+    expect(validateWorkflowGraph(migrated as unknown as WorkflowGraph)).toEqual([]);
+    expect(migrated.schemaVersion).toBe(2);
+  });
+
+  it.each([
+    ["simple_http_webhook", simpleHttpWebhook],
+    ["conditional_user_routing", conditionalUserRouting],
+    ["data_etl_pipeline", dataEtlPipeline],
+  ])("only stamps the version on canonical v1 mock %s", (_name, mock) => {
+    expect(migrateWorkflow(mock)).toEqual({ ...mock, schemaVersion: 2 });
+  });
+});
+
+describe("MigrationRegistry", () => {
+  it("applies steps in order from the document version", () => {
+    const registry = new MigrationRegistry(1, [
+      { from: 1, description: "add tags", migrate: (doc) => { doc.tags = []; } },
+      { from: 2, description: "rename vars", migrate: ({ vars, ...rest }) => ({ ...rest, variables: vars }) },
+    ]);
+
+    expect(registry.latestVersion).toBe(3);
+    expect(migrateWorkflow({ vars: { a: 1 } }, registry)).toEqual({ tags: [], variables: { a: 1 }, schemaVersion: 3 });
+    expect(migrateWorkflow({ vars: { a: 1 }, schemaVersion: 2 }, registry)).toEqual({ variables: { a: 1 }, schemaVersion: 3 });
+  });
+
+  it("requires steps to be registered without gaps", () => {
+    const registry = new MigrationRegistry(1);
+    expect(() => registry.register({ from: 2, description: "skip", migrate: () => {} })).toThrow(
+      "Migration from version 2 cannot be registered; expected a migration from version 1",
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { CONSTS } from "../consts";
+import { MigrationRegistry, type WorkflowDocument } from "./registry";
+import { edgeHandlesMigration } from "./v1-edge-handles";
+
+export { MigrationRegistry, WorkflowMigrationError, getSchemaVersion } from "./registry";
+export type { WorkflowDocument, WorkflowMigration } from "./registry";
+
+/**
+ * Built-in migrations, one per `schemaVersion` step
+ */
+export const workflowMigrations = new MigrationRegistry(1, [edgeHandlesMigration]);
+
+if (workflowMigrations.latestVersion !== CONSTS.schemaVersion) {
+  throw new Error(
+    `CONSTS.schemaVersion is ${CONSTS.schemaVersion} but migrations end at ${workflowMigrations.latestVersion}`,
+  );
+}
+
+/**
+ * Upgrade a stored workflow document to the current `schemaVersion` so it can
+ * be parsed with `workflowSchema`. The input is not modified.
+ *
+ * @example
+ * const workflow = workflowSchema.parse(migrateWorkflow(JSON.parse(stored)));
+ *
+ * @throws {WorkflowMigrationError} for non-objects and unknown or future versions
+ */
+export function migrateWorkflow(
+  doc: unknown,
+  registry: MigrationRegistry = workflowMigrations,
+): WorkflowDocument {
+  return registry.migrate(doc);
+}
@@ -0,0 +1,129 @@
+/**
+ * A workflow document before it has been validated against `workflowSchema`
+ */
+export type WorkflowDocument = Record<string, unknown>;
+
+/**
+ * One step that upgrades a workflow document from `from` to `from + 1`
+ *
+ * `migrate` receives a private copy of the document and may modify it in
+ * place; it must not set `schemaVersion`, the registry does that.
+ */
+export interface WorkflowMigration {
+  from: number;
+  description: string;
+  migrate: (doc: WorkflowDocument) => WorkflowDocument | void;
+}
+
+/**
+ * Thrown when a document cannot be migrated
+ */
+export class WorkflowMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion?: number,
+  ) {
+    super(message);
+    this.name = "WorkflowMigrationError";
+  }
+}
+
+/**
+ * Ordered set of single-step workflow migrations
+ *
+ * @example
+ * const registry = new MigrationRegistry(1);
+ * registry.register({
+ *   from: 1,
+ *   description: "Rename `vars` to `variables`",
+ *   migrate: (doc) => {
+ *     doc.variables = doc.vars;
+ *     delete doc.vars;
+ *   },
+ * });
+ * registry.migrate(doc); // schemaVersion 2
+ */
+export class MigrationRegistry {
+  private readonly steps = new Map<number, WorkflowMigration>();
+
+  /**
+   * @param baseVersion - Oldest version documents can be migrated from
+   */
+  constructor(
+    readonly baseVersion = 1,
+    migrations: WorkflowMigration[] = [],
+  ) {
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  /**
+   * Add the next step. Steps must be registered in order without gaps.
+   */
+  register(migration: WorkflowMigration): this {
+    if (migration.from !== this.latestVersion) {
+      throw new WorkflowMigrationError(
+        `Migration from version ${migration.from} cannot be registered; expected a migration from version ${this.latestVersion}`,
+        migration.from,
+      );
+    }
+    this.steps.set(migration.from, migration);
+    return this;
+  }
+
+  /**
+   * Version documents end up at after all registered migrations
+   */
+  get latestVersion(): number {
+    return this.baseVersion + this.steps.size;
+  }
+
+  list(): WorkflowMigration[] {
+    return [...this.steps.values()];
+  }
+
+  /**
+   * Upgrade a document to `latestVersion`, one step at a time. The input is
+   * not modified. Documents without `schemaVersion` are treated as
+   * `baseVersion`.
+   *
+   * @throws {WorkflowMigrationError} if the document is not an object or has
+   * an unknown `schemaVersion`
+   */
+  migrate(doc: unknown): WorkflowDocument {
+    if (typeof doc !== "object" || doc === null || Array.isArray(doc)) {
+      throw new WorkflowMigrationError("Workflow document must be an object");
+    }
+
+    const version = getSchemaVersion(doc as WorkflowDocument, this.baseVersion);
+    if (!Number.isInteger(version) || version < this.baseVersion) {
+      throw new WorkflowMigrationError(`Unsupported schemaVersion: ${String(version)}`, version);
+    }
+    if (version > this.latestVersion) {
+      throw new WorkflowMigrationError(
+        `Workflow schemaVersion ${version} is newer than the latest supported version ${this.latestVersion}`,
+        version,
+      );
+    }
+
+    let current = structuredClone(doc) as WorkflowDocument;
+    for (let from = version; from < this.latestVersion; from++) {
+      const step = this.steps.get(from);
+      if (!step) {
+        throw new WorkflowMigrationError(`No migration from schemaVersion ${from}`, from);
+      }
+      current = step.migrate(current) ?? current;
+      current.schemaVersion = from + 1;
+    }
+    current.schemaVersion = this.latestVersion;
+    return current;
+  }
+}
+
+/**
+ * The `schemaVersion` a document was written against
+ */
+export function getSchemaVersion(doc: WorkflowDocument, baseVersion = 1): number {
+  return typeof doc.schemaVersion === "number" ? doc.schemaVersion : baseVersion;
+}
@@ -0,0 +1,52 @@
+import type { WorkflowDocument, WorkflowMigration } from "./registry";
+
+/**
+ * Version 1 → 2: canonical edge endpoints and positions
+ *
+ * Documents saved by the editor before `schemaVersion` existed could carry
+ * React Flow fields: ports in `sourceHandle`/`targetHandle` next to a bare
+ * node id, and positions as `{ x, y }`. `edgeSchema` strips unknown keys, so
+ * parsing such a document silently dropped the ports. From version 2 ports
+ * live only in the endpoint (`"nd_fetch:out1"`) and positions are `[x, y]`.
+ */
+export const edgeHandlesMigration: WorkflowMigration = {
+  from: 1,
+  description: "Fold sourceHandle/targetHandle into `nodeId:port` endpoints and convert {x, y} positions to arrays",
+  migrate: (doc) => {
+    if (Array.isArray(doc.edges)) {
+      doc.edges = doc.edges.map((edge) => (isRecord(edge) ? migrateEdge(edge) : edge));
+    }
+    if (Array.isArray(doc.nodes)) {
+      doc.nodes = doc.nodes.map((node) => (isRecord(node) ? migrateNode(node) : node));
+    }
+  },
+};
+
+function migrateEdge(edge: WorkflowDocument): WorkflowDocument {
+  const { sourceHandle, targetHandle, ...rest } = edge;
+  return {
+    ...rest,
+    source: withPort(rest.source, sourceHandle),
+    target: withPort(rest.target, targetHandle),
+  };
+}
+
+function withPort(endpoint: unknown, handle: unknown): unknown {
+  if (typeof endpoint !== "string" || typeof handle !== "string" || handle === "") {
+    return endpoint;
+  }
+  // An endpoint that already names a port wins over the handle
+  return endpoint.includes(":") ? endpoint : `${endpoint}:${handle}`;
+}
+
+function migrateNode(node: WorkflowDocument): WorkflowDocument {
+  const { position } = node;
+  if (isRecord(position) && typeof position.x === "number" && typeof position.y === "number") {
+    return { ...node, position: [position.x, position.y] };
+  }
+  return node;
+}
+
+function isRecord(value: unknown): value is WorkflowDocument {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -4,6 +4,7 @@ import { positionSchema } from './position';
 import { CONSTS } from './consts';
 import { propertySchema } from './property';
 import { packageDefinitionSchema } from './package';
+import { retryPolicySchema } from './retry';
 
 export const nodeTypeEnum = z.enum([
     'trigger',
@@ -11,6 +12,9 @@ export const nodeTypeEnum = z.enum([
     'transform',
     'condition',
     'loop',
+    'merge',
+    'subworkflow',
+    'approval',
 ]);
 
 export const actionType = z.enum([
@@ -42,6 +46,10 @@ export const nodeSchema: z.ZodObject<any> = packageDefinitionSchema.extend({
 
     disabled: z.boolean().default(false).describe('Whether this node is disabled in execution'),
 
+    retry: retryPolicySchema.optional().describe('Retry policy for failed attempts'),
+
+    timeoutMs: z.number().int().positive().describe('Abort each attempt after this many milliseconds').optional(),
+
     input: z.array(z.string()).describe('Input ports/handles for receiving data').optional(),
 
     output: z.array(z.string()).describe('Output ports/handles for sending data').optional(),
@@ -0,0 +1,29 @@
+// retry.ts
+import { z } from 'zod';
+
+/**
+ * Retry policy of a node
+ *
+ * A failed attempt is retried while attempts remain and the error is
+ * retryable: its code is listed in `retryOn`, or, without `retryOn`, the
+ * error is flagged `retryable` (e.g. network errors, HTTP 429 and 5xx).
+ *
+ * The wait before attempt `n + 1` is `delayMs` (`fixed`) or
+ * `delayMs * 2^(n - 1)` (`exponential`), capped at `maxDelayMs`. `jitter`
+ * randomly shortens it by up to that fraction.
+ */
+export const retryPolicySchema = z.object({
+    maxAttempts: z.number().int().min(1).max(100).describe('Total attempts, including the first'),
+
+    backoff: z.enum(['fixed', 'exponential']).default('fixed').describe('How the wait grows between attempts'),
+
+    delayMs: z.number().int().min(0).default(1000).describe('Wait before the first retry in milliseconds'),
+
+    maxDelayMs: z.number().int().min(0).optional().describe('Upper bound on the wait between attempts'),
+
+    jitter: z.number().min(0).max(1).default(0).describe('Fraction of the wait that is randomised, 0-1'),
+
+    retryOn: z.array(z.string()).optional().describe('Error codes to retry, e.g. `HTTP_503`; defaults to errors marked retryable'),
+});
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
@@ -0,0 +1,64 @@
+// schedule.ts
+import { z } from 'zod';
+
+/**
+ * Whether the runtime knows `timezone` as an IANA time zone, e.g. `Europe/Paris`
+ */
+function isTimeZone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * When a scheduled trigger fires
+ *
+ * - `cron`: on every wall-clock minute the five-field `expression` (minute,
+ *   hour, day of month, month, day of week) matches in `timezone`
+ * - `interval`: every `everyMs` from `startAt`, or from when the schedule
+ *   starts
+ * - `once`: at `at`
+ */
+export const scheduleSchema = z.discriminatedUnion('kind', [
+    z.object({
+        kind: z.literal('cron'),
+
+        expression: z.string().min(1).describe('Cron expression, e.g. `0 9 * * MON-FRI`, or a macro such as `@daily`'),
+
+        timezone: z.string().refine(isTimeZone, { message: 'Unknown time zone' }).default('UTC').describe('IANA time zone the expression is read in'),
+    }),
+    z.object({
+        kind: z.literal('interval'),
+
+        everyMs: z.number().int().min(1000).describe('Time between runs in milliseconds'),
+
+        startAt: z.number().int().optional().describe('First run (Unix ms); defaults to one interval after the schedule starts'),
+    }),
+    z.object({
+        kind: z.literal('once'),
+
+        at: z.number().int().describe('Run time (Unix ms)'),
+    }),
+]);
+
+export type Schedule = z.infer<typeof scheduleSchema>;
+
+/**
+ * Config of a trigger node that starts runs on a schedule
+ *
+ * Each run's execution has `triggerContext.type: 'scheduled'` and its
+ * `scheduledTime`, which the trigger also outputs as `{{input.scheduledTime}}`
+ * next to `input`.
+ */
+export const scheduleTriggerConfigSchema = z.object({
+    trigger: z.literal('scheduled'),
+
+    schedule: scheduleSchema,
+
+    input: z.record(z.string(), z.unknown()).optional().describe('Payload every run starts with, read as `{{input.*}}`'),
+});
+
+export type ScheduleTriggerConfig = z.infer<typeof scheduleTriggerConfigSchema>;
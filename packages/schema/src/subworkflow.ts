@@ -0,0 +1,22 @@
+// subworkflow.ts
+import { z } from 'zod';
+import { idSchema } from './id';
+import { CONSTS } from './consts';
+
+/**
+ * Sub-workflow node config, read after `{{ }}` resolution
+ *
+ * The node runs the referenced workflow with `vars` as its variable values
+ * and outputs the child execution's `outputData`.
+ */
+export const subworkflowConfigSchema = z.object({
+    workflowId: idSchema(CONSTS.idPrefix.workflow).describe('Workflow to run'),
+
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, {
+        message: 'Version must follow semantic versioning (e.g., 1.0.0)'
+    }).describe('Version of the workflow to run'),
+
+    vars: z.record(z.string(), z.unknown()).default({}).describe('Values for the child workflow\'s `vars`, usually `{{ }}` expressions'),
+});
+
+export type SubworkflowConfig = z.infer<typeof subworkflowConfigSchema>;
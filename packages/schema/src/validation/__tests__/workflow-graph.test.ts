@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateWorkflowGraph,
+  hasGraphErrors,
+  workflowDiagnosticSchema,
+  type WorkflowGraph,
+  type WorkflowGraphNode,
+} from "../index";
+import orderConfirmation from "../../../__mocks__/jb_order_confirmation.json";
+
+const node = (id: string, type = "action", ports: Partial<WorkflowGraphNode> = {}): WorkflowGraphNode => ({
+  id,
+  type,
+  ...ports,
+});
+
+const linear: WorkflowGraph = {
+  nodes: [
+    node("nd_trigger", "trigger", { output: ["out1"] }),
+    node("nd_fetch", "action", { input: ["in1"], output: ["out1", "error"] }),
+    node("nd_send"),
+  ],
+  edges: [
+    { id: "ed_1", source: "nd_trigger:out1", target: "nd_fetch:in1" },
+    { id: "ed_2", source: "nd_fetch:out1", target: "nd_send" },
+  ],
+};
+
+const codes = (graph: WorkflowGraph) => validateWorkflowGraph(graph).map((d) => d.code);
+
+describe("validateWorkflowGraph", () => {
+  it("accepts a valid workflow", () => {
+    expect(validateWorkflowGraph(linear)).toEqual([]);
+    expect(validateWorkflowGraph(orderConfirmation as unknown as WorkflowGraph)).toEqual([]);
+  });
+
+  it("reports duplicate node and edge ids", () => {
+    const diagnostics = validateWorkflowGraph({
+      nodes: [...linear.nodes, node("nd_send")],
+      edges: [...linear.edges, { id: "ed_2", source: "nd_trigger", target: "nd_send" }],
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: "duplicate-node-id",
+        severity: "error",
+        nodeId: "nd_send",
+        message: 'Node id "nd_send" is used more than once',
+      },
+      {
+        code: "duplicate-edge-id",
+        severity: "error",
+        edgeId: "ed_2",
+        message: 'Edge id "ed_2" is used more than once',
+      },
+    ]);
+  });
+
+  it("reports edges to missing nodes", () => {
+    const diagnostics = validateWorkflowGraph({
+      nodes: linear.nodes,
+      edges: [
+        ...linear.edges,
+        { id: "ed_3", source: "nd_ghost:out1", target: "nd_send" },
+        { id: "ed_4", source: "nd_send", target: "nd_missing" },
+      ],
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: "unknown-source-node", edgeId: "ed_3" }),
+      expect.objectContaining({ code: "unknown-target-node", edgeId: "ed_4" }),
+    ]);
+    expect(diagnostics[0]?.message).toBe('Edge "ed_3" starts at unknown node "nd_ghost"');
+  });
+
+  it("reports ports not declared by the node", () => {
+    const diagnostics = validateWorkflowGraph({
+      nodes: linear.nodes,
+      edges: [
+        { id: "ed_1", source: "nd_trigger:main", target: "nd_fetch:in2" },
+        { id: "ed_2", source: "nd_fetch", sourceHandle: "success", target: "nd_send", targetHandle: "anything" },
+      ],
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        code: "unknown-source-port",
+        severity: "error",
+        nodeId: "nd_trigger",
+        edgeId: "ed_1",
+        message: 'Edge "ed_1" uses output port "main", but node "nd_trigger" only has "out1"',
+      },
+      expect.objectContaining({ code: "unknown-target-port", nodeId: "nd_fetch", edgeId: "ed_1" }),
+      expect.objectContaining({ code: "unknown-source-port", nodeId: "nd_fetch", edgeId: "ed_2" }),
+    ]);
+  });
+
+  it("reports cycles unless they pass through a loop node", () => {
+    const withCycle: WorkflowGraph = {
+      nodes: [node("nd_trigger", "trigger"), node("nd_a"), node("nd_b"), node("nd_c")],
+      edges: [
+        { id: "ed_1", source: "nd_trigger", target: "nd_a" },
+        { id: "ed_2", source: "nd_a", target: "nd_b" },
+        { id: "ed_3", source: "nd_b", target: "nd_c" },
+        { id: "ed_4", source: "nd_c", target: "nd_a" },
+        { id: "ed_5", source: "nd_c", target: "nd_c" },
+      ],
+    };
+    expect(validateWorkflowGraph(withCycle)).toEqual([
+      {
+        code: "cycle",
+        severity: "error",
+        nodeId: "nd_a",
+        message: 'Nodes "nd_a", "nd_b", "nd_c" form a cycle; only loop nodes may repeat steps',
+      },
+    ]);
+
+    const withLoop: WorkflowGraph = {
+      nodes: [node("nd_trigger", "trigger"), node("nd_loop", "loop"), node("nd_body"), node("nd_self")],
+      edges: [
+        { id: "ed_1", source: "nd_trigger", target: "nd_loop" },
+        { id: "ed_2", source: "nd_loop", sourceHandle: "body", target: "nd_body" },
+        { id: "ed_3", source: "nd_body", target: "nd_loop", targetHandle: "next" },
+        { id: "ed_4", source: "nd_loop", target: "nd_self" },
+        { id: "ed_5", source: "nd_self", target: "nd_self" },
+      ],
+    };
+    expect(codes(withLoop)).toEqual(["cycle"]);
+    expect(validateWorkflowGraph(withLoop)[0]?.nodeId).toBe("nd_self");
+  });
+
+  it("reports cycles through a loop's done port", () => {
+    const throughDone: WorkflowGraph = {
+      nodes: [node("nd_trigger", "trigger"), node("nd_a"), node("nd_loop", "loop"), node("nd_b")],
+      edges: [
+        { id: "ed_1", source: "nd_trigger", target: "nd_a" },
+        { id: "ed_2", source: "nd_a", target: "nd_loop" },
+        { id: "ed_3", source: "nd_loop", sourceHandle: "done", target: "nd_b" },
+        { id: "ed_4", source: "nd_b", target: "nd_a" },
+      ],
+    };
+    expect(validateWorkflowGraph(throughDone)).toEqual([
+      {
+        code: "cycle",
+        severity: "error",
+        nodeId: "nd_a",
+        message: 'Nodes "nd_a", "nd_loop", "nd_b" form a cycle; only loop nodes may repeat steps',
+      },
+    ]);
+  });
+
+  it("warns about nodes not reachable from the trigger", () => {
+    const diagnostics = validateWorkflowGraph({
+      nodes: [...linear.nodes, node("nd_orphan"), node("nd_orphan_child")],
+      edges: [...linear.edges, { id: "ed_3", source: "nd_orphan", target: "nd_orphan_child" }],
+    });
+
+    expect(diagnostics.map((d) => [d.code, d.severity, d.nodeId])).toEqual([
+      ["unreachable-node", "warning", "nd_orphan"],
+      ["unreachable-node", "warning", "nd_orphan_child"],
+    ]);
+    expect(hasGraphErrors(diagnostics)).toBe(false);
+  });
+
+  it("requires exactly one trigger", () => {
+    expect(codes({ nodes: [node("nd_a")], edges: [] })).toEqual(["missing-trigger"]);
+
+    const diagnostics = validateWorkflowGraph({
+      nodes: [node("nd_hook", "trigger"), node("nd_cron", "trigger"), node("nd_a")],
+      edges: [
+        { id: "ed_1", source: "nd_hook", target: "nd_a" },
+        { id: "ed_2", source: "nd_cron", target: "nd_a" },
+      ],
+    });
+    expect(diagnostics.map((d) => [d.code, d.nodeId])).toEqual([
+      ["multiple-triggers", "nd_hook"],
+      ["multiple-triggers", "nd_cron"],
+    ]);
+    expect(hasGraphErrors(diagnostics)).toBe(true);
+  });
+
+  it("produces diagnostics matching workflowDiagnosticSchema", () => {
+    const diagnostics = validateWorkflowGraph({
+      nodes: [node("nd_a"), node("nd_a")],
+      edges: [{ id: "ed_1", source: "nd_a:x", target: "nd_b" }],
+    });
+    expect(diagnostics.length).toBeGreaterThan(0);
+    for (const diagnostic of diagnostics) {
+      expect(() => workflowDiagnosticSchema.parse(diagnostic)).not.toThrow();
+    }
+  });
+});
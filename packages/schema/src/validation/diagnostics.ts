@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+/**
+ * Severity of a workflow diagnostic
+ *
+ * `error` diagnostics make a workflow unrunnable; `warning` diagnostics point
+ * at likely mistakes that do not block execution.
+ */
+export const diagnosticSeveritySchema = z.enum(["error", "warning"]);
+export type DiagnosticSeverity = z.infer<typeof diagnosticSeveritySchema>;
+
+/**
+ * Codes reported by `validateWorkflowGraph`, plus `invalid-schema` for
+ * callers that also report where a workflow does not match `workflowSchema`
+ */
+export const workflowDiagnosticCodeSchema = z.enum([
+  "duplicate-node-id",
+  "duplicate-edge-id",
+  "unknown-source-node",
+  "unknown-target-node",
+  "unknown-source-port",
+  "unknown-target-port",
+  "cycle",
+  "unreachable-node",
+  "missing-trigger",
+  "multiple-triggers",
+  "invalid-schema",
+]);
+export type WorkflowDiagnosticCode = z.infer<typeof workflowDiagnosticCodeSchema>;
+
+/**
+ * A single semantic problem found in a workflow graph
+ */
+export const workflowDiagnosticSchema = z.object({
+  code: workflowDiagnosticCodeSchema.describe("Machine-readable problem code"),
+
+  severity: diagnosticSeveritySchema.describe("Whether the problem blocks execution"),
+
+  nodeId: z
+    .string()
+    .optional()
+    .describe("Node the problem is attached to, if any"),
+
+  edgeId: z
+    .string()
+    .optional()
+    .describe("Edge the problem is attached to, if any"),
+
+  message: z.string().describe("Human-readable description of the problem"),
+});
+export type WorkflowDiagnostic = z.infer<typeof workflowDiagnosticSchema>;
@@ -0,0 +1,19 @@
+// Diagnostic schemas
+export {
+  diagnosticSeveritySchema,
+  workflowDiagnosticCodeSchema,
+  workflowDiagnosticSchema,
+} from "./diagnostics";
+export type {
+  DiagnosticSeverity,
+  WorkflowDiagnosticCode,
+  WorkflowDiagnostic,
+} from "./diagnostics";
+
+// Graph validation
+export { validateWorkflowGraph, hasGraphErrors } from "./workflow-graph";
+export type {
+  WorkflowGraph,
+  WorkflowGraphNode,
+  WorkflowGraphEdge,
+} from "./workflow-graph";
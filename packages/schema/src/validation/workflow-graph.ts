@@ -0,0 +1,272 @@
+import { LOOP_PORTS } from "../loop";
+import type { WorkflowDiagnostic } from "./diagnostics";
+
+/**
+ * Node fields the graph validator looks at
+ *
+ * Structural so it accepts parsed workflows as well as editor/database
+ * representations of the same data.
+ */
+export interface WorkflowGraphNode {
+  id: string;
+  type?: string;
+  input?: string[];
+  output?: string[];
+}
+
+/**
+ * Edge fields the graph validator looks at
+ *
+ * Ports may be part of the endpoint (`"nd_fetch:out1"`) or given separately as
+ * `sourceHandle`/`targetHandle` (React Flow format).
+ */
+export interface WorkflowGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowGraphNode[];
+  edges: WorkflowGraphEdge[];
+}
+
+interface Endpoint {
+  nodeId: string;
+  port?: string;
+}
+
+/**
+ * Check a workflow graph for problems `workflowSchema` cannot express:
+ *
+ * - duplicate node and edge ids
+ * - edges pointing at missing nodes or at ports not listed in the node's
+ *   `input`/`output` (only checked when the node declares them)
+ * - cycles, other than a loop body closing back into its loop's `next` port
+ * - nodes not reachable from the trigger
+ * - zero or several `trigger` nodes
+ *
+ * Returns an empty array for a valid graph. Diagnostics are ordered by check,
+ * then by position in `nodes`/`edges`.
+ *
+ * @example
+ * const diagnostics = validateWorkflowGraph(workflow);
+ * if (hasGraphErrors(diagnostics)) {
+ *   throw new Error(diagnostics.map((d) => d.message).join("\n"));
+ * }
+ */
+export function validateWorkflowGraph(workflow: WorkflowGraph): WorkflowDiagnostic[] {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const nodes = new Map<string, WorkflowGraphNode>();
+  const edgeIds = new Set<string>();
+
+  for (const node of workflow.nodes) {
+    if (nodes.has(node.id)) {
+      diagnostics.push({
+        code: "duplicate-node-id",
+        severity: "error",
+        nodeId: node.id,
+        message: `Node id "${node.id}" is used more than once`,
+      });
+      continue;
+    }
+    nodes.set(node.id, node);
+  }
+
+  for (const edge of workflow.edges) {
+    if (edgeIds.has(edge.id)) {
+      diagnostics.push({
+        code: "duplicate-edge-id",
+        severity: "error",
+        edgeId: edge.id,
+        message: `Edge id "${edge.id}" is used more than once`,
+      });
+    }
+    edgeIds.add(edge.id);
+  }
+
+  // Adjacency over edges whose endpoints exist
+  const successors = new Map<string, string[]>();
+  // Same, without edges into a loop's `next` port
+  const forward = new Map<string, string[]>();
+  for (const id of nodes.keys()) {
+    successors.set(id, []);
+    forward.set(id, []);
+  }
+
+  for (const edge of workflow.edges) {
+    const source = endpoint(edge.source, edge.sourceHandle);
+    const target = endpoint(edge.target, edge.targetHandle);
+    const sourceNode = nodes.get(source.nodeId);
+    const targetNode = nodes.get(target.nodeId);
+
+    if (!sourceNode) {
+      diagnostics.push({
+        code: "unknown-source-node",
+        severity: "error",
+        edgeId: edge.id,
+        message: `Edge "${edge.id}" starts at unknown node "${source.nodeId}"`,
+      });
+    } else if (source.port && sourceNode.output && !sourceNode.output.includes(source.port)) {
+      diagnostics.push({
+        code: "unknown-source-port",
+        severity: "error",
+        nodeId: sourceNode.id,
+        edgeId: edge.id,
+        message: `Edge "${edge.id}" uses output port "${source.port}", but node "${sourceNode.id}" only has ${listPorts(sourceNode.output)}`,
+      });
+    }
+
+    if (!targetNode) {
+      diagnostics.push({
+        code: "unknown-target-node",
+        severity: "error",
+        edgeId: edge.id,
+        message: `Edge "${edge.id}" ends at unknown node "${target.nodeId}"`,
+      });
+    } else if (target.port && targetNode.input && !targetNode.input.includes(target.port)) {
+      diagnostics.push({
+        code: "unknown-target-port",
+        severity: "error",
+        nodeId: targetNode.id,
+        edgeId: edge.id,
+        message: `Edge "${edge.id}" uses input port "${target.port}", but node "${targetNode.id}" only has ${listPorts(targetNode.input)}`,
+      });
+    }
+
+    if (sourceNode && targetNode) {
+      successors.get(sourceNode.id)?.push(targetNode.id);
+      // The edge closing a loop body is the only way back to an earlier node
+      if (targetNode.type !== "loop" || target.port !== LOOP_PORTS.next) {
+        forward.get(sourceNode.id)?.push(targetNode.id);
+      }
+    }
+  }
+
+  for (const component of stronglyConnectedComponents([...nodes.keys()], forward)) {
+    const [first] = component;
+    if (first === undefined) continue;
+    const isCycle = component.length > 1 || (forward.get(first) ?? []).includes(first);
+    if (!isCycle) continue;
+    diagnostics.push({
+      code: "cycle",
+      severity: "error",
+      nodeId: first,
+      message: `Nodes ${component.map((id) => `"${id}"`).join(", ")} form a cycle; only loop nodes may repeat steps`,
+    });
+  }
+
+  const triggers = [...nodes.values()].filter((node) => node.type === "trigger");
+  if (triggers.length === 0) {
+    diagnostics.push({
+      code: "missing-trigger",
+      severity: "error",
+      message: "Workflow has no trigger node",
+    });
+  } else {
+    const reachable = reachableFrom(triggers.map((node) => node.id), successors);
+    for (const id of nodes.keys()) {
+      if (reachable.has(id)) continue;
+      diagnostics.push({
+        code: "unreachable-node",
+        severity: "warning",
+        nodeId: id,
+        message: `Node "${id}" is not reachable from the trigger and will never run`,
+      });
+    }
+  }
+
+  if (triggers.length > 1) {
+    for (const trigger of triggers) {
+      diagnostics.push({
+        code: "multiple-triggers",
+        severity: "error",
+        nodeId: trigger.id,
+        message: `Workflow has ${triggers.length} trigger nodes; only one is allowed`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Whether any diagnostic has `error` severity
+ */
+export function hasGraphErrors(diagnostics: WorkflowDiagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === "error");
+}
+
+function endpoint(value: string, handle?: string | null): Endpoint {
+  const separator = value.indexOf(":");
+  if (separator === -1) {
+    return { nodeId: value, port: handle ?? undefined };
+  }
+  return { nodeId: value.slice(0, separator), port: value.slice(separator + 1) };
+}
+
+function listPorts(ports: string[]): string {
+  return ports.length === 0 ? "no ports" : ports.map((port) => `"${port}"`).join(", ");
+}
+
+function reachableFrom(start: string[], successors: Map<string, string[]>): Set<string> {
+  const seen = new Set(start);
+  const queue = [...start];
+  for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+    for (const next of successors.get(id) ?? []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Tarjan's algorithm. Components and the nodes inside them are returned in
+ * `ids` order.
+ */
+function stronglyConnectedComponents(ids: string[], successors: Map<string, string[]>): string[][] {
+  const order = new Map(ids.map((id, index) => [id, index]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id) ?? 0);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, lowLink.get(next) ?? 0));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(next) ?? 0));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)));
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id);
+  }
+  const position = (component: string[]) => order.get(component[0] ?? "") ?? 0;
+  return components.sort((a, b) => position(a) - position(b));
+}
@@ -0,0 +1,70 @@
+// webhook.ts
+import { z } from 'zod';
+
+/**
+ * HTTP methods a webhook trigger can accept
+ */
+export const webhookMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+
+export type WebhookMethod = z.infer<typeof webhookMethodSchema>;
+
+/**
+ * How a webhook request proves where it came from
+ *
+ * - `none`: any request is accepted
+ * - `secret`: `header` must equal `secret`
+ * - `hmac`: `header` must carry the hex HMAC of the raw body, keyed with
+ *   `secret`, optionally prefixed with the algorithm (`sha256=...`)
+ *
+ * `secret` may be a `{{vars.*}}` reference to a secret workflow variable.
+ */
+export const webhookAuthSchema = z.discriminatedUnion('mode', [
+    z.object({
+        mode: z.literal('none'),
+    }),
+    z.object({
+        mode: z.literal('secret'),
+
+        header: z.string().min(1).default('x-webhook-secret').describe('Request header carrying the secret'),
+
+        secret: z.string().min(1).describe('Shared secret the header must match'),
+    }),
+    z.object({
+        mode: z.literal('hmac'),
+
+        header: z.string().min(1).default('x-webhook-signature').describe('Request header carrying the signature'),
+
+        secret: z.string().min(1).describe('Key the body is signed with'),
+
+        algorithm: z.enum(['sha1', 'sha256', 'sha512']).default('sha256').describe('HMAC hash algorithm'),
+    }),
+]);
+
+export type WebhookAuth = z.infer<typeof webhookAuthSchema>;
+
+/**
+ * Config of a trigger node that starts runs on HTTP requests
+ *
+ * Each run's execution has `triggerContext.type: 'webhook'` and the request
+ * as `triggerData`: `{ method, path, headers, query, body }`, read as
+ * `{{input.body.*}}`, `{{input.headers.*}}` and so on. Header names are lower
+ * case, and the auth header is left out.
+ *
+ * With `responseMode: 'immediate'` the request is answered `202` with the
+ * execution id as soon as the run starts; with `'wait'`, once it finishes,
+ * with its status and output, unless it pauses for an approval or takes
+ * longer than the listener allows, which is answered `202` as well.
+ */
+export const webhookTriggerConfigSchema = z.object({
+    trigger: z.literal('webhook'),
+
+    path: z.string().regex(/^\/[A-Za-z0-9._~\-/]*$/, { message: 'Path must start with / and contain only URL-safe characters' }).describe('Path the trigger listens on, e.g. `/orders/created`'),
+
+    methods: z.array(webhookMethodSchema).min(1).default(['POST']).describe('Methods the trigger accepts'),
+
+    auth: webhookAuthSchema.default({ mode: 'none' }).describe('How requests are authenticated'),
+
+    responseMode: z.enum(['immediate', 'wait']).default('immediate').describe('Answer when the run starts, or when it finishes'),
+});
+
+export type WebhookTriggerConfig = z.infer<typeof webhookTriggerConfigSchema>;
@@ -16,6 +16,8 @@ export const workflowSchema: z.ZodObject<any> = z.object({
     message: 'Version must follow semantic versioning (e.g., 1.0.0)'
   }).describe('Semantic version of the workflow'),
 
+  schemaVersion: z.number().int().min(1).max(CONSTS.schemaVersion).describe('Version of this schema the document was written against; missing means 1. Upgrade older documents with migrateWorkflow').optional(),
+
   icon: z.string().describe('Icon identifier or emoji for visual representation').optional(),
 
   tags: z.array(z.string().min(1).max(50)).describe('Tags for categorizing and searching workflows').optional(),
@@ -28,6 +30,10 @@ export const workflowSchema: z.ZodObject<any> = z.object({
 
   vars: z.record(z.string(), variableSchema).describe('Workflow-level variables accessible across all nodes').optional(),
 
+  timeoutMs: z.number().int().positive().describe('Abort the whole execution after this many milliseconds').optional(),
+
+  concurrency: z.number().int().min(1).describe('Most nodes running at once, per run or loop iteration; unlimited when unset').optional(),
+
 
 });
 
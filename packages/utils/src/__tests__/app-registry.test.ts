@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { Action } from '@w6w/schema';
+import { AppRegistry, groupActions, type App, type AppPackage } from '../app-registry';
+import type { Node } from '../types';
+
+const action = (key: string, overrides: Partial<Action> = {}): Action => ({
+    key,
+    displayName: key,
+    category: 'write',
+    properties: [],
+    requiresAuth: false,
+    ...overrides,
+});
+
+const slack = (actions: Action[]): App => ({
+    key: 'slack',
+    displayName: 'Slack',
+    actions: Object.fromEntries(actions.map((a) => [a.key, a])),
+});
+
+const pkg = (version: string, apps: App[]): AppPackage => ({ name: 'chat', version, apps });
+
+const registry = new AppRegistry([
+    pkg('1.0.0', [slack([action('send-message')])]),
+    pkg('1.4.0', [slack([
+        action('send-message', { deprecated: 'Use post-message', group: 'messages' }),
+        action('post-message', { group: 'messages' }),
+        action('list-channels', { category: 'read', group: 'channels' }),
+    ])]),
+    pkg('2.0.0', [slack([action('post-message', { group: 'messages' }), action('on-message', { category: 'trigger' })])]),
+    pkg('2.1.0-beta.1', [slack([action('post-message'), action('experimental')])]),
+    {
+        name: 'core',
+        version: '0.3.0',
+        apps: [{ key: 'http', displayName: 'HTTP', actions: { request: action('request') } }],
+    },
+]);
+
+const node = (id: string, fields: Partial<Node>): Node => ({ id, type: 'action', package: 'chat', app: 'slack', ...fields });
+
+describe('AppRegistry', () => {
+    it('keeps versions newest first', () => {
+        expect(registry.versions('chat')).toEqual(['2.1.0-beta.1', '2.0.0', '1.4.0', '1.0.0']);
+    });
+
+    it('rejects duplicate and invalid versions', () => {
+        const local = new AppRegistry([pkg('1.0.0', [])]);
+        expect(() => local.register(pkg('1.0.0', []))).toThrow('Package already registered: chat@1.0.0');
+        expect(() => local.register(pkg('1.0', []))).toThrow("Invalid version for package 'chat': 1.0");
+        local.register(pkg('1.0.0', [slack([])]), { replace: true });
+        expect(local.getApp('chat', 'slack')).toBeDefined();
+    });
+
+    it('resolves nodes to the highest version in range', () => {
+        expect(registry.resolve(node('nd_1', { version: '^1.0.0', action: 'send-message' }))).toMatchObject({
+            package: 'chat',
+            version: '1.4.0',
+            action: { key: 'send-message' },
+        });
+        expect(registry.resolve(node('nd_2', { version: '1.0.0', action: 'send-message' }))?.version).toBe('1.0.0');
+        expect(registry.resolve(node('nd_3', { action: 'post-message' }))?.version).toBe('2.0.0');
+        expect(registry.resolve(node('nd_4', { version: '>=2.1.0-beta.0', action: 'experimental' }))?.version).toBe('2.1.0-beta.1');
+    });
+
+    it('implements ActionResolver', () => {
+        expect(registry.resolveAction(node('nd_1', { version: '~1.4', action: 'list-channels' }))?.category).toBe('read');
+        expect(registry.resolveAction(node('nd_2', { version: '^2', action: 'send-message' }))).toBeUndefined();
+        expect(registry.resolveAction(node('nd_3', { version: 'latest', action: 'post-message' }))).toBeUndefined();
+    });
+
+    it('lists apps and actions from the latest release of each package', () => {
+        expect(registry.listApps().map((entry) => `${entry.app.displayName}@${entry.version}`)).toEqual([
+            'HTTP@0.3.0',
+            'Slack@2.0.0',
+        ]);
+        expect(registry.listActions({ category: 'write' }).map((entry) => entry.action.key)).toEqual([
+            'request',
+            'post-message',
+        ]);
+    });
+
+    it('groups actions by group and category', () => {
+        const older = new AppRegistry([pkg('1.4.0', registry.getPackage('chat', '1.4.0')?.apps ?? [])]);
+        const actions = older.listActions({ includeDeprecated: true });
+        const keys = (groups: Record<string, typeof actions>) =>
+            Object.fromEntries(Object.entries(groups).map(([key, entries]) => [key, entries.map((e) => e.action.key)]));
+
+        expect(keys(groupActions(actions, 'group'))).toEqual({
+            messages: ['send-message', 'post-message'],
+            channels: ['list-channels'],
+        });
+        expect(keys(groupActions(registry.listActions(), 'category'))).toEqual({
+            write: ['request', 'post-message'],
+            trigger: ['on-message'],
+        });
+        expect(Object.keys(groupActions(registry.listActions(), 'group'))).toEqual(['other', 'messages']);
+    });
+
+    it('reports missing and deprecated actions', () => {
+        const issues = registry.findActionIssues({
+            nodes: [
+                node('nd_ok', { version: '^2.0.0', action: 'post-message' }),
+                node('nd_old', { version: '^1.0.0', action: 'send-message' }),
+                node('nd_pkg', { package: 'email', action: 'send' }),
+                node('nd_version', { version: '^5.0.0', action: 'post-message' }),
+                node('nd_app', { app: 'teams', action: 'post-message' }),
+                node('nd_action', { action: 'delete-message' }),
+                { id: 'nd_trigger', type: 'trigger' },
+            ],
+        });
+        expect(issues.map(({ code, severity, nodeId }) => [code, severity, nodeId])).toEqual([
+            ['deprecated-action', 'warning', 'nd_old'],
+            ['unknown-package', 'error', 'nd_pkg'],
+            ['unknown-version', 'error', 'nd_version'],
+            ['unknown-app', 'error', 'nd_app'],
+            ['unknown-action', 'error', 'nd_action'],
+        ]);
+        expect(issues[0]?.message).toBe("Action 'send-message' is deprecated: Use post-message");
+    });
+
+    it('unregisters single versions or whole packages', () => {
+        const local = new AppRegistry([pkg('1.0.0', []), pkg('1.1.0', [])]);
+        expect(local.unregister('chat', '1.1.0')).toBe(true);
+        expect(local.versions('chat')).toEqual(['1.0.0']);
+        expect(local.unregister('chat', '1.1.0')).toBe(false);
+        expect(() => local.unregister('chat', '1.0')).toThrow('Invalid version');
+        expect(local.unregister('chat', 'v1.0.0')).toBe(true);
+        local.register(pkg('1.0.0', []));
+        expect(local.unregister('chat')).toBe(true);
+        expect(local.has('chat')).toBe(false);
+    });
+});
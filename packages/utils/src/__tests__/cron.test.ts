@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { CronError, nextCronTime, nextScheduleTimes, parseCron } from '../cron';
+
+const at = (iso: string) => Date.parse(iso);
+const iso = (time: number | undefined) => (time === undefined ? undefined : new Date(time).toISOString());
+
+describe('parseCron', () => {
+    it('expands ranges, steps, lists and names', () => {
+        expect(parseCron('*/15 9-17 * JAN,jul MON-FRI')).toMatchObject({
+            minutes: [0, 15, 30, 45],
+            hours: [9, 10, 11, 12, 13, 14, 15, 16, 17],
+            months: [1, 7],
+            daysOfWeek: [1, 2, 3, 4, 5],
+            restrictsDayOfMonth: false,
+            restrictsDayOfWeek: true,
+        });
+        expect(parseCron('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+        expect(parseCron('0 0 * * 5-7').daysOfWeek).toEqual([0, 5, 6]);
+        expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it.each([
+        ['* * * *', 'Expected 5 fields but found 4 in cron expression "* * * *"'],
+        ['', 'Expected 5 fields but found 0 in cron expression ""'],
+        ['60 * * * *', 'Invalid minute "60", expected 0-59 in cron expression "60 * * * *"'],
+        ['* * * * 1-9', 'Invalid day of week "9", expected 0-7 in cron expression "* * * * 1-9"'],
+        ['*/0 * * * *', 'Invalid minute step "0" in cron expression "*/0 * * * *"'],
+        ['* 5-1 * * *', 'Invalid hour range "5-1" in cron expression "* 5-1 * * *"'],
+        ['* * * FOO *', 'Invalid month "FOO", expected 1-12 in cron expression "* * * FOO *"'],
+    ])('rejects %j', (expression, message) => {
+        expect(() => parseCron(expression)).toThrow(CronError);
+        expect(() => parseCron(expression)).toThrow(message);
+    });
+});
+
+describe('nextCronTime', () => {
+    it('finds the next matching minute after a time', () => {
+        expect(iso(nextCronTime('*/15 * * * *', at('2026-10-19T10:07:30Z')))).toBe('2026-10-19T10:15:00.000Z');
+        expect(iso(nextCronTime('*/15 * * * *', at('2026-10-19T10:15:00Z')))).toBe('2026-10-19T10:30:00.000Z');
+        // Friday 09:00 -> Monday 09:00
+        expect(iso(nextCronTime('0 9 * * MON-FRI', at('2026-10-23T09:00:00Z')))).toBe('2026-10-26T09:00:00.000Z');
+    });
+
+    it('runs on either day when both day fields are restricted', () => {
+        expect(iso(nextCronTime('0 0 13 * FRI', at('2026-10-19T00:00:00Z')))).toBe('2026-10-23T00:00:00.000Z');
+        expect(iso(nextCronTime('0 0 13 * FRI', at('2026-11-06T00:00:00Z')))).toBe('2026-11-13T00:00:00.000Z');
+    });
+
+    it('waits for leap days and gives up on dates that never come', () => {
+        expect(iso(nextCronTime('0 0 29 2 *', at('2026-10-19T00:00:00Z')))).toBe('2028-02-29T00:00:00.000Z');
+        expect(nextCronTime('0 0 30 2 *', at('2026-10-19T00:00:00Z'))).toBeUndefined();
+    });
+
+    it('reads the expression on the clock of a time zone', () => {
+        expect(iso(nextCronTime('0 9 * * *', at('2026-07-01T00:00:00Z'), 'Europe/Paris'))).toBe('2026-07-01T07:00:00.000Z');
+        // 02:30 does not exist in New York on 8 March 2026
+        expect(iso(nextCronTime('30 2 * * *', at('2026-03-07T12:00:00Z'), 'America/New_York'))).toBe('2026-03-09T06:30:00.000Z');
+        // 01:30 happens twice in London on 25 October 2026 but runs once
+        const first = nextCronTime('30 1 * * *', at('2026-10-24T12:00:00Z'), 'Europe/London');
+        expect(iso(first)).toBe('2026-10-25T00:30:00.000Z');
+        expect(iso(nextCronTime('30 1 * * *', first!, 'Europe/London'))).toBe('2026-10-26T01:30:00.000Z');
+    });
+});
+
+describe('nextScheduleTimes', () => {
+    const after = at('2026-10-19T10:00:00Z');
+
+    it('lists upcoming runs of each kind of schedule', () => {
+        expect(nextScheduleTimes({ kind: 'cron', expression: '@hourly', timezone: 'UTC' }, after, 3).map(iso)).toEqual([
+            '2026-10-19T11:00:00.000Z',
+            '2026-10-19T12:00:00.000Z',
+            '2026-10-19T13:00:00.000Z',
+        ]);
+        expect(nextScheduleTimes({ kind: 'interval', everyMs: 60_000 }, after, 2)).toEqual([after + 60_000, after + 120_000]);
+        expect(nextScheduleTimes({ kind: 'interval', everyMs: 60_000, startAt: after - 90_000 }, after, 2)).toEqual([
+            after + 30_000,
+            after + 90_000,
+        ]);
+        expect(nextScheduleTimes({ kind: 'once', at: after + 5000 }, after, 3)).toEqual([after + 5000]);
+        expect(nextScheduleTimes({ kind: 'once', at: after - 5000 }, after, 3)).toEqual([]);
+    });
+});
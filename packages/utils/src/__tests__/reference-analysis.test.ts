@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { Connection } from '@w6w/schema';
+import { analyzeReferences } from '../reference-analysis';
+import type { Node, Workflow } from '../types';
+
+const node = (id: string, config: Record<string, unknown> = {}, extra: Partial<Node> = {}): Node => ({
+    id,
+    type: 'action',
+    package: 'core',
+    app: 'http',
+    version: '1.0.0',
+    action: 'request',
+    config,
+    ...extra,
+});
+
+const workflow = (nodes: Node[], edges: Array<[string, string]>, vars = {}): Workflow => ({
+    id: 'wf_test',
+    name: 'Test',
+    version: '1.0.0',
+    nodes,
+    edges: edges.map(([source, target], i) => ({ id: `ed_${i}`, source, target })),
+    vars,
+});
+
+describe('analyzeReferences', () => {
+    it('accepts references to upstream nodes through ports', () => {
+        const wf = workflow(
+            [
+                node('nd_trigger'),
+                node('nd_fetch'),
+                node('nd_send', { text: '{{nodes.nd_fetch.items[0].id}} via {{nodes.nd_trigger.body}}' }),
+            ],
+            [['nd_trigger:out', 'nd_fetch:in'], ['nd_fetch', 'nd_send']],
+        );
+        expect(analyzeReferences(wf)).toEqual([]);
+    });
+
+    it('reports references to nodes that do not exist', () => {
+        const wf = workflow([node('nd_send', { body: { to: '{{nodes.nd_ghost.email}}' } })], []);
+        expect(analyzeReferences(wf)).toEqual([
+            expect.objectContaining({
+                code: 'unknown-node',
+                severity: 'error',
+                nodeId: 'nd_send',
+                path: 'body.to',
+                reference: 'nodes.nd_ghost.email',
+                position: 2,
+            }),
+        ]);
+    });
+
+    it('reports references to nodes that are not upstream', () => {
+        const wf = workflow(
+            [
+                node('nd_a', { value: '{{nodes.nd_b.value}}' }),
+                node('nd_b'),
+                node('nd_c', { self: '{{nodes.nd_c.value}}' }),
+            ],
+            [['nd_a', 'nd_b']],
+        );
+        const codes = analyzeReferences(wf).map((d) => [d.nodeId, d.code]);
+        expect(codes).toEqual([['nd_a', 'not-upstream'], ['nd_c', 'not-upstream']]);
+    });
+
+    it('finds references nested in transforms and index keys', () => {
+        const wf = workflow(
+            [node('nd_a', { value: '{{nodes.nd_x.items[vars.idx] | default:nodes.nd_y.z}}' })],
+            [],
+            { idx: { name: 'idx', type: 'number', isSecret: false } },
+        );
+        expect(analyzeReferences(wf).map((d) => d.reference)).toEqual(['nodes.nd_x.items[vars.idx]', 'nodes.nd_y.z']);
+    });
+
+    it('warns about undeclared variables', () => {
+        const wf = workflow(
+            [node('nd_a', { list: ['{{vars.declared}}', '{{vars.missing}}'] })],
+            [],
+            { declared: { name: 'declared', type: 'string', isSecret: false } },
+        );
+        expect(analyzeReferences(wf)).toEqual([
+            expect.objectContaining({ code: 'undeclared-variable', severity: 'warning', path: 'list[1]' }),
+        ]);
+    });
+
+    it('reports syntax errors as invalid expressions', () => {
+        const wf = workflow([node('nd_a', { url: 'https://x/{{vars.a >}}' })], []);
+        expect(analyzeReferences(wf)).toEqual([
+            expect.objectContaining({ code: 'invalid-expression', path: 'url', position: 20 }),
+        ]);
+    });
+
+    describe('credentials', () => {
+        const connections: Connection[] = [
+            { type: 'bearer', id: 'cn_api', name: 'API', token: 't' },
+        ];
+
+        it('requires an authenticationId', () => {
+            const wf = workflow([node('nd_a', { auth: '{{credentials.token}}' })], []);
+            expect(analyzeReferences(wf).map((d) => d.code)).toEqual(['missing-connection']);
+        });
+
+        it('checks fields against the connection type when connections are known', () => {
+            const wf = workflow(
+                [
+                    node('nd_ok', { auth: '{{credentials.token}}' }, { authenticationId: 'cn_api' }),
+                    node('nd_bad', { auth: '{{credentials.accessToken}}' }, { authenticationId: 'cn_api' }),
+                    node('nd_gone', { auth: '{{credentials.token}}' }, { authenticationId: 'cn_missing' }),
+                ],
+                [],
+            );
+            expect(analyzeReferences(wf, { connections }).map((d) => [d.nodeId, d.code])).toEqual([
+                ['nd_bad', 'unknown-credential'],
+                ['nd_gone', 'missing-connection'],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { LoopContext, NodeExecutionState, StateTransition } from '@w6w/schema';
+import { ExecutionReplay } from '../replay';
+
+const executionId = 'ex_replay';
+const record = { executionId, status: 'completed' as const, startedAt: 1000 };
+
+const state = (nodeId: string, fields: Partial<NodeExecutionState> = {}): NodeExecutionState => ({
+    id: `${executionId}_${nodeId}`,
+    executionId,
+    nodeId,
+    status: 'completed',
+    attempt: 1,
+    ...fields,
+});
+
+const move = (timestamp: number, nodeId: string | undefined, fromState: string, toState: string, data?: unknown): StateTransition => ({
+    executionId,
+    timestamp,
+    scope: nodeId ? 'node' : 'execution',
+    nodeId,
+    fromState,
+    toState,
+    data,
+});
+
+const iteration = (index: number): LoopContext => ({ loopNodeId: 'nd_loop', iterationIndex: index, totalIterations: 2 });
+
+/**
+ * nd_fetch retries once, nd_approve waits, nd_loop runs nd_item twice
+ */
+const nodeStates = [
+    state('nd_fetch', { startedAt: 1010, completedAt: 1100, duration: 90, output: { rows: 3 }, attempt: 2, maxAttempts: 3 }),
+    state('nd_approve', { startedAt: 1100, completedAt: 1400, output: { decision: 'approved' }, resumeToken: 'rt_1' }),
+    state('nd_loop', { startedAt: 1400, completedAt: 1500, output: { iterations: 2 } }),
+    state('nd_item', { id: `${executionId}_nd_item_0`, loopContext: iteration(0), output: { n: 0 } }),
+    state('nd_item', { id: `${executionId}_nd_item_1`, loopContext: iteration(1), output: { n: 1 } }),
+];
+
+const transitions = [
+    move(1000, undefined, 'pending', 'running'),
+    move(1010, 'nd_fetch', 'pending', 'running'),
+    move(1050, 'nd_fetch', 'running', 'queued', { error: { message: 'Service unavailable', code: 'HTTP_503' } }),
+    move(1060, 'nd_fetch', 'queued', 'running'),
+    move(1100, 'nd_fetch', 'running', 'completed'),
+    move(1100, 'nd_approve', 'pending', 'running'),
+    move(1110, 'nd_approve', 'running', 'waiting'),
+    move(1110, undefined, 'running', 'waiting'),
+    move(1390, undefined, 'waiting', 'running'),
+    move(1390, 'nd_approve', 'waiting', 'running'),
+    move(1400, 'nd_approve', 'running', 'completed'),
+    move(1400, 'nd_loop', 'pending', 'running'),
+    move(1410, 'nd_item', 'pending', 'running', { loopContext: iteration(0) }),
+    move(1420, 'nd_item', 'running', 'completed', { loopContext: iteration(0) }),
+    move(1430, 'nd_item', 'pending', 'running', { loopContext: iteration(1) }),
+    move(1440, 'nd_item', 'running', 'completed', { loopContext: iteration(1) }),
+    move(1500, 'nd_loop', 'running', 'completed'),
+    move(1500, undefined, 'running', 'completed'),
+].map((transition, i) => ({ ...transition, id: i + 1 }));
+
+const stateOf = (states: NodeExecutionState[], nodeId: string) => states.find((s) => s.nodeId === nodeId);
+
+describe('ExecutionReplay', () => {
+    const replay = new ExecutionReplay(record, transitions, nodeStates);
+
+    it('accepts a history that follows the state machine', () => {
+        expect(replay.issues).toEqual([]);
+        expect(replay.valid).toBe(true);
+        expect(replay.length).toBe(transitions.length);
+    });
+
+    it('starts with every top-level node pending', () => {
+        const frame = replay.frame(0);
+
+        expect(frame).toMatchObject({ step: 0, timestamp: 1000, status: 'pending', transition: undefined });
+        expect(frame.nodeStates.map((s) => [s.nodeId, s.status])).toEqual([
+            ['nd_fetch', 'pending'],
+            ['nd_approve', 'pending'],
+            ['nd_loop', 'pending'],
+        ]);
+        expect(stateOf(frame.nodeStates, 'nd_fetch')?.output).toBeUndefined();
+    });
+
+    it('rebuilds retries, waits and loop iterations at a timestamp', () => {
+        const retrying = replay.at(1055);
+        expect(stateOf(retrying.nodeStates, 'nd_fetch')).toMatchObject({
+            status: 'queued',
+            attempt: 1,
+            startedAt: 1010,
+            error: { message: 'Service unavailable', code: 'HTTP_503' },
+        });
+
+        const waiting = replay.at(1200);
+        expect(waiting.status).toBe('waiting');
+        expect(stateOf(waiting.nodeStates, 'nd_fetch')).toEqual(nodeStates[0]);
+        expect(stateOf(waiting.nodeStates, 'nd_approve')).toMatchObject({ status: 'waiting', resumeToken: 'rt_1' });
+
+        const looping = replay.at(1425);
+        expect(looping.nodeStates.filter((s) => s.nodeId === 'nd_item')).toEqual([nodeStates[3]]);
+        expect(looping.transition?.id).toBe(14);
+    });
+
+    it('ends in the recorded states', () => {
+        const frame = replay.frame(Infinity);
+
+        expect(frame.step).toBe(transitions.length);
+        expect(frame.status).toBe('completed');
+        expect(frame.nodeStates).toEqual(nodeStates);
+    });
+
+    it('reports illegal moves and final states that disagree', () => {
+        const broken = new ExecutionReplay(record, [
+            ...transitions.slice(0, 5),
+            move(1105, 'nd_fetch', 'completed', 'running'),
+            move(1090, 'nd_missing', 'pending', 'running'),
+            move(1110, undefined, 'running', 'completed'),
+        ], nodeStates);
+
+        expect(broken.valid).toBe(false);
+        expect(broken.issues).toEqual([
+            expect.objectContaining({ code: 'ILLEGAL_TRANSITION', index: 5, message: 'Node nd_fetch cannot move from completed to running' }),
+            expect.objectContaining({ code: 'OUT_OF_ORDER', index: 6 }),
+            expect.objectContaining({ code: 'UNKNOWN_NODE_STATE', index: 6, nodeId: 'nd_missing' }),
+            expect.objectContaining({ code: 'FINAL_STATE_MISMATCH', nodeId: 'nd_fetch', message: 'Node nd_fetch replays to running, but its state says completed' }),
+            expect.objectContaining({ code: 'FINAL_STATE_MISMATCH', nodeId: 'nd_approve' }),
+            expect.objectContaining({ code: 'FINAL_STATE_MISMATCH', nodeId: 'nd_loop' }),
+            expect.objectContaining({ code: 'FINAL_STATE_MISMATCH', nodeId: 'nd_item' }),
+            expect.objectContaining({ code: 'FINAL_STATE_MISMATCH', nodeId: 'nd_item' }),
+        ]);
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import { resolveValue, evaluateExpression, resolveConfig, type ResolutionContext } from '../resolution';
+import { ExpressionError, parseTemplate } from '../expression';
+
+const context: ResolutionContext = {
+    nodes: {
+        nd_fetch: {
+            status: 'completed',
+            output: {
+                items: [
+                    { id: 'a1', name: 'First' },
+                    { id: 'b2', name: 'Second' },
+                ],
+                total: 2,
+                meta: { 'content-type': 'application/json' },
+            },
+        },
+    },
+    vars: { name: 'ada', count: 3, enabled: true, empty: '', index: 1 },
+    config: { org_id: 'org_42' },
+    input: { body: { message: 'A fairly long message body' } },
+    credentials: { apiKey: 'secret' },
+    system: {
+        execution_id: 'ex_1',
+        workflow_id: 'wf_1',
+        timestamp: 1700000000000,
+        environment: 'development',
+    },
+};
+
+describe('resolveValue', () => {
+    describe('plain values', () => {
+        it('returns strings without blocks unchanged', () => {
+            expect(resolveValue('hello world', context)).toBe('hello world');
+        });
+
+        it('keeps the raw type for a single whole-string block', () => {
+            expect(resolveValue('{{nodes.nd_fetch.items}}', context)).toEqual(context.nodes.nd_fetch!.output.items);
+            expect(resolveValue('{{ vars.count }}', context)).toBe(3);
+            expect(resolveValue('{{vars.enabled}}', context)).toBe(true);
+        });
+
+        it('resolves every source', () => {
+            expect(resolveValue('{{config.org_id}}', context)).toBe('org_42');
+            expect(resolveValue('{{input.body.message}}', context)).toBe('A fairly long message body');
+            expect(resolveValue('{{credentials.apiKey}}', context)).toBe('secret');
+            expect(resolveValue('{{system.workflow_id}}', context)).toBe('wf_1');
+        });
+
+        it('resolves the current loop iteration', () => {
+            const inLoop = { ...context, loop: { item: { id: 'a1' }, index: 2, total: 3 } };
+            expect(resolveValue('{{loop.item.id}}-{{loop.index}}', inLoop)).toBe('a1-2');
+            expect(resolveValue('{{loop.item}}', context)).toBeUndefined();
+        });
+
+        it('returns undefined for missing paths', () => {
+            expect(resolveValue('{{nodes.nd_missing.items}}', context)).toBeUndefined();
+            expect(resolveValue('{{vars.nope.deeper}}', context)).toBeUndefined();
+        });
+    });
+
+    describe('paths', () => {
+        it('supports array indexes', () => {
+            expect(resolveValue('{{nodes.nd_fetch.items[0].id}}', context)).toBe('a1');
+            expect(resolveValue('{{nodes.nd_fetch.items.1.name}}', context)).toBe('Second');
+        });
+
+        it('supports computed and quoted keys', () => {
+            expect(resolveValue('{{nodes.nd_fetch.items[vars.index].id}}', context)).toBe('b2');
+            expect(resolveValue('{{nodes.nd_fetch.meta["content-type"]}}', context)).toBe('application/json');
+        });
+    });
+
+    describe('interpolation', () => {
+        it('interpolates several blocks inside a larger string', () => {
+            expect(resolveValue('https://api.test/{{config.org_id}}/items/{{nodes.nd_fetch.items[1].id}}', context))
+                .toBe('https://api.test/org_42/items/b2');
+        });
+
+        it('stringifies objects and drops nullish values', () => {
+            expect(resolveValue('meta={{nodes.nd_fetch.meta}};x={{vars.missing}}', context))
+                .toBe('meta={"content-type":"application/json"};x=');
+        });
+    });
+
+    describe('transforms', () => {
+        it('applies a single transform', () => {
+            expect(resolveValue('{{nodes.nd_fetch.items | first}}', context)).toEqual({ id: 'a1', name: 'First' });
+            expect(resolveValue('{{vars.name | uppercase}}', context)).toBe('ADA');
+        });
+
+        it('chains transforms with arguments', () => {
+            expect(resolveValue('{{vars.empty | default:"n/a" | uppercase}}', context)).toBe('N/A');
+            expect(resolveValue('{{input.body.message | truncate:8}}', context)).toBe('A fairly');
+            expect(resolveValue('{{vars.missing | default:"n/a" | truncate:1}}', context)).toBe('n');
+        });
+
+        it('accepts expressions as arguments', () => {
+            expect(resolveValue('{{input.body.message | truncate:vars.count}}', context)).toBe('A f');
+        });
+    });
+
+    describe('operators and literals', () => {
+        it('evaluates comparisons', () => {
+            expect(resolveValue('{{vars.count > 2}}', context)).toBe(true);
+            expect(resolveValue('{{vars.count <= 2}}', context)).toBe(false);
+            expect(resolveValue('{{nodes.nd_fetch.total == 2}}', context)).toBe(true);
+            expect(resolveValue('{{vars.name != "ada"}}', context)).toBe(false);
+        });
+
+        it('evaluates boolean operators with short-circuiting', () => {
+            expect(resolveValue('{{vars.enabled && vars.count > 1}}', context)).toBe(true);
+            expect(resolveValue('{{!vars.enabled || vars.count == 3}}', context)).toBe(true);
+            expect(resolveValue('{{vars.empty || "fallback"}}', context)).toBe('fallback');
+        });
+
+        it('supports literals and grouping', () => {
+            expect(resolveValue('{{"text"}}', context)).toBe('text');
+            expect(resolveValue('{{ -1.5 }}', context)).toBe(-1.5);
+            expect(resolveValue('{{null}}', context)).toBeNull();
+            expect(resolveValue('{{(vars.count > 5 || vars.enabled) && true}}', context)).toBe(true);
+        });
+    });
+
+    describe('errors', () => {
+        it('reports unknown sources with the position of the reference', () => {
+            const error = catchError(() => resolveValue('Hello {{ user.name }}', context));
+            expect(error).toBeInstanceOf(ExpressionError);
+            expect(error.position).toBe(9);
+            expect(error.message).toContain('Unknown source: user');
+        });
+
+        it('reports unknown transforms', () => {
+            const error = catchError(() => resolveValue('{{vars.name | shout}}', context));
+            expect(error.message).toContain('Unknown transform: shout');
+            expect(error.position).toBe(14);
+        });
+
+        it('reports syntax errors with their position', () => {
+            expect(catchError(() => resolveValue('{{vars.count >}}', context)).position).toBe(14);
+            expect(catchError(() => resolveValue('{{vars.name = "x"}}', context)).position).toBe(12);
+            expect(catchError(() => resolveValue('{{"open}}', context)).message).toContain('Unclosed');
+        });
+
+        it('keeps a {{ without a closing }} as text', () => {
+            expect(resolveValue('Use {{ to open a block', context)).toBe('Use {{ to open a block');
+            expect(resolveValue('{{vars.name}} opens with {{', context)).toBe('ada opens with {{');
+        });
+
+        it('pairs a }} with the nearest {{ that opens a block', () => {
+            expect(resolveValue('Use {{ to open {{vars.name}}', context)).toBe('Use {{ to open ada');
+            expect(resolveValue("Type {{ when you're ready, {{vars.name}}", context)).toBe("Type {{ when you're ready, ada");
+            expect(resolveValue('{{ vars.name | default:"{{" }}', context)).toBe('ada');
+            expect(() => resolveValue('{{ vars.name + }}', context)).toThrow(ExpressionError);
+        });
+
+        it('unescapes \\{{ into literal text', () => {
+            expect(resolveValue('\\{{vars.name}} is {{vars.name}}', context)).toBe('{{vars.name}} is ada');
+            expect(resolveValue('Type \\{{ to start', context)).toBe('Type {{ to start');
+        });
+
+        it('rejects empty references', () => {
+            expect(() => resolveValue('{{ }}', context)).toThrow(ExpressionError);
+        });
+
+        it('requires a node id for nodes references', () => {
+            expect(() => resolveValue('{{nodes}}', context)).toThrow('Node ID is required');
+        });
+    });
+});
+
+describe('evaluateExpression', () => {
+    it('evaluates bare expressions', () => {
+        expect(evaluateExpression('nodes.nd_fetch.items[0].id == "a1" && vars.enabled', context)).toBe(true);
+    });
+});
+
+describe('parseTemplate', () => {
+    it('splits text and expression blocks with their offsets', () => {
+        const parts = parseTemplate('a {{ vars.x }} b');
+        expect(parts.map((p) => [p.type, p.start, p.end])).toEqual([
+            ['text', 0, 2],
+            ['expression', 2, 14],
+            ['text', 14, 16],
+        ]);
+    });
+
+    it('ignores closing braces inside string literals', () => {
+        const parts = parseTemplate('{{ vars.x | default:"}}" }}');
+        expect(parts).toHaveLength(1);
+        expect(parts[0]!.type).toBe('expression');
+    });
+});
+
+describe('resolveConfig', () => {
+    it('resolves nested objects and arrays', () => {
+        const { config, unresolved } = resolveConfig({
+            url: 'https://api.test/{{config.org_id}}/events',
+            method: 'POST',
+            retries: 3,
+            headers: { Authorization: 'Bearer {{credentials.apiKey}}' },
+            body: {
+                ids: ['{{nodes.nd_fetch.items[0].id}}', '{{nodes.nd_fetch.items[1].id}}'],
+                items: '{{nodes.nd_fetch.items}}',
+                nested: { greeting: 'Hi {{vars.name | uppercase}}' },
+            },
+        }, context);
+
+        expect(config).toEqual({
+            url: 'https://api.test/org_42/events',
+            method: 'POST',
+            retries: 3,
+            headers: { Authorization: 'Bearer secret' },
+            body: {
+                ids: ['a1', 'b2'],
+                items: context.nodes.nd_fetch!.output.items,
+                nested: { greeting: 'Hi ADA' },
+            },
+        });
+        expect(unresolved).toEqual([]);
+    });
+
+    it('does not mutate the input config', () => {
+        const input = { url: '{{config.org_id}}' };
+        resolveConfig(input, context);
+        expect(input.url).toBe('{{config.org_id}}');
+    });
+
+    it('reports unresolved references with their config path', () => {
+        const { config, unresolved } = resolveConfig({
+            headers: { 'X-Trace': '{{nodes.nd_pending.traceId}}' },
+            list: ['ok', 'id={{vars.missing}}'],
+        }, context);
+
+        expect(config).toEqual({ headers: { 'X-Trace': undefined }, list: ['ok', 'id='] });
+        expect(unresolved).toEqual([
+            { path: 'headers.X-Trace', reference: 'nodes.nd_pending.traceId' },
+            { path: 'list[1]', reference: 'vars.missing' },
+        ]);
+    });
+
+    it('does not report references rescued by a fallback', () => {
+        const { unresolved } = resolveConfig({
+            a: '{{vars.missing | default:"x"}}',
+            b: '{{vars.missing || vars.name}}',
+        }, context);
+        expect(unresolved).toEqual([]);
+    });
+});
+
+function catchError(fn: () => unknown): ExpressionError {
+    try {
+        fn();
+    } catch (error) {
+        return error as ExpressionError;
+    }
+    throw new Error('Expected function to throw');
+}
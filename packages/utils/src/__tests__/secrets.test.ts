@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { executionLogSchema, type NodeExecutionState } from '@w6w/schema';
+import { resolveConfig, resolveValue, evaluateExpression, type ResolutionContext } from '../resolution';
+import {
+    SecretTracker,
+    ExecutionLogWriter,
+    REDACTED,
+    redactNodeExecutionState,
+} from '../secrets';
+
+const API_KEY = 'sk_live_9f8e7d6c5b4a';
+const DB_PASSWORD = 'hunter2-correct-horse';
+
+const context: ResolutionContext = {
+    nodes: { nd_fetch: { status: 'completed', output: { token: 'public-token' } } },
+    vars: { region: 'eu-west-1', dbPassword: DB_PASSWORD },
+    config: {},
+    input: {},
+    credentials: { apiKey: API_KEY, oauth: { accessToken: 'at_123456', refreshToken: 'rt_654321' } },
+    system: { execution_id: 'ex_1', workflow_id: 'wf_1', timestamp: 1700000000000, environment: 'production' },
+};
+
+const tracker = () => SecretTracker.forWorkflow({
+    vars: {
+        region: { name: 'region', type: 'string' },
+        dbPassword: { name: 'dbPassword', type: 'string', isSecret: true },
+    },
+});
+
+describe('secret tracking during resolution', () => {
+    it('tracks credentials and secret variables but not other sources', () => {
+        const secrets = tracker();
+        resolveValue('{{credentials.apiKey}} {{vars.dbPassword}} {{vars.region}} {{nodes.nd_fetch.token}}', context, { secrets });
+
+        expect(secrets.has(API_KEY)).toBe(true);
+        expect(secrets.has(DB_PASSWORD)).toBe(true);
+        expect(secrets.has('eu-west-1')).toBe(false);
+        expect(secrets.has('public-token')).toBe(false);
+    });
+
+    it('tracks nested credential objects and values derived through transforms', () => {
+        const secrets = tracker();
+        const encoded = resolveValue('{{credentials.apiKey | base64}}', context, { secrets });
+        resolveValue('{{credentials.oauth}}', context, { secrets });
+
+        expect(secrets.has(encoded)).toBe(true);
+        expect(secrets.has('at_123456')).toBe(true);
+        expect(secrets.has('rt_654321')).toBe(true);
+    });
+
+    it('does not track non-string values derived from a secret', () => {
+        const secrets = new SecretTracker();
+        expect(evaluateExpression('credentials.apiKey != ""', context, { secrets })).toBe(true);
+        expect(secrets.size).toBe(1);
+    });
+
+    it('lists config paths that depend on a secret', () => {
+        const secrets = tracker();
+        const { config, secretPaths } = resolveConfig({
+            url: 'https://{{vars.region}}.api.test',
+            headers: { Authorization: 'Bearer {{credentials.apiKey}}' },
+            db: ['{{vars.region}}', '{{vars.dbPassword}}'],
+        }, context, { secrets });
+
+        expect(secretPaths).toEqual(['headers.Authorization', 'db[1]']);
+        expect(secrets.redact(config)).toEqual({
+            url: 'https://eu-west-1.api.test',
+            headers: { Authorization: `Bearer ${REDACTED}` },
+            db: ['eu-west-1', REDACTED],
+        });
+    });
+
+    it('copies the values tracked by another tracker', () => {
+        const parent = tracker();
+        resolveValue('{{vars.dbPassword}}', context, { secrets: parent });
+        const child = new SecretTracker();
+        child.trackAll(parent);
+
+        expect(child.has(DB_PASSWORD)).toBe(true);
+        expect(child.isSecretVariable('dbPassword')).toBe(false);
+    });
+});
+
+describe('redaction', () => {
+    it('never writes a secret to a serialized execution log', () => {
+        const secrets = tracker();
+        const { config } = resolveConfig({
+            headers: { Authorization: 'Bearer {{credentials.apiKey}}', 'X-Basic': '{{credentials.apiKey | base64}}' },
+            dsn: 'postgres://app:{{vars.dbPassword}}@db/{{vars.region}}',
+        }, context, { secrets });
+
+        let now = 1700000000000;
+        const log = new ExecutionLogWriter(secrets, () => now++);
+        log.write('info', 'Resolved node input', { nodeId: 'nd_call', data: { input: config } });
+        log.write('debug', `Connecting with ${config.dsn}`);
+        log.write('error', 'Request failed', {
+            nodeId: 'nd_call',
+            error: { message: `401 for key ${API_KEY}`, code: 'UNAUTHORIZED' },
+        });
+
+        const serialized = JSON.stringify(executionLogSchema.parse({
+            executionId: 'ex_1',
+            workflowId: 'wf_1',
+            status: 'failed',
+            startedAt: 1700000000000,
+            entries: log.entries,
+        }));
+
+        for (const secret of [API_KEY, DB_PASSWORD, btoa(API_KEY)]) {
+            expect(serialized).not.toContain(secret);
+        }
+        expect(serialized).toContain('eu-west-1');
+        expect(log.entries[1]?.message).toBe(`Connecting with postgres://app:${REDACTED}@db/eu-west-1`);
+    });
+
+    it('redacts node execution state input, output and error', () => {
+        const secrets = tracker();
+        const input = resolveConfig({ token: '{{credentials.apiKey}}', region: '{{vars.region}}' }, context, { secrets }).config;
+        const state: NodeExecutionState = {
+            id: 'ne_1',
+            executionId: 'ex_1',
+            nodeId: 'nd_call',
+            status: 'failed',
+            attempt: 1,
+            input,
+            output: { echoed: { key: API_KEY } },
+            error: { message: `Invalid key ${API_KEY}`, code: 'AUTH', retryable: false },
+        };
+
+        const redacted = redactNodeExecutionState(state, secrets);
+
+        expect(redacted.input).toEqual({ token: REDACTED, region: 'eu-west-1' });
+        expect(JSON.stringify(redacted)).not.toContain(API_KEY);
+        expect(state.input).toEqual({ token: API_KEY, region: 'eu-west-1' });
+    });
+
+    it('replaces longer secrets before secrets they contain', () => {
+        const secrets = new SecretTracker();
+        secrets.track('abc');
+        secrets.track('abcdef');
+        expect(secrets.redact({ a: 'x abcdef y abc' })).toEqual({ a: `x ${REDACTED} y ${REDACTED}` });
+    });
+});
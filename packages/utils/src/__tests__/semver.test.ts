@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isValidRange, maxSatisfying, parseVersion, satisfies } from '../semver';
+
+describe('parseVersion', () => {
+    it('parses versions with prerelease and build metadata', () => {
+        expect(parseVersion('1.2.3-beta.1+build.5')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['beta', '1'] });
+        expect(parseVersion('v2.0.0')).toMatchObject({ major: 2 });
+        expect(parseVersion('1.2')).toBeUndefined();
+    });
+
+    it('orders prereleases before their release', () => {
+        const sorted = ['1.0.0', '1.0.0-beta.2', '1.0.0-alpha', '1.0.0-beta.10', '0.9.9']
+            .map((v) => parseVersion(v)!)
+            .sort(compareVersions);
+        expect(sorted.map((v) => [v.major, v.minor, v.patch, ...v.prerelease].join('.'))).toEqual([
+            '0.9.9',
+            '1.0.0.alpha',
+            '1.0.0.beta.2',
+            '1.0.0.beta.10',
+            '1.0.0',
+        ]);
+    });
+});
+
+describe('satisfies', () => {
+    it.each([
+        ['1.2.3', '1.2.3', true],
+        ['1.2.4', '1.2.3', false],
+        ['1.9.0', '^1.2.0', true],
+        ['2.0.0', '^1.2.0', false],
+        ['0.2.9', '^0.2.1', true],
+        ['0.3.0', '^0.2.1', false],
+        ['1.2.9', '~1.2.3', true],
+        ['1.3.0', '~1.2.3', false],
+        ['1.7.0', '1.x', true],
+        ['2.0.0', '1', false],
+        ['3.1.0', '*', true],
+        ['1.5.0', '>=1.2.0 <2.0.0', true],
+        ['2.0.0', '>= 1.2.0 < 2.0.0', false],
+        ['1.4.9', '1.0.0 - 1.4', true],
+        ['1.5.0', '1.0.0 - 1.4', false],
+        ['3.0.0', '^1.0.0 || ^3.0.0', true],
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+        expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('matches prereleases only when the range names one of the same release', () => {
+        expect(satisfies('2.0.0-beta.1', '^1.0.0')).toBe(false);
+        expect(satisfies('1.5.0-beta.1', '^1.0.0')).toBe(false);
+        expect(satisfies('1.5.0-beta.2', '>=1.5.0-beta.1')).toBe(true);
+        expect(satisfies('1.5.0-beta.2', '*')).toBe(false);
+    });
+
+    it('rejects invalid ranges', () => {
+        expect(() => satisfies('1.0.0', 'latest')).toThrow('Invalid version range: latest');
+        expect(isValidRange('^1.x')).toBe(true);
+        expect(isValidRange('>=abc')).toBe(false);
+    });
+});
+
+describe('maxSatisfying', () => {
+    it('picks the highest matching version', () => {
+        expect(maxSatisfying(['1.0.0', '1.4.2', '1.10.0', '2.0.0'], '^1.0.0')).toBe('1.10.0');
+        expect(maxSatisfying(['1.0.0'], '^2.0.0')).toBeUndefined();
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { ActionDefinition } from '@w6w/schema';
+import { getExpressionSuggestions, type ActionResolver } from '../suggestions';
+import type { Node, Workflow } from '../types';
+
+const action = (key: string, outputSchema?: Record<string, any>): ActionDefinition => ({
+    key,
+    displayName: key,
+    category: 'read',
+    properties: [],
+    requiresAuth: false,
+    outputSchema,
+});
+
+const actions: Record<string, ActionDefinition> = {
+    webhook: action('webhook', { body: { type: 'object', description: 'Request body' } }),
+    list: action('list', {
+        type: 'object',
+        properties: {
+            items: {
+                type: 'array',
+                description: 'Fetched items',
+                items: { type: 'object', properties: { id: { type: 'string' }, 'due-date': { type: 'string' } } },
+            },
+            total: { type: 'number' },
+        },
+    }),
+    send: action('send'),
+};
+
+const resolver: ActionResolver = {
+    resolveAction: (node) => (node.action ? actions[node.action] : undefined),
+};
+
+const node = (id: string, actionKey: string, label?: string): Node => ({ id, type: 'action', action: actionKey, label });
+
+const workflow: Workflow = {
+    id: 'wf_test',
+    name: 'Test',
+    version: '1.0.0',
+    nodes: [node('nd_hook', 'webhook', 'Incoming'), node('nd_list', 'list'), node('nd_send', 'send'), node('nd_after', 'send')],
+    edges: [
+        { id: 'ed_1', source: 'nd_hook:out', target: 'nd_list' },
+        { id: 'ed_2', source: 'nd_list', target: 'nd_send' },
+        { id: 'ed_3', source: 'nd_send', target: 'nd_after' },
+    ],
+    vars: { region: { name: 'region', type: 'string', description: 'Deployment region' } },
+};
+
+describe('getExpressionSuggestions', () => {
+    const suggestions = getExpressionSuggestions(workflow, 'nd_send', resolver);
+    const paths = (kind: string) => suggestions.filter((s) => s.kind === kind).map((s) => s.path);
+
+    it('lists outputs of upstream nodes only', () => {
+        expect(paths('node')).toEqual([
+            'nodes.nd_hook',
+            'nodes.nd_hook.body',
+            'nodes.nd_list',
+            'nodes.nd_list.items',
+            'nodes.nd_list.items[0].id',
+            'nodes.nd_list.items[0]["due-date"]',
+            'nodes.nd_list.total',
+        ]);
+    });
+
+    it('carries types, descriptions and the source node', () => {
+        expect(suggestions).toContainEqual({
+            path: 'nodes.nd_list.items',
+            kind: 'node',
+            type: 'array',
+            description: 'Fetched items',
+            nodeId: 'nd_list',
+        });
+        expect(suggestions.find((s) => s.path === 'nodes.nd_hook')?.description).toBe('Incoming');
+    });
+
+    it('lists workflow variables and system fields', () => {
+        expect(suggestions).toContainEqual({ path: 'vars.region', kind: 'variable', type: 'string', description: 'Deployment region' });
+        expect(paths('system')).toEqual([
+            'system.execution_id',
+            'system.workflow_id',
+            'system.timestamp',
+            'system.environment',
+        ]);
+    });
+
+    it('lists transforms', () => {
+        expect(paths('transform')).toEqual(expect.arrayContaining(['first', 'uppercase', 'default', 'truncate']));
+    });
+
+    it('returns no node suggestions for a node without upstream nodes', () => {
+        expect(getExpressionSuggestions(workflow, 'nd_hook', resolver).filter((s) => s.kind === 'node')).toEqual([]);
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { resolveValue, type ResolutionContext } from '../resolution';
+import { ExpressionError } from '../expression';
+import { TransformRegistry, defaultTransformRegistry, standardTransforms } from '../transforms';
+
+const context: ResolutionContext = {
+    nodes: {
+        nd_orders: {
+            status: 'completed',
+            output: {
+                orders: [
+                    { id: 'o3', status: 'open', total: 30, customer: { name: 'Cy' } },
+                    { id: 'o1', status: 'closed', total: 10, customer: { name: 'Ada' } },
+                    { id: 'o2', status: 'open', total: 20, customer: { name: 'Ada' } },
+                ],
+                createdAt: '2024-01-31T10:05:09.007Z',
+            },
+        },
+    },
+    vars: { title: 'Héllo, Wörld!', price: 1234.5678, csv: 'a,b,,c', due: '2024-03-01T00:00:00.000Z' },
+    config: {},
+    input: {},
+    credentials: {},
+    system: { execution_id: 'ex_1', workflow_id: 'wf_1', timestamp: 0, environment: 'development' },
+};
+
+const resolve = (expr: string) => resolveValue(expr, context);
+
+describe('standard transforms', () => {
+    it('formats and shifts dates in UTC', () => {
+        expect(resolve('{{nodes.nd_orders.createdAt | date_format:"YYYY-MM-DD HH:mm:ss.SSS"}}'))
+            .toBe('2024-01-31 10:05:09.007');
+        expect(resolve('{{system.timestamp | date_format}}')).toBe('1970-01-01T00:00:00.000Z');
+        expect(resolve('{{nodes.nd_orders.createdAt | date_add:1,"months" | date_format:"YYYY-MM-DD"}}'))
+            .toBe('2024-03-02');
+        expect(resolve('{{nodes.nd_orders.createdAt | date_add:-2,"hours"}}')).toBe('2024-01-31T08:05:09.007Z');
+    });
+
+    it('diffs dates in whole units', () => {
+        expect(resolve('{{nodes.nd_orders.createdAt | date_diff:vars.due,"days"}}')).toBe(29);
+        expect(resolve('{{nodes.nd_orders.createdAt | date_diff:vars.due,"months"}}')).toBe(1);
+        expect(resolve('{{vars.due | date_diff:nodes.nd_orders.createdAt,"days"}}')).toBe(-29);
+    });
+
+    it('rounds and formats numbers', () => {
+        expect(resolve('{{vars.price | round:2}}')).toBe(1234.57);
+        expect(resolve('{{vars.price | round}}')).toBe(1235);
+        expect(resolve('{{vars.price | currency}}')).toBe('$1,234.57');
+        expect(resolve('{{vars.price | currency:"EUR","en-GB"}}')).toBe('€1,234.57');
+    });
+
+    it('transforms strings', () => {
+        expect(resolve('{{vars.csv | split:","}}')).toEqual(['a', 'b', '', 'c']);
+        expect(resolve('{{vars.csv | replace:",", ";"}}')).toBe('a;b;;c');
+        expect(resolve('{{vars.title | slugify}}')).toBe('hello-world');
+        expect(resolve('{{vars.title | base64}}')).toBe('SMOpbGxvLCBXw7ZybGQh');
+        expect(resolve('{{vars.title | base64 | base64_decode}}')).toBe('Héllo, Wörld!');
+        expect(resolve('{{vars.title | urlencode}}')).toBe('H%C3%A9llo%2C%20W%C3%B6rld!');
+        expect(resolve('{{vars.title | urlencode | urldecode}}')).toBe('Héllo, Wörld!');
+    });
+
+    it('maps, filters, sorts, dedupes and joins arrays', () => {
+        const orders = 'nodes.nd_orders.orders';
+        expect(resolve(`{{${orders} | map:"customer.name"}}`)).toEqual(['Cy', 'Ada', 'Ada']);
+        expect(resolve(`{{${orders} | filter:"status","open" | map:"id"}}`)).toEqual(['o3', 'o2']);
+        expect(resolve(`{{${orders} | sort:"total" | map:"id"}}`)).toEqual(['o1', 'o2', 'o3']);
+        expect(resolve(`{{${orders} | sort:"id","desc" | map:"id"}}`)).toEqual(['o3', 'o2', 'o1']);
+        expect(resolve(`{{${orders} | unique:"customer.name" | map:"id"}}`)).toEqual(['o3', 'o1']);
+        expect(resolve(`{{${orders} | map:"status" | unique | join:", "}}`)).toBe('open, closed');
+    });
+
+    it('hashes strings with sha256', () => {
+        expect(resolve('{{"" | sha256}}')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(resolve('{{"abc" | sha256}}')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(resolve(`{{"${'a'.repeat(100)}" | sha256}}`))
+            .toBe('2816597888e4a0d3a36b82b83316ab32680eb8f00f8cd3b904d681246d285a0e');
+    });
+
+    it('gives every standard transform a group and description', () => {
+        for (const transform of standardTransforms) {
+            expect(transform.group, transform.name).toBeTruthy();
+            expect(transform.description, transform.name).toBeTruthy();
+        }
+    });
+});
+
+describe('transform errors', () => {
+    const message = (expr: string) => {
+        try {
+            resolve(expr);
+        } catch (error) {
+            expect(error).toBeInstanceOf(ExpressionError);
+            return (error as Error).message;
+        }
+        throw new Error(`Expected "${expr}" to throw`);
+    };
+
+    it('reports unknown transforms', () => {
+        expect(message('{{vars.title | shout}}')).toBe('Unknown transform: shout at position 15');
+    });
+
+    it('checks argument count and types', () => {
+        expect(message('{{vars.csv | split}}')).toBe("Transform 'split' requires argument 'separator' at position 13");
+        expect(message('{{vars.price | round:"2"}}')).toBe("Transform 'round' argument 'digits' must be a number at position 15");
+        expect(message('{{vars.csv | join:",",1}}')).toBe("Transform 'join' expects at most 1 argument(s), got 2 at position 13");
+    });
+
+    it('rejects invalid input values', () => {
+        expect(message('{{vars.title | date_format}}')).toBe('Transform \'date_format\' expects a date, got "Héllo, Wörld!" at position 15');
+        expect(message('{{vars.title | map:"id"}}')).toBe("Transform 'map' expects an array at position 15");
+        expect(message('{{vars.due | date_add:1,"fortnights"}}')).toMatch(/^Unknown date unit "fortnights"/);
+    });
+});
+
+describe('TransformRegistry', () => {
+    const wrap = {
+        name: 'wrap',
+        description: 'Surround with a prefix and suffix',
+        args: [{ name: 'prefix', type: 'string' as const, required: true }, { name: 'suffix', type: 'string' as const }],
+        apply: (value: any, prefix: string, suffix = prefix) => `${prefix}${value}${suffix}`,
+    };
+
+    it('resolves with a custom registry without touching the default one', () => {
+        const registry = defaultTransformRegistry.clone().register(wrap);
+        expect(resolveValue('{{vars.csv | wrap:"[","]" | uppercase}}', context, { transforms: registry })).toBe('[A,B,,C]');
+        expect(defaultTransformRegistry.has('wrap')).toBe(false);
+        expect(() => resolve('{{vars.csv | wrap:"*"}}')).toThrow('Unknown transform: wrap');
+    });
+
+    it('rejects duplicate and invalid names unless replacing', () => {
+        const registry = new TransformRegistry([wrap]);
+        expect(() => registry.register(wrap)).toThrow('Transform already registered: wrap');
+        expect(() => registry.register({ ...wrap, name: 'wrap-it' })).toThrow('Invalid transform name: wrap-it');
+        registry.register({ ...wrap, apply: () => 'replaced' }, { replace: true });
+        expect(registry.apply('wrap', 'x', ['*'])).toBe('replaced');
+        expect(registry.unregister('wrap')).toBe(true);
+        expect(registry.list()).toEqual([]);
+    });
+});
@@ -0,0 +1,271 @@
+// app-registry.ts
+import type { Action, AppDefinition } from '@w6w/schema';
+import { compareVersions, isValidRange, parseVersion, satisfies, type SemVer } from './semver';
+import type { ActionResolver } from './suggestions';
+import type { Node, Workflow } from './types';
+
+/**
+ * App whose actions carry their runtime hooks (`execute`, `preProcess`, ...)
+ */
+export interface App extends Omit<AppDefinition, 'actions'> {
+    actions: Record<string, Action>;
+}
+
+/**
+ * One published version of a package: what a node's `package` and `version`
+ * fields point to
+ */
+export interface AppPackage {
+    /** Package name, matched against `node.package` */
+    name: string;
+    /** Exact semantic version, e.g. `1.4.0` */
+    version: string;
+    apps: App[];
+}
+
+/**
+ * App together with the package version that provides it
+ */
+export interface RegisteredApp {
+    package: string;
+    version: string;
+    app: App;
+}
+
+/**
+ * Action together with its app and the package version that provides it
+ */
+export interface RegisteredAction extends RegisteredApp {
+    action: Action;
+}
+
+export interface ListActionsOptions {
+    category?: Action['category'];
+    /** Include deprecated actions @default false */
+    includeDeprecated?: boolean;
+}
+
+export type ActionIssueCode =
+    | 'unknown-package'
+    | 'unknown-version'
+    | 'unknown-app'
+    | 'unknown-action'
+    | 'deprecated-action';
+
+export interface ActionIssue {
+    code: ActionIssueCode;
+    severity: 'error' | 'warning';
+    nodeId: string;
+    message: string;
+}
+
+interface RegisteredVersion {
+    semver: SemVer;
+    pkg: AppPackage;
+}
+
+/** Group used for actions that do not set `group` */
+export const UNGROUPED = 'other';
+
+/**
+ * In-memory registry of app packages, several versions per package.
+ *
+ * A node's `version` is a semver range (`1.2.0`, `^1.2`, `~1.4.1`, `*`); it
+ * resolves to the highest registered version that satisfies it. A node
+ * without `version` uses the latest release.
+ *
+ * @example
+ * const registry = new AppRegistry();
+ * registry.register({ name: 'slack', version: '1.2.0', apps: [slackApp] });
+ *
+ * const action = registry.resolveAction(node); // node.version: '^1.0'
+ * const issues = registry.findActionIssues(workflow);
+ */
+export class AppRegistry implements ActionResolver {
+    private readonly packages = new Map<string, RegisteredVersion[]>();
+
+    constructor(packages: AppPackage[] = []) {
+        for (const pkg of packages) {
+            this.register(pkg);
+        }
+    }
+
+    /**
+     * Add a package version. Registering an existing name and version throws
+     * unless `replace` is set.
+     */
+    register(pkg: AppPackage, options: { replace?: boolean } = {}): this {
+        const semver = parseVersion(pkg.version);
+        if (!semver) {
+            throw new Error(`Invalid version for package '${pkg.name}': ${pkg.version}`);
+        }
+        const versions = this.packages.get(pkg.name) ?? [];
+        const existing = versions.findIndex((entry) => compareVersions(entry.semver, semver) === 0);
+        if (existing >= 0 && !options.replace) {
+            throw new Error(`Package already registered: ${pkg.name}@${pkg.version}`);
+        }
+        if (existing >= 0) versions.splice(existing, 1);
+        versions.push({ semver, pkg });
+        // Newest first
+        versions.sort((a, b) => compareVersions(b.semver, a.semver));
+        this.packages.set(pkg.name, versions);
+        return this;
+    }
+
+    /**
+     * Remove one version of a package, or every version when `version` is
+     * omitted. Versions are compared as in `register`, so `v1.0.0` removes
+     * `1.0.0`.
+     *
+     * @throws {Error} if `version` is not a full semantic version
+     */
+    unregister(name: string, version?: string): boolean {
+        const semver = version === undefined ? undefined : parseVersion(version);
+        if (version !== undefined && !semver) {
+            throw new Error(`Invalid version for package '${name}': ${version}`);
+        }
+        const versions = this.packages.get(name);
+        if (!versions) return false;
+        if (!semver) return this.packages.delete(name);
+        const index = versions.findIndex((entry) => compareVersions(entry.semver, semver) === 0);
+        if (index < 0) return false;
+        versions.splice(index, 1);
+        if (versions.length === 0) this.packages.delete(name);
+        return true;
+    }
+
+    has(name: string): boolean {
+        return this.packages.has(name);
+    }
+
+    /**
+     * Registered versions of a package, newest first
+     */
+    versions(name: string): string[] {
+        return (this.packages.get(name) ?? []).map((entry) => entry.pkg.version);
+    }
+
+    /**
+     * Highest version of `name` satisfying `range`; the latest release when
+     * `range` is omitted
+     *
+     * @throws {Error} if `range` is not a valid semver range
+     */
+    getPackage(name: string, range = '*'): AppPackage | undefined {
+        return (this.packages.get(name) ?? []).find((entry) => satisfies(entry.semver, range))?.pkg;
+    }
+
+    getApp(packageName: string, appKey: string, range?: string): App | undefined {
+        return this.getPackage(packageName, range)?.apps.find((app) => app.key === appKey);
+    }
+
+    /**
+     * Resolve a node's `package`/`app`/`version`/`action` fields. Nodes with
+     * an invalid version range resolve to nothing.
+     */
+    resolve(node: Node): RegisteredAction | undefined {
+        if (!node.package || !node.app || !node.action) return undefined;
+        if (node.version && !isValidRange(node.version)) return undefined;
+        const pkg = this.getPackage(node.package, node.version || undefined);
+        const app = pkg?.apps.find((candidate) => candidate.key === node.app);
+        const action = app?.actions[node.action];
+        if (!pkg || !app || !action) return undefined;
+        return { package: pkg.name, version: pkg.version, app, action };
+    }
+
+    resolveAction(node: Node): Action | undefined {
+        return this.resolve(node)?.action;
+    }
+
+    /**
+     * Apps from the latest version of every package, sorted by display name
+     */
+    listApps(): RegisteredApp[] {
+        return this.latest()
+            .flatMap((pkg) => pkg.apps.map((app) => ({ package: pkg.name, version: pkg.version, app })))
+            .sort((a, b) => a.app.displayName.localeCompare(b.app.displayName));
+    }
+
+    /**
+     * Actions from the latest version of every package, in app order
+     */
+    listActions(options: ListActionsOptions = {}): RegisteredAction[] {
+        return this.listApps().flatMap(({ package: name, version, app }) =>
+            Object.values(app.actions)
+                .filter((action) => !options.category || action.category === options.category)
+                .filter((action) => options.includeDeprecated || !action.deprecated)
+                .map((action) => ({ package: name, version, app, action })));
+    }
+
+    /**
+     * Check every node that names an action. Missing packages, versions,
+     * apps and actions are errors; deprecated actions are warnings.
+     */
+    findActionIssues(workflow: Pick<Workflow, 'nodes'>): ActionIssue[] {
+        const issues: ActionIssue[] = [];
+
+        for (const node of workflow.nodes) {
+            if (!node.package || !node.app || !node.action) continue;
+            const report = (code: ActionIssueCode, message: string) =>
+                issues.push({ code, severity: code === 'deprecated-action' ? 'warning' : 'error', nodeId: node.id, message });
+
+            if (!this.packages.has(node.package)) {
+                report('unknown-package', `Package '${node.package}' is not registered`);
+                continue;
+            }
+            if (node.version && !isValidRange(node.version)) {
+                report('unknown-version', `Invalid version range '${node.version}' for package '${node.package}'`);
+                continue;
+            }
+            const pkg = this.getPackage(node.package, node.version || undefined);
+            if (!pkg) {
+                report('unknown-version', `No version of '${node.package}' matches '${node.version}'`);
+                continue;
+            }
+            const app = pkg.apps.find((candidate) => candidate.key === node.app);
+            if (!app) {
+                report('unknown-app', `App '${node.app}' not found in ${pkg.name}@${pkg.version}`);
+                continue;
+            }
+            const action = app.actions[node.action];
+            if (!action) {
+                report('unknown-action', `Action '${node.action}' not found in app '${app.key}' (${pkg.name}@${pkg.version})`);
+                continue;
+            }
+            if (action.deprecated) {
+                const note = typeof action.deprecated === 'string' ? `: ${action.deprecated}` : '';
+                report('deprecated-action', `Action '${node.action}' is deprecated${note}`);
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Latest release of each package; prerelease-only packages use their
+     * newest prerelease
+     */
+    private latest(): AppPackage[] {
+        return [...this.packages.values()].map((versions) =>
+            (versions.find((entry) => entry.semver.prerelease.length === 0) ?? versions[0] as RegisteredVersion).pkg);
+    }
+}
+
+/**
+ * Group listing entries by the action's `group` (actions without one go
+ * under `other`) or by `category`, keeping entry order
+ *
+ * @example
+ * const palette = groupActions(registry.listActions({ category: 'write' }), 'group');
+ * // { events: [...], tickets: [...], other: [...] }
+ */
+export function groupActions(entries: RegisteredAction[], by: 'group' | 'category'): Record<string, RegisteredAction[]> {
+    const groups: Record<string, RegisteredAction[]> = {};
+    for (const entry of entries) {
+        const key = by === 'group' ? entry.action.group ?? UNGROUPED : entry.action.category;
+        const group = groups[key] ?? [];
+        group.push(entry);
+        groups[key] = group;
+    }
+    return groups;
+}
@@ -0,0 +1,291 @@
+// cron.ts
+import type { Schedule } from '@w6w/schema';
+
+/**
+ * Parsed five-field cron expression; each field lists the values it matches,
+ * in ascending order
+ */
+export interface CronExpression {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: number[];
+    /** 1-12 */
+    months: number[];
+    /** 0-6, Sunday is 0 */
+    daysOfWeek: number[];
+    /**
+     * Whether the day-of-month and day-of-week fields are restricted (do not
+     * start with `*`). When both are, a day matching either one runs.
+     */
+    restrictsDayOfMonth: boolean;
+    restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Thrown by `parseCron` for an expression it cannot read
+ */
+export class CronError extends Error {
+    readonly expression: string;
+
+    constructor(message: string, expression: string) {
+        super(`${message} in cron expression "${expression}"`);
+        this.name = 'CronError';
+        this.expression = expression;
+    }
+}
+
+interface Field {
+    name: string;
+    min: number;
+    max: number;
+    /** Names accepted for values, from `min` up */
+    names?: readonly string[];
+}
+
+const MINUTE_FIELD: Field = { name: 'minute', min: 0, max: 59 };
+const HOUR_FIELD: Field = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH_FIELD: Field = { name: 'day of month', min: 1, max: 31 };
+const MONTH_FIELD: Field = {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+};
+const DAY_OF_WEEK_FIELD: Field = { name: 'day of week', min: 0, max: 6, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] };
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const MINUTE = 60_000;
+const DAY = 86_400_000;
+
+/** Years searched for a match before giving up; 8 covers Feb 29 across 2100 */
+const SEARCH_YEARS = 8;
+
+/**
+ * Parse a five-field cron expression: minute, hour, day of month, month and
+ * day of week. Fields take `*`, values, `a-b` ranges, `/n` steps and
+ * comma-separated lists; months and days of week also take their English
+ * three-letter names, and day of week 7 is Sunday. The macros `@yearly`,
+ * `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight` and `@hourly`
+ * stand for their usual expressions.
+ *
+ * @throws {CronError} if the expression is malformed or a value is out of range
+ *
+ * @example
+ * parseCron('0 9 * * MON-FRI'); // 09:00 on weekdays
+ * parseCron('30 8 1,15 * *');   // 08:30 on the 1st and 15th
+ */
+export function parseCron(expression: string): CronExpression {
+    const trimmed = expression.trim();
+    const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+    if (fields.length !== 5) {
+        throw new CronError(`Expected 5 fields but found ${trimmed ? fields.length : 0}`, expression);
+    }
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+    return {
+        minutes: parseField(minute, MINUTE_FIELD, expression),
+        hours: parseField(hour, HOUR_FIELD, expression),
+        daysOfMonth: parseField(dayOfMonth, DAY_OF_MONTH_FIELD, expression),
+        months: parseField(month, MONTH_FIELD, expression),
+        daysOfWeek: parseField(dayOfWeek, DAY_OF_WEEK_FIELD, expression),
+        restrictsDayOfMonth: !dayOfMonth.startsWith('*'),
+        restrictsDayOfWeek: !dayOfWeek.startsWith('*'),
+    };
+}
+
+function parseField(source: string, field: Field, expression: string): number[] {
+    const values = new Set<number>();
+    for (const part of source.split(',')) {
+        const [range = '', stepText, ...extra] = part.split('/');
+        if (extra.length > 0) {
+            throw new CronError(`Invalid ${field.name} "${part}"`, expression);
+        }
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!/^\d+$/.test(stepText ?? '1') || step < 1) {
+            throw new CronError(`Invalid ${field.name} step "${stepText}"`, expression);
+        }
+        let start = field.min;
+        let end = field.max;
+        if (range !== '*') {
+            const [from = '', to, ...rest] = range.split('-');
+            if (rest.length > 0) {
+                throw new CronError(`Invalid ${field.name} range "${range}"`, expression);
+            }
+            start = parseValue(from, field, expression);
+            // `a/n` steps from `a` to the end of the field
+            end = to !== undefined ? parseValue(to, field, expression) : stepText !== undefined ? field.max : start;
+            if (start > end) {
+                throw new CronError(`Invalid ${field.name} range "${range}"`, expression);
+            }
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(field === DAY_OF_WEEK_FIELD ? value % 7 : value);
+        }
+    }
+    return [...values].sort((a, b) => a - b);
+}
+
+function parseValue(text: string, field: Field, expression: string): number {
+    const named = field.names?.indexOf(text.toUpperCase()) ?? -1;
+    if (named !== -1) return field.min + named;
+    // Day of week 7 is Sunday, as in most cron implementations
+    const max = field === DAY_OF_WEEK_FIELD ? 7 : field.max;
+    const value = Number(text);
+    if (!/^\d+$/.test(text) || value < field.min || value > max) {
+        throw new CronError(`Invalid ${field.name} "${text}", expected ${field.min}-${max}`, expression);
+    }
+    return value;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.includes(date.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.includes(date.getUTCDay());
+    if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First wall-clock minute at or after `from` that `cron` matches. Wall-clock
+ * times are encoded as if they were UTC.
+ */
+function nextWallTime(cron: CronExpression, from: number): number | undefined {
+    let date = new Date(from);
+    const lastYear = date.getUTCFullYear() + SEARCH_YEARS;
+    while (date.getUTCFullYear() <= lastYear) {
+        const year = date.getUTCFullYear();
+        const month = date.getUTCMonth();
+        const day = date.getUTCDate();
+        const hour = date.getUTCHours();
+        if (!cron.months.includes(month + 1)) {
+            date = new Date(Date.UTC(year, month + 1, 1));
+            continue;
+        }
+        if (!matchesDay(cron, date)) {
+            date = new Date(Date.UTC(year, month, day + 1));
+            continue;
+        }
+        const minute = cron.hours.includes(hour) ? cron.minutes.find((m) => m >= date.getUTCMinutes()) : undefined;
+        if (minute === undefined) {
+            date = new Date(Date.UTC(year, month, day, hour + 1));
+            continue;
+        }
+        return Date.UTC(year, month, day, hour, minute);
+    }
+    return undefined;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time in `timezone` at `instant`, encoded as if it were UTC
+ */
+function wallClock(instant: number, timezone: string): number {
+    if (timezone === 'UTC') return instant;
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timezone, formatter);
+    }
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(instant)) {
+        parts[part.type] = part.value;
+    }
+    const { year, month, day, hour, minute, second } = parts;
+    const milliseconds = ((instant % 1000) + 1000) % 1000;
+    return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)) + milliseconds;
+}
+
+/**
+ * Instants at which the clock in `timezone` shows `wall`, in order: none in a
+ * gap when clocks go forward, two in the hour repeated when they go back
+ */
+function instantsAt(wall: number, timezone: string): number[] {
+    const offsets = new Set([wall - DAY, wall + DAY].map((instant) => wallClock(instant, timezone) - instant));
+    return [...offsets]
+        .map((offset) => wall - offset)
+        .filter((instant) => wallClock(instant, timezone) === wall)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * First time after `after` (Unix ms) that `cron` matches on the clock in
+ * `timezone`, or `undefined` if it never matches (e.g. `0 0 30 2 *`).
+ *
+ * Wall-clock times skipped when clocks go forward do not run. Times in an
+ * hour repeated when they go back run once, at their first occurrence after
+ * `after`.
+ *
+ * @throws {CronError} if `cron` is a string `parseCron` rejects
+ * @throws {RangeError} if `timezone` is not a known time zone
+ */
+export function nextCronTime(cron: CronExpression | string, after: number, timezone = 'UTC'): number | undefined {
+    const parsed = typeof cron === 'string' ? parseCron(cron) : cron;
+    let from = Math.floor(wallClock(after, timezone) / MINUTE) * MINUTE + MINUTE;
+    for (;;) {
+        const wall = nextWallTime(parsed, from);
+        if (wall === undefined) return undefined;
+        const instant = instantsAt(wall, timezone).find((candidate) => candidate > after);
+        if (instant !== undefined) return instant;
+        from = wall + MINUTE;
+    }
+}
+
+/**
+ * First run of `schedule` after `after` (Unix ms), or `undefined` once it
+ * has no more runs. An `interval` without `startAt` counts from `after`.
+ *
+ * @throws {CronError} if a `cron` schedule's expression is malformed
+ */
+export function nextScheduleTime(schedule: Schedule, after: number): number | undefined {
+    switch (schedule.kind) {
+        case 'cron':
+            return nextCronTime(schedule.expression, after, schedule.timezone);
+        case 'interval': {
+            const start = schedule.startAt ?? after + schedule.everyMs;
+            if (start > after) return start;
+            return start + (Math.floor((after - start) / schedule.everyMs) + 1) * schedule.everyMs;
+        }
+        case 'once':
+            return schedule.at > after ? schedule.at : undefined;
+    }
+}
+
+/**
+ * Up to `count` upcoming runs of `schedule` after `after` (Unix ms), in order
+ *
+ * @throws {CronError} if a `cron` schedule's expression is malformed
+ *
+ * @example
+ * nextScheduleTimes({ kind: 'cron', expression: '0 9 * * MON', timezone: 'Europe/Paris' }, Date.now(), 3);
+ */
+export function nextScheduleTimes(schedule: Schedule, after: number, count: number): number[] {
+    const cron = schedule.kind === 'cron' ? parseCron(schedule.expression) : undefined;
+    const times: number[] = [];
+    let from = after;
+    while (times.length < count) {
+        const next = schedule.kind === 'cron' && cron
+            ? nextCronTime(cron, from, schedule.timezone)
+            : nextScheduleTime(schedule, from);
+        if (next === undefined) break;
+        times.push(next);
+        from = next;
+    }
+    return times;
+}
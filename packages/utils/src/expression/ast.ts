@@ -0,0 +1,64 @@
+// ast.ts
+
+export type BinaryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+export type UnaryOperator = '!' | '-';
+
+export interface LiteralNode {
+    type: 'Literal';
+    value: string | number | boolean | null;
+    position: number;
+}
+
+export type PathSegment =
+    | { kind: 'property'; name: string; position: number }
+    | { kind: 'index'; expression: ExpressionNode; position: number };
+
+/**
+ * Reference into the resolution context, e.g. `nodes.nd_fetch.items[0].id`.
+ * `source` is the first identifier (`nodes`, `vars`, `input`, ...) and
+ * `position`/`end` span the whole reference in the original string.
+ */
+export interface PathNode {
+    type: 'Path';
+    source: string;
+    segments: PathSegment[];
+    position: number;
+    end: number;
+}
+
+export interface UnaryNode {
+    type: 'Unary';
+    operator: UnaryOperator;
+    argument: ExpressionNode;
+    position: number;
+}
+
+export interface BinaryNode {
+    type: 'Binary';
+    operator: BinaryOperator;
+    left: ExpressionNode;
+    right: ExpressionNode;
+    position: number;
+}
+
+/**
+ * `input | name:arg1, arg2`
+ */
+export interface PipeNode {
+    type: 'Pipe';
+    input: ExpressionNode;
+    name: string;
+    args: ExpressionNode[];
+    position: number;
+}
+
+export type ExpressionNode = LiteralNode | PathNode | UnaryNode | BinaryNode | PipeNode;
+
+/**
+ * A string split into literal text and `{{ }}` blocks.
+ * `start`/`end` cover the block including its braces.
+ */
+export type TemplatePart =
+    | { type: 'text'; value: string; start: number; end: number }
+    | { type: 'expression'; expression: ExpressionNode; source: string; start: number; end: number };
@@ -0,0 +1,20 @@
+// errors.ts
+
+/**
+ * Error raised while parsing or evaluating an expression.
+ *
+ * `position` is the zero-based character offset into the original source
+ * string (the whole template when parsing `"Hello {{ vars.name }}"`), so
+ * editors can point at the offending character.
+ */
+export class ExpressionError extends Error {
+    readonly position: number;
+    readonly source: string;
+
+    constructor(message: string, position: number, source: string) {
+        super(`${message} at position ${position}`);
+        this.name = 'ExpressionError';
+        this.position = position;
+        this.source = source;
+    }
+}
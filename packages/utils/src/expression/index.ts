@@ -0,0 +1,17 @@
+export { ExpressionError } from './errors';
+export { tokenize } from './lexer';
+export type { Token, TokenType } from './lexer';
+export { parseExpression, parseTemplate, isTemplate } from './parser';
+export { collectReferences, firstSegmentName } from './references';
+export type {
+    ExpressionNode,
+    LiteralNode,
+    PathNode,
+    PathSegment,
+    UnaryNode,
+    BinaryNode,
+    PipeNode,
+    BinaryOperator,
+    UnaryOperator,
+    TemplatePart,
+} from './ast';
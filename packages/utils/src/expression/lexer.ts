@@ -0,0 +1,106 @@
+// lexer.ts
+import { ExpressionError } from './errors';
+
+export type TokenType =
+    | 'number'
+    | 'string'
+    | 'identifier'
+    | 'operator'
+    | 'punctuation'
+    | 'eof';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+    /** Offset just past the token's last character */
+    end: number;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '-', '|'];
+const PUNCTUATION = ['.', ',', ':', '(', ')', '[', ']'];
+
+const ESCAPES: Record<string, string> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '\\': '\\',
+    '"': '"',
+    "'": "'",
+};
+
+/**
+ * Split `source.slice(start, end)` into tokens. Positions are offsets into
+ * `source` so errors can be reported against the full template.
+ */
+export function tokenize(source: string, start = 0, end = source.length): Token[] {
+    const tokens: Token[] = [];
+    let i = start;
+
+    while (i < end) {
+        const ch = source.charAt(i);
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9]/.test(ch)) {
+            const from = i;
+            while (i < end && /[0-9]/.test(source.charAt(i))) i++;
+            if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+                i++;
+                while (i < end && /[0-9]/.test(source.charAt(i))) i++;
+            }
+            tokens.push({ type: 'number', value: source.slice(from, i), position: from, end: i });
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(ch)) {
+            const from = i;
+            while (i < end && /[A-Za-z0-9_$]/.test(source.charAt(i))) i++;
+            tokens.push({ type: 'identifier', value: source.slice(from, i), position: from, end: i });
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            const from = i;
+            let value = '';
+            i++;
+            while (i < end && source[i] !== ch) {
+                if (source[i] === '\\' && i + 1 < end) {
+                    const next = source.charAt(i + 1);
+                    value += ESCAPES[next] ?? next;
+                    i += 2;
+                    continue;
+                }
+                value += source[i];
+                i++;
+            }
+            if (i >= end) {
+                throw new ExpressionError('Unterminated string literal', from, source);
+            }
+            i++;
+            tokens.push({ type: 'string', value, position: from, end: i });
+            continue;
+        }
+
+        const operator = OPERATORS.find((op) => source.startsWith(op, i) && i + op.length <= end);
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator, position: i, end: i + operator.length });
+            i += operator.length;
+            continue;
+        }
+
+        if (PUNCTUATION.includes(ch)) {
+            tokens.push({ type: 'punctuation', value: ch, position: i, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected character '${ch}'`, i, source);
+    }
+
+    tokens.push({ type: 'eof', value: '', position: end, end });
+    return tokens;
+}
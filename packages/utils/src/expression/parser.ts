@@ -0,0 +1,313 @@
+// parser.ts
+import type { BinaryOperator, ExpressionNode, PathSegment, TemplatePart } from './ast';
+import { ExpressionError } from './errors';
+import { tokenize, type Token } from './lexer';
+
+const OPEN = '{{';
+const CLOSE = '}}';
+/** Written before `{{` to keep it as text */
+const ESCAPE = '\\';
+
+/**
+ * Grammar (lowest precedence first):
+ *
+ *   pipe       := or ( '|' identifier ( ':' or ( ',' or )* )? )*
+ *   or         := and ( '||' and )*
+ *   and        := equality ( '&&' equality )*
+ *   equality   := comparison ( ( '==' | '!=' ) comparison )*
+ *   comparison := unary ( ( '<' | '<=' | '>' | '>=' ) unary )*
+ *   unary      := ( '!' | '-' ) unary | primary
+ *   primary    := number | string | true | false | null | path | '(' pipe ')'
+ *   path       := identifier ( '.' ( identifier | number ) | '[' pipe ']' )*
+ */
+class Parser {
+    private index = 0;
+
+    constructor(
+        private readonly tokens: Token[],
+        private readonly source: string,
+    ) { }
+
+    parse(): ExpressionNode {
+        const node = this.parsePipe();
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            throw this.error(`Unexpected token '${token.value}'`, token);
+        }
+        return node;
+    }
+
+    private parsePipe(): ExpressionNode {
+        let node = this.parseOr();
+        while (this.matchOperator('|')) {
+            const name = this.expect('identifier', 'Expected transform name after \'|\'');
+            const args: ExpressionNode[] = [];
+            if (this.matchPunctuation(':')) {
+                args.push(this.parseOr());
+                while (this.matchPunctuation(',')) {
+                    args.push(this.parseOr());
+                }
+            }
+            node = { type: 'Pipe', input: node, name: name.value, args, position: name.position };
+        }
+        return node;
+    }
+
+    private parseOr(): ExpressionNode {
+        return this.parseBinary(['||'], () => this.parseAnd());
+    }
+
+    private parseAnd(): ExpressionNode {
+        return this.parseBinary(['&&'], () => this.parseEquality());
+    }
+
+    private parseEquality(): ExpressionNode {
+        return this.parseBinary(['==', '!='], () => this.parseComparison());
+    }
+
+    private parseComparison(): ExpressionNode {
+        return this.parseBinary(['<', '<=', '>', '>='], () => this.parseUnary());
+    }
+
+    private parseBinary(operators: BinaryOperator[], next: () => ExpressionNode): ExpressionNode {
+        let left = next();
+        for (;;) {
+            const token = this.peek();
+            if (token.type !== 'operator' || !operators.includes(token.value as BinaryOperator)) {
+                return left;
+            }
+            this.index++;
+            const right = next();
+            left = {
+                type: 'Binary',
+                operator: token.value as BinaryOperator,
+                left,
+                right,
+                position: token.position,
+            };
+        }
+    }
+
+    private parseUnary(): ExpressionNode {
+        const token = this.peek();
+        if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+            this.index++;
+            return {
+                type: 'Unary',
+                operator: token.value,
+                argument: this.parseUnary(),
+                position: token.position,
+            };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+        switch (token.type) {
+            case 'number':
+                return { type: 'Literal', value: Number(token.value), position: token.position };
+            case 'string':
+                return { type: 'Literal', value: token.value, position: token.position };
+            case 'identifier':
+                if (token.value === 'true' || token.value === 'false') {
+                    return { type: 'Literal', value: token.value === 'true', position: token.position };
+                }
+                if (token.value === 'null') {
+                    return { type: 'Literal', value: null, position: token.position };
+                }
+                return this.parsePath(token);
+            case 'punctuation':
+                if (token.value === '(') {
+                    const node = this.parsePipe();
+                    this.expectPunctuation(')');
+                    return node;
+                }
+                break;
+            case 'eof':
+                throw this.error('Unexpected end of expression', token);
+        }
+        throw this.error(`Unexpected token '${token.value}'`, token);
+    }
+
+    private parsePath(root: Token): ExpressionNode {
+        const segments: PathSegment[] = [];
+        let end = root.end;
+        for (;;) {
+            if (this.matchPunctuation('.')) {
+                const token = this.next();
+                if (token.type !== 'identifier' && token.type !== 'number') {
+                    throw this.error('Expected property name after \'.\'', token);
+                }
+                segments.push({ kind: 'property', name: token.value, position: token.position });
+                end = token.end;
+                continue;
+            }
+            const bracket = this.peek();
+            if (bracket.type === 'punctuation' && bracket.value === '[') {
+                this.index++;
+                const expression = this.parsePipe();
+                end = this.peek().end;
+                this.expectPunctuation(']');
+                segments.push({ kind: 'index', expression, position: bracket.position });
+                continue;
+            }
+            return { type: 'Path', source: root.value, segments, position: root.position, end };
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index]!;
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index]!;
+        if (token.type !== 'eof') this.index++;
+        return token;
+    }
+
+    private matchOperator(value: string): boolean {
+        const token = this.peek();
+        if (token.type === 'operator' && token.value === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private matchPunctuation(value: string): boolean {
+        const token = this.peek();
+        if (token.type === 'punctuation' && token.value === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(type: Token['type'], message: string): Token {
+        const token = this.peek();
+        if (token.type !== type) {
+            throw this.error(message, token);
+        }
+        this.index++;
+        return token;
+    }
+
+    private expectPunctuation(value: string): void {
+        if (!this.matchPunctuation(value)) {
+            throw this.error(`Expected '${value}'`, this.peek());
+        }
+    }
+
+    private error(message: string, token: Token): ExpressionError {
+        return new ExpressionError(message, token.position, this.source);
+    }
+}
+
+/**
+ * Parse a bare expression such as `vars.count > 1 && input.ok`.
+ *
+ * `start`/`end` let callers parse a slice of a larger template while keeping
+ * error positions relative to the whole string.
+ */
+export function parseExpression(source: string, start = 0, end = source.length): ExpressionNode {
+    if (source.slice(start, end).trim() === '') {
+        throw new ExpressionError('Empty expression', start, source);
+    }
+    return new Parser(tokenize(source, start, end), source).parse();
+}
+
+/**
+ * Split a string into literal text and parsed `{{ }}` blocks.
+ *
+ * `\{{` stands for a literal `{{`, and a `{{` that no `}}` closes is kept
+ * as text, so prose such as `Use {{ to open a block` passes through. When a
+ * `{{` does not open a valid block but a later one does, as in
+ * `Use {{ to open {{vars.x}}`, the `}}` pairs with the later one.
+ */
+export function parseTemplate(source: string): TemplatePart[] {
+    const parts: TemplatePart[] = [];
+    let text = '';
+    let textStart = 0;
+    let cursor = 0;
+    const flush = (end: number) => {
+        if (end > textStart) parts.push({ type: 'text', value: text, start: textStart, end });
+        text = '';
+    };
+
+    while (cursor < source.length) {
+        const open = source.indexOf(OPEN, cursor);
+        if (open !== -1 && source[open - 1] === ESCAPE) {
+            text += source.slice(cursor, open - 1) + OPEN;
+            cursor = open + OPEN.length;
+            continue;
+        }
+        if (open === -1 || !source.includes(CLOSE, open + OPEN.length)) {
+            text += source.slice(cursor);
+            break;
+        }
+        const innerStart = open + OPEN.length;
+        const close = findClose(source, innerStart);
+        let expression: ExpressionNode;
+        try {
+            if (close === -1) {
+                throw new ExpressionError('Unclosed \'{{\'', open, source);
+            }
+            expression = parseExpression(source, innerStart, close);
+        } catch (error) {
+            // The block may start at a later `{{`, leaving this one as text
+            const reopen = source.indexOf(OPEN, innerStart);
+            if (reopen === -1 || (close !== -1 && reopen > close)) throw error;
+            text += source.slice(cursor, innerStart);
+            cursor = innerStart;
+            continue;
+        }
+        text += source.slice(cursor, open);
+        flush(open);
+        parts.push({
+            type: 'expression',
+            expression,
+            source: source.slice(innerStart, close).trim(),
+            start: open,
+            end: close + CLOSE.length,
+        });
+        cursor = close + CLOSE.length;
+        textStart = cursor;
+    }
+    flush(source.length);
+
+    return parts;
+}
+
+/**
+ * Check whether a string contains a `{{ }}` block, or an escaped `\{{`
+ * that resolution turns into text.
+ */
+export function isTemplate(value: string): boolean {
+    const open = value.indexOf(OPEN);
+    return open !== -1 && (value.includes(CLOSE, open + OPEN.length) || value.includes(ESCAPE + OPEN));
+}
+
+/**
+ * Find the `}}` that closes a block, skipping over string literals so
+ * `{{ vars.x | default:"}}" }}` works.
+ */
+function findClose(source: string, from: number): number {
+    let quote: string | null = null;
+    for (let i = from; i < source.length; i++) {
+        const ch = source[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            quote = ch;
+            continue;
+        }
+        if (source.startsWith(CLOSE, i)) {
+            return i;
+        }
+    }
+    return -1;
+}
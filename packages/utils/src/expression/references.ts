@@ -0,0 +1,47 @@
+// references.ts
+import type { ExpressionNode, PathNode } from './ast';
+
+/**
+ * Collect every context reference (`nodes.x.y`, `vars.z`, ...) in an
+ * expression, including those used as index keys and transform arguments.
+ */
+export function collectReferences(node: ExpressionNode): PathNode[] {
+    const references: PathNode[] = [];
+    visit(node, references);
+    return references;
+}
+
+function visit(node: ExpressionNode, references: PathNode[]): void {
+    switch (node.type) {
+        case 'Literal':
+            return;
+        case 'Path':
+            references.push(node);
+            for (const segment of node.segments) {
+                if (segment.kind === 'index') visit(segment.expression, references);
+            }
+            return;
+        case 'Unary':
+            visit(node.argument, references);
+            return;
+        case 'Binary':
+            visit(node.left, references);
+            visit(node.right, references);
+            return;
+        case 'Pipe':
+            visit(node.input, references);
+            for (const arg of node.args) {
+                visit(arg, references);
+            }
+            return;
+    }
+}
+
+/**
+ * First static property name after the source, e.g. `nd_fetch` for
+ * `nodes.nd_fetch.items` or `apiKey` for `credentials.apiKey`.
+ */
+export function firstSegmentName(path: PathNode): string | undefined {
+    const [first] = path.segments;
+    return first?.kind === 'property' ? first.name : undefined;
+}
@@ -0,0 +1,71 @@
+// graph.ts
+import { LOOP_PORTS, type Edge } from '@w6w/schema';
+
+/**
+ * Split an edge endpoint into node id and optional port handle.
+ *
+ * @example parseEndpoint('nd_fetch:out1') // { nodeId: 'nd_fetch', port: 'out1' }
+ * @example parseEndpoint('nd_fetch')      // { nodeId: 'nd_fetch' }
+ */
+export function parseEndpoint(endpoint: string): { nodeId: string; port?: string } {
+    const colon = endpoint.indexOf(':');
+    if (colon === -1) {
+        return { nodeId: endpoint };
+    }
+    return { nodeId: endpoint.slice(0, colon), port: endpoint.slice(colon + 1) };
+}
+
+/**
+ * All node ids from which `nodeId` can be reached by following edges,
+ * i.e. every node whose output may be available when `nodeId` runs.
+ */
+export function getUpstreamNodeIds(edges: Edge[], nodeId: string): Set<string> {
+    const incoming = new Map<string, string[]>();
+    for (const edge of edges) {
+        const source = parseEndpoint(edge.source).nodeId;
+        const target = parseEndpoint(edge.target).nodeId;
+        const list = incoming.get(target) ?? [];
+        list.push(source);
+        incoming.set(target, list);
+    }
+
+    const upstream = new Set<string>();
+    const queue = [...(incoming.get(nodeId) ?? [])];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (upstream.has(current)) continue;
+        upstream.add(current);
+        queue.push(...(incoming.get(current) ?? []));
+    }
+    return upstream;
+}
+
+/**
+ * Nodes in the body of loop `loopNodeId`: everything reachable from its
+ * `body` port without passing back through the loop node. Includes the
+ * bodies of nested loops.
+ */
+export function getLoopBodyNodeIds(edges: Edge[], loopNodeId: string): Set<string> {
+    const outgoing = new Map<string, string[]>();
+    const queue: string[] = [];
+    for (const edge of edges) {
+        const source = parseEndpoint(edge.source);
+        const target = parseEndpoint(edge.target).nodeId;
+        if (source.nodeId === loopNodeId) {
+            if (source.port === LOOP_PORTS.body) queue.push(target);
+            continue;
+        }
+        const list = outgoing.get(source.nodeId) ?? [];
+        list.push(target);
+        outgoing.set(source.nodeId, list);
+    }
+
+    const body = new Set<string>();
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === loopNodeId || body.has(current)) continue;
+        body.add(current);
+        queue.push(...(outgoing.get(current) ?? []));
+    }
+    return body;
+}
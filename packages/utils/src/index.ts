@@ -0,0 +1,88 @@
+// Workflow types
+export type { Workflow, Node, NodeType, NodeRetryPolicy, Variable } from './types';
+
+// Expression resolution
+export { resolveValue, evaluateExpression, resolveConfig } from './resolution';
+export type { ResolutionContext, ResolvedConfig, ResolveOptions, UnresolvedReference } from './resolution';
+
+// Secret tracking and redaction
+export {
+    SecretTracker,
+    REDACTED,
+    redactLogEntry,
+    redactNodeExecutionState,
+    ExecutionLogWriter,
+} from './secrets';
+
+// Execution replay
+export { ExecutionReplay } from './replay';
+export type { ReplayFrame, ReplayIssue, ReplayIssueCode } from './replay';
+
+// Static reference analysis
+export { analyzeReferences } from './reference-analysis';
+export type {
+    ReferenceDiagnostic,
+    ReferenceDiagnosticCode,
+    ReferenceAnalysisOptions,
+} from './reference-analysis';
+
+// Autocomplete
+export { getExpressionSuggestions } from './suggestions';
+export type { ActionResolver, ExpressionSuggestion, SuggestionKind } from './suggestions';
+
+// App registry
+export { AppRegistry, groupActions, UNGROUPED } from './app-registry';
+export type {
+    App,
+    AppPackage,
+    RegisteredApp,
+    RegisteredAction,
+    ListActionsOptions,
+    ActionIssue,
+    ActionIssueCode,
+} from './app-registry';
+
+// Cron expressions and schedules
+export { CronError, parseCron, nextCronTime, nextScheduleTime, nextScheduleTimes } from './cron';
+export type { CronExpression } from './cron';
+
+// Semantic versions
+export { parseVersion, compareVersions, satisfies, maxSatisfying, isValidRange } from './semver';
+export type { SemVer } from './semver';
+
+// Transforms
+export {
+    TransformRegistry,
+    defaultTransformRegistry,
+    standardTransforms,
+    registerTransform,
+    applyTransform,
+} from './transforms';
+export type { TransformDefinition, TransformArgument, TransformArgumentType } from './transforms';
+
+// Graph helpers
+export { parseEndpoint, getUpstreamNodeIds, getLoopBodyNodeIds } from './graph';
+
+// Expression syntax
+export {
+    ExpressionError,
+    parseExpression,
+    parseTemplate,
+    isTemplate,
+    tokenize,
+    collectReferences,
+} from './expression';
+export type {
+    ExpressionNode,
+    LiteralNode,
+    PathNode,
+    PathSegment,
+    UnaryNode,
+    BinaryNode,
+    PipeNode,
+    BinaryOperator,
+    UnaryOperator,
+    TemplatePart,
+    Token,
+    TokenType,
+} from './expression';
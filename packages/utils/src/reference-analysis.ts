@@ -0,0 +1,153 @@
+// reference-analysis.ts
+import type { Connection } from '@w6w/schema';
+import type { PathNode } from './expression/ast';
+import { ExpressionError } from './expression/errors';
+import { isTemplate, parseTemplate } from './expression/parser';
+import { collectReferences, firstSegmentName } from './expression/references';
+import { getUpstreamNodeIds } from './graph';
+import type { Node, Workflow } from './types';
+
+export type ReferenceDiagnosticCode =
+    | 'invalid-expression'
+    | 'unknown-node'
+    | 'not-upstream'
+    | 'undeclared-variable'
+    | 'missing-connection'
+    | 'unknown-credential';
+
+export interface ReferenceDiagnostic {
+    code: ReferenceDiagnosticCode;
+    severity: 'error' | 'warning';
+    /** Node whose config contains the reference */
+    nodeId: string;
+    /** Location inside the node config, e.g. `headers.Authorization` */
+    path: string;
+    /** Source text of the reference, e.g. `nodes.nd_fetch.items` */
+    reference?: string;
+    /** Offset of the problem inside the config string */
+    position?: number;
+    message: string;
+}
+
+export interface ReferenceAnalysisOptions {
+    /**
+     * Known connections, used to check `{{credentials.*}}` fields against the
+     * connection referenced by each node's `authenticationId`. When omitted,
+     * only the presence of `authenticationId` is checked.
+     */
+    connections?: Connection[];
+}
+
+/**
+ * Statically check every `{{ }}` reference in every node's `config`.
+ *
+ * Reports references to nodes that do not exist or are not upstream along
+ * `edges`, to `vars` not declared on the workflow, and to credentials the
+ * node's connection cannot provide. Nothing is evaluated.
+ *
+ * @example
+ * const diagnostics = analyzeReferences(workflow, { connections });
+ * const errors = diagnostics.filter((d) => d.severity === 'error');
+ */
+export function analyzeReferences(
+    workflow: Workflow,
+    options: ReferenceAnalysisOptions = {},
+): ReferenceDiagnostic[] {
+    const nodes = workflow.nodes;
+    const nodeIds = new Set(nodes.map((node) => node.id));
+    const declaredVars = new Set(Object.keys(workflow.vars ?? {}));
+    const connections = options.connections
+        ? new Map(options.connections.map((connection) => [connection.id, connection]))
+        : undefined;
+    const diagnostics: ReferenceDiagnostic[] = [];
+
+    for (const node of nodes) {
+        const upstream = getUpstreamNodeIds(workflow.edges, node.id);
+        const report = (diagnostic: Omit<ReferenceDiagnostic, 'nodeId'>) =>
+            diagnostics.push({ nodeId: node.id, ...diagnostic });
+
+        forEachString(node.config ?? {}, '', (path, value) => {
+            if (!isTemplate(value)) return;
+
+            let references: PathNode[];
+            try {
+                references = parseTemplate(value).flatMap((part) =>
+                    part.type === 'expression' ? collectReferences(part.expression) : []);
+            } catch (error) {
+                if (!(error instanceof ExpressionError)) throw error;
+                report({
+                    code: 'invalid-expression',
+                    severity: 'error',
+                    path,
+                    position: error.position,
+                    message: error.message,
+                });
+                return;
+            }
+
+            for (const ref of references) {
+                const reference = value.slice(ref.position, ref.end);
+                const key = firstSegmentName(ref);
+                const base = { path, reference, position: ref.position };
+
+                switch (ref.source) {
+                    case 'nodes':
+                        if (!key) break;
+                        if (!nodeIds.has(key)) {
+                            report({ ...base, code: 'unknown-node', severity: 'error', message: `Node '${key}' does not exist` });
+                        } else if (!upstream.has(key)) {
+                            report({ ...base, code: 'not-upstream', severity: 'error', message: `Node '${key}' is not upstream of '${node.id}'` });
+                        }
+                        break;
+                    case 'vars':
+                        if (key && !declaredVars.has(key)) {
+                            report({ ...base, code: 'undeclared-variable', severity: 'warning', message: `Variable '${key}' is not declared on the workflow` });
+                        }
+                        break;
+                    case 'credentials':
+                        checkCredential(node, key, connections, (code, message) =>
+                            report({ ...base, code, severity: 'error', message }));
+                        break;
+                }
+            }
+        });
+    }
+
+    return diagnostics;
+}
+
+function checkCredential(
+    node: Node,
+    key: string | undefined,
+    connections: Map<string, Connection> | undefined,
+    report: (code: ReferenceDiagnosticCode, message: string) => void,
+): void {
+    if (!node.authenticationId) {
+        report('missing-connection', `Node '${node.id}' references credentials but has no authenticationId`);
+        return;
+    }
+    if (!connections) return;
+
+    const connection = connections.get(node.authenticationId);
+    if (!connection) {
+        report('missing-connection', `Connection '${node.authenticationId}' does not exist`);
+        return;
+    }
+    if (key && !(key in connection)) {
+        report('unknown-credential', `Connection '${connection.id}' (${connection.type}) does not provide '${key}'`);
+    }
+}
+
+function forEachString(value: unknown, path: string, callback: (path: string, value: string) => void): void {
+    if (typeof value === 'string') {
+        callback(path, value);
+    } else if (Array.isArray(value)) {
+        value.forEach((item, index) => {
+            forEachString(item, `${path}[${index}]`, callback);
+        });
+    } else if (typeof value === 'object' && value !== null) {
+        for (const [key, item] of Object.entries(value)) {
+            forEachString(item, path ? `${path}.${key}` : key, callback);
+        }
+    }
+}
@@ -0,0 +1,233 @@
+// replay.ts
+import {
+    canTransition,
+    executionStateMachine,
+    isTerminalState,
+    nodeStateMachine,
+    type ExecutionRecord,
+    type ExecutionStatus,
+    type NodeError,
+    type NodeExecutionState,
+    type NodeExecutionStatus,
+    type StateMachine,
+    type StateTransition,
+} from '@w6w/schema';
+
+export type ReplayIssueCode =
+    | 'WRONG_EXECUTION'
+    | 'OUT_OF_ORDER'
+    | 'ILLEGAL_TRANSITION'
+    | 'STATE_MISMATCH'
+    | 'UNKNOWN_NODE_STATE'
+    | 'FINAL_STATE_MISMATCH';
+
+export interface ReplayIssue {
+    code: ReplayIssueCode;
+    message: string;
+    /** Index of the offending transition; absent when a final status disagrees */
+    index?: number;
+    nodeId?: string;
+}
+
+/**
+ * Execution state after the first `step` transitions
+ */
+export interface ReplayFrame {
+    step: number;
+    /** Time of the last transition applied, or the execution start */
+    timestamp: number;
+    status: ExecutionStatus;
+    /** States that exist at this point: top-level nodes, and loop body nodes once they moved */
+    nodeStates: NodeExecutionState[];
+    /** Last transition applied */
+    transition?: StateTransition;
+}
+
+/** Replayed progress of one node state */
+interface Progress {
+    status: string;
+    moved: boolean;
+    attempt: number;
+    waited: boolean;
+    error?: NodeError;
+}
+
+/**
+ * Rebuilds an execution's state at any step or timestamp from its ordered
+ * transitions, checking them against `executionStateMachine` and
+ * `nodeStateMachine`.
+ *
+ * Node transitions are matched to node states by `nodeId` and, inside loops,
+ * by the `loopContext` in their `data`. Outputs, errors and timings come from
+ * the final node states and show once a node reaches its final status; the
+ * attempt and the error of a queued retry come from the transitions.
+ * Transitions that break the state machine are reported in `issues` and still
+ * applied, so a broken history can be inspected.
+ *
+ * @example
+ * const replay = new ExecutionReplay(record, transitions, nodeStates);
+ * if (!replay.valid) console.warn(replay.issues);
+ * const { status, nodeStates } = replay.at(record.startedAt + 1500);
+ */
+export class ExecutionReplay {
+    readonly issues: ReplayIssue[] = [];
+    /** Node state index each transition applies to, for node transitions */
+    private readonly targets: Array<number | undefined> = [];
+
+    constructor(
+        private readonly record: Pick<ExecutionRecord, 'executionId' | 'status' | 'startedAt'>,
+        private readonly transitions: StateTransition[],
+        private readonly nodeStates: NodeExecutionState[],
+    ) {
+        const statuses: string[] = nodeStates.map(() => nodeStateMachine.initial);
+        let status: string = executionStateMachine.initial;
+        transitions.forEach((transition, index) => {
+            const previous = transitions[index - 1];
+            if (transition.executionId !== record.executionId) {
+                this.report('WRONG_EXECUTION', `Transition belongs to execution ${transition.executionId}`, index, transition);
+            }
+            if (previous && (transition.timestamp < previous.timestamp || (transition.id ?? Infinity) <= (previous.id ?? -Infinity))) {
+                this.report('OUT_OF_ORDER', `Transition comes before the one preceding it`, index, transition);
+            }
+            if (transition.scope === 'execution') {
+                this.check(executionStateMachine, status, transition, index);
+                status = transition.toState;
+                return;
+            }
+            const target = this.match(transition, statuses);
+            this.targets[index] = target;
+            if (target === undefined) {
+                this.report('UNKNOWN_NODE_STATE', `No state of node ${transition.nodeId} matches the transition`, index, transition);
+                return;
+            }
+            this.check(nodeStateMachine, statuses[target] as string, transition, index);
+            statuses[target] = transition.toState;
+        });
+
+        if (status !== record.status) {
+            this.issues.push({ code: 'FINAL_STATE_MISMATCH', message: `Execution replays to ${status}, but the record says ${record.status}` });
+        }
+        nodeStates.forEach((state, i) => {
+            if (statuses[i] !== state.status) {
+                this.issues.push({
+                    code: 'FINAL_STATE_MISMATCH',
+                    message: `Node ${state.nodeId} replays to ${statuses[i]}, but its state says ${state.status}`,
+                    nodeId: state.nodeId,
+                });
+            }
+        });
+    }
+
+    /** Whether the transitions follow the state machine and end in the recorded statuses */
+    get valid(): boolean {
+        return this.issues.length === 0;
+    }
+
+    /** Number of transitions; frames go from step 0 to this */
+    get length(): number {
+        return this.transitions.length;
+    }
+
+    /**
+     * State after the first `step` transitions, clamped to the history
+     */
+    frame(step: number): ReplayFrame {
+        const last = Math.max(0, Math.min(Math.floor(step), this.transitions.length));
+        const progress: Progress[] = this.nodeStates.map(() => ({ status: nodeStateMachine.initial, moved: false, attempt: 1, waited: false }));
+        let status: string = executionStateMachine.initial;
+        for (let index = 0; index < last; index++) {
+            const transition = this.transitions[index] as StateTransition;
+            if (transition.scope === 'execution') {
+                status = transition.toState;
+                continue;
+            }
+            const target = this.targets[index];
+            if (target === undefined) continue;
+            const node = progress[target] as Progress;
+            if (node.status === 'queued' && transition.toState === 'running') node.attempt++;
+            if (transition.toState === 'queued') node.error = retriedError(transition);
+            if (transition.toState === 'waiting') node.waited = true;
+            node.status = transition.toState;
+            node.moved = true;
+        }
+
+        const transition = this.transitions[last - 1];
+        return {
+            step: last,
+            timestamp: transition?.timestamp ?? this.record.startedAt,
+            status: status as ExecutionStatus,
+            nodeStates: this.nodeStates.flatMap((state, i) => {
+                const node = progress[i] as Progress;
+                return state.loopContext && !node.moved ? [] : [nodeStateAt(state, node)];
+            }),
+            transition,
+        };
+    }
+
+    /**
+     * State as of `timestamp`, after every transition up to and including it
+     */
+    at(timestamp: number): ReplayFrame {
+        const next = this.transitions.findIndex((transition) => transition.timestamp > timestamp);
+        return this.frame(next === -1 ? this.transitions.length : next);
+    }
+
+    /**
+     * Index of the state `transition` moves: the first one with its node and
+     * loop iteration in `fromState`, or else the first with them at all
+     */
+    private match(transition: StateTransition, statuses: string[]): number | undefined {
+        const loop = (transition.data as { loopContext?: NodeExecutionState['loopContext'] } | undefined)?.loopContext;
+        const candidates = this.nodeStates.flatMap((state, i) =>
+            state.nodeId === transition.nodeId &&
+            state.loopContext?.loopNodeId === loop?.loopNodeId &&
+            state.loopContext?.iterationIndex === loop?.iterationIndex
+                ? [i]
+                : [],
+        );
+        return candidates.find((i) => statuses[i] === transition.fromState) ?? candidates[0];
+    }
+
+    private check(machine: StateMachine<string>, current: string, transition: StateTransition, index: number): void {
+        const subject = transition.nodeId ? `Node ${transition.nodeId}` : 'Execution';
+        if (transition.fromState !== current) {
+            this.report('STATE_MISMATCH', `${subject} moves from ${transition.fromState}, but is ${current}`, index, transition);
+        }
+        if (!canTransition(machine, transition.fromState, transition.toState)) {
+            this.report('ILLEGAL_TRANSITION', `${subject} cannot move from ${transition.fromState} to ${transition.toState}`, index, transition);
+        }
+    }
+
+    private report(code: ReplayIssueCode, message: string, index: number, transition: StateTransition): void {
+        this.issues.push({ code, message, index, nodeId: transition.nodeId });
+    }
+}
+
+/**
+ * A node state as it stood with `progress`: timings and results of the final
+ * state show only once the node reached that final status
+ */
+function nodeStateAt(state: NodeExecutionState, progress: Progress): NodeExecutionState {
+    const { id, executionId, nodeId, maxAttempts, loopContext } = state;
+    const status = progress.status as NodeExecutionStatus;
+    if (status === state.status && isTerminalState(nodeStateMachine, status)) return state;
+    return {
+        id,
+        executionId,
+        nodeId,
+        status,
+        attempt: progress.attempt,
+        maxAttempts,
+        loopContext,
+        startedAt: status === 'pending' ? undefined : state.startedAt,
+        childExecutionId: status === 'pending' ? undefined : state.childExecutionId,
+        resumeToken: progress.waited ? state.resumeToken : undefined,
+        error: status === 'queued' ? progress.error : undefined,
+    };
+}
+
+/** Error of the attempt a `queued` transition retries, from its data */
+function retriedError(transition: StateTransition): NodeError | undefined {
+    const error = (transition.data as { error?: { message: string; code?: string } } | undefined)?.error;
+    return error && { message: error.message, code: error.code, retryable: true };
+}
@@ -1,4 +1,9 @@
 // resolution.ts
+import type { ExpressionNode, PathNode, PathSegment } from './expression/ast';
+import { ExpressionError } from './expression/errors';
+import { isTemplate, parseExpression, parseTemplate } from './expression/parser';
+import type { SecretTracker } from './secrets';
+import { defaultTransformRegistry, type TransformRegistry } from './transforms';
 
 export interface ResolutionContext {
     nodes: Record<string, {
@@ -15,76 +20,293 @@ export interface ResolutionContext {
         timestamp: number;
         environment: 'development' | 'production';
     };
+    /** Current iteration when the node runs inside a loop body */
+    loop?: {
+        item: unknown;
+        /** Zero-based iteration index */
+        index: number;
+        /** `iterationKey` of the current item, if the loop sets `itemKey` */
+        key?: string;
+        total: number;
+    };
+}
+
+/**
+ * A `{{ }}` reference that resolved to nothing, e.g. an upstream node that has
+ * not produced output yet.
+ */
+export interface UnresolvedReference {
+    /** Location of the value inside the config, e.g. `headers.Authorization` or `items[2]` */
+    path: string;
+    /** Source text of the reference, e.g. `nodes.nd_fetch.items[0].id` */
+    reference: string;
+}
+
+export interface ResolvedConfig<T> {
+    config: T;
+    unresolved: UnresolvedReference[];
+    /** Config paths whose value was derived from a secret (needs `secrets` option) */
+    secretPaths: string[];
+}
+
+export interface ResolveOptions {
+    /** Transforms available to `|` pipes; defaults to `defaultTransformRegistry` */
+    transforms?: TransformRegistry;
+    /** Records values read from `credentials` and secret `vars` for redaction */
+    secrets?: SecretTracker;
+}
+
+interface EvaluationState {
+    source: string;
+    transforms: TransformRegistry;
+    secrets?: SecretTracker;
+    /** Whether the current block read a secret */
+    tainted: boolean;
+    /** Path references that evaluated to `undefined` in the current block */
+    missing: string[];
+}
+
+/**
+ * Resolve a string that may contain `{{ }}` expressions.
+ *
+ * - No `{{` at all: the string is returned unchanged.
+ * - A single block spanning the whole string (`"{{nodes.a.items}}"`): the raw
+ *   value is returned, keeping its type.
+ * - Blocks mixed with text (`"Hi {{vars.name | uppercase}}!"`): each block is
+ *   stringified and interpolated.
+ *
+ * Pass `secrets` to record values read from `credentials` or secret `vars` so
+ * they can be redacted from logs and execution records.
+ *
+ * @throws {ExpressionError} on syntax errors, unknown sources or failing transforms
+ */
+export function resolveValue(expr: string, context: ResolutionContext, options: ResolveOptions = {}): any {
+    return resolveString(expr, context, options);
+}
+
+/**
+ * Evaluate a bare expression (no surrounding braces), e.g. a condition like
+ * `nodes.nd_check.status == "ok" && vars.enabled`.
+ */
+export function evaluateExpression(expr: string, context: ResolutionContext, options: ResolveOptions = {}): any {
+    const state = createState(expr, options);
+    const value = evaluate(parseExpression(expr), context, state);
+    if (state.tainted) options.secrets?.track(value);
+    return value;
+}
+
+/**
+ * Recursively resolve every string in a node's `config` (objects, arrays and
+ * nested templates). Non-string leaves are copied as-is.
+ *
+ * A block whose value ends up `undefined` is reported in `unresolved` together
+ * with the references that caused it; blocks rescued by `| default` or `||`
+ * are not reported. With the `secrets` option, paths whose value was derived
+ * from a secret are listed in `secretPaths`.
+ *
+ * @example
+ * const { config, unresolved } = resolveConfig(
+ *     { url: 'https://api.test/{{config.org_id}}', headers: { Authorization: 'Bearer {{credentials.token}}' } },
+ *     context,
+ * );
+ */
+export function resolveConfig<T>(
+    config: T,
+    context: ResolutionContext,
+    options: ResolveOptions = {},
+): ResolvedConfig<T> {
+    const unresolved: UnresolvedReference[] = [];
+    const secretPaths: string[] = [];
+    const resolved = walk(config, context, options, '', {
+        onUnresolved: (path, reference) => unresolved.push({ path, reference }),
+        onSecret: (path) => secretPaths.push(path),
+    });
+    return { config: resolved as T, unresolved, secretPaths };
 }
 
-export function resolveValue(expr: string, context: ResolutionContext): any {
-    // Not a variable reference
-    if (!expr.startsWith('{{') || !expr.endsWith('}}')) {
+function walk(
+    value: unknown,
+    context: ResolutionContext,
+    options: ResolveOptions,
+    path: string,
+    hooks: {
+        onUnresolved: (path: string, reference: string) => void;
+        onSecret: (path: string) => void;
+    },
+): unknown {
+    if (typeof value === 'string') {
+        return resolveString(value, context, options, {
+            onUnresolved: (reference) => hooks.onUnresolved(path, reference),
+            onSecret: () => hooks.onSecret(path),
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => walk(item, context, options, `${path}[${index}]`, hooks));
+    }
+    if (isPlainObject(value)) {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = walk(item, context, options, path ? `${path}.${key}` : key, hooks);
+        }
+        return result;
+    }
+    return value;
+}
+
+function resolveString(
+    expr: string,
+    context: ResolutionContext,
+    options: ResolveOptions,
+    hooks: {
+        onUnresolved?: (reference: string) => void;
+        onSecret?: () => void;
+    } = {},
+): any {
+    if (!isTemplate(expr)) {
         return expr;
     }
 
-    // Parse: {{source.path | transform}}
-    const inner = expr.slice(2, -2).trim();
-    const parts = inner.split('|').map(s => s.trim());
-    const path = parts[0];
-    if (!path) {
-        throw new Error('Empty variable reference');
+    let tainted = false;
+    const resolveBlock = (expression: ExpressionNode) => {
+        const state = createState(expr, options);
+        const value = evaluate(expression, context, state);
+        if (value === undefined && hooks.onUnresolved) {
+            state.missing.forEach(hooks.onUnresolved);
+        }
+        if (state.tainted) {
+            options.secrets?.track(value);
+            tainted = true;
+        }
+        return value;
+    };
+
+    const parts = parseTemplate(expr);
+    const [only] = parts;
+    const result = parts.length === 1 && only?.type === 'expression'
+        ? resolveBlock(only.expression)
+        : parts.map((part) => part.type === 'text' ? part.value : stringify(resolveBlock(part.expression))).join('');
+    if (tainted) hooks.onSecret?.();
+    return result;
+}
+
+function createState(source: string, options: ResolveOptions): EvaluationState {
+    return {
+        source,
+        transforms: options.transforms ?? defaultTransformRegistry,
+        secrets: options.secrets,
+        tainted: false,
+        missing: [],
+    };
+}
+
+function evaluate(node: ExpressionNode, context: ResolutionContext, state: EvaluationState): any {
+    switch (node.type) {
+        case 'Literal':
+            return node.value;
+
+        case 'Path': {
+            const [base, segments] = resolveSource(node, context, state.source);
+            const value = segments.reduce((acc, segment) => {
+                const key = segment.kind === 'property'
+                    ? segment.name
+                    : evaluate(segment.expression, context, state);
+                return acc?.[key];
+            }, base);
+            if (value === undefined) {
+                state.missing.push(state.source.slice(node.position, node.end));
+            }
+            if (state.secrets && isSecretReference(node, state.secrets)) {
+                state.secrets.track(value);
+                state.tainted = true;
+            }
+            return value;
+        }
+
+        case 'Unary': {
+            const value = evaluate(node.argument, context, state);
+            return node.operator === '!' ? !value : -value;
+        }
+
+        case 'Binary': {
+            const left = evaluate(node.left, context, state);
+            switch (node.operator) {
+                case '&&': return left && evaluate(node.right, context, state);
+                case '||': return left || evaluate(node.right, context, state);
+            }
+            const right = evaluate(node.right, context, state);
+            switch (node.operator) {
+                case '==': return left === right;
+                case '!=': return left !== right;
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                case '>=': return left >= right;
+            }
+            return undefined;
+        }
+
+        case 'Pipe': {
+            const value = evaluate(node.input, context, state);
+            const args = node.args.map((arg) => evaluate(arg, context, state));
+            try {
+                return state.transforms.apply(node.name, value, args);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new ExpressionError(message, node.position, state.source);
+            }
+        }
     }
-    const transform = parts[1];
-    const [source, ...rest] = path.split('.');
+}
 
-    // Get base value
-    let value: any;
-    switch (source) {
+/**
+ * Look up the base object for a path and return the remaining segments.
+ * `nodes.<id>` consumes the node id and starts at that node's output.
+ */
+function resolveSource(
+    node: PathNode,
+    context: ResolutionContext,
+    source: string,
+): [any, PathSegment[]] {
+    switch (node.source) {
         case 'nodes': {
-            const [nodeId, ...nodePath] = rest;
-            if (!nodeId) {
-                throw new Error('Node ID is required for nodes reference');
+            const [nodeId, ...rest] = node.segments;
+            if (!nodeId || nodeId.kind !== 'property') {
+                throw new ExpressionError('Node ID is required for nodes reference', node.position, source);
             }
-            value = getByPath(context.nodes[nodeId]?.output, nodePath);
-            break;
+            return [context.nodes[nodeId.name]?.output, rest];
         }
         case 'vars':
-            value = getByPath(context.vars, rest);
-            break;
+            return [context.vars, node.segments];
         case 'config':
-            value = getByPath(context.config, rest);
-            break;
+            return [context.config, node.segments];
         case 'input':
-            value = getByPath(context.input, rest);
-            break;
+            return [context.input, node.segments];
         case 'credentials':
-            value = getByPath(context.credentials, rest);
-            break;
+            return [context.credentials, node.segments];
         case 'system':
-            value = getByPath(context.system, rest);
-            break;
+            return [context.system, node.segments];
+        case 'loop':
+            return [context.loop, node.segments];
         default:
-            throw new Error(`Unknown source: ${source}`);
-    }
-
-    // Apply transform
-    if (transform) {
-        value = applyTransform(value, transform);
+            throw new ExpressionError(`Unknown source: ${node.source}`, node.position, source);
     }
+}
 
-    return value;
+function isSecretReference(node: PathNode, secrets: SecretTracker): boolean {
+    if (node.source === 'credentials') return true;
+    const [name] = node.segments;
+    return node.source === 'vars' && name?.kind === 'property' && secrets.isSecretVariable(name.name);
 }
 
-function getByPath(obj: any, path: string[]): any {
-    return path.reduce((acc, key) => acc?.[key], obj);
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
 }
 
-function applyTransform(value: any, transform: string): any {
-    switch (transform) {
-        case 'first': return Array.isArray(value) ? value[0] : value;
-        case 'last': return Array.isArray(value) ? value.at(-1) : value;
-        case 'length': return Array.isArray(value) ? value.length : String(value).length;
-        case 'uppercase': return String(value).toUpperCase();
-        case 'lowercase': return String(value).toLowerCase();
-        case 'json': return JSON.stringify(value);
-        case 'keys': return Object.keys(value);
-        case 'values': return Object.values(value);
-        default: throw new Error(`Unknown transform: ${transform}`);
-    }
-}
\ No newline at end of file
+function stringify(value: any): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
@@ -0,0 +1,175 @@
+// secrets.ts
+import {
+    executionLogEntrySchema,
+    nodeExecutionStateSchema,
+    type ExecutionLogEntry,
+    type NodeExecutionState,
+} from '@w6w/schema';
+import type { Workflow } from './types';
+
+/** Replacement written in place of secret values */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Collects values that came from secret sources during resolution so they can
+ * be redacted before anything is logged or persisted.
+ *
+ * Pass a tracker to `resolveValue`/`resolveConfig` via `{ secrets }`. Every
+ * `credentials.*` reference is secret, as is `vars.<name>` for variables
+ * declared with `isSecret: true`. The value of a `{{ }}` block that reads a
+ * secret is tracked too, so derived values (`{{credentials.key | base64}}`)
+ * are caught.
+ *
+ * Only strings are tracked: booleans and numbers derived from a secret (e.g.
+ * `credentials.token == "x"`) are too common to redact by value.
+ *
+ * @example
+ * const secrets = SecretTracker.forWorkflow(workflow);
+ * const { config } = resolveConfig(node.config, context, { secrets });
+ * const state = redactNodeExecutionState({ ...state, input: config }, secrets);
+ */
+export class SecretTracker {
+    private readonly secretVariables: Set<string>;
+    private readonly values = new Set<string>();
+
+    constructor(options: { secretVariables?: Iterable<string> } = {}) {
+        this.secretVariables = new Set(options.secretVariables);
+    }
+
+    /**
+     * Tracker that treats the workflow's `isSecret` variables as secret
+     */
+    static forWorkflow(workflow: Pick<Workflow, 'vars'>): SecretTracker {
+        const names = Object.entries(workflow.vars ?? {})
+            .filter(([, variable]) => variable.isSecret)
+            .map(([key]) => key);
+        return new SecretTracker({ secretVariables: names });
+    }
+
+    isSecretVariable(name: string): boolean {
+        return this.secretVariables.has(name);
+    }
+
+    /**
+     * Record a secret value; strings nested in objects and arrays are
+     * recorded individually.
+     */
+    track(value: unknown): void {
+        if (typeof value === 'string') {
+            if (value !== '') this.values.add(value);
+        } else if (Array.isArray(value)) {
+            for (const item of value) this.track(item);
+        } else if (typeof value === 'object' && value !== null) {
+            for (const item of Object.values(value)) this.track(item);
+        }
+    }
+
+    /**
+     * Record every value `other` has recorded, e.g. a parent execution's
+     * secrets in a sub-workflow run
+     */
+    trackAll(other: SecretTracker): void {
+        for (const value of other.values) this.values.add(value);
+    }
+
+    has(value: string): boolean {
+        return this.values.has(value);
+    }
+
+    get size(): number {
+        return this.values.size;
+    }
+
+    /**
+     * Copy of `value` with every occurrence of a tracked secret inside its
+     * strings replaced by `[REDACTED]`. Object keys are left untouched.
+     */
+    redact<T>(value: T): T {
+        if (this.values.size === 0) return value;
+        // Longest first, so a secret containing another is replaced whole
+        const secrets = [...this.values].sort((a, b) => b.length - a.length);
+        return redactValue(value, secrets) as T;
+    }
+}
+
+function redactValue(value: unknown, secrets: string[]): unknown {
+    if (typeof value === 'string') {
+        return secrets.reduce((text, secret) => text.replaceAll(secret, REDACTED), value);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, secrets));
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = redactValue(item, secrets);
+        }
+        return result;
+    }
+    return value;
+}
+
+/**
+ * Build a validated log entry with secrets redacted from `message`, `data`
+ * and `error`.
+ *
+ * @throws {ZodError} if the entry does not match `executionLogEntrySchema`
+ */
+export function redactLogEntry(entry: ExecutionLogEntry, secrets: SecretTracker): ExecutionLogEntry {
+    return executionLogEntrySchema.parse({
+        ...entry,
+        message: secrets.redact(entry.message),
+        data: secrets.redact(entry.data),
+        error: secrets.redact(entry.error),
+    });
+}
+
+/**
+ * Build a validated node execution state with secrets redacted from `input`,
+ * `output` and `error`.
+ *
+ * @throws {ZodError} if the state does not match `nodeExecutionStateSchema`
+ */
+export function redactNodeExecutionState(
+    state: NodeExecutionState,
+    secrets: SecretTracker,
+): NodeExecutionState {
+    return nodeExecutionStateSchema.parse({
+        ...state,
+        input: secrets.redact(state.input),
+        output: secrets.redact(state.output),
+        error: secrets.redact(state.error),
+    });
+}
+
+/**
+ * Append-only execution log that redacts every entry as it is written,
+ * against the secrets tracked at that point.
+ *
+ * @example
+ * const log = new ExecutionLogWriter(secrets);
+ * log.write('info', 'Request sent', { nodeId: 'nd_fetch', data: { headers } });
+ * executionLogSchema.parse({ ...record, entries: log.entries });
+ */
+export class ExecutionLogWriter {
+    private readonly written: ExecutionLogEntry[] = [];
+
+    constructor(
+        private readonly secrets: SecretTracker,
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    write(
+        level: ExecutionLogEntry['level'],
+        message: string,
+        details: Pick<ExecutionLogEntry, 'nodeId' | 'data' | 'error'> = {},
+    ): ExecutionLogEntry {
+        const entry = redactLogEntry({ timestamp: this.now(), level, message, ...details }, this.secrets);
+        this.written.push(entry);
+        return entry;
+    }
+
+    get entries(): ExecutionLogEntry[] {
+        return [...this.written];
+    }
+}
@@ -0,0 +1,196 @@
+// semver.ts
+
+/**
+ * Parsed `major.minor.patch[-prerelease]` version. Build metadata (`+...`)
+ * is accepted and ignored.
+ */
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+interface Comparator {
+    operator: '<' | '<=' | '>' | '>=' | '=';
+    version: SemVer;
+}
+
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * @returns `undefined` if `version` is not a full semantic version
+ */
+export function parseVersion(version: string): SemVer | undefined {
+    const match = VERSION.exec(version.trim());
+    if (!match) return undefined;
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : [],
+    };
+}
+
+/**
+ * Negative if `a < b`, positive if `a > b`, zero if equal
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+    return a.major - b.major
+        || a.minor - b.minor
+        || a.patch - b.patch
+        || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+    // A release sorts after its prereleases
+    if (a.length === 0 || b.length === 0) return b.length - a.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const left = a[i];
+        const right = b[i];
+        if (left === undefined) return -1;
+        if (right === undefined) return 1;
+        if (left === right) continue;
+        const leftNumeric = /^\d+$/.test(left);
+        const rightNumeric = /^\d+$/.test(right);
+        if (leftNumeric && rightNumeric) return Number(left) - Number(right);
+        if (leftNumeric) return -1;
+        if (rightNumeric) return 1;
+        return left < right ? -1 : 1;
+    }
+    return 0;
+}
+
+/**
+ * Check `version` against an npm-style range.
+ *
+ * Supports exact versions, comparators (`>=1.2.0 <2.0.0`), caret (`^1.2`),
+ * tilde (`~1.2.3`), x-ranges (`1.x`, `*`), hyphen ranges (`1.0.0 - 1.4.0`)
+ * and `||` alternatives. As with npm, prereleases only match comparators
+ * that name a prerelease of the same `major.minor.patch`.
+ *
+ * @throws {Error} if `range` cannot be parsed
+ */
+export function satisfies(version: string | SemVer, range: string): boolean {
+    const parsed = typeof version === 'string' ? parseVersion(version) : version;
+    if (!parsed) return false;
+    return parseRange(range).some((comparators) =>
+        comparators.every((comparator) => test(parsed, comparator))
+            && (parsed.prerelease.length === 0 || comparators.some((comparator) =>
+                comparator.version.prerelease.length > 0 && sameRelease(comparator.version, parsed))));
+}
+
+/**
+ * Highest of `versions` that satisfies `range`
+ */
+export function maxSatisfying(versions: string[], range: string): string | undefined {
+    let best: { text: string; version: SemVer } | undefined;
+    for (const text of versions) {
+        const version = parseVersion(text);
+        if (!version || !satisfies(version, range)) continue;
+        if (!best || compareVersions(version, best.version) > 0) {
+            best = { text, version };
+        }
+    }
+    return best?.text;
+}
+
+/**
+ * @returns `true` if `range` parses
+ */
+export function isValidRange(range: string): boolean {
+    try {
+        parseRange(range);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function test(version: SemVer, { operator, version: bound }: Comparator): boolean {
+    const order = compareVersions(version, bound);
+    switch (operator) {
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+        case '=': return order === 0;
+    }
+}
+
+function sameRelease(a: SemVer, b: SemVer): boolean {
+    return a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+}
+
+function parseRange(range: string): Comparator[][] {
+    return range.split('||').map((alternative) => {
+        const text = alternative.trim();
+        const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+        if (hyphen) {
+            return [
+                ...expand('>=', hyphen[1] as string, range),
+                ...expand('<=', hyphen[2] as string, range),
+            ];
+        }
+        if (text === '') return [];
+        // Allow a space between an operator and its version: `>= 1.2.0`
+        const tokens = text.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/);
+        return tokens.flatMap((token) => {
+            const match = /^(<=|>=|<|>|=|\^|~)?(.*)$/.exec(token) as RegExpExecArray;
+            return expand(match[1] ?? '', match[2] as string, range);
+        });
+    });
+}
+
+/**
+ * Turn one `operator` + partial version into plain comparators
+ */
+function expand(operator: string, text: string, range: string): Comparator[] {
+    const match = PARTIAL.exec(text);
+    if (!match) {
+        throw new Error(`Invalid version range: ${range}`);
+    }
+    const part = (value: string | undefined) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value));
+    const major = part(match[1]);
+    const minor = major === undefined ? undefined : part(match[2]);
+    const patch = minor === undefined ? undefined : part(match[3]);
+    const prerelease = patch !== undefined && match[4] ? match[4].split('.') : [];
+    const at = (maj: number, min = 0, pat = 0, pre: string[] = []): SemVer => ({ major: maj, minor: min, patch: pat, prerelease: pre });
+    // Lowest prerelease of a version, so `<2.0.0` excludes `2.0.0-beta`
+    const below = (maj: number, min = 0, pat = 0): Comparator => ({ operator: '<', version: at(maj, min, pat, ['0']) });
+
+    if (major === undefined) {
+        return operator === '<' || operator === '>' ? [{ operator: '<', version: at(0, 0, 0, ['0']) }] : [];
+    }
+
+    switch (operator) {
+        case '^': {
+            const lower: Comparator = { operator: '>=', version: at(major, minor, patch, prerelease) };
+            if (major > 0 || minor === undefined) return [lower, below(major + 1)];
+            if (minor > 0 || patch === undefined) return [lower, below(0, minor + 1)];
+            return [lower, below(0, 0, patch + 1)];
+        }
+        case '~': {
+            const lower: Comparator = { operator: '>=', version: at(major, minor, patch, prerelease) };
+            return minor === undefined ? [lower, below(major + 1)] : [lower, below(major, minor + 1)];
+        }
+        case '>':
+            if (minor === undefined) return [{ operator: '>=', version: at(major + 1) }];
+            if (patch === undefined) return [{ operator: '>=', version: at(major, minor + 1) }];
+            return [{ operator: '>', version: at(major, minor, patch, prerelease) }];
+        case '>=':
+            return [{ operator: '>=', version: at(major, minor, patch, prerelease) }];
+        case '<':
+            return [patch === undefined ? below(major, minor) : { operator: '<', version: at(major, minor, patch, prerelease) }];
+        case '<=':
+            if (minor === undefined) return [below(major + 1)];
+            if (patch === undefined) return [below(major, minor + 1)];
+            return [{ operator: '<=', version: at(major, minor, patch, prerelease) }];
+        default:
+            // Plain or `=`: exact when complete, otherwise an x-range
+            if (minor === undefined) return [{ operator: '>=', version: at(major) }, below(major + 1)];
+            if (patch === undefined) return [{ operator: '>=', version: at(major, minor) }, below(major, minor + 1)];
+            return [{ operator: '=', version: at(major, minor, patch, prerelease) }];
+    }
+}
@@ -0,0 +1,128 @@
+// suggestions.ts
+import type { ActionDefinition } from '@w6w/schema';
+import { getUpstreamNodeIds } from './graph';
+import { defaultTransformRegistry, type TransformRegistry } from './transforms';
+import type { Node, Workflow } from './types';
+
+/**
+ * Looks up the action definition a node points to via its
+ * `package`/`app`/`version`/`action` fields.
+ */
+export interface ActionResolver {
+    resolveAction(node: Node): ActionDefinition | undefined;
+}
+
+export type SuggestionKind = 'node' | 'variable' | 'system' | 'transform';
+
+export interface ExpressionSuggestion {
+    /**
+     * Text to insert: a path such as `nodes.nd_fetch.items[0].id` or, for
+     * transforms, the name that goes after `|`
+     */
+    path: string;
+    kind: SuggestionKind;
+    /** Value type, e.g. `string`, `array`; `any` when unknown */
+    type: string;
+    description?: string;
+    /** Upstream node the path reads from (node suggestions only) */
+    nodeId?: string;
+}
+
+const SYSTEM_FIELDS: ExpressionSuggestion[] = [
+    { path: 'system.execution_id', kind: 'system', type: 'string', description: 'ID of the current execution' },
+    { path: 'system.workflow_id', kind: 'system', type: 'string', description: 'ID of the running workflow' },
+    { path: 'system.timestamp', kind: 'system', type: 'number', description: 'Execution start time (Unix ms)' },
+    { path: 'system.environment', kind: 'system', type: 'string', description: '`development` or `production`' },
+];
+
+/** Nested output schemas deeper than this are not expanded */
+const MAX_DEPTH = 5;
+
+/**
+ * List every expression path available while editing `nodeId`'s config:
+ * outputs of upstream nodes (from their action's `outputSchema`), workflow
+ * `vars`, `system` fields and the pipe transforms in `transforms`.
+ *
+ * `outputSchema` may be a JSON Schema object (`{ type: 'object', properties }`)
+ * or a plain map of field name to schema; nested objects and array items are
+ * expanded.
+ *
+ * @example
+ * const suggestions = getExpressionSuggestions(workflow, 'nd_send', registry);
+ * // [{ path: 'nodes.nd_fetch.items', kind: 'node', type: 'array', ... }, ...]
+ */
+export function getExpressionSuggestions(
+    workflow: Workflow,
+    nodeId: string,
+    resolver: ActionResolver,
+    transforms: TransformRegistry = defaultTransformRegistry,
+): ExpressionSuggestion[] {
+    const suggestions: ExpressionSuggestion[] = [];
+    const upstream = getUpstreamNodeIds(workflow.edges, nodeId);
+
+    for (const node of workflow.nodes) {
+        if (!upstream.has(node.id) || node.id === nodeId) continue;
+        const action = resolver.resolveAction(node);
+        const base = `nodes.${node.id}`;
+        suggestions.push({
+            path: base,
+            kind: 'node',
+            type: 'object',
+            description: node.label ?? action?.displayName,
+            nodeId: node.id,
+        });
+        if (action?.outputSchema) {
+            flattenSchema(toProperties(action.outputSchema), base, 0, (path, type, description) =>
+                suggestions.push({ path, kind: 'node', type, description, nodeId: node.id }));
+        }
+    }
+
+    for (const [key, variable] of Object.entries(workflow.vars ?? {})) {
+        suggestions.push({ path: `vars.${key}`, kind: 'variable', type: variable.type, description: variable.description });
+    }
+
+    suggestions.push(...SYSTEM_FIELDS);
+
+    for (const transform of transforms.list()) {
+        suggestions.push({ path: transform.name, kind: 'transform', type: 'transform', description: transform.description });
+    }
+
+    return suggestions;
+}
+
+function flattenSchema(
+    properties: Record<string, any>,
+    prefix: string,
+    depth: number,
+    emit: (path: string, type: string, description?: string) => void,
+): void {
+    if (depth >= MAX_DEPTH) return;
+    for (const [key, schema] of Object.entries(properties)) {
+        const path = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${prefix}.${key}` : `${prefix}[${JSON.stringify(key)}]`;
+        const type = typeOf(schema);
+        emit(path, type, schema?.description);
+        if (typeof schema !== 'object' || schema === null) continue;
+        if (type === 'object') {
+            flattenSchema(toProperties(schema), path, depth + 1, emit);
+        } else if (type === 'array' && typeof schema.items === 'object') {
+            flattenSchema(toProperties(schema.items), `${path}[0]`, depth + 1, emit);
+        }
+    }
+}
+
+function toProperties(schema: Record<string, any>): Record<string, any> {
+    if (schema.type === 'object' || schema.properties) {
+        return schema.properties ?? {};
+    }
+    if (typeof schema.type === 'string') {
+        return {};
+    }
+    return schema;
+}
+
+function typeOf(schema: any): string {
+    if (typeof schema === 'string') return schema;
+    if (typeof schema?.type === 'string') return schema.type;
+    if (schema?.properties) return 'object';
+    return 'any';
+}
@@ -0,0 +1,46 @@
+// index.ts
+import { TransformRegistry, type TransformDefinition } from './registry';
+import { arrayTransforms } from './standard/arrays';
+import { coreTransforms } from './standard/core';
+import { dateTransforms } from './standard/dates';
+import { hashingTransforms } from './standard/hashing';
+import { numberTransforms } from './standard/numbers';
+import { stringTransforms } from './standard/strings';
+
+export { TransformRegistry } from './registry';
+export type { TransformArgument, TransformArgumentType, TransformDefinition } from './registry';
+
+/**
+ * Transforms shipped with the expression language
+ */
+export const standardTransforms: TransformDefinition[] = [
+    ...coreTransforms,
+    ...stringTransforms,
+    ...numberTransforms,
+    ...dateTransforms,
+    ...arrayTransforms,
+    ...hashingTransforms,
+];
+
+/**
+ * Registry used when no `transforms` option is passed to resolution or
+ * suggestion functions. Custom transforms registered here are available
+ * everywhere; use `defaultTransformRegistry.clone()` to extend it locally.
+ */
+export const defaultTransformRegistry = new TransformRegistry(standardTransforms);
+
+/**
+ * Register a transform on the default registry.
+ */
+export function registerTransform(definition: TransformDefinition, options?: { replace?: boolean }): void {
+    defaultTransformRegistry.register(definition, options);
+}
+
+export function applyTransform(
+    value: any,
+    transform: string,
+    args: any[],
+    registry: TransformRegistry = defaultTransformRegistry,
+): any {
+    return registry.apply(transform, value, args);
+}
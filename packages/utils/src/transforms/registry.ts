@@ -0,0 +1,117 @@
+// registry.ts
+
+export type TransformArgumentType = 'string' | 'number' | 'boolean' | 'any';
+
+export interface TransformArgument {
+    name: string;
+    type: TransformArgumentType;
+    required?: boolean;
+    description?: string;
+}
+
+/**
+ * A named pipe transform: `{{ value | name:arg1, arg2 }}`.
+ *
+ * `apply` receives the piped value followed by the arguments, already checked
+ * against `args`.
+ */
+export interface TransformDefinition {
+    name: string;
+    description: string;
+    /** Category used to group transforms in autocomplete, e.g. `string`, `date` */
+    group?: string;
+    args?: TransformArgument[];
+    apply(value: unknown, ...args: unknown[]): unknown;
+}
+
+/**
+ * Named collection of pipe transforms.
+ *
+ * @example
+ * const registry = new TransformRegistry();
+ * registry.register({
+ *     name: 'wrap',
+ *     description: 'Surround with a prefix and suffix',
+ *     args: [{ name: 'prefix', type: 'string', required: true }, { name: 'suffix', type: 'string' }],
+ *     apply: (value, prefix, suffix = prefix) => `${prefix}${value}${suffix}`,
+ * });
+ */
+export class TransformRegistry {
+    private readonly definitions = new Map<string, TransformDefinition>();
+
+    constructor(definitions: TransformDefinition[] = []) {
+        for (const definition of definitions) {
+            this.register(definition);
+        }
+    }
+
+    /**
+     * Add a transform. Registering an existing name throws unless
+     * `replace` is set.
+     */
+    register(definition: TransformDefinition, options: { replace?: boolean } = {}): this {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(definition.name)) {
+            throw new Error(`Invalid transform name: ${definition.name}`);
+        }
+        if (this.definitions.has(definition.name) && !options.replace) {
+            throw new Error(`Transform already registered: ${definition.name}`);
+        }
+        this.definitions.set(definition.name, definition);
+        return this;
+    }
+
+    unregister(name: string): boolean {
+        return this.definitions.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    get(name: string): TransformDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    list(): TransformDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    /**
+     * New registry with the same transforms, for adding call-specific ones
+     * without touching this registry.
+     */
+    clone(): TransformRegistry {
+        return new TransformRegistry(this.list());
+    }
+
+    /**
+     * @throws {Error} for unknown transforms or invalid arguments
+     */
+    apply(name: string, value: unknown, args: unknown[]): unknown {
+        const definition = this.definitions.get(name);
+        if (!definition) {
+            throw new Error(`Unknown transform: ${name}`);
+        }
+        checkArguments(definition, args);
+        return definition.apply(value, ...args);
+    }
+}
+
+function checkArguments(definition: TransformDefinition, args: unknown[]): void {
+    const expected = definition.args ?? [];
+    if (args.length > expected.length) {
+        throw new Error(`Transform '${definition.name}' expects at most ${expected.length} argument(s), got ${args.length}`);
+    }
+    expected.forEach((arg, index) => {
+        const value = args[index];
+        if (value === undefined || value === null) {
+            if (arg.required) {
+                throw new Error(`Transform '${definition.name}' requires argument '${arg.name}'`);
+            }
+            return;
+        }
+        if (arg.type !== 'any' && typeof value !== arg.type) {
+            throw new Error(`Transform '${definition.name}' argument '${arg.name}' must be a ${arg.type}`);
+        }
+    });
+}
@@ -0,0 +1,90 @@
+// arrays.ts
+import type { TransformDefinition } from '../registry';
+
+export const arrayTransforms: TransformDefinition[] = [
+    {
+        name: 'map',
+        group: 'array',
+        description: 'Pick a field from every item: `map:"user.email"`',
+        args: [{ name: 'path', type: 'string', required: true }],
+        apply: (value, path: string) => toArray(value, 'map').map((item) => getPath(item, path)),
+    },
+    {
+        name: 'filter',
+        group: 'array',
+        description: 'Keep items whose field is truthy, or equals a value: `filter:"status","open"`',
+        args: [
+            { name: 'path', type: 'string', required: true },
+            { name: 'equals', type: 'any' },
+        ],
+        apply: (value, path: string, ...rest: unknown[]) => toArray(value, 'filter').filter((item) => {
+            const field = getPath(item, path);
+            return rest.length > 0 ? field === rest[0] : Boolean(field);
+        }),
+    },
+    {
+        name: 'sort',
+        group: 'array',
+        description: 'Sort items, optionally by a field; pass "desc" to reverse: `sort:"createdAt","desc"`',
+        args: [
+            { name: 'path', type: 'string' },
+            { name: 'direction', type: 'string' },
+        ],
+        apply: (value, path?: string, direction: string = 'asc') => {
+            if (direction !== 'asc' && direction !== 'desc') {
+                throw new Error(`Sort direction must be "asc" or "desc", got "${direction}"`);
+            }
+            const sign = direction === 'desc' ? -1 : 1;
+            const key = (item: unknown) => (path ? getPath(item, path) : item);
+            return [...toArray(value, 'sort')].sort((a, b) => sign * compare(key(a), key(b)));
+        },
+    },
+    {
+        name: 'unique',
+        group: 'array',
+        description: 'Drop duplicate items, optionally comparing a field: `unique:"id"`',
+        args: [{ name: 'path', type: 'string' }],
+        apply: (value, path?: string) => {
+            const seen = new Set<unknown>();
+            return toArray(value, 'unique').filter((item) => {
+                const key = path ? getPath(item, path) : item;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+        },
+    },
+    {
+        name: 'join',
+        group: 'array',
+        description: 'Join items into a string (default ","): `join:", "`',
+        args: [{ name: 'separator', type: 'string' }],
+        apply: (value, separator: string = ',') => toArray(value, 'join').join(separator),
+    },
+];
+
+function toArray(value: unknown, transform: string): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`Transform '${transform}' expects an array`);
+    }
+    return value;
+}
+
+/** Read a dot-separated path such as `user.address.city` */
+function getPath(value: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+        value,
+    );
+}
+
+/** Order numbers numerically, everything else as strings; missing values last */
+function compare(a: unknown, b: unknown): number {
+    if (a == null || b == null) {
+        return a == null ? (b == null ? 0 : 1) : -1;
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    return String(a).localeCompare(String(b));
+}
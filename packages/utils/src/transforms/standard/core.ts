@@ -0,0 +1,48 @@
+// core.ts
+import type { TransformDefinition } from '../registry';
+
+export const coreTransforms: TransformDefinition[] = [
+    {
+        name: 'first',
+        group: 'array',
+        description: 'First item of an array',
+        apply: (value) => Array.isArray(value) ? value[0] : value,
+    },
+    {
+        name: 'last',
+        group: 'array',
+        description: 'Last item of an array',
+        apply: (value) => Array.isArray(value) ? value.at(-1) : value,
+    },
+    {
+        name: 'length',
+        group: 'array',
+        description: 'Number of items in an array or characters in a string',
+        apply: (value) => Array.isArray(value) ? value.length : String(value).length,
+    },
+    {
+        name: 'json',
+        group: 'object',
+        description: 'Serialize to a JSON string',
+        apply: (value) => JSON.stringify(value),
+    },
+    {
+        name: 'keys',
+        group: 'object',
+        description: 'Keys of an object',
+        apply: (value) => Object.keys(value ?? {}),
+    },
+    {
+        name: 'values',
+        group: 'object',
+        description: 'Values of an object',
+        apply: (value) => Object.values(value ?? {}),
+    },
+    {
+        name: 'default',
+        group: 'object',
+        description: 'Fallback when the value is null, undefined or empty: `default:"n/a"`',
+        args: [{ name: 'fallback', type: 'any', required: true }],
+        apply: (value, fallback) => value === undefined || value === null || value === '' ? fallback : value,
+    },
+];
@@ -0,0 +1,106 @@
+// dates.ts
+import type { TransformDefinition } from '../registry';
+
+const UNIT_MS: Record<string, number> = {
+    milliseconds: 1,
+    seconds: 1000,
+    minutes: 60 * 1000,
+    hours: 60 * 60 * 1000,
+    days: 24 * 60 * 60 * 1000,
+    weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNITS = [...Object.keys(UNIT_MS), 'months', 'years'];
+
+/**
+ * Date transforms work in UTC. Inputs may be `Date` objects, Unix
+ * milliseconds or any string `Date` can parse (ISO 8601 recommended).
+ */
+export const dateTransforms: TransformDefinition[] = [
+    {
+        name: 'date_format',
+        group: 'date',
+        description: 'Format a date (UTC) with YYYY, MM, DD, HH, mm, ss, SSS tokens: `date_format:"YYYY-MM-DD"`; default ISO 8601',
+        args: [{ name: 'format', type: 'string' }],
+        apply: (value, format?: string) => {
+            const date = toDate(value, 'date_format');
+            return format === undefined ? date.toISOString() : formatDate(date, format);
+        },
+    },
+    {
+        name: 'date_add',
+        group: 'date',
+        description: 'Add an amount of time and return an ISO string: `date_add:7,"days"` (negative to subtract)',
+        args: [
+            { name: 'amount', type: 'number', required: true },
+            { name: 'unit', type: 'string', required: true },
+        ],
+        apply: (value, amount: number, unit: string) =>
+            addToDate(toDate(value, 'date_add'), amount, checkUnit(unit)).toISOString(),
+    },
+    {
+        name: 'date_diff',
+        group: 'date',
+        description: 'Whole units from the value until another date: `date_diff:nodes.nd_due.at,"days"`',
+        args: [
+            { name: 'other', type: 'any', required: true },
+            { name: 'unit', type: 'string' },
+        ],
+        apply: (value, other: unknown, unit: string = 'milliseconds') => {
+            const from = toDate(value, 'date_diff');
+            const to = toDate(other, 'date_diff');
+            return diffDates(from, to, checkUnit(unit));
+        },
+    },
+];
+
+function toDate(value: unknown, transform: string): Date {
+    const date = value instanceof Date ? new Date(value.getTime())
+        : typeof value === 'number' || typeof value === 'string' ? new Date(value)
+        : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+        throw new Error(`Transform '${transform}' expects a date, got ${JSON.stringify(value)}`);
+    }
+    return date;
+}
+
+function checkUnit(unit: string): string {
+    if (!UNITS.includes(unit)) {
+        throw new Error(`Unknown date unit "${unit}" (expected one of: ${UNITS.join(', ')})`);
+    }
+    return unit;
+}
+
+function formatDate(date: Date, format: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getUTCFullYear()),
+        MM: pad(date.getUTCMonth() + 1),
+        DD: pad(date.getUTCDate()),
+        HH: pad(date.getUTCHours()),
+        mm: pad(date.getUTCMinutes()),
+        ss: pad(date.getUTCSeconds()),
+        SSS: pad(date.getUTCMilliseconds(), 3),
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|SSS|ss/g, (token) => tokens[token] ?? token);
+}
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+    if (unit === 'months' || unit === 'years') {
+        date.setUTCMonth(date.getUTCMonth() + (unit === 'years' ? amount * 12 : amount));
+        return date;
+    }
+    return new Date(date.getTime() + amount * (UNIT_MS[unit] ?? 1));
+}
+
+function diffDates(from: Date, to: Date, unit: string): number {
+    if (unit === 'months' || unit === 'years') {
+        let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+        // Drop a partial month, e.g. Jan 31 → Feb 1 is 0 months
+        const shifted = addToDate(new Date(from.getTime()), months, 'months');
+        if (months > 0 && shifted > to) months -= 1;
+        if (months < 0 && shifted < to) months += 1;
+        return unit === 'years' ? Math.trunc(months / 12) : months;
+    }
+    return Math.trunc((to.getTime() - from.getTime()) / (UNIT_MS[unit] ?? 1));
+}
@@ -0,0 +1,26 @@
+// numbers.ts
+import type { TransformDefinition } from '../registry';
+
+export const numberTransforms: TransformDefinition[] = [
+    {
+        name: 'round',
+        group: 'number',
+        description: 'Round to N decimal places (default 0): `round:2`',
+        args: [{ name: 'digits', type: 'number' }],
+        apply: (value, digits: number = 0) => {
+            const factor = 10 ** digits;
+            return Math.round(Number(value) * factor) / factor;
+        },
+    },
+    {
+        name: 'currency',
+        group: 'number',
+        description: 'Format as currency: `currency:"EUR","de-DE"` (default USD, en-US)',
+        args: [
+            { name: 'currency', type: 'string' },
+            { name: 'locale', type: 'string' },
+        ],
+        apply: (value, currency: string = 'USD', locale: string = 'en-US') =>
+            new Intl.NumberFormat(locale, { style: 'currency', currency }).format(Number(value)),
+    },
+];
@@ -0,0 +1,91 @@
+// strings.ts
+import type { TransformDefinition } from '../registry';
+
+export const stringTransforms: TransformDefinition[] = [
+    {
+        name: 'uppercase',
+        group: 'string',
+        description: 'Convert to upper case',
+        apply: (value) => String(value).toUpperCase(),
+    },
+    {
+        name: 'lowercase',
+        group: 'string',
+        description: 'Convert to lower case',
+        apply: (value) => String(value).toLowerCase(),
+    },
+    {
+        name: 'trim',
+        group: 'string',
+        description: 'Remove leading and trailing whitespace',
+        apply: (value) => String(value).trim(),
+    },
+    {
+        name: 'truncate',
+        group: 'string',
+        description: 'Cut a string to at most N characters: `truncate:20`',
+        args: [{ name: 'length', type: 'number', required: true }],
+        apply: (value, length: number) => {
+            const text = String(value);
+            return text.length > length ? text.slice(0, length) : text;
+        },
+    },
+    {
+        name: 'split',
+        group: 'string',
+        description: 'Split a string into an array: `split:","`',
+        args: [{ name: 'separator', type: 'string', required: true }],
+        apply: (value, separator: string) => String(value).split(separator),
+    },
+    {
+        name: 'replace',
+        group: 'string',
+        description: 'Replace every occurrence of a substring: `replace:"-"," "`',
+        args: [
+            { name: 'search', type: 'string', required: true },
+            { name: 'replacement', type: 'string' },
+        ],
+        apply: (value, search: string, replacement: string = '') => String(value).replaceAll(search, replacement),
+    },
+    {
+        name: 'slugify',
+        group: 'string',
+        description: 'URL-friendly lower-case slug: "Hello World!" → "hello-world"',
+        apply: (value) => String(value)
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, ''),
+    },
+    {
+        name: 'base64',
+        group: 'string',
+        description: 'Base64-encode the UTF-8 bytes of a string',
+        apply: (value) => {
+            const bytes = new TextEncoder().encode(String(value));
+            return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+        },
+    },
+    {
+        name: 'base64_decode',
+        group: 'string',
+        description: 'Decode a base64 string as UTF-8',
+        apply: (value) => {
+            const binary = atob(String(value));
+            return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+        },
+    },
+    {
+        name: 'urlencode',
+        group: 'string',
+        description: 'Percent-encode for use in a URL component',
+        apply: (value) => encodeURIComponent(String(value)),
+    },
+    {
+        name: 'urldecode',
+        group: 'string',
+        description: 'Decode a percent-encoded URL component',
+        apply: (value) => decodeURIComponent(String(value)),
+    },
+];
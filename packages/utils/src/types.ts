@@ -0,0 +1,75 @@
+/**
+ * Workflow types used by the utils package
+ *
+ * `workflowSchema` and `nodeSchema` in @w6w/schema are annotated as
+ * `z.ZodObject<any>`, so `z.infer` yields untyped records. Like the editor's
+ * `types/schema.ts`, these interfaces spell out the fields explicitly and
+ * should be kept in sync with the schema package. Edges infer cleanly and are
+ * imported directly.
+ *
+ * Optional fields are kept optional even where the schema applies a default,
+ * so unparsed documents (and the editor's own types) are accepted as-is.
+ */
+import type { Edge } from '@w6w/schema';
+
+export type NodeType = 'trigger' | 'action' | 'transform' | 'condition' | 'loop' | 'merge' | 'subworkflow' | 'approval';
+
+/**
+ * Node in a workflow
+ */
+export interface Node {
+    id: string;
+    type: NodeType;
+    package?: string;
+    app?: string;
+    version?: string;
+    action?: string;
+    label?: string;
+    config?: Record<string, any>;
+    authenticationId?: string;
+    disabled?: boolean;
+    retry?: NodeRetryPolicy;
+    timeoutMs?: number;
+    input?: string[];
+    output?: string[];
+    metadata?: Record<string, any>;
+    /** Form fields of an approval node; see `propertySchema` */
+    properties?: unknown[];
+}
+
+/**
+ * Retry policy of a node; see `retryPolicySchema`
+ */
+export interface NodeRetryPolicy {
+    maxAttempts: number;
+    backoff?: 'fixed' | 'exponential';
+    delayMs?: number;
+    maxDelayMs?: number;
+    jitter?: number;
+    retryOn?: string[];
+}
+
+/**
+ * Workflow-level variable declaration
+ */
+export interface Variable {
+    name: string;
+    type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+    isSecret?: boolean;
+    defaultValue?: unknown;
+    description?: string;
+}
+
+/**
+ * Workflow containing nodes and edges
+ */
+export interface Workflow {
+    id: string;
+    name: string;
+    version: string;
+    nodes: Node[];
+    edges: Edge[];
+    vars?: Record<string, Variable>;
+    timeoutMs?: number;
+    concurrency?: number;
+}